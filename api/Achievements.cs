@@ -0,0 +1,162 @@
+using Microsoft.EntityFrameworkCore;
+
+// ============================================================
+// Achievements (badges for streaks and milestones)
+// - The catalog lives here in code; KidAchievement rows record what a kid earned
+// - Award runs after anything that can earn a badge (task approved, reward
+//   redeemed) and only ever adds badges, never takes them away
+// - Streaks: consecutive days with an approved completion of the same task
+//   (by occurrence day); every task earns its own streak badges
+// - Lifetime points count Earn entries only, so badge bonuses don't feed
+//   back into the points milestones
+// - Bonus points go through PointsLedger (Adjust, Category "Achievement")
+// ============================================================
+
+public enum AchievementRule
+{
+    TasksCompleted = 1,
+    TaskStreakDays = 2,
+    LifetimePoints = 3,
+    RewardsRedeemed = 4
+}
+
+public record AchievementDefinition(
+    string Key,
+    string Name,
+    string Description,
+    string Icon,
+    AchievementRule Rule,
+    int Threshold,
+    int BonusPoints);
+
+public static class Achievements
+{
+    public static readonly IReadOnlyList<AchievementDefinition> Catalog = new[]
+    {
+        new AchievementDefinition("first-task", "First task", "Complete your first task", "🌱", AchievementRule.TasksCompleted, 1, 5),
+        new AchievementDefinition("tasks-50", "Hard worker", "Complete 50 tasks", "💪", AchievementRule.TasksCompleted, 50, 25),
+        new AchievementDefinition("streak-3", "3-day streak", "Do the same task 3 days in a row", "🔥", AchievementRule.TaskStreakDays, 3, 5),
+        new AchievementDefinition("streak-7", "7-day streak", "Do the same task 7 days in a row", "⭐", AchievementRule.TaskStreakDays, 7, 15),
+        new AchievementDefinition("streak-30", "30-day streak", "Do the same task 30 days in a row", "🏆", AchievementRule.TaskStreakDays, 30, 50),
+        new AchievementDefinition("points-100", "100 points", "Earn 100 points from tasks", "💯", AchievementRule.LifetimePoints, 100, 0),
+        new AchievementDefinition("points-1000", "1000 points", "Earn 1000 lifetime points from tasks", "💎", AchievementRule.LifetimePoints, 1000, 50),
+        new AchievementDefinition("redeem-1", "First reward", "Redeem your first reward", "🎁", AchievementRule.RewardsRedeemed, 1, 0),
+        new AchievementDefinition("redeem-5", "Big spender", "Redeem 5 rewards", "🛍️", AchievementRule.RewardsRedeemed, 5, 10),
+    };
+
+    // ------------------------------------------------------------
+    // AwardAsync
+    // - Checks every rule against the kid's saved history and queues the
+    //   badges (+ bonus points) they newly qualify for; the caller saves
+    // - Call after SaveChanges, so the completion / redemption that just
+    //   happened is part of the history
+    // ------------------------------------------------------------
+    public static async Task<List<KidAchievement>> AwardAsync(AppDbContext db, KidProfile kid, DateTime now)
+    {
+        var owned = await db.KidAchievements
+            .Where(a => a.KidId == kid.Id)
+            .Select(a => new { a.AchievementKey, a.TaskId })
+            .ToListAsync();
+
+        bool Has(string key, int? taskId) => owned.Any(o => o.AchievementKey == key && o.TaskId == taskId);
+
+        var completions = await db.TaskCompletions
+            .Where(c => c.KidId == kid.Id && c.Status == TaskCompletionStatus.Approved)
+            .Select(c => new { c.TaskId, c.OccurrenceDate })
+            .ToListAsync();
+
+        var lifetimePoints = await db.PointTransactions
+            .Where(t => t.KidId == kid.Id && t.Type == PointTransactionType.Earn)
+            .SumAsync(t => (int?)t.Delta) ?? 0;
+
+        var redeemed = await db.Redemptions.CountAsync(r => r.KidId == kid.Id && r.Status != RedemptionStatus.Cancelled);
+
+        // Longest run of consecutive occurrence days per task (deleted tasks don't count)
+        var streaks = completions
+            .GroupBy(c => c.TaskId)
+            .ToDictionary(g => g.Key, g => LongestRun(g.Select(c => c.OccurrenceDate)));
+
+        var taskIds = streaks.Keys.ToList();
+        var taskTitles = await db.Tasks
+            .Where(t => taskIds.Contains(t.Id))
+            .ToDictionaryAsync(t => t.Id, t => t.Title);
+
+        var earned = new List<KidAchievement>();
+
+        foreach (var def in Catalog)
+        {
+            if (def.Rule == AchievementRule.TaskStreakDays)
+            {
+                foreach (var (taskId, run) in streaks)
+                {
+                    if (run < def.Threshold || Has(def.Key, taskId)) continue;
+                    if (!taskTitles.TryGetValue(taskId, out var title)) continue;
+
+                    earned.Add(Grant(db, kid, def, taskId, $"{def.Name}: {title}", now));
+                }
+
+                continue;
+            }
+
+            var progress = def.Rule switch
+            {
+                AchievementRule.TasksCompleted => completions.Count,
+                AchievementRule.LifetimePoints => lifetimePoints,
+                AchievementRule.RewardsRedeemed => redeemed,
+                _ => 0
+            };
+
+            if (progress >= def.Threshold && !Has(def.Key, null))
+                earned.Add(Grant(db, kid, def, null, def.Name, now));
+        }
+
+        return earned;
+    }
+
+    private static KidAchievement Grant(AppDbContext db, KidProfile kid, AchievementDefinition def, int? taskId, string title, DateTime now)
+    {
+        var achievement = new KidAchievement
+        {
+            KidId = kid.Id,
+            AchievementKey = def.Key,
+            TaskId = taskId,
+            Title = title,
+            Icon = def.Icon,
+            BonusPoints = def.BonusPoints,
+            EarnedAtUtc = now
+        };
+
+        db.KidAchievements.Add(achievement);
+
+        if (def.BonusPoints > 0)
+        {
+            PointsLedger.Post(db, kid, new PointTransaction
+            {
+                Type = PointTransactionType.Adjust,
+                Delta = def.BonusPoints,
+                Category = "Achievement",
+                Note = $"Badge earned: {title}",
+                CreatedAtUtc = now
+            });
+        }
+
+        return achievement;
+    }
+
+    // Longest run of consecutive calendar days
+    private static int LongestRun(IEnumerable<DateTime> days)
+    {
+        var longest = 0;
+        var run = 0;
+        DateTime? previous = null;
+
+        foreach (var day in days.Select(d => d.Date).Distinct().OrderBy(d => d))
+        {
+            run = previous is not null && (day - previous.Value).Days == 1 ? run + 1 : 1;
+            longest = Math.Max(longest, run);
+            previous = day;
+        }
+
+        return longest;
+    }
+}
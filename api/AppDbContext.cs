@@ -13,8 +13,28 @@ public class AppDbContext : DbContext
     // Constructor
     // - DbContextOptions contains the configured provider + connection string
     // - Program.cs registers this with UseSqlite(...)
+    // - FamilyEventHub: live updates announced after each save (FamilyEvents.cs)
     // ------------------------------------------------------------
-    public AppDbContext(DbContextOptions<AppDbContext> options) : base(options) { }
+    private readonly FamilyEventHub events;
+
+    public AppDbContext(DbContextOptions<AppDbContext> options, FamilyEventHub events) : base(options)
+    {
+        this.events = events;
+    }
+
+    // ------------------------------------------------------------
+    // SaveChangesAsync
+    // - Same save; afterwards open screens of the family hear what changed
+    //   (only after it's stored, so listeners re-read the new data)
+    // ------------------------------------------------------------
+    public override async Task<int> SaveChangesAsync(bool acceptAllChangesOnSuccess, CancellationToken cancellationToken = default)
+    {
+        var changes = await FamilyEventHub.CollectAsync(this);
+        var result = await base.SaveChangesAsync(acceptAllChangesOnSuccess, cancellationToken);
+
+        events.Publish(changes);
+        return result;
+    }
 
     // ------------------------------------------------------------
     // DbSets = Tables (or collections) EF Core tracks
@@ -29,9 +49,31 @@ public class AppDbContext : DbContext
     public DbSet<TodoItem> Todos => Set<TodoItem>();
     public DbSet<AppUser> Users => Set<AppUser>();
 
+    // Families (shared by co-parents) + pending co-parent invites
+    public DbSet<Household> Households => Set<Household>();
+    public DbSet<HouseholdInvite> HouseholdInvites => Set<HouseholdInvite>();
+
+    // Shared kid tablets (kids sign in there without a parent token)
+    public DbSet<SharedDevice> SharedDevices => Set<SharedDevice>();
+
+    // Parent refresh tokens (hashed, rotated on use)
+    public DbSet<RefreshToken> RefreshTokens => Set<RefreshToken>();
+
     // Ledger table: records every points earn/spend event
     public DbSet<PointTransaction> PointTransactions => Set<PointTransaction>();
 
+    // One row per completed task occurrence (recurring tasks complete many times)
+    public DbSet<TaskCompletion> TaskCompletions => Set<TaskCompletion>();
+
+    // Badges kids earned (streaks, milestones)
+    public DbSet<KidAchievement> KidAchievements => Set<KidAchievement>();
+
+    // Allowance cash outs (points -> money)
+    public DbSet<Payout> Payouts => Set<Payout>();
+
+    // Stored responses for retried requests (offline outbox replays)
+    public DbSet<IdempotencyRecord> IdempotencyRecords => Set<IdempotencyRecord>();
+
     // ------------------------------------------------------------
     // OnModelCreating
     // - This is where we override EF Core "conventions" when needed.
@@ -99,6 +141,25 @@ public class AppDbContext : DbContext
                   .HasForeignKey(x => x.RedemptionId)
                   .OnDelete(DeleteBehavior.SetNull);
 
+            // -----------------------------
+            // Optional Relationship: PointTransaction -> TaskCompletion
+            // - Ties an Earn to the specific day of a recurring task
+            // - SetNull keeps the ledger if the completion goes away
+            // -----------------------------
+            entity.HasOne(x => x.TaskCompletion)
+                  .WithMany()
+                  .HasForeignKey(x => x.TaskCompletionId)
+                  .OnDelete(DeleteBehavior.SetNull);
+
+            // -----------------------------
+            // Optional Relationship: PointTransaction -> Payout
+            // - Ties an allowance Spend to the money that was paid out
+            // -----------------------------
+            entity.HasOne(x => x.Payout)
+                  .WithMany()
+                  .HasForeignKey(x => x.PayoutId)
+                  .OnDelete(DeleteBehavior.SetNull);
+
             // -----------------------------
             // Indexes (performance)
             // - KidId index speeds up "show history for this kid"
@@ -108,6 +169,143 @@ public class AppDbContext : DbContext
             entity.HasIndex(x => new { x.KidId, x.CreatedAtUtc });
         });
 
+        // ============================================================
+        // TaskCompletion (per-occurrence completion record)
+        // - A recurring task ("Brush Teeth", daily) completes once per day
+        // - Deleting the task removes its completions (ledger keeps its Note)
+        // - (TaskId, OccurrenceDate) is unique: one completion per day
+        // ============================================================
+
+        modelBuilder.Entity<TaskCompletion>(entity =>
+        {
+            entity.HasKey(x => x.Id);
+
+            entity.Property(x => x.KidId).IsRequired();
+
+            entity.HasOne(x => x.Task)
+                  .WithMany()
+                  .HasForeignKey(x => x.TaskId)
+                  .OnDelete(DeleteBehavior.Cascade);
+
+            entity.HasIndex(x => new { x.TaskId, x.OccurrenceDate }).IsUnique();
+            entity.HasIndex(x => x.KidId);
+        });
+
+        // ============================================================
+        // Redemption (reward bought with points)
+        // - Pending until the parent fulfills or cancels it
+        // - Parents' inbox filters by kid + status
+        // ============================================================
+
+        modelBuilder.Entity<Redemption>(entity =>
+        {
+            entity.HasKey(x => x.Id);
+
+            entity.Property(x => x.KidId).IsRequired();
+            entity.Property(x => x.RewardName).IsRequired();
+
+            entity.HasIndex(x => new { x.KidId, x.Status });
+        });
+
+        // ============================================================
+        // RefreshToken (parent sessions)
+        // - Looked up by hash on every refresh -> unique index
+        // - SessionId groups the rotations of one login (revoke together)
+        // ============================================================
+
+        modelBuilder.Entity<RefreshToken>(entity =>
+        {
+            entity.HasKey(x => x.Id);
+
+            entity.Property(x => x.UserId).IsRequired();
+            entity.Property(x => x.SessionId).IsRequired();
+            entity.Property(x => x.TokenHash).IsRequired();
+
+            entity.HasIndex(x => x.TokenHash).IsUnique();
+            entity.HasIndex(x => x.SessionId);
+            entity.HasIndex(x => x.UserId);
+        });
+
+        // ============================================================
+        // HouseholdInvite (co-parent invite codes)
+        // - Codes are typed in by hand -> unique lookup index
+        // ============================================================
+
+        modelBuilder.Entity<HouseholdInvite>(entity =>
+        {
+            entity.HasKey(x => x.Id);
+
+            entity.Property(x => x.HouseholdId).IsRequired();
+            entity.Property(x => x.Code).IsRequired();
+
+            entity.HasIndex(x => x.Code).IsUnique();
+            entity.HasIndex(x => x.HouseholdId);
+        });
+
+        // ============================================================
+        // SharedDevice (kid sign-in tablets)
+        // - Looked up by token hash on every device request -> unique index
+        // ============================================================
+
+        modelBuilder.Entity<SharedDevice>(entity =>
+        {
+            entity.HasKey(x => x.Id);
+
+            entity.Property(x => x.HouseholdId).IsRequired();
+            entity.Property(x => x.TokenHash).IsRequired();
+
+            entity.HasIndex(x => x.TokenHash).IsUnique();
+            entity.HasIndex(x => x.HouseholdId);
+        });
+
+        // ============================================================
+        // KidAchievement (earned badges)
+        // - A badge is earned once per kid (per task for streak badges)
+        // ============================================================
+
+        modelBuilder.Entity<KidAchievement>(entity =>
+        {
+            entity.HasKey(x => x.Id);
+
+            entity.Property(x => x.KidId).IsRequired();
+            entity.Property(x => x.AchievementKey).IsRequired();
+
+            entity.HasIndex(x => new { x.KidId, x.AchievementKey, x.TaskId }).IsUnique();
+        });
+
+        // ============================================================
+        // Payout (allowance cash out)
+        // - History + monthly totals are listed per kid, newest first
+        // ============================================================
+
+        modelBuilder.Entity<Payout>(entity =>
+        {
+            entity.HasKey(x => x.Id);
+
+            entity.Property(x => x.KidId).IsRequired();
+            entity.Property(x => x.Currency).IsRequired();
+
+            entity.HasIndex(x => new { x.KidId, x.PaidAtUtc });
+        });
+
+        // ============================================================
+        // IdempotencyRecord (Idempotency-Key responses)
+        // - One row per caller + key -> unique index (a concurrent duplicate
+        //   fails to insert instead of being stored twice)
+        // ============================================================
+
+        modelBuilder.Entity<IdempotencyRecord>(entity =>
+        {
+            entity.HasKey(x => x.Id);
+
+            entity.Property(x => x.SubjectId).IsRequired();
+            entity.Property(x => x.Key).IsRequired();
+            entity.Property(x => x.RequestPath).IsRequired();
+
+            entity.HasIndex(x => new { x.SubjectId, x.Key }).IsUnique();
+            entity.HasIndex(x => new { x.SubjectId, x.CreatedAtUtc });
+        });
+
         // ------------------------------------------------------------
         // NOTE:
         // The rest of my models rely on EF Core conventions:
@@ -0,0 +1,161 @@
+using System.Globalization;
+using System.Text;
+using System.Text.Json;
+using System.Text.RegularExpressions;
+
+// ============================================================
+// Exports (CSV / JSON downloads of one kid's data)
+// - Each dataset has ONE column list; CSV headers and JSON keys both come
+//   from it, so the two formats always agree
+// - Columns are a contract (spreadsheets, scripts): only ever append new
+//   ones at the end, never rename or reorder
+// - Dates are ISO 8601 UTC, numbers use the invariant culture, enums
+//   their names ("Earn", "Approved", ...)
+// - CSV text starting with = + - @ gets a leading ' so spreadsheet apps
+//   don't run it as a formula
+// ============================================================
+
+public record ExportColumn<T>(string Name, Func<T, object?> Value);
+
+// Ledger entry + the balance right after it (same walk as the history page)
+public record PointExportRow(PointHistoryItem Entry, int BalanceAfter);
+
+public record TaskExportRow(
+    int CompletionId,
+    int TaskId,
+    string TaskTitle,
+    DateTime OccurrenceDate,
+    DateTime CompletedAtUtc,
+    TaskCompletionStatus Status,
+    int PointsEarned,
+    DateTime? ReviewedAtUtc,
+    string? RejectionReason);
+
+public static class Exports
+{
+    public static readonly IReadOnlyList<ExportColumn<PointExportRow>> PointColumns = new[]
+    {
+        new ExportColumn<PointExportRow>("id", r => r.Entry.Id),
+        new ExportColumn<PointExportRow>("created_at_utc", r => r.Entry.CreatedAtUtc),
+        new ExportColumn<PointExportRow>("type", r => r.Entry.Type),
+        new ExportColumn<PointExportRow>("delta", r => r.Entry.Delta),
+        new ExportColumn<PointExportRow>("balance_after", r => r.BalanceAfter),
+        new ExportColumn<PointExportRow>("note", r => r.Entry.Note),
+        new ExportColumn<PointExportRow>("category", r => r.Entry.Category),
+        new ExportColumn<PointExportRow>("task_id", r => r.Entry.TaskId),
+        new ExportColumn<PointExportRow>("task_title", r => r.Entry.TaskTitle),
+        new ExportColumn<PointExportRow>("occurrence_date", r => r.Entry.OccurrenceDate),
+        new ExportColumn<PointExportRow>("redemption_id", r => r.Entry.RedemptionId),
+        new ExportColumn<PointExportRow>("reward_name", r => r.Entry.RewardName),
+        new ExportColumn<PointExportRow>("payout_id", r => r.Entry.PayoutId),
+        new ExportColumn<PointExportRow>("by_parent", r => r.Entry.ActorName),
+    };
+
+    public static readonly IReadOnlyList<ExportColumn<TaskExportRow>> TaskColumns = new[]
+    {
+        new ExportColumn<TaskExportRow>("completion_id", r => r.CompletionId),
+        new ExportColumn<TaskExportRow>("task_id", r => r.TaskId),
+        new ExportColumn<TaskExportRow>("task_title", r => r.TaskTitle),
+        new ExportColumn<TaskExportRow>("occurrence_date", r => r.OccurrenceDate),
+        new ExportColumn<TaskExportRow>("completed_at_utc", r => r.CompletedAtUtc),
+        new ExportColumn<TaskExportRow>("status", r => r.Status),
+        new ExportColumn<TaskExportRow>("points_earned", r => r.PointsEarned),
+        new ExportColumn<TaskExportRow>("reviewed_at_utc", r => r.ReviewedAtUtc),
+        new ExportColumn<TaskExportRow>("rejection_reason", r => r.RejectionReason),
+    };
+
+    public static readonly IReadOnlyList<ExportColumn<Redemption>> RedemptionColumns = new[]
+    {
+        new ExportColumn<Redemption>("id", r => r.Id),
+        new ExportColumn<Redemption>("redeemed_at_utc", r => r.RedeemedAt),
+        new ExportColumn<Redemption>("reward_id", r => r.RewardId),
+        new ExportColumn<Redemption>("reward_name", r => r.RewardName),
+        new ExportColumn<Redemption>("cost", r => r.Cost),
+        new ExportColumn<Redemption>("status", r => r.Status),
+        new ExportColumn<Redemption>("fulfilled_at_utc", r => r.FulfilledAtUtc),
+        new ExportColumn<Redemption>("cancelled_at_utc", r => r.CancelledAtUtc),
+    };
+
+    // ------------------------------------------------------------
+    // File
+    // - Builds the download (format "csv" or "json")
+    // - JSON: { kidName, dataset, fromDate, toDate, generatedAtUtc, columns, rows }
+    //   with one object per row, keyed by column name
+    // ------------------------------------------------------------
+    public static IResult File<T>(
+        string format,
+        string dataset,
+        KidProfile kid,
+        DateTime? from,
+        DateTime? to,
+        IReadOnlyList<ExportColumn<T>> columns,
+        IEnumerable<T> rows)
+    {
+        var fileName = $"{Slug(kid.DisplayName)}-{dataset}-{RangeLabel(from, to)}.{format}";
+
+        if (format == "json")
+        {
+            var document = new
+            {
+                kidName = kid.DisplayName,
+                dataset,
+                fromDate = from?.ToString("yyyy-MM-dd", CultureInfo.InvariantCulture),
+                toDate = to?.ToString("yyyy-MM-dd", CultureInfo.InvariantCulture),
+                generatedAtUtc = Format(DateTime.UtcNow),
+                columns = columns.Select(c => c.Name).ToList(),
+                rows = rows.Select(row => columns.ToDictionary(c => c.Name, c => JsonValue(c.Value(row)))).ToList()
+            };
+
+            var json = JsonSerializer.SerializeToUtf8Bytes(document, new JsonSerializerOptions { WriteIndented = true });
+            return Results.File(json, "application/json", fileName);
+        }
+
+        var csv = new StringBuilder();
+        csv.AppendLine(string.Join(",", columns.Select(c => c.Name)));
+        foreach (var row in rows)
+            csv.AppendLine(string.Join(",", columns.Select(c => CsvCell(c.Value(row)))));
+
+        // BOM so Excel opens the file as UTF-8
+        var bytes = Encoding.UTF8.GetPreamble().Concat(Encoding.UTF8.GetBytes(csv.ToString())).ToArray();
+        return Results.File(bytes, "text/csv", fileName);
+    }
+
+    private static string Format(DateTime value) =>
+        value.ToString("yyyy-MM-dd'T'HH:mm:ss'Z'", CultureInfo.InvariantCulture);
+
+    private static object? JsonValue(object? value) => value switch
+    {
+        DateTime d => Format(d),
+        Enum e => e.ToString(),
+        _ => value
+    };
+
+    private static string CsvCell(object? value)
+    {
+        var text = value switch
+        {
+            null => "",
+            DateTime d => Format(d),
+            IFormattable f => f.ToString(null, CultureInfo.InvariantCulture),
+            _ => value.ToString() ?? ""
+        };
+
+        if (value is string && text.Length > 0 && "=+-@".Contains(text[0])) text = "'" + text;
+
+        return text.IndexOfAny(new[] { ',', '"', '\n', '\r' }) >= 0
+            ? $"\"{text.Replace("\"", "\"\"")}\""
+            : text;
+    }
+
+    private static string RangeLabel(DateTime? from, DateTime? to) =>
+        from is null && to is null
+            ? "all"
+            : $"{from?.ToString("yyyy-MM-dd", CultureInfo.InvariantCulture) ?? "start"}-to-{to?.ToString("yyyy-MM-dd", CultureInfo.InvariantCulture) ?? "now"}";
+
+    // "Mia Rose" -> "mia-rose" (file names)
+    public static string Slug(string name, string fallback = "kid")
+    {
+        var slug = Regex.Replace(name.ToLowerInvariant(), "[^a-z0-9]+", "-").Trim('-');
+        return slug.Length == 0 ? fallback : slug;
+    }
+}
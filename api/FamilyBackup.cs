@@ -0,0 +1,543 @@
+using System.Text.Json;
+using System.Text.Json.Serialization;
+using Microsoft.EntityFrameworkCore;
+
+// ============================================================
+// FamilyBackup (full family archive: backup + restore)
+// - Backup: one JSON document with everything a family owns (settings,
+//   kids, tasks + completions, rewards + redemptions, payouts, ledger,
+//   badges, todos), tagged with Format + SchemaVersion
+// - Restore: validates the tag and every reference inside the archive,
+//   then re-creates the rows under the CALLER's household with fresh ids
+//   (old ids only live in the maps below) -> other families can't be
+//   touched, and restoring never overwrites existing rows
+// - Into an empty family the settings (name, approval, allowance) come
+//   back too; into a family that already has data they're left alone and
+//   the archive's kids are added next to the existing ones
+// - Not in the archive: parent accounts, sessions, devices, PINs and kid
+//   sign-in secrets (kids set their PIN / pictures again)
+// - Balances are copied together with the ledger rows they came from, so
+//   the two still agree without going through PointsLedger
+// - SchemaVersion: bump when a field changes meaning or goes away; new
+//   optional fields can be added without a bump
+// ============================================================
+
+public record BackupFamily(
+    string Name,
+    bool RequireTaskApproval,
+    int? AllowancePoints,
+    int? AllowanceAmountCents,
+    string? AllowanceCurrency,
+    string? TimeZone = null);
+
+public record BackupKid(
+    string Id,
+    string DisplayName,
+    string Avatar,
+    string Color,
+    int PointsBalance,
+    bool IsArchived,
+    int? GoalRewardId,
+    bool GoalLocksPoints);
+
+public record BackupTask(
+    int Id,
+    string Title,
+    int Points,
+    string AssignedKidId,
+    bool IsComplete,
+    DateTime? CompletedAt,
+    TaskRecurrence Recurrence,
+    int RecurrenceDays,
+    DateTime? StartDate,
+    DateTime? OccurrenceDate,
+    bool RequiresApproval,
+    bool IsPendingApproval,
+    string? RejectionReason,
+    DateTime? DueAtUtc,
+    int? DueMinutes,
+    int? LatePointsPercent,
+    int? MissedPenalty,
+    DateTime? ExpiredAtUtc);
+
+public record BackupTaskCompletion(
+    int Id,
+    int TaskId,
+    string KidId,
+    DateTime OccurrenceDate,
+    DateTime CompletedAtUtc,
+    TaskCompletionStatus Status,
+    DateTime? ReviewedAtUtc,
+    string? ReviewedByParentId,
+    string? RejectionReason);
+
+public record BackupReward(int Id, string Name, int Cost, int? Stock, int? MaxPerDay, int? MaxPerWeek, int? CooldownHours);
+
+public record BackupRedemption(
+    int Id,
+    string KidId,
+    int RewardId,
+    string RewardName,
+    int Cost,
+    RedemptionStatus Status,
+    DateTime RedeemedAt,
+    DateTime? FulfilledAtUtc,
+    DateTime? CancelledAtUtc);
+
+public record BackupPayout(
+    int Id,
+    string KidId,
+    int Points,
+    int AmountCents,
+    string Currency,
+    string? Note,
+    string? ActorUserId,
+    DateTime PaidAtUtc);
+
+public record BackupPointTransaction(
+    int Id,
+    string KidId,
+    PointTransactionType Type,
+    int Delta,
+    int? TaskId,
+    int? RedemptionId,
+    int? TaskCompletionId,
+    int? PayoutId,
+    string Note,
+    string? Category,
+    string? ActorUserId,
+    DateTime CreatedAtUtc);
+
+public record BackupAchievement(
+    string KidId,
+    string AchievementKey,
+    int? TaskId,
+    string Title,
+    string Icon,
+    int BonusPoints,
+    DateTime EarnedAtUtc,
+    DateTime? SeenAtUtc);
+
+public record BackupTodo(string Title, bool IsDone, string? AssignedKidId);
+
+public record BackupArchive(
+    string Format,
+    int SchemaVersion,
+    DateTime CreatedAtUtc,
+    BackupFamily Family,
+    List<BackupKid>? Kids,
+    List<BackupTask>? Tasks,
+    List<BackupTaskCompletion>? TaskCompletions,
+    List<BackupReward>? Rewards,
+    List<BackupRedemption>? Redemptions,
+    List<BackupPayout>? Payouts,
+    List<BackupPointTransaction>? PointTransactions,
+    List<BackupAchievement>? Achievements,
+    List<BackupTodo>? Todos);
+
+public record RestoreResponse(
+    int Kids,
+    int Tasks,
+    int Rewards,
+    int Redemptions,
+    int LedgerEntries,
+    int Todos,
+    bool SettingsRestored);
+
+public static class FamilyBackup
+{
+    public const string Format = "kids-rewards-backup";
+    public const int SchemaVersion = 1;
+
+    // Same shape the API uses (camelCase, enums by name), indented for humans
+    public static readonly JsonSerializerOptions JsonOptions = new(JsonSerializerDefaults.Web)
+    {
+        WriteIndented = true,
+        Converters = { new JsonStringEnumConverter() }
+    };
+
+    // ------------------------------------------------------------
+    // CreateAsync
+    // - Everything owned by one household (kids' rows by kid id)
+    // ------------------------------------------------------------
+    public static async Task<BackupArchive> CreateAsync(AppDbContext db, Household household)
+    {
+        var kids = await db.Kids.Where(k => k.HouseholdId == household.Id).OrderBy(k => k.DisplayName).ToListAsync();
+        var kidIds = kids.Select(k => k.Id).ToList();
+
+        return new BackupArchive(
+            Format,
+            SchemaVersion,
+            DateTime.UtcNow,
+            new BackupFamily(
+                household.Name,
+                household.RequireTaskApproval,
+                household.AllowancePoints,
+                household.AllowanceAmountCents,
+                household.AllowanceCurrency,
+                household.TimeZone),
+            kids.Select(k => new BackupKid(
+                k.Id, k.DisplayName, k.Avatar, k.Color, k.PointsBalance, k.IsArchived, k.GoalRewardId, k.GoalLocksPoints)).ToList(),
+            await db.Tasks
+                .Where(t => t.HouseholdId == household.Id)
+                .OrderBy(t => t.Id)
+                .Select(t => new BackupTask(
+                    t.Id, t.Title, t.Points, t.AssignedKidId, t.IsComplete, t.CompletedAt,
+                    t.Recurrence, t.RecurrenceDays, t.StartDate, t.OccurrenceDate,
+                    t.RequiresApproval, t.IsPendingApproval, t.RejectionReason,
+                    t.DueAtUtc, t.DueMinutes, t.LatePointsPercent, t.MissedPenalty, t.ExpiredAtUtc))
+                .ToListAsync(),
+            await db.TaskCompletions
+                .Where(c => kidIds.Contains(c.KidId))
+                .OrderBy(c => c.Id)
+                .Select(c => new BackupTaskCompletion(
+                    c.Id, c.TaskId, c.KidId, c.OccurrenceDate, c.CompletedAtUtc, c.Status,
+                    c.ReviewedAtUtc, c.ReviewedByParentId, c.RejectionReason))
+                .ToListAsync(),
+            await db.Rewards
+                .Where(r => r.HouseholdId == household.Id)
+                .OrderBy(r => r.Id)
+                .Select(r => new BackupReward(r.Id, r.Name, r.Cost, r.Stock, r.MaxPerDay, r.MaxPerWeek, r.CooldownHours))
+                .ToListAsync(),
+            await db.Redemptions
+                .Where(r => kidIds.Contains(r.KidId))
+                .OrderBy(r => r.Id)
+                .Select(r => new BackupRedemption(
+                    r.Id, r.KidId, r.RewardId, r.RewardName, r.Cost, r.Status, r.RedeemedAt, r.FulfilledAtUtc, r.CancelledAtUtc))
+                .ToListAsync(),
+            await db.Payouts
+                .Where(p => kidIds.Contains(p.KidId))
+                .OrderBy(p => p.Id)
+                .Select(p => new BackupPayout(p.Id, p.KidId, p.Points, p.AmountCents, p.Currency, p.Note, p.ActorUserId, p.PaidAtUtc))
+                .ToListAsync(),
+            await db.PointTransactions
+                .Where(t => kidIds.Contains(t.KidId))
+                .OrderBy(t => t.Id)
+                .Select(t => new BackupPointTransaction(
+                    t.Id, t.KidId, t.Type, t.Delta, t.TaskId, t.RedemptionId, t.TaskCompletionId, t.PayoutId,
+                    t.Note, t.Category, t.ActorUserId, t.CreatedAtUtc))
+                .ToListAsync(),
+            await db.KidAchievements
+                .Where(a => kidIds.Contains(a.KidId))
+                .OrderBy(a => a.Id)
+                .Select(a => new BackupAchievement(
+                    a.KidId, a.AchievementKey, a.TaskId, a.Title, a.Icon, a.BonusPoints, a.EarnedAtUtc, a.SeenAtUtc))
+                .ToListAsync(),
+            await db.Todos
+                .Where(t => t.HouseholdId == household.Id)
+                .OrderBy(t => t.Id)
+                .Select(t => new BackupTodo(t.Title, t.IsDone, t.AssignedKidId))
+                .ToListAsync());
+    }
+
+    // ------------------------------------------------------------
+    // Validate
+    // - Format/version tag, required fields, unique ids per section and
+    //   references between the archive's own rows
+    // - Everything RestoreAsync relies on is checked here, so a hand-edited
+    //   file gets a 400 with the first problem instead of failing mid-restore
+    // - Returns the first problem (null = OK); nothing is written on failure
+    // ------------------------------------------------------------
+    public static string? Validate(BackupArchive? archive)
+    {
+        if (archive is null || archive.Format != Format) return "This file isn't a family backup.";
+        if (archive.SchemaVersion > SchemaVersion)
+            return $"This backup was made by a newer version of the app (schema {archive.SchemaVersion}). Update the app, then restore again.";
+        if (archive.SchemaVersion < 1) return $"Unsupported backup schema version {archive.SchemaVersion}.";
+        if (archive.Family is null) return "The backup has no family section.";
+
+        var kids = archive.Kids ?? new();
+        var tasks = archive.Tasks ?? new();
+        var completions = archive.TaskCompletions ?? new();
+        var rewards = archive.Rewards ?? new();
+        var redemptions = archive.Redemptions ?? new();
+        var payouts = archive.Payouts ?? new();
+        var ledger = archive.PointTransactions ?? new();
+        var achievements = archive.Achievements ?? new();
+        var todos = archive.Todos ?? new();
+
+        if (kids.Contains(null!) || tasks.Contains(null!) || completions.Contains(null!) || rewards.Contains(null!) ||
+            redemptions.Contains(null!) || payouts.Contains(null!) || ledger.Contains(null!) ||
+            achievements.Contains(null!) || todos.Contains(null!))
+            return "The backup has empty entries.";
+
+        // ---- Required fields (NOT NULL columns) ----
+        static bool Blank(string? value) => string.IsNullOrWhiteSpace(value);
+
+        if (kids.Any(k => Blank(k.Id) || Blank(k.DisplayName))) return "Every kid needs an id and a name.";
+        if (tasks.Any(t => Blank(t.Title) || Blank(t.AssignedKidId))) return "Every task needs a title and a kid.";
+        if (completions.Any(c => Blank(c.KidId))) return "Every task completion needs a kid.";
+        if (rewards.Any(r => Blank(r.Name))) return "Every reward needs a name.";
+        if (redemptions.Any(r => Blank(r.KidId) || Blank(r.RewardName))) return "Every redemption needs a kid and a reward name.";
+        if (payouts.Any(p => Blank(p.KidId) || Blank(p.Currency))) return "Every payout needs a kid and a currency.";
+        if (ledger.Any(t => Blank(t.KidId) || t.Note is null)) return "Every ledger entry needs a kid and a note.";
+        if (achievements.Any(a => Blank(a.KidId) || Blank(a.AchievementKey) || a.Title is null || a.Icon is null))
+            return "Every badge needs a kid, a key, a title and an icon.";
+        if (todos.Any(t => Blank(t.Title))) return "Every todo needs a title.";
+
+        if (tasks.Any(t => !Enum.IsDefined(t.Recurrence))) return "A task has an unknown recurrence.";
+        if (completions.Any(c => !Enum.IsDefined(c.Status))) return "A task completion has an unknown status.";
+        if (redemptions.Any(r => !Enum.IsDefined(r.Status))) return "A redemption has an unknown status.";
+        if (ledger.Any(t => !Enum.IsDefined(t.Type))) return "A ledger entry has an unknown type.";
+
+        // ---- Unique ids (rows are matched up by them) ----
+        static bool Duplicates<T>(IEnumerable<T> ids) => ids.GroupBy(id => id).Any(g => g.Count() > 1);
+
+        if (Duplicates(kids.Select(k => k.Id))) return "Kid ids must be unique.";
+        if (Duplicates(tasks.Select(t => t.Id))) return "Task ids must be unique.";
+        if (Duplicates(completions.Select(c => c.Id))) return "Task completion ids must be unique.";
+        if (Duplicates(rewards.Select(r => r.Id))) return "Reward ids must be unique.";
+        if (Duplicates(redemptions.Select(r => r.Id))) return "Redemption ids must be unique.";
+        if (Duplicates(payouts.Select(p => p.Id))) return "Payout ids must be unique.";
+
+        // Unique indexes on the tables themselves
+        if (Duplicates(completions.Select(c => (c.TaskId, c.OccurrenceDate))))
+            return "A task has two completions for the same day.";
+        if (Duplicates(achievements.Select(a => (a.KidId, a.AchievementKey, a.TaskId))))
+            return "A kid has the same badge twice.";
+
+        // ---- References inside the archive ----
+        var kidIds = kids.Select(k => k.Id).ToHashSet();
+        var taskIds = tasks.Select(t => t.Id).ToHashSet();
+
+        string? UnknownKid(string section, IEnumerable<string?> ids)
+        {
+            var missing = ids.FirstOrDefault(id => id is not null && !kidIds.Contains(id));
+            return missing is null ? null : $"{section} refer to a kid that isn't in the backup ({missing}).";
+        }
+
+        return UnknownKid("Tasks", tasks.Select(t => t.AssignedKidId))
+            ?? UnknownKid("Task completions", completions.Select(c => c.KidId))
+            ?? UnknownKid("Redemptions", redemptions.Select(r => r.KidId))
+            ?? UnknownKid("Payouts", payouts.Select(p => p.KidId))
+            ?? UnknownKid("Ledger entries", ledger.Select(t => t.KidId))
+            ?? UnknownKid("Badges", achievements.Select(a => a.KidId))
+            ?? UnknownKid("Todos", todos.Select(t => t.AssignedKidId))
+            ?? (completions.Any(c => !taskIds.Contains(c.TaskId))
+                ? "Task completions refer to a task that isn't in the backup."
+                : null);
+    }
+
+    // ------------------------------------------------------------
+    // RestoreAsync (call Validate first)
+    // - Two saves inside one transaction: kids/tasks/rewards first (their
+    //   new ids are needed by everything else), then the rest
+    // - Optional links to rows missing from the archive become null
+    //   (a redemption of a since-deleted reward keeps RewardId 0)
+    // - Parent ids (approver, actor) are kept only if that parent belongs
+    //   to the caller's household
+    // ------------------------------------------------------------
+    public static async Task<RestoreResponse> RestoreAsync(AppDbContext db, Household household, string parentId, BackupArchive archive)
+    {
+        var kidsIn = archive.Kids ?? new();
+        var tasksIn = archive.Tasks ?? new();
+        var rewardsIn = archive.Rewards ?? new();
+        var redemptionsIn = archive.Redemptions ?? new();
+        var ledgerIn = archive.PointTransactions ?? new();
+        var todosIn = archive.Todos ?? new();
+
+        var familyIsEmpty =
+            !await db.Kids.AnyAsync(k => k.HouseholdId == household.Id) &&
+            !await db.Tasks.AnyAsync(t => t.HouseholdId == household.Id) &&
+            !await db.Rewards.AnyAsync(r => r.HouseholdId == household.Id);
+
+        var parentIds = (await db.Users
+                .Where(u => u.HouseholdId == household.Id)
+                .Select(u => u.Id)
+                .ToListAsync())
+            .ToHashSet();
+        string? Parent(string? id) => id is not null && parentIds.Contains(id) ? id : null;
+
+        var existingNames = (await db.Kids
+                .Where(k => k.HouseholdId == household.Id)
+                .Select(k => k.DisplayName)
+                .ToListAsync())
+            .ToHashSet(StringComparer.OrdinalIgnoreCase);
+
+        await using var transaction = await db.Database.BeginTransactionAsync();
+
+        // ---- Step 1: kids, tasks, rewards ----
+        var kids = new Dictionary<string, KidProfile>();
+        foreach (var k in kidsIn)
+        {
+            // Restoring next to existing kids: keep the names apart
+            var name = existingNames.Contains(k.DisplayName) ? $"{k.DisplayName} (restored)" : k.DisplayName;
+
+            kids[k.Id] = new KidProfile
+            {
+                Id = Guid.NewGuid().ToString(),
+                HouseholdId = household.Id,
+                DisplayName = name,
+                Avatar = k.Avatar ?? "",
+                Color = k.Color ?? "",
+                PointsBalance = k.PointsBalance,
+                IsArchived = k.IsArchived,
+                GoalLocksPoints = k.GoalLocksPoints
+            };
+        }
+
+        var tasks = tasksIn.ToDictionary(t => t.Id, t => new KidTask
+        {
+            Title = t.Title,
+            Points = t.Points,
+            AssignedKidId = kids[t.AssignedKidId].Id,
+            HouseholdId = household.Id,
+            CreatedByParentId = parentId,
+            IsComplete = t.IsComplete,
+            CompletedAt = t.CompletedAt,
+            Recurrence = t.Recurrence,
+            RecurrenceDays = t.RecurrenceDays,
+            StartDate = t.StartDate,
+            OccurrenceDate = t.OccurrenceDate,
+            RequiresApproval = t.RequiresApproval,
+            IsPendingApproval = t.IsPendingApproval,
+            RejectionReason = t.RejectionReason,
+            DueAtUtc = t.DueAtUtc,
+            DueMinutes = t.DueMinutes,
+            LatePointsPercent = t.LatePointsPercent,
+            MissedPenalty = t.MissedPenalty,
+            ExpiredAtUtc = t.ExpiredAtUtc
+        });
+
+        var rewards = new Dictionary<int, Reward>();
+        foreach (var r in rewardsIn)
+        {
+            rewards[r.Id] = new Reward
+            {
+                Name = r.Name,
+                Cost = r.Cost,
+                HouseholdId = household.Id,
+                Stock = r.Stock,
+                MaxPerDay = r.MaxPerDay,
+                MaxPerWeek = r.MaxPerWeek,
+                CooldownHours = r.CooldownHours
+            };
+        }
+
+        db.Kids.AddRange(kids.Values);
+        db.Tasks.AddRange(tasks.Values);
+        db.Rewards.AddRange(rewards.Values);
+        await db.SaveChangesAsync();
+
+        // Goals point at rewards, which have ids now
+        foreach (var k in kidsIn)
+        {
+            if (k.GoalRewardId is int goalId && rewards.TryGetValue(goalId, out var goal))
+                kids[k.Id].GoalRewardId = goal.Id;
+            else
+                kids[k.Id].GoalLocksPoints = false;
+        }
+
+        // ---- Step 2: everything that points at them ----
+        var completions = new Dictionary<int, TaskCompletion>();
+        foreach (var c in archive.TaskCompletions ?? new())
+        {
+            completions[c.Id] = new TaskCompletion
+            {
+                Task = tasks[c.TaskId],
+                KidId = kids[c.KidId].Id,
+                OccurrenceDate = c.OccurrenceDate,
+                CompletedAtUtc = c.CompletedAtUtc,
+                Status = c.Status,
+                ReviewedAtUtc = c.ReviewedAtUtc,
+                ReviewedByParentId = Parent(c.ReviewedByParentId),
+                RejectionReason = c.RejectionReason
+            };
+        }
+
+        var redemptions = new Dictionary<int, Redemption>();
+        foreach (var r in redemptionsIn)
+        {
+            redemptions[r.Id] = new Redemption
+            {
+                KidId = kids[r.KidId].Id,
+                RewardId = rewards.TryGetValue(r.RewardId, out var reward) ? reward.Id : 0,
+                RewardName = r.RewardName,
+                Cost = r.Cost,
+                Status = r.Status,
+                RedeemedAt = r.RedeemedAt,
+                FulfilledAtUtc = r.FulfilledAtUtc,
+                CancelledAtUtc = r.CancelledAtUtc
+            };
+        }
+
+        var payouts = new Dictionary<int, Payout>();
+        foreach (var p in archive.Payouts ?? new())
+        {
+            payouts[p.Id] = new Payout
+            {
+                KidId = kids[p.KidId].Id,
+                Points = p.Points,
+                AmountCents = p.AmountCents,
+                Currency = p.Currency,
+                Note = p.Note,
+                ActorUserId = Parent(p.ActorUserId),
+                PaidAtUtc = p.PaidAtUtc
+            };
+        }
+
+        var ledger = ledgerIn.Select(t => new PointTransaction
+        {
+            KidId = kids[t.KidId].Id,
+            Type = t.Type,
+            Delta = t.Delta,
+            Task = t.TaskId is int taskId ? tasks.GetValueOrDefault(taskId) : null,
+            Redemption = t.RedemptionId is int redemptionId ? redemptions.GetValueOrDefault(redemptionId) : null,
+            TaskCompletion = t.TaskCompletionId is int completionId ? completions.GetValueOrDefault(completionId) : null,
+            Payout = t.PayoutId is int payoutId ? payouts.GetValueOrDefault(payoutId) : null,
+            Note = t.Note,
+            Category = t.Category,
+            ActorUserId = Parent(t.ActorUserId),
+            CreatedAtUtc = t.CreatedAtUtc
+        }).ToList();
+
+        var achievements = (archive.Achievements ?? new()).Select(a => new KidAchievement
+        {
+            KidId = kids[a.KidId].Id,
+            AchievementKey = a.AchievementKey,
+            TaskId = a.TaskId is int taskId && tasks.TryGetValue(taskId, out var task) ? task.Id : null,
+            Title = a.Title,
+            Icon = a.Icon,
+            BonusPoints = a.BonusPoints,
+            EarnedAtUtc = a.EarnedAtUtc,
+            SeenAtUtc = a.SeenAtUtc
+        }).ToList();
+
+        var todos = todosIn.Select(t => new TodoItem
+        {
+            Title = t.Title,
+            IsDone = t.IsDone,
+            HouseholdId = household.Id,
+            AssignedKidId = t.AssignedKidId is null ? null : kids[t.AssignedKidId].Id
+        }).ToList();
+
+        db.TaskCompletions.AddRange(completions.Values);
+        db.Redemptions.AddRange(redemptions.Values);
+        db.Payouts.AddRange(payouts.Values);
+        db.PointTransactions.AddRange(ledger);
+        db.KidAchievements.AddRange(achievements);
+        db.Todos.AddRange(todos);
+
+        if (familyIsEmpty)
+        {
+            household.Name = string.IsNullOrWhiteSpace(archive.Family.Name) ? household.Name : archive.Family.Name.Trim();
+            household.RequireTaskApproval = archive.Family.RequireTaskApproval;
+            household.AllowancePoints = archive.Family.AllowancePoints;
+            household.AllowanceAmountCents = archive.Family.AllowanceAmountCents;
+            household.AllowanceCurrency = archive.Family.AllowanceCurrency;
+            if (FamilyClock.IsKnownZone(archive.Family.TimeZone)) household.TimeZone = archive.Family.TimeZone;
+        }
+
+        await db.SaveChangesAsync();
+        await transaction.CommitAsync();
+
+        return new RestoreResponse(
+            kids.Count,
+            tasks.Count,
+            rewards.Count,
+            redemptions.Count,
+            ledger.Count,
+            todos.Count,
+            familyIsEmpty);
+    }
+}
@@ -0,0 +1,60 @@
+using Microsoft.EntityFrameworkCore;
+
+// ============================================================
+// FamilyClock (the household's local calendar)
+// - "Today", occurrence days and due times follow the family's time zone
+//   (Household.TimeZone, an IANA id like "America/Chicago"), not UTC:
+//   otherwise chores roll over at UTC midnight, mid-afternoon in the Americas
+// - Households that never picked a zone (created before it existed) run on
+//   UTC, which is what their stored due times meant
+// - Local dates/times are DateTimes without a zone (Kind Unspecified);
+//   ToUtc turns them back into instants for comparisons with DateTime.UtcNow
+// ============================================================
+
+public static class FamilyClock
+{
+    public const string DefaultTimeZone = "UTC";
+
+    // Known IANA (or Windows) id? Used to validate what the web app sends
+    public static bool IsKnownZone(string? id) =>
+        !string.IsNullOrWhiteSpace(id) && TimeZoneInfo.TryFindSystemTimeZoneById(id, out _);
+
+    // Unknown / missing ids fall back to UTC rather than failing the request
+    public static TimeZoneInfo Zone(string? id) =>
+        !string.IsNullOrWhiteSpace(id) && TimeZoneInfo.TryFindSystemTimeZoneById(id, out var zone)
+            ? zone
+            : TimeZoneInfo.Utc;
+
+    public static async Task<TimeZoneInfo> ForHouseholdAsync(AppDbContext db, string? householdId)
+    {
+        var id = await db.Households.Where(h => h.Id == householdId).Select(h => h.TimeZone).FirstOrDefaultAsync();
+        return Zone(id);
+    }
+
+    // Wall-clock time in the zone for a UTC instant
+    public static DateTime ToLocal(TimeZoneInfo zone, DateTime utc) =>
+        TimeZoneInfo.ConvertTimeFromUtc(DateTime.SpecifyKind(utc, DateTimeKind.Utc), zone);
+
+    // The family's calendar day of a UTC instant (time part zero)
+    public static DateTime LocalDate(TimeZoneInfo zone, DateTime utc) => ToLocal(zone, utc).Date;
+
+    public static DateTime Today(TimeZoneInfo zone) => LocalDate(zone, DateTime.UtcNow);
+
+    // ------------------------------------------------------------
+    // ToUtc
+    // - Local wall-clock time -> UTC instant
+    // - A time skipped by a DST jump (02:30 on spring-forward night) means
+    //   the same time an hour later; repeated times take the first one
+    // ------------------------------------------------------------
+    public static DateTime ToUtc(TimeZoneInfo zone, DateTime local)
+    {
+        local = DateTime.SpecifyKind(local, DateTimeKind.Unspecified);
+        if (zone.IsInvalidTime(local)) local = local.AddHours(1);
+
+        var offset = zone.IsAmbiguousTime(local)
+            ? zone.GetAmbiguousTimeOffsets(local).Max()
+            : zone.GetUtcOffset(local);
+
+        return DateTime.SpecifyKind(local - offset, DateTimeKind.Utc);
+    }
+}
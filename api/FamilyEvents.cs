@@ -0,0 +1,162 @@
+using System.Collections.Concurrent;
+using System.Threading.Channels;
+using Microsoft.EntityFrameworkCore;
+
+// ============================================================
+// FamilyEvents (live updates pushed to open screens, GET /events)
+// - AppDbContext hands every successful save to Collect/Publish, so each
+//   change is announced no matter which endpoint made it (completions,
+//   approvals, adjustments, payouts, imports, ...)
+// - Events are HINTS: ids + the new balance, never whole rows. Screens
+//   re-read what they show, so a missed or extra event is harmless
+// - Scoped to one household; kid sessions only get events about themselves
+//   or the whole family (KidId null), see the endpoint
+// - In memory, one server: fine for this app's single instance; several
+//   instances would need a shared bus (Redis pub/sub, ...)
+// ============================================================
+
+public static class FamilyEventTypes
+{
+    public const string TaskCreated = "task.created";
+    public const string TaskUpdated = "task.updated";
+    public const string TaskDeleted = "task.deleted";
+    public const string TaskCompleted = "task.completed";     // done, waiting for approval or approved
+    public const string TaskRejected = "task.rejected";
+    public const string PointsChanged = "points.changed";
+    public const string RewardRedeemed = "reward.redeemed";
+    public const string RedemptionUpdated = "redemption.updated"; // fulfilled / cancelled
+    public const string TodoChanged = "todo.changed";
+}
+
+public record FamilyEvent(
+    string Type,
+    string? KidId = null,
+    int? TaskId = null,
+    int? TodoId = null,
+    int? RedemptionId = null,
+    int? PointsBalance = null);
+
+public class FamilyEventHub
+{
+    // Small per-connection buffer; a stalled client loses the oldest hints, not memory
+    private const int BufferSize = 100;
+
+    private readonly ConcurrentDictionary<string, ConcurrentDictionary<Guid, Channel<FamilyEvent>>> households = new();
+
+    public (Guid Id, ChannelReader<FamilyEvent> Reader) Subscribe(string householdId)
+    {
+        var channel = Channel.CreateBounded<FamilyEvent>(new BoundedChannelOptions(BufferSize)
+        {
+            FullMode = BoundedChannelFullMode.DropOldest,
+            SingleReader = true
+        });
+
+        var id = Guid.NewGuid();
+        households.GetOrAdd(householdId, _ => new())[id] = channel;
+        return (id, channel.Reader);
+    }
+
+    public void Unsubscribe(string householdId, Guid id)
+    {
+        if (households.TryGetValue(householdId, out var subscribers) && subscribers.TryRemove(id, out var channel))
+            channel.Writer.TryComplete();
+    }
+
+    public void Publish(string householdId, FamilyEvent familyEvent)
+    {
+        if (!households.TryGetValue(householdId, out var subscribers)) return;
+
+        foreach (var channel in subscribers.Values)
+            channel.Writer.TryWrite(familyEvent);
+    }
+
+    // ------------------------------------------------------------
+    // Collect (before SaveChanges)
+    // - Remembers which tracked rows change; ids of new rows only exist
+    //   after the save, so the events are built afterwards (Publish)
+    // - Kid-only rows (completions, redemptions) get their household from
+    //   a tracked KidProfile or one small query
+    // ------------------------------------------------------------
+    public static async Task<List<(EntityState State, object Entity, string? HouseholdId)>> CollectAsync(AppDbContext db)
+    {
+        var changes = db.ChangeTracker.Entries()
+            .Where(e => e.State is EntityState.Added or EntityState.Modified or EntityState.Deleted)
+            .Where(e => e.Entity is KidProfile or KidTask or TaskCompletion or Redemption or TodoItem)
+            .Where(e => e.Entity is not KidProfile || e.Property(nameof(KidProfile.PointsBalance)).IsModified)
+            .Select(e => (e.State, e.Entity))
+            .ToList();
+
+        if (changes.Count == 0) return new();
+
+        var kidIds = changes
+            .Select(c => c.Entity switch { TaskCompletion tc => tc.KidId, Redemption r => r.KidId, _ => null })
+            .OfType<string>()
+            .Distinct()
+            .ToList();
+
+        var kidHouseholds = db.ChangeTracker.Entries<KidProfile>()
+            .Select(e => e.Entity)
+            .Where(k => kidIds.Contains(k.Id))
+            .ToDictionary(k => k.Id, k => k.HouseholdId);
+
+        var missing = kidIds.Where(id => !kidHouseholds.ContainsKey(id)).ToList();
+        if (missing.Count > 0)
+        {
+            foreach (var kid in await db.Kids.AsNoTracking().Where(k => missing.Contains(k.Id)).Select(k => new { k.Id, k.HouseholdId }).ToListAsync())
+                kidHouseholds[kid.Id] = kid.HouseholdId;
+        }
+
+        return changes
+            .Select(c => (c.State, c.Entity, c.Entity switch
+            {
+                KidProfile k => k.HouseholdId,
+                KidTask t => t.HouseholdId,
+                TodoItem t => t.HouseholdId,
+                TaskCompletion tc => kidHouseholds.GetValueOrDefault(tc.KidId),
+                Redemption r => kidHouseholds.GetValueOrDefault(r.KidId),
+                _ => null
+            }))
+            .ToList();
+    }
+
+    // ------------------------------------------------------------
+    // Publish (after a successful SaveChanges)
+    // - One event per row; a task that was just completed doesn't also
+    //   get a task.updated (its occurrence moving on is part of that)
+    // ------------------------------------------------------------
+    public void Publish(IEnumerable<(EntityState State, object Entity, string? HouseholdId)> changes)
+    {
+        var list = changes.Where(c => c.HouseholdId is not null).ToList();
+
+        var completedTaskIds = list
+            .Select(c => c.Entity)
+            .OfType<TaskCompletion>()
+            .Select(tc => tc.TaskId)
+            .ToHashSet();
+
+        foreach (var (state, entity, householdId) in list)
+        {
+            FamilyEvent? familyEvent = entity switch
+            {
+                KidProfile k => new FamilyEvent(FamilyEventTypes.PointsChanged, KidId: k.Id, PointsBalance: k.PointsBalance),
+
+                KidTask t when state == EntityState.Added => new FamilyEvent(FamilyEventTypes.TaskCreated, t.AssignedKidId, t.Id),
+                KidTask t when state == EntityState.Deleted => new FamilyEvent(FamilyEventTypes.TaskDeleted, t.AssignedKidId, t.Id),
+                KidTask t when !completedTaskIds.Contains(t.Id) => new FamilyEvent(FamilyEventTypes.TaskUpdated, t.AssignedKidId, t.Id),
+                KidTask => null,
+
+                TaskCompletion { Status: TaskCompletionStatus.Rejected } tc => new FamilyEvent(FamilyEventTypes.TaskRejected, tc.KidId, tc.TaskId),
+                TaskCompletion tc when state != EntityState.Deleted => new FamilyEvent(FamilyEventTypes.TaskCompleted, tc.KidId, tc.TaskId),
+
+                Redemption r when state == EntityState.Added => new FamilyEvent(FamilyEventTypes.RewardRedeemed, r.KidId, RedemptionId: r.Id),
+                Redemption r when state == EntityState.Modified => new FamilyEvent(FamilyEventTypes.RedemptionUpdated, r.KidId, RedemptionId: r.Id),
+
+                TodoItem t => new FamilyEvent(FamilyEventTypes.TodoChanged, t.AssignedKidId, TodoId: t.Id),
+
+                _ => null
+            };
+
+            if (familyEvent is not null) Publish(householdId!, familyEvent);
+        }
+    }
+}
@@ -0,0 +1,152 @@
+using System.Globalization;
+using System.Security.Claims;
+using System.Text.Json;
+using Microsoft.EntityFrameworkCore;
+using Microsoft.Extensions.Options;
+
+// ============================================================
+// Idempotency (safe retries for queued offline actions)
+// - Endpoint filter: add with .AddEndpointFilter(Idempotency.Filter)
+// - Clients send an Idempotency-Key header (a UUID made when the action was
+//   queued). The first request with a key runs normally and its 2xx
+//   response (status + JSON body) is stored for the caller; a retry with
+//   the same key gets that response back WITHOUT running the endpoint again
+//   -> a replayed task completion can never credit points twice
+// - The endpoint's saves and the stored record commit in ONE transaction:
+//   a crash or a lost race between them can't leave points credited with
+//   no record (which would let the retry credit them again)
+// - Failed requests aren't stored (a retry may run); whatever the endpoint
+//   saved before failing (e.g. settling an overdue task) still commits
+// - Keys are per caller and kept for KeyLifetime; reusing one for another
+//   request is a 422
+// - No header = the endpoint behaves exactly as before
+// - Queued-At header (optional, with a key): when the action was queued.
+//   It's the client's word, so it may only pick WHICH day an action was
+//   for (task completion: the occurrence), never settle deadlines or late
+//   points; those are judged at the time the request arrives
+// ============================================================
+
+public static class Idempotency
+{
+    public const string HeaderName = "Idempotency-Key";
+
+    // Set on replayed responses (exposed through CORS for the outbox)
+    public const string ReplayedHeaderName = "Idempotent-Replayed";
+
+    // When the outbox queued the action (ISO 8601 UTC)
+    public const string QueuedAtHeaderName = "Queued-At";
+
+    public const int MaxKeyLength = 100;
+    public static readonly TimeSpan KeyLifetime = TimeSpan.FromDays(7);
+
+    public static async ValueTask<object?> Filter(EndpointFilterInvocationContext context, EndpointFilterDelegate next)
+    {
+        var http = context.HttpContext;
+
+        var key = http.Request.Headers[HeaderName].ToString().Trim();
+        if (key.Length == 0) return await next(context);
+        if (key.Length > MaxKeyLength) return Results.BadRequest($"{HeaderName} can be at most {MaxKeyLength} characters.");
+
+        // Same id the endpoints use (kid tokens: the kid's id)
+        var subjectId = http.User.FindFirstValue(ClaimTypes.NameIdentifier);
+        if (string.IsNullOrWhiteSpace(subjectId)) return await next(context);
+
+        var requestPath = $"{http.Request.Method} {http.Request.Path}{http.Request.QueryString}";
+        var db = http.RequestServices.GetRequiredService<AppDbContext>();
+
+        var saved = await db.IdempotencyRecords
+            .AsNoTracking()
+            .FirstOrDefaultAsync(r => r.SubjectId == subjectId && r.Key == key);
+
+        if (saved is not null)
+        {
+            if (saved.RequestPath != requestPath)
+                return Results.UnprocessableEntity($"This {HeaderName} was already used for a different request.");
+
+            return Replay(http, saved);
+        }
+
+        await using var transaction = await db.Database.BeginTransactionAsync();
+
+        var result = await next(context);
+
+        // Only successful results with a known status are worth replaying
+        if (result is not IStatusCodeHttpResult { StatusCode: >= 200 and < 300 } success)
+        {
+            await transaction.CommitAsync();
+            return result;
+        }
+
+        var value = (result as IValueHttpResult)?.Value;
+        var jsonOptions = http.RequestServices
+            .GetRequiredService<IOptions<Microsoft.AspNetCore.Http.Json.JsonOptions>>()
+            .Value.SerializerOptions;
+
+        var now = DateTime.UtcNow;
+        db.IdempotencyRecords.Add(new IdempotencyRecord
+        {
+            SubjectId = subjectId,
+            Key = key,
+            RequestPath = requestPath,
+            StatusCode = success.StatusCode!.Value,
+            ResponseJson = value is null ? null : JsonSerializer.Serialize(value, value.GetType(), jsonOptions),
+            CreatedAtUtc = now
+        });
+
+        // Housekeeping: drop this caller's expired keys while we're here
+        var cutoff = now - KeyLifetime;
+        db.IdempotencyRecords.RemoveRange(await db.IdempotencyRecords
+            .Where(r => r.SubjectId == subjectId && r.CreatedAtUtc < cutoff)
+            .ToListAsync());
+
+        try
+        {
+            await db.SaveChangesAsync();
+            await transaction.CommitAsync();
+        }
+        catch (DbUpdateException)
+        {
+            // The same key finished in a parallel request first: undo this run
+            // and answer with the winner's response
+            // (the web outbox sends one request at a time, so this is rare)
+            await transaction.RollbackAsync();
+
+            var winner = await db.IdempotencyRecords
+                .AsNoTracking()
+                .FirstAsync(r => r.SubjectId == subjectId && r.Key == key);
+
+            return Replay(http, winner);
+        }
+
+        return result;
+    }
+
+    // ------------------------------------------------------------
+    // QueuedAt
+    // - The Queued-At time of a keyed request, or null (use "now")
+    // - Ignored outside KeyLifetime (older replays aren't deduplicated
+    //   anyway) and in the future
+    // ------------------------------------------------------------
+    public static DateTime? QueuedAt(HttpRequest request, DateTime now)
+    {
+        if (request.Headers[HeaderName].ToString().Trim().Length == 0) return null;
+
+        if (!DateTime.TryParse(
+                request.Headers[QueuedAtHeaderName].ToString(),
+                CultureInfo.InvariantCulture,
+                DateTimeStyles.AdjustToUniversal | DateTimeStyles.AssumeUniversal,
+                out var queuedAt))
+            return null;
+
+        return queuedAt <= now && queuedAt >= now - KeyLifetime ? queuedAt : null;
+    }
+
+    // The stored response, marked as a replay
+    private static IResult Replay(HttpContext http, IdempotencyRecord record)
+    {
+        http.Response.Headers[ReplayedHeaderName] = "true";
+        return record.ResponseJson is null
+            ? Results.StatusCode(record.StatusCode)
+            : Results.Text(record.ResponseJson, "application/json", statusCode: record.StatusCode);
+    }
+}
@@ -0,0 +1,128 @@
+﻿using System;
+using Microsoft.EntityFrameworkCore.Migrations;
+
+#nullable disable
+
+namespace MsFullstackSample.Api.Migrations
+{
+    /// <inheritdoc />
+    public partial class AddRecurringTasks : Migration
+    {
+        /// <inheritdoc />
+        protected override void Up(MigrationBuilder migrationBuilder)
+        {
+            migrationBuilder.AddColumn<DateTime>(
+                name: "OccurrenceDate",
+                table: "Tasks",
+                type: "TEXT",
+                nullable: true);
+
+            migrationBuilder.AddColumn<int>(
+                name: "Recurrence",
+                table: "Tasks",
+                type: "INTEGER",
+                nullable: false,
+                defaultValue: 0);
+
+            migrationBuilder.AddColumn<int>(
+                name: "RecurrenceDays",
+                table: "Tasks",
+                type: "INTEGER",
+                nullable: false,
+                defaultValue: 0);
+
+            migrationBuilder.AddColumn<DateTime>(
+                name: "StartDate",
+                table: "Tasks",
+                type: "TEXT",
+                nullable: true);
+
+            migrationBuilder.AddColumn<int>(
+                name: "TaskCompletionId",
+                table: "PointTransactions",
+                type: "INTEGER",
+                nullable: true);
+
+            migrationBuilder.CreateTable(
+                name: "TaskCompletions",
+                columns: table => new
+                {
+                    Id = table.Column<int>(type: "INTEGER", nullable: false)
+                        .Annotation("Sqlite:Autoincrement", true),
+                    TaskId = table.Column<int>(type: "INTEGER", nullable: false),
+                    KidId = table.Column<string>(type: "TEXT", nullable: false),
+                    OccurrenceDate = table.Column<DateTime>(type: "TEXT", nullable: false),
+                    CompletedAtUtc = table.Column<DateTime>(type: "TEXT", nullable: false)
+                },
+                constraints: table =>
+                {
+                    table.PrimaryKey("PK_TaskCompletions", x => x.Id);
+                    table.ForeignKey(
+                        name: "FK_TaskCompletions_Tasks_TaskId",
+                        column: x => x.TaskId,
+                        principalTable: "Tasks",
+                        principalColumn: "Id",
+                        onDelete: ReferentialAction.Cascade);
+                });
+
+            migrationBuilder.CreateIndex(
+                name: "IX_PointTransactions_TaskCompletionId",
+                table: "PointTransactions",
+                column: "TaskCompletionId");
+
+            migrationBuilder.CreateIndex(
+                name: "IX_TaskCompletions_KidId",
+                table: "TaskCompletions",
+                column: "KidId");
+
+            migrationBuilder.CreateIndex(
+                name: "IX_TaskCompletions_TaskId_OccurrenceDate",
+                table: "TaskCompletions",
+                columns: new[] { "TaskId", "OccurrenceDate" },
+                unique: true);
+
+            migrationBuilder.AddForeignKey(
+                name: "FK_PointTransactions_TaskCompletions_TaskCompletionId",
+                table: "PointTransactions",
+                column: "TaskCompletionId",
+                principalTable: "TaskCompletions",
+                principalColumn: "Id",
+                onDelete: ReferentialAction.SetNull);
+        }
+
+        /// <inheritdoc />
+        protected override void Down(MigrationBuilder migrationBuilder)
+        {
+            migrationBuilder.DropForeignKey(
+                name: "FK_PointTransactions_TaskCompletions_TaskCompletionId",
+                table: "PointTransactions");
+
+            migrationBuilder.DropTable(
+                name: "TaskCompletions");
+
+            migrationBuilder.DropIndex(
+                name: "IX_PointTransactions_TaskCompletionId",
+                table: "PointTransactions");
+
+            migrationBuilder.DropColumn(
+                name: "OccurrenceDate",
+                table: "Tasks");
+
+            migrationBuilder.DropColumn(
+                name: "Recurrence",
+                table: "Tasks");
+
+            migrationBuilder.DropColumn(
+                name: "RecurrenceDays",
+                table: "Tasks");
+
+            migrationBuilder.DropColumn(
+                name: "StartDate",
+                table: "Tasks");
+
+            migrationBuilder.DropColumn(
+                name: "TaskCompletionId",
+                table: "PointTransactions");
+        }
+    }
+}
@@ -0,0 +1,104 @@
+﻿using System;
+using Microsoft.EntityFrameworkCore.Migrations;
+
+#nullable disable
+
+namespace MsFullstackSample.Api.Migrations
+{
+    /// <inheritdoc />
+    public partial class AddTaskApprovals : Migration
+    {
+        /// <inheritdoc />
+        protected override void Up(MigrationBuilder migrationBuilder)
+        {
+            migrationBuilder.AddColumn<bool>(
+                name: "RequireTaskApproval",
+                table: "Users",
+                type: "INTEGER",
+                nullable: false,
+                defaultValue: false);
+
+            migrationBuilder.AddColumn<bool>(
+                name: "IsPendingApproval",
+                table: "Tasks",
+                type: "INTEGER",
+                nullable: false,
+                defaultValue: false);
+
+            migrationBuilder.AddColumn<string>(
+                name: "RejectionReason",
+                table: "Tasks",
+                type: "TEXT",
+                nullable: true);
+
+            migrationBuilder.AddColumn<bool>(
+                name: "RequiresApproval",
+                table: "Tasks",
+                type: "INTEGER",
+                nullable: false,
+                defaultValue: false);
+
+            migrationBuilder.AddColumn<string>(
+                name: "RejectionReason",
+                table: "TaskCompletions",
+                type: "TEXT",
+                nullable: true);
+
+            migrationBuilder.AddColumn<DateTime>(
+                name: "ReviewedAtUtc",
+                table: "TaskCompletions",
+                type: "TEXT",
+                nullable: true);
+
+            migrationBuilder.AddColumn<string>(
+                name: "ReviewedByParentId",
+                table: "TaskCompletions",
+                type: "TEXT",
+                nullable: true);
+
+            // Existing completions were credited immediately -> Approved (1)
+            migrationBuilder.AddColumn<int>(
+                name: "Status",
+                table: "TaskCompletions",
+                type: "INTEGER",
+                nullable: false,
+                defaultValue: 1);
+        }
+
+        /// <inheritdoc />
+        protected override void Down(MigrationBuilder migrationBuilder)
+        {
+            migrationBuilder.DropColumn(
+                name: "RequireTaskApproval",
+                table: "Users");
+
+            migrationBuilder.DropColumn(
+                name: "IsPendingApproval",
+                table: "Tasks");
+
+            migrationBuilder.DropColumn(
+                name: "RejectionReason",
+                table: "Tasks");
+
+            migrationBuilder.DropColumn(
+                name: "RequiresApproval",
+                table: "Tasks");
+
+            migrationBuilder.DropColumn(
+                name: "RejectionReason",
+                table: "TaskCompletions");
+
+            migrationBuilder.DropColumn(
+                name: "ReviewedAtUtc",
+                table: "TaskCompletions");
+
+            migrationBuilder.DropColumn(
+                name: "ReviewedByParentId",
+                table: "TaskCompletions");
+
+            migrationBuilder.DropColumn(
+                name: "Status",
+                table: "TaskCompletions");
+        }
+    }
+}
@@ -0,0 +1,92 @@
+﻿using System;
+using Microsoft.EntityFrameworkCore.Migrations;
+
+#nullable disable
+
+namespace MsFullstackSample.Api.Migrations
+{
+    /// <inheritdoc />
+    public partial class AddRedemptionFulfillment : Migration
+    {
+        /// <inheritdoc />
+        protected override void Up(MigrationBuilder migrationBuilder)
+        {
+            migrationBuilder.AddColumn<DateTime>(
+                name: "CancelledAtUtc",
+                table: "Redemptions",
+                type: "TEXT",
+                nullable: true);
+
+            migrationBuilder.AddColumn<int>(
+                name: "Cost",
+                table: "Redemptions",
+                type: "INTEGER",
+                nullable: false,
+                defaultValue: 0);
+
+            migrationBuilder.AddColumn<DateTime>(
+                name: "FulfilledAtUtc",
+                table: "Redemptions",
+                type: "TEXT",
+                nullable: true);
+
+            migrationBuilder.AddColumn<string>(
+                name: "RewardName",
+                table: "Redemptions",
+                type: "TEXT",
+                nullable: false,
+                defaultValue: "");
+
+            // Existing redemptions were never handed over as far as we know -> Pending (1)
+            migrationBuilder.AddColumn<int>(
+                name: "Status",
+                table: "Redemptions",
+                type: "INTEGER",
+                nullable: false,
+                defaultValue: 1);
+
+            // Backfill the snapshot: name from the reward, cost from the Spend ledger entry
+            migrationBuilder.Sql(
+                """
+                UPDATE Redemptions
+                SET RewardName = COALESCE((SELECT r.Name FROM Rewards r WHERE r.Id = Redemptions.RewardId), ''),
+                    Cost = COALESCE((SELECT -t.Delta FROM PointTransactions t
+                                     WHERE t.RedemptionId = Redemptions.Id AND t.Type = 2
+                                     LIMIT 1), 0);
+                """);
+
+            migrationBuilder.CreateIndex(
+                name: "IX_Redemptions_KidId_Status",
+                table: "Redemptions",
+                columns: new[] { "KidId", "Status" });
+        }
+
+        /// <inheritdoc />
+        protected override void Down(MigrationBuilder migrationBuilder)
+        {
+            migrationBuilder.DropIndex(
+                name: "IX_Redemptions_KidId_Status",
+                table: "Redemptions");
+
+            migrationBuilder.DropColumn(
+                name: "CancelledAtUtc",
+                table: "Redemptions");
+
+            migrationBuilder.DropColumn(
+                name: "Cost",
+                table: "Redemptions");
+
+            migrationBuilder.DropColumn(
+                name: "FulfilledAtUtc",
+                table: "Redemptions");
+
+            migrationBuilder.DropColumn(
+                name: "RewardName",
+                table: "Redemptions");
+
+            migrationBuilder.DropColumn(
+                name: "Status",
+                table: "Redemptions");
+        }
+    }
+}
@@ -0,0 +1,52 @@
+﻿using Microsoft.EntityFrameworkCore.Migrations;
+
+#nullable disable
+
+namespace MsFullstackSample.Api.Migrations
+{
+    /// <inheritdoc />
+    public partial class AddRewardOwner : Migration
+    {
+        /// <inheritdoc />
+        protected override void Up(MigrationBuilder migrationBuilder)
+        {
+            migrationBuilder.AddColumn<string>(
+                name: "CreatedByParentId",
+                table: "Rewards",
+                type: "TEXT",
+                nullable: false,
+                defaultValue: "");
+
+            // The old global catalog goes to the seed parent (or the first parent)...
+            migrationBuilder.Sql(
+                """
+                UPDATE Rewards
+                SET CreatedByParentId = COALESCE(
+                    (SELECT Id FROM Users WHERE Role = 'Parent' AND Username = 'parent1'),
+                    (SELECT Id FROM Users WHERE Role = 'Parent' ORDER BY rowid LIMIT 1),
+                    '')
+                WHERE CreatedByParentId = '';
+                """);
+
+            // ...and every other parent gets their own copy, so nobody's list goes empty
+            migrationBuilder.Sql(
+                """
+                INSERT INTO Rewards (Name, Cost, CreatedByParentId)
+                SELECT r.Name, r.Cost, u.Id
+                FROM Rewards r
+                CROSS JOIN Users u
+                WHERE u.Role = 'Parent'
+                  AND r.CreatedByParentId <> ''
+                  AND u.Id <> r.CreatedByParentId;
+                """);
+        }
+
+        /// <inheritdoc />
+        protected override void Down(MigrationBuilder migrationBuilder)
+        {
+            migrationBuilder.DropColumn(
+                name: "CreatedByParentId",
+                table: "Rewards");
+        }
+    }
+}
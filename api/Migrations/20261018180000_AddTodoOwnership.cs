@@ -0,0 +1,51 @@
+﻿using Microsoft.EntityFrameworkCore.Migrations;
+
+#nullable disable
+
+namespace MsFullstackSample.Api.Migrations
+{
+    /// <inheritdoc />
+    public partial class AddTodoOwnership : Migration
+    {
+        /// <inheritdoc />
+        protected override void Up(MigrationBuilder migrationBuilder)
+        {
+            migrationBuilder.AddColumn<string>(
+                name: "AssignedKidId",
+                table: "Todos",
+                type: "TEXT",
+                nullable: true);
+
+            migrationBuilder.AddColumn<string>(
+                name: "ParentId",
+                table: "Todos",
+                type: "TEXT",
+                nullable: false,
+                defaultValue: "");
+
+            // Existing (global) todos become shared todos of the seed parent (or the first parent).
+            // Not copied to other families: todos are private, unlike the old reward catalog.
+            migrationBuilder.Sql(
+                """
+                UPDATE Todos
+                SET ParentId = COALESCE(
+                    (SELECT Id FROM Users WHERE Role = 'Parent' AND Username = 'parent1'),
+                    (SELECT Id FROM Users WHERE Role = 'Parent' ORDER BY rowid LIMIT 1),
+                    '')
+                WHERE ParentId = '';
+                """);
+        }
+
+        /// <inheritdoc />
+        protected override void Down(MigrationBuilder migrationBuilder)
+        {
+            migrationBuilder.DropColumn(
+                name: "AssignedKidId",
+                table: "Todos");
+
+            migrationBuilder.DropColumn(
+                name: "ParentId",
+                table: "Todos");
+        }
+    }
+}
@@ -0,0 +1,36 @@
+﻿using Microsoft.EntityFrameworkCore.Migrations;
+
+#nullable disable
+
+namespace MsFullstackSample.Api.Migrations
+{
+    /// <inheritdoc />
+    public partial class AddFamilyName : Migration
+    {
+        /// <inheritdoc />
+        protected override void Up(MigrationBuilder migrationBuilder)
+        {
+            migrationBuilder.AddColumn<string>(
+                name: "FamilyName",
+                table: "Users",
+                type: "TEXT",
+                nullable: true);
+
+            // Existing parents get a placeholder they can rename in Settings
+            migrationBuilder.Sql(
+                """
+                UPDATE Users
+                SET FamilyName = 'My Family'
+                WHERE Role = 'Parent' AND FamilyName IS NULL;
+                """);
+        }
+
+        /// <inheritdoc />
+        protected override void Down(MigrationBuilder migrationBuilder)
+        {
+            migrationBuilder.DropColumn(
+                name: "FamilyName",
+                table: "Users");
+        }
+    }
+}
@@ -0,0 +1,240 @@
+﻿using System;
+using Microsoft.EntityFrameworkCore.Migrations;
+
+#nullable disable
+
+namespace MsFullstackSample.Api.Migrations
+{
+    /// <inheritdoc />
+    public partial class AddHouseholds : Migration
+    {
+        /// <inheritdoc />
+        protected override void Up(MigrationBuilder migrationBuilder)
+        {
+            migrationBuilder.CreateTable(
+                name: "Households",
+                columns: table => new
+                {
+                    Id = table.Column<string>(type: "TEXT", nullable: false),
+                    Name = table.Column<string>(type: "TEXT", nullable: false),
+                    RequireTaskApproval = table.Column<bool>(type: "INTEGER", nullable: false),
+                    ParentPinHash = table.Column<string>(type: "TEXT", nullable: true),
+                    PinFailedAttempts = table.Column<int>(type: "INTEGER", nullable: false),
+                    PinLockedUntilUtc = table.Column<DateTime>(type: "TEXT", nullable: true),
+                    CreatedAtUtc = table.Column<DateTime>(type: "TEXT", nullable: false)
+                },
+                constraints: table =>
+                {
+                    table.PrimaryKey("PK_Households", x => x.Id);
+                });
+
+            migrationBuilder.CreateTable(
+                name: "HouseholdInvites",
+                columns: table => new
+                {
+                    Id = table.Column<int>(type: "INTEGER", nullable: false)
+                        .Annotation("Sqlite:Autoincrement", true),
+                    HouseholdId = table.Column<string>(type: "TEXT", nullable: false),
+                    Code = table.Column<string>(type: "TEXT", nullable: false),
+                    CreatedByUserId = table.Column<string>(type: "TEXT", nullable: false),
+                    CreatedAtUtc = table.Column<DateTime>(type: "TEXT", nullable: false),
+                    ExpiresAtUtc = table.Column<DateTime>(type: "TEXT", nullable: false),
+                    AcceptedAtUtc = table.Column<DateTime>(type: "TEXT", nullable: true),
+                    AcceptedByUserId = table.Column<string>(type: "TEXT", nullable: true)
+                },
+                constraints: table =>
+                {
+                    table.PrimaryKey("PK_HouseholdInvites", x => x.Id);
+                });
+
+            migrationBuilder.CreateIndex(
+                name: "IX_HouseholdInvites_Code",
+                table: "HouseholdInvites",
+                column: "Code",
+                unique: true);
+
+            migrationBuilder.CreateIndex(
+                name: "IX_HouseholdInvites_HouseholdId",
+                table: "HouseholdInvites",
+                column: "HouseholdId");
+
+            // One household per existing parent (id = the parent's id), carrying
+            // over the family-wide settings that used to live on Users
+            migrationBuilder.Sql(
+                """
+                INSERT INTO Households (Id, Name, RequireTaskApproval, ParentPinHash, PinFailedAttempts, PinLockedUntilUtc, CreatedAtUtc)
+                SELECT Id, COALESCE(FamilyName, 'My Family'), RequireTaskApproval, ParentPinHash, PinFailedAttempts, PinLockedUntilUtc, datetime('now')
+                FROM Users
+                WHERE Role = 'Parent';
+                """);
+
+            migrationBuilder.AddColumn<string>(
+                name: "HouseholdId",
+                table: "Users",
+                type: "TEXT",
+                nullable: true);
+
+            migrationBuilder.Sql(
+                """
+                UPDATE Users
+                SET HouseholdId = Id
+                WHERE Role = 'Parent';
+                """);
+
+            migrationBuilder.DropColumn(
+                name: "FamilyName",
+                table: "Users");
+
+            migrationBuilder.DropColumn(
+                name: "ParentPinHash",
+                table: "Users");
+
+            migrationBuilder.DropColumn(
+                name: "PinFailedAttempts",
+                table: "Users");
+
+            migrationBuilder.DropColumn(
+                name: "PinLockedUntilUtc",
+                table: "Users");
+
+            migrationBuilder.DropColumn(
+                name: "RequireTaskApproval",
+                table: "Users");
+
+            // Kids, rewards and todos were owned by a parent id, which is now
+            // also that parent's household id -> a rename keeps the data as-is
+            migrationBuilder.RenameColumn(
+                name: "ParentId",
+                table: "Kids",
+                newName: "HouseholdId");
+
+            migrationBuilder.RenameColumn(
+                name: "CreatedByParentId",
+                table: "Rewards",
+                newName: "HouseholdId");
+
+            migrationBuilder.RenameColumn(
+                name: "ParentId",
+                table: "Todos",
+                newName: "HouseholdId");
+
+            migrationBuilder.AddColumn<string>(
+                name: "HouseholdId",
+                table: "Tasks",
+                type: "TEXT",
+                nullable: false,
+                defaultValue: "");
+
+            // Tasks follow their kid's household (creator's household as a fallback)
+            migrationBuilder.Sql(
+                """
+                UPDATE Tasks
+                SET HouseholdId = COALESCE(
+                    (SELECT k.HouseholdId FROM Kids k WHERE k.Id = Tasks.AssignedKidId),
+                    CreatedByParentId);
+                """);
+
+            migrationBuilder.AddColumn<string>(
+                name: "ActorUserId",
+                table: "PointTransactions",
+                type: "TEXT",
+                nullable: true);
+
+            // Attribute past entries where we can: approved completions -> the reviewer,
+            // manual adjustments -> the (then only) parent of the kid
+            migrationBuilder.Sql(
+                """
+                UPDATE PointTransactions
+                SET ActorUserId = (
+                    SELECT c.ReviewedByParentId FROM TaskCompletions c
+                    WHERE c.Id = PointTransactions.TaskCompletionId)
+                WHERE TaskCompletionId IS NOT NULL;
+
+                UPDATE PointTransactions
+                SET ActorUserId = (
+                    SELECT k.HouseholdId FROM Kids k
+                    WHERE k.Id = PointTransactions.KidId)
+                WHERE Type = 3;
+                """);
+        }
+
+        /// <inheritdoc />
+        protected override void Down(MigrationBuilder migrationBuilder)
+        {
+            migrationBuilder.DropColumn(
+                name: "ActorUserId",
+                table: "PointTransactions");
+
+            migrationBuilder.DropColumn(
+                name: "HouseholdId",
+                table: "Tasks");
+
+            migrationBuilder.RenameColumn(
+                name: "HouseholdId",
+                table: "Todos",
+                newName: "ParentId");
+
+            migrationBuilder.RenameColumn(
+                name: "HouseholdId",
+                table: "Rewards",
+                newName: "CreatedByParentId");
+
+            migrationBuilder.RenameColumn(
+                name: "HouseholdId",
+                table: "Kids",
+                newName: "ParentId");
+
+            migrationBuilder.AddColumn<string>(
+                name: "FamilyName",
+                table: "Users",
+                type: "TEXT",
+                nullable: true);
+
+            migrationBuilder.AddColumn<string>(
+                name: "ParentPinHash",
+                table: "Users",
+                type: "TEXT",
+                nullable: true);
+
+            migrationBuilder.AddColumn<int>(
+                name: "PinFailedAttempts",
+                table: "Users",
+                type: "INTEGER",
+                nullable: false,
+                defaultValue: 0);
+
+            migrationBuilder.AddColumn<DateTime>(
+                name: "PinLockedUntilUtc",
+                table: "Users",
+                type: "TEXT",
+                nullable: true);
+
+            migrationBuilder.AddColumn<bool>(
+                name: "RequireTaskApproval",
+                table: "Users",
+                type: "INTEGER",
+                nullable: false,
+                defaultValue: false);
+
+            // Settings go back to the household's founding parent (id match)
+            migrationBuilder.Sql(
+                """
+                UPDATE Users
+                SET FamilyName = (SELECT h.Name FROM Households h WHERE h.Id = Users.Id),
+                    RequireTaskApproval = COALESCE((SELECT h.RequireTaskApproval FROM Households h WHERE h.Id = Users.Id), 0),
+                    ParentPinHash = (SELECT h.ParentPinHash FROM Households h WHERE h.Id = Users.Id)
+                WHERE Role = 'Parent';
+                """);
+
+            migrationBuilder.DropColumn(
+                name: "HouseholdId",
+                table: "Users");
+
+            migrationBuilder.DropTable(
+                name: "HouseholdInvites");
+
+            migrationBuilder.DropTable(
+                name: "Households");
+        }
+    }
+}
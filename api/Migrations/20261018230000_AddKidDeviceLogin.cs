@@ -0,0 +1,94 @@
+﻿using System;
+using Microsoft.EntityFrameworkCore.Migrations;
+
+#nullable disable
+
+namespace MsFullstackSample.Api.Migrations
+{
+    /// <inheritdoc />
+    public partial class AddKidDeviceLogin : Migration
+    {
+        /// <inheritdoc />
+        protected override void Up(MigrationBuilder migrationBuilder)
+        {
+            migrationBuilder.AddColumn<int>(
+                name: "LoginFailedAttempts",
+                table: "Kids",
+                type: "INTEGER",
+                nullable: false,
+                defaultValue: 0);
+
+            migrationBuilder.AddColumn<DateTime>(
+                name: "LoginLockedUntilUtc",
+                table: "Kids",
+                type: "TEXT",
+                nullable: true);
+
+            migrationBuilder.AddColumn<int>(
+                name: "LoginMethod",
+                table: "Kids",
+                type: "INTEGER",
+                nullable: false,
+                defaultValue: 0);
+
+            migrationBuilder.AddColumn<string>(
+                name: "LoginSecretHash",
+                table: "Kids",
+                type: "TEXT",
+                nullable: true);
+
+            migrationBuilder.CreateTable(
+                name: "SharedDevices",
+                columns: table => new
+                {
+                    Id = table.Column<int>(type: "INTEGER", nullable: false)
+                        .Annotation("Sqlite:Autoincrement", true),
+                    HouseholdId = table.Column<string>(type: "TEXT", nullable: false),
+                    Name = table.Column<string>(type: "TEXT", nullable: false),
+                    TokenHash = table.Column<string>(type: "TEXT", nullable: false),
+                    CreatedByUserId = table.Column<string>(type: "TEXT", nullable: false),
+                    CreatedAtUtc = table.Column<DateTime>(type: "TEXT", nullable: false),
+                    LastUsedAtUtc = table.Column<DateTime>(type: "TEXT", nullable: true),
+                    RevokedAtUtc = table.Column<DateTime>(type: "TEXT", nullable: true)
+                },
+                constraints: table =>
+                {
+                    table.PrimaryKey("PK_SharedDevices", x => x.Id);
+                });
+
+            migrationBuilder.CreateIndex(
+                name: "IX_SharedDevices_HouseholdId",
+                table: "SharedDevices",
+                column: "HouseholdId");
+
+            migrationBuilder.CreateIndex(
+                name: "IX_SharedDevices_TokenHash",
+                table: "SharedDevices",
+                column: "TokenHash",
+                unique: true);
+        }
+
+        /// <inheritdoc />
+        protected override void Down(MigrationBuilder migrationBuilder)
+        {
+            migrationBuilder.DropTable(
+                name: "SharedDevices");
+
+            migrationBuilder.DropColumn(
+                name: "LoginFailedAttempts",
+                table: "Kids");
+
+            migrationBuilder.DropColumn(
+                name: "LoginLockedUntilUtc",
+                table: "Kids");
+
+            migrationBuilder.DropColumn(
+                name: "LoginMethod",
+                table: "Kids");
+
+            migrationBuilder.DropColumn(
+                name: "LoginSecretHash",
+                table: "Kids");
+        }
+    }
+}
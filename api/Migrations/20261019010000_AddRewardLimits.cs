@@ -0,0 +1,58 @@
+﻿using Microsoft.EntityFrameworkCore.Migrations;
+
+#nullable disable
+
+namespace MsFullstackSample.Api.Migrations
+{
+    /// <inheritdoc />
+    public partial class AddRewardLimits : Migration
+    {
+        /// <inheritdoc />
+        protected override void Up(MigrationBuilder migrationBuilder)
+        {
+            migrationBuilder.AddColumn<int>(
+                name: "CooldownHours",
+                table: "Rewards",
+                type: "INTEGER",
+                nullable: true);
+
+            migrationBuilder.AddColumn<int>(
+                name: "MaxPerDay",
+                table: "Rewards",
+                type: "INTEGER",
+                nullable: true);
+
+            migrationBuilder.AddColumn<int>(
+                name: "MaxPerWeek",
+                table: "Rewards",
+                type: "INTEGER",
+                nullable: true);
+
+            migrationBuilder.AddColumn<int>(
+                name: "Stock",
+                table: "Rewards",
+                type: "INTEGER",
+                nullable: true);
+        }
+
+        /// <inheritdoc />
+        protected override void Down(MigrationBuilder migrationBuilder)
+        {
+            migrationBuilder.DropColumn(
+                name: "CooldownHours",
+                table: "Rewards");
+
+            migrationBuilder.DropColumn(
+                name: "MaxPerDay",
+                table: "Rewards");
+
+            migrationBuilder.DropColumn(
+                name: "MaxPerWeek",
+                table: "Rewards");
+
+            migrationBuilder.DropColumn(
+                name: "Stock",
+                table: "Rewards");
+        }
+    }
+}
@@ -0,0 +1,69 @@
+﻿using System;
+using Microsoft.EntityFrameworkCore.Migrations;
+
+#nullable disable
+
+namespace MsFullstackSample.Api.Migrations
+{
+    /// <inheritdoc />
+    public partial class AddTaskDeadlines : Migration
+    {
+        /// <inheritdoc />
+        protected override void Up(MigrationBuilder migrationBuilder)
+        {
+            migrationBuilder.AddColumn<DateTime>(
+                name: "DueAtUtc",
+                table: "Tasks",
+                type: "TEXT",
+                nullable: true);
+
+            migrationBuilder.AddColumn<int>(
+                name: "DueMinutes",
+                table: "Tasks",
+                type: "INTEGER",
+                nullable: true);
+
+            migrationBuilder.AddColumn<DateTime>(
+                name: "ExpiredAtUtc",
+                table: "Tasks",
+                type: "TEXT",
+                nullable: true);
+
+            migrationBuilder.AddColumn<int>(
+                name: "LatePointsPercent",
+                table: "Tasks",
+                type: "INTEGER",
+                nullable: true);
+
+            migrationBuilder.AddColumn<int>(
+                name: "MissedPenalty",
+                table: "Tasks",
+                type: "INTEGER",
+                nullable: true);
+        }
+
+        /// <inheritdoc />
+        protected override void Down(MigrationBuilder migrationBuilder)
+        {
+            migrationBuilder.DropColumn(
+                name: "DueAtUtc",
+                table: "Tasks");
+
+            migrationBuilder.DropColumn(
+                name: "DueMinutes",
+                table: "Tasks");
+
+            migrationBuilder.DropColumn(
+                name: "ExpiredAtUtc",
+                table: "Tasks");
+
+            migrationBuilder.DropColumn(
+                name: "LatePointsPercent",
+                table: "Tasks");
+
+            migrationBuilder.DropColumn(
+                name: "MissedPenalty",
+                table: "Tasks");
+        }
+    }
+}
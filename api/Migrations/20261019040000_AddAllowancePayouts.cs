@@ -0,0 +1,107 @@
+﻿using System;
+using Microsoft.EntityFrameworkCore.Migrations;
+
+#nullable disable
+
+namespace MsFullstackSample.Api.Migrations
+{
+    /// <inheritdoc />
+    public partial class AddAllowancePayouts : Migration
+    {
+        /// <inheritdoc />
+        protected override void Up(MigrationBuilder migrationBuilder)
+        {
+            migrationBuilder.AddColumn<int>(
+                name: "PayoutId",
+                table: "PointTransactions",
+                type: "INTEGER",
+                nullable: true);
+
+            migrationBuilder.AddColumn<int>(
+                name: "AllowanceAmountCents",
+                table: "Households",
+                type: "INTEGER",
+                nullable: true);
+
+            migrationBuilder.AddColumn<string>(
+                name: "AllowanceCurrency",
+                table: "Households",
+                type: "TEXT",
+                nullable: true);
+
+            migrationBuilder.AddColumn<int>(
+                name: "AllowancePoints",
+                table: "Households",
+                type: "INTEGER",
+                nullable: true);
+
+            migrationBuilder.CreateTable(
+                name: "Payouts",
+                columns: table => new
+                {
+                    Id = table.Column<int>(type: "INTEGER", nullable: false)
+                        .Annotation("Sqlite:Autoincrement", true),
+                    KidId = table.Column<string>(type: "TEXT", nullable: false),
+                    Points = table.Column<int>(type: "INTEGER", nullable: false),
+                    AmountCents = table.Column<int>(type: "INTEGER", nullable: false),
+                    Currency = table.Column<string>(type: "TEXT", nullable: false),
+                    Note = table.Column<string>(type: "TEXT", nullable: true),
+                    ActorUserId = table.Column<string>(type: "TEXT", nullable: true),
+                    PaidAtUtc = table.Column<DateTime>(type: "TEXT", nullable: false)
+                },
+                constraints: table =>
+                {
+                    table.PrimaryKey("PK_Payouts", x => x.Id);
+                });
+
+            migrationBuilder.CreateIndex(
+                name: "IX_PointTransactions_PayoutId",
+                table: "PointTransactions",
+                column: "PayoutId");
+
+            migrationBuilder.CreateIndex(
+                name: "IX_Payouts_KidId_PaidAtUtc",
+                table: "Payouts",
+                columns: new[] { "KidId", "PaidAtUtc" });
+
+            migrationBuilder.AddForeignKey(
+                name: "FK_PointTransactions_Payouts_PayoutId",
+                table: "PointTransactions",
+                column: "PayoutId",
+                principalTable: "Payouts",
+                principalColumn: "Id",
+                onDelete: ReferentialAction.SetNull);
+        }
+
+        /// <inheritdoc />
+        protected override void Down(MigrationBuilder migrationBuilder)
+        {
+            migrationBuilder.DropForeignKey(
+                name: "FK_PointTransactions_Payouts_PayoutId",
+                table: "PointTransactions");
+
+            migrationBuilder.DropTable(
+                name: "Payouts");
+
+            migrationBuilder.DropIndex(
+                name: "IX_PointTransactions_PayoutId",
+                table: "PointTransactions");
+
+            migrationBuilder.DropColumn(
+                name: "PayoutId",
+                table: "PointTransactions");
+
+            migrationBuilder.DropColumn(
+                name: "AllowanceAmountCents",
+                table: "Households");
+
+            migrationBuilder.DropColumn(
+                name: "AllowanceCurrency",
+                table: "Households");
+
+            migrationBuilder.DropColumn(
+                name: "AllowancePoints",
+                table: "Households");
+        }
+    }
+}
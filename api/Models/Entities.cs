@@ -1,3 +1,5 @@
+using System.Text.Json.Serialization;
+
 public class AppUser
 {
     public string Id { get; set; } = "";
@@ -5,16 +7,134 @@ public class AppUser
     public string PasswordHash { get; set; } = "";
     public string Role { get; set; } = "Kid";
     public string? ParentId { get; set; }
+
+    // Household this parent belongs to (shared kids, tasks, rewards, todos)
+    public string? HouseholdId { get; set; }
+}
+
+// A family: one or more parent accounts sharing the same kids, tasks and rewards.
+// Family-wide settings live here so every parent sees the same switches + PIN.
+public class Household
+{
+    public string Id { get; set; } = "";
+
+    // Shown in the app header / settings (set at sign-up)
+    public string Name { get; set; } = "";
+
+    // Every kid completion waits for parent review
+    public bool RequireTaskApproval { get; set; }
+
+    // PIN for leaving Kid Mode (hashed like a password)
+    public string? ParentPinHash { get; set; }
+    public int PinFailedAttempts { get; set; }
+    public DateTime? PinLockedUntilUtc { get; set; }
+
+    // Allowance mode: AllowancePoints pts = AllowanceAmountCents in AllowanceCurrency
+    // (e.g. 100 pts = 100 cents USD); null = not set up, no cash outs
+    public int? AllowancePoints { get; set; }
+    public int? AllowanceAmountCents { get; set; }
+    public string? AllowanceCurrency { get; set; }
+
+    // IANA time zone the family lives in (see FamilyClock); null = not picked yet, runs on UTC
+    public string? TimeZone { get; set; }
+
+    public DateTime CreatedAtUtc { get; set; } = DateTime.UtcNow;
+}
+
+// Invite code a parent shares with a co-parent; single use, expires after a week
+public class HouseholdInvite
+{
+    public int Id { get; set; }
+    public string HouseholdId { get; set; } = "";
+    public string Code { get; set; } = "";
+    public string CreatedByUserId { get; set; } = "";
+    public DateTime CreatedAtUtc { get; set; } = DateTime.UtcNow;
+    public DateTime ExpiresAtUtc { get; set; }
+    public DateTime? AcceptedAtUtc { get; set; }
+    public string? AcceptedByUserId { get; set; }
+}
+
+// Refresh token for a parent session (only a SHA-256 hash is stored).
+// Rotated on every use; all rotations of one login share a SessionId so
+// replaying an already-used token can revoke the whole session.
+public class RefreshToken
+{
+    public int Id { get; set; }
+    public string UserId { get; set; } = "";
+    public string SessionId { get; set; } = "";
+    public string TokenHash { get; set; } = "";
+    public DateTime CreatedAtUtc { get; set; } = DateTime.UtcNow;
+    public DateTime ExpiresAtUtc { get; set; }
+    public DateTime? RevokedAtUtc { get; set; }
+}
+
+// Response of a request sent with an Idempotency-Key (replayed on retries, see Idempotency.cs)
+public class IdempotencyRecord
+{
+    public int Id { get; set; }
+
+    // Caller (kid or parent user id) + the client's key: unique together
+    public string SubjectId { get; set; } = "";
+    public string Key { get; set; } = "";
+
+    // "PUT /api/tasks/5/complete?kidId=..." -> a key can't be reused for another request
+    public string RequestPath { get; set; } = "";
+
+    public int StatusCode { get; set; }
+    public string? ResponseJson { get; set; }
+
+    public DateTime CreatedAtUtc { get; set; } = DateTime.UtcNow;
 }
 
 public class KidProfile
 {
     public string Id { get; set; } = "";
-    public string ParentId { get; set; } = "";
+    public string HouseholdId { get; set; } = "";
     public string DisplayName { get; set; } = "";
 
     // next step:
     public int PointsBalance { get; set; } = 0;
+
+    // Profile look (emoji avatar + hex accent color, e.g. "🦊" / "#f97316")
+    public string Avatar { get; set; } = "";
+    public string Color { get; set; } = "";
+
+    // Archived kids are hidden from pickers but keep their tasks + ledger
+    public bool IsArchived { get; set; }
+
+    // Savings goal: a reward the kid is saving up for (null = none).
+    // GoalLocksPoints keeps the goal's cost from being spent on other rewards.
+    public int? GoalRewardId { get; set; }
+    public bool GoalLocksPoints { get; set; }
+
+    // Self sign-in on a shared device (see SharedDevice). The secret is a
+    // 4-digit PIN or a picture sequence, hashed like a password; never sent out.
+    public KidLoginMethod LoginMethod { get; set; } = KidLoginMethod.None;
+    [JsonIgnore] public string? LoginSecretHash { get; set; }
+    [JsonIgnore] public int LoginFailedAttempts { get; set; }
+    [JsonIgnore] public DateTime? LoginLockedUntilUtc { get; set; }
+}
+
+public enum KidLoginMethod
+{
+    None = 0,
+    Pin = 1,
+    Picture = 2
+}
+
+// A tablet a parent set up for the household's kids. The device keeps only
+// this token (hash stored here), never a parent token; kids sign in on it
+// with their own PIN / picture password.
+public class SharedDevice
+{
+    public int Id { get; set; }
+    public string HouseholdId { get; set; } = "";
+    public string Name { get; set; } = "";
+    public string TokenHash { get; set; } = "";
+    public string CreatedByUserId { get; set; } = "";
+    public DateTime CreatedAtUtc { get; set; } = DateTime.UtcNow;
+    public DateTime? LastUsedAtUtc { get; set; }
+    public DateTime? RevokedAtUtc { get; set; }
 }
 
 public class KidTask
@@ -23,9 +143,85 @@ public class KidTask
     public string Title { get; set; } = "";
     public int Points { get; set; }
     public string AssignedKidId { get; set; } = "";
+    public string HouseholdId { get; set; } = "";
+
+    // Which parent added it (any parent in the household can edit it)
     public string CreatedByParentId { get; set; } = "";
     public bool IsComplete { get; set; }
     public DateTime? CompletedAt { get; set; }
+
+    // Recurrence (see TaskSchedule). None = classic one-shot task.
+    public TaskRecurrence Recurrence { get; set; } = TaskRecurrence.None;
+
+    // Weekdays only: bitmask of DayOfWeek (Sunday = 1, Monday = 2, ... Saturday = 64)
+    public int RecurrenceDays { get; set; }
+
+    // First day the schedule applies (anchors Weekly / Monthly)
+    public DateTime? StartDate { get; set; }
+
+    // The occurrence the kid is currently working on (recurring tasks only)
+    public DateTime? OccurrenceDate { get; set; }
+
+    // Approval: kid completions of this task wait for a parent
+    // (also applies when the household's RequireTaskApproval setting is on)
+    public bool RequiresApproval { get; set; }
+
+    // A kid completion is waiting in the parent review queue
+    public bool IsPendingApproval { get; set; }
+
+    // Last rejection reason, shown to the kid until they try again
+    public string? RejectionReason { get; set; }
+
+    // Deadline (optional): one-shot tasks use DueAtUtc; recurring tasks are due
+    // DueMinutes after the start of each occurrence day on the family's clock (FamilyClock), e.g. 480 = 08:00
+    public DateTime? DueAtUtc { get; set; }
+    public int? DueMinutes { get; set; }
+
+    // Late rules: completing after the deadline earns LatePointsPercent of Points;
+    // an occurrence that expires uncompleted costs MissedPenalty points (Adjust entry)
+    public int? LatePointsPercent { get; set; }
+    public int? MissedPenalty { get; set; }
+
+    // One-shot task expired uncompleted (end of its due day); can't be completed anymore
+    public DateTime? ExpiredAtUtc { get; set; }
+}
+
+public enum TaskRecurrence
+{
+    None = 0,
+    Daily = 1,
+    Weekdays = 2,
+    Weekly = 3,
+    Monthly = 4
+}
+
+// One row per completed occurrence (one-shot tasks get exactly one)
+public class TaskCompletion
+{
+    public int Id { get; set; }
+
+    public int TaskId { get; set; }
+    public KidTask? Task { get; set; }
+
+    public string KidId { get; set; } = "";
+
+    // The scheduled day this completion counts for
+    public DateTime OccurrenceDate { get; set; }
+
+    public DateTime CompletedAtUtc { get; set; } = DateTime.UtcNow;
+
+    // Approval state (points are only credited once Approved)
+    public TaskCompletionStatus Status { get; set; } = TaskCompletionStatus.Approved;
+    public DateTime? ReviewedAtUtc { get; set; }
+    public string? ReviewedByParentId { get; set; }
+    public string? RejectionReason { get; set; }
+}
+
+public enum TaskCompletionStatus
+{
+    Approved = 1,
+    Pending = 2,
+    Rejected = 3
 }
 
 public class Reward
@@ -33,6 +229,15 @@ public class Reward
     public int Id { get; set; }
     public string Name { get; set; } = "";
     public int Cost { get; set; }
+
+    // Owner of this catalog entry (each household has its own rewards)
+    public string HouseholdId { get; set; } = "";
+
+    // Optional limits (null = unlimited), enforced on redeem
+    public int? Stock { get; set; }          // copies left; restored when a redemption is cancelled
+    public int? MaxPerDay { get; set; }      // per kid, per family day (Household.TimeZone)
+    public int? MaxPerWeek { get; set; }     // per kid, per family week (Monday to Sunday)
+    public int? CooldownHours { get; set; }  // per kid, since their last redemption
 }
 
 public class Redemption
@@ -41,6 +246,41 @@ public class Redemption
     public string KidId { get; set; } = "";
     public int RewardId { get; set; }
     public DateTime RedeemedAt { get; set; }
+
+    // Snapshot at redeem time (reward may be renamed, repriced or deleted later)
+    public string RewardName { get; set; } = "";
+    public int Cost { get; set; }
+
+    // Fulfillment (parent hands the reward over, or cancels + refunds)
+    public RedemptionStatus Status { get; set; } = RedemptionStatus.Pending;
+    public DateTime? FulfilledAtUtc { get; set; }
+    public DateTime? CancelledAtUtc { get; set; }
+}
+
+public enum RedemptionStatus
+{
+    Pending = 1,
+    Fulfilled = 2,
+    Cancelled = 3
+}
+
+// Points a parent turned into real money (allowance mode)
+public class Payout
+{
+    public int Id { get; set; }
+    public string KidId { get; set; } = "";
+
+    // Snapshot of the exchange rate at cash-out time (the family may change it later)
+    public int Points { get; set; }
+    public int AmountCents { get; set; }
+    public string Currency { get; set; } = "USD";
+
+    public string? Note { get; set; }
+
+    // Parent who paid it out
+    public string? ActorUserId { get; set; }
+
+    public DateTime PaidAtUtc { get; set; } = DateTime.UtcNow;
 }
 
 public class TodoItem
@@ -48,6 +288,12 @@ public class TodoItem
     public int Id { get; set; }
     public string Title { get; set; } = "";
     public bool IsDone { get; set; }
+
+    // Household the todo belongs to
+    public string HouseholdId { get; set; } = "";
+
+    // Null = shared with the whole family; otherwise one kid's todo
+    public string? AssignedKidId { get; set; }
 }
 
 public enum PointTransactionType
@@ -76,7 +322,42 @@ public class PointTransaction
     public int? RedemptionId { get; set; }
     public Redemption? Redemption { get; set; }
 
+    // Which occurrence of a (recurring) task this entry paid for
+    public int? TaskCompletionId { get; set; }
+    public TaskCompletion? TaskCompletion { get; set; }
+
+    // Allowance cash out this Spend paid for
+    public int? PayoutId { get; set; }
+    public Payout? Payout { get; set; }
+
     public string Note { get; set; } = "";
 
+    // Optional grouping for manual adjustments ("Bonus", "Behavior", ...)
+    public string? Category { get; set; }
+
+    // Parent who made the change (approver / adjuster); null = the kid's own action
+    public string? ActorUserId { get; set; }
+
     public DateTime CreatedAtUtc { get; set; } = DateTime.UtcNow;
 }
+
+// Badge a kid earned (catalog + rules in Achievements.cs)
+public class KidAchievement
+{
+    public int Id { get; set; }
+    public string KidId { get; set; } = "";
+
+    // Catalog key ("streak-7", "points-1000", ...); TaskId for per-task badges (streaks)
+    public string AchievementKey { get; set; } = "";
+    public int? TaskId { get; set; }
+
+    // Snapshot for the trophy shelf (the task may be renamed or deleted later)
+    public string Title { get; set; } = "";
+    public string Icon { get; set; } = "";
+    public int BonusPoints { get; set; }
+
+    public DateTime EarnedAtUtc { get; set; } = DateTime.UtcNow;
+
+    // Null until the kid has seen the "badge earned" toast
+    public DateTime? SeenAtUtc { get; set; }
+}
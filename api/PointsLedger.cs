@@ -0,0 +1,22 @@
+// ============================================================
+// PointsLedger
+// - The ONE place that changes KidProfile.PointsBalance
+// - Every balance change is paired with a PointTransaction row, so the
+//   balance and the history view can never disagree
+// - Callers build the entry (type, delta, note, links) and save afterwards
+// ============================================================
+
+public static class PointsLedger
+{
+    // Applies entry.Delta to the kid's balance and queues the ledger row
+    public static PointTransaction Post(AppDbContext db, KidProfile kid, PointTransaction entry)
+    {
+        entry.KidId = kid.Id;
+        entry.Kid = kid;
+
+        kid.PointsBalance += entry.Delta;
+        db.PointTransactions.Add(entry);
+
+        return entry;
+    }
+}
@@ -10,10 +10,16 @@ using Microsoft.AspNetCore.Http;
 using Microsoft.AspNetCore.Identity;
 using Microsoft.EntityFrameworkCore;
 using Microsoft.Extensions.DependencyInjection;
+using Microsoft.Extensions.Options;
 using Microsoft.IdentityModel.Tokens;
+using System.Globalization;
 using System.IdentityModel.Tokens.Jwt;
 using System.Security.Claims;
+using System.Security.Cryptography;
 using System.Text;
+using System.Text.Json;
+using System.Text.Json.Serialization;
+using System.Text.RegularExpressions;
 using System.IO;
 
 var builder = WebApplication.CreateBuilder(args);
@@ -38,6 +44,7 @@ builder.Services.AddCors(options =>
             )
             .AllowAnyHeader()  // allow Authorization, Content-Type, etc.
             .AllowAnyMethod()  // allow GET/POST/PUT/DELETE
+            .WithExposedHeaders("Content-Disposition", Idempotency.ReplayedHeaderName) // export file names, outbox replays
     );
 });
 
@@ -58,10 +65,18 @@ if (!string.IsNullOrWhiteSpace(dbDir))
 
 Console.WriteLine($"[DB] Using SQLite at: {dbPath}");
 
+// Live update channels (GET /events); AppDbContext publishes to it after each save
+builder.Services.AddSingleton<FamilyEventHub>();
+
 // Register AppDbContext so endpoints can accept (AppDbContext db) via DI
 builder.Services.AddDbContext<AppDbContext>(options =>
     options.UseSqlite($"Data Source={dbPath}"));
 
+// Serialize enums (PointTransactionType, etc.) as strings so the frontend
+// can work with "Earn" / "Spend" / "Adjust" instead of magic numbers
+builder.Services.ConfigureHttpJsonOptions(options =>
+    options.SerializerOptions.Converters.Add(new JsonStringEnumConverter()));
+
 // ============================================================
 // 3) Password Hashing (Lightweight)
 // - We use IPasswordHasher<AppUser> without the full Identity stack
@@ -74,6 +89,8 @@ builder.Services.AddScoped<IPasswordHasher<AppUser>, PasswordHasher<AppUser>>();
 // 4) JWT Authentication
 // - JWT_SECRET is used to sign tokens
 // - The API validates the signature + expiry on every request
+// - Access tokens are short-lived; parents stay signed in with a refresh
+//   token (server-stored, rotated on use, revocable; see section 12)
 // - RoleClaimType / NameClaimType controls how ClaimsPrincipal reads values
 // ============================================================
 
@@ -85,6 +102,14 @@ var jwtSecret =
 // Symmetric key used to sign/verify tokens
 var jwtKey = new SymmetricSecurityKey(Encoding.UTF8.GetBytes(jwtSecret));
 
+// Token lifetimes (refresh tokens slide: every rotation starts a new 30 days)
+var accessTokenLifetime = TimeSpan.FromMinutes(15);
+var refreshTokenLifetime = TimeSpan.FromDays(30);
+
+// Kid sessions started on a shared device can't be refreshed (no parent
+// session there), so they last longer; afterwards the kid signs in again
+var deviceKidSessionLifetime = TimeSpan.FromHours(2);
+
 builder.Services
     .AddAuthentication(JwtBearerDefaults.AuthenticationScheme)
     .AddJwtBearer(o =>
@@ -172,7 +197,9 @@ api.MapMethods("/{*path}", new[] { "OPTIONS" }, () => Results.Ok())
 // ============================================================
 // 9) Helpers
 // - GetUserId: reliably pull user id from JWT claims
+// - GetHouseholdId: household whose kids, tasks, rewards and todos the caller sees
 // - CreateToken: generate JWT for Parent or Kid sessions
+// - IssueRefreshToken / RevokeRefreshSession: parent refresh tokens
 // ============================================================
 
 static string? GetUserId(ClaimsPrincipal principal)
@@ -183,7 +210,21 @@ static string? GetUserId(ClaimsPrincipal principal)
         ?? principal.FindFirstValue(JwtRegisteredClaimNames.Sub);
 }
 
-string CreateToken(string subjectId, string role, string? kidId = null, string? parentId = null)
+// Household the caller belongs to: a parent's membership, or (kid token) the kid's household.
+// Read from the DB (not a claim) so joining another household applies right away.
+async Task<string?> GetHouseholdId(ClaimsPrincipal principal, AppDbContext db)
+{
+    if (principal.FindFirstValue(ClaimTypes.Role) == "Kid")
+    {
+        var kidId = principal.FindFirstValue("kidId") ?? GetUserId(principal);
+        return await db.Kids.Where(k => k.Id == kidId).Select(k => k.HouseholdId).FirstOrDefaultAsync();
+    }
+
+    var userId = GetUserId(principal);
+    return await db.Users.Where(u => u.Id == userId).Select(u => u.HouseholdId).FirstOrDefaultAsync();
+}
+
+string CreateToken(string subjectId, string role, string? kidId = null, string? parentId = null, TimeSpan? lifetime = null)
 {
     // Core claims:
     // - sub / NameIdentifier = user identity
@@ -207,13 +248,47 @@ string CreateToken(string subjectId, string role, string? kidId = null, string?
 
     var token = new JwtSecurityToken(
         claims: claims,
-        expires: DateTime.UtcNow.AddHours(8),
+        expires: DateTime.UtcNow.Add(lifetime ?? accessTokenLifetime),
         signingCredentials: creds
     );
 
     return new JwtSecurityTokenHandler().WriteToken(token);
 }
 
+// Only the hash is stored, so a leaked database can't be replayed as sessions
+// (also used for shared device tokens)
+static string HashRefreshToken(string token) =>
+    Convert.ToHexString(SHA256.HashData(Encoding.UTF8.GetBytes(token)));
+
+// Adds a new refresh token to the session (caller saves) and returns the raw value
+(string Token, DateTime ExpiresAtUtc) IssueRefreshToken(AppDbContext db, string userId, string sessionId)
+{
+    var token = Convert.ToHexString(RandomNumberGenerator.GetBytes(32));
+    var expiresAtUtc = DateTime.UtcNow.Add(refreshTokenLifetime);
+
+    db.RefreshTokens.Add(new RefreshToken
+    {
+        UserId = userId,
+        SessionId = sessionId,
+        TokenHash = HashRefreshToken(token),
+        ExpiresAtUtc = expiresAtUtc
+    });
+
+    return (token, expiresAtUtc);
+}
+
+// Revokes every live token of a session (logout, or a replayed token)
+async Task RevokeRefreshSession(AppDbContext db, string sessionId)
+{
+    var now = DateTime.UtcNow;
+    var live = await db.RefreshTokens
+        .Where(t => t.SessionId == sessionId && t.RevokedAtUtc == null)
+        .ToListAsync();
+
+    foreach (var t in live) t.RevokedAtUtc = now;
+    await db.SaveChangesAsync();
+}
+
 // ============================================================
 // 10) Database Migrate + Seed (Safe Startup)
 // - Ensures schema exists
@@ -252,26 +327,39 @@ using (var scope = app.Services.CreateScope())
     var parentId = parent.Id;
 
     // -----------------------
-    // Seed: kids for this parent
+    // Seed: the parent's household
     // -----------------------
-    if (!db.Kids.Any(k => k.ParentId == parentId))
+    if (parent.HouseholdId is null)
+    {
+        var household = new Household { Id = Guid.NewGuid().ToString(), Name = "Demo Family" };
+        db.Households.Add(household);
+        parent.HouseholdId = household.Id;
+        db.SaveChanges();
+    }
+
+    var householdId = parent.HouseholdId;
+
+    // -----------------------
+    // Seed: kids for this household
+    // -----------------------
+    if (!db.Kids.Any(k => k.HouseholdId == householdId))
     {
         db.Kids.AddRange(
-            new KidProfile { Id = "kid-1", ParentId = parentId, DisplayName = "Kid 1" },
-            new KidProfile { Id = "kid-2", ParentId = parentId, DisplayName = "Kid 2" }
+            new KidProfile { Id = "kid-1", HouseholdId = householdId, DisplayName = "Kid 1" },
+            new KidProfile { Id = "kid-2", HouseholdId = householdId, DisplayName = "Kid 2" }
         );
         db.SaveChanges();
     }
 
     // -----------------------
-    // Seed: rewards (if empty)
+    // Seed: rewards for this household (if its catalog is empty)
     // -----------------------
-    if (!db.Rewards.Any())
+    if (!db.Rewards.Any(r => r.HouseholdId == householdId))
     {
         db.Rewards.AddRange(
-            new Reward { Name = "Ice Cream", Cost = 100 },
-            new Reward { Name = "Extra Screen Time", Cost = 50 },
-            new Reward { Name = "Movie Night", Cost = 150 }
+            new Reward { Name = "Ice Cream", Cost = 100, HouseholdId = householdId },
+            new Reward { Name = "Extra Screen Time", Cost = 50, HouseholdId = householdId },
+            new Reward { Name = "Movie Night", Cost = 150, HouseholdId = householdId }
         );
         db.SaveChanges();
     }
@@ -287,6 +375,7 @@ using (var scope = app.Services.CreateScope())
                 Title = "Brush Teeth",
                 Points = 50,
                 AssignedKidId = "kid-1",
+                HouseholdId = householdId,
                 CreatedByParentId = parentId,
                 IsComplete = false,
                 CompletedAt = null
@@ -296,6 +385,7 @@ using (var scope = app.Services.CreateScope())
                 Title = "Go to School",
                 Points = 50,
                 AssignedKidId = "kid-1",
+                HouseholdId = householdId,
                 CreatedByParentId = parentId,
                 IsComplete = false,
                 CompletedAt = null
@@ -305,6 +395,7 @@ using (var scope = app.Services.CreateScope())
                 Title = "Homework",
                 Points = 50,
                 AssignedKidId = "kid-2",
+                HouseholdId = householdId,
                 CreatedByParentId = parentId,
                 IsComplete = false,
                 CompletedAt = null
@@ -324,10 +415,76 @@ api.MapGet("/health", () => Results.Ok(new { status = "ok" }))
 
 // ============================================================
 // 12) Auth Endpoints
+// - /parent/register: self sign-up; creates a Parent with an empty household
+//   (no kids, tasks or rewards) and signs them in
 // - /parent/login: verifies parent credentials and returns Parent JWT
 // - /kid-session: parent creates a "kid token" to act as a kid
+//   (only once the household has a parent PIN: it's what locks Kid Mode)
+// - /auth/refresh: trades a refresh token for new tokens (rotation);
+//   pass kidId to renew a kid session too (only while the parent's is valid)
+// - /auth/logout: revokes the refresh token's session
 // ============================================================
 
+// Sign-up rules (the web form mirrors these for instant feedback)
+static string? ValidateNewParentAccount(string username, string password, string familyName)
+{
+    if (!Regex.IsMatch(username, "^[A-Za-z0-9._-]{3,32}$"))
+        return "Username must be 3 to 32 characters: letters, numbers, '.', '_' or '-'.";
+
+    if (password.Length < 8)
+        return "Password must be at least 8 characters.";
+
+    if (!password.Any(char.IsLetter) || !password.Any(char.IsDigit))
+        return "Password must contain at least one letter and one number.";
+
+    if (password.Contains(username, StringComparison.OrdinalIgnoreCase))
+        return "Password must not contain your username.";
+
+    if (string.IsNullOrWhiteSpace(familyName))
+        return "Family name is required.";
+
+    if (familyName.Length > 60)
+        return "Family name must be 60 characters or less.";
+
+    return null;
+}
+
+api.MapPost("/parent/register", async (AppDbContext db, IPasswordHasher<AppUser> hasher, RegisterParentRequest req) =>
+{
+    var username = (req.Username ?? "").Trim();
+    var password = req.Password ?? "";
+    var familyName = (req.FamilyName ?? "").Trim();
+
+    var error = ValidateNewParentAccount(username, password, familyName);
+    if (error is not null) return Results.BadRequest(error);
+
+    // Usernames are matched case-insensitively at login, so they must be unique that way too
+    var taken = await db.Users.AnyAsync(u => u.Username.ToLower() == username.ToLower());
+    if (taken) return Results.Conflict("That username is taken.");
+
+    var household = new Household { Id = Guid.NewGuid().ToString(), Name = familyName };
+    if (FamilyClock.IsKnownZone(req.TimeZone)) household.TimeZone = req.TimeZone!.Trim();
+    db.Households.Add(household);
+
+    var user = new AppUser
+    {
+        Id = Guid.NewGuid().ToString(),
+        Username = username,
+        Role = "Parent",
+        HouseholdId = household.Id
+    };
+    user.PasswordHash = hasher.HashPassword(user, password);
+    db.Users.Add(user);
+
+    // Signed in right away (same response as /parent/login)
+    var token = CreateToken(subjectId: user.Id, role: "Parent");
+    var (refreshToken, refreshTokenExpiresAt) = IssueRefreshToken(db, user.Id, sessionId: Guid.NewGuid().ToString());
+    await db.SaveChangesAsync();
+
+    return Results.Ok(new { token, role = "Parent", refreshToken, refreshTokenExpiresAt });
+})
+.AllowAnonymous();
+
 api.MapPost("/parent/login", async (AppDbContext db, IPasswordHasher<AppUser> hasher, ParentLoginRequest req) =>
 {
     var username = (req.Username ?? "").Trim();
@@ -352,7 +509,80 @@ api.MapPost("/parent/login", async (AppDbContext db, IPasswordHasher<AppUser> ha
     // Create a Parent JWT (role=Parent)
     var token = CreateToken(subjectId: user.Id, role: "Parent");
 
-    return Results.Ok(new { token, role = "Parent" });
+    // Housekeeping: forget this parent's expired refresh tokens
+    var now = DateTime.UtcNow;
+    db.RefreshTokens.RemoveRange(
+        await db.RefreshTokens.Where(t => t.UserId == user.Id && t.ExpiresAtUtc < now).ToListAsync());
+
+    // Every login starts a new refresh session
+    var (refreshToken, refreshTokenExpiresAt) = IssueRefreshToken(db, user.Id, sessionId: Guid.NewGuid().ToString());
+    await db.SaveChangesAsync();
+
+    return Results.Ok(new { token, role = "Parent", refreshToken, refreshTokenExpiresAt });
+})
+.AllowAnonymous();
+
+api.MapPost("/auth/refresh", async (AppDbContext db, RefreshSessionRequest req) =>
+{
+    if (string.IsNullOrWhiteSpace(req.RefreshToken)) return Results.Unauthorized();
+
+    var hash = HashRefreshToken(req.RefreshToken);
+    var stored = await db.RefreshTokens.FirstOrDefaultAsync(t => t.TokenHash == hash);
+    if (stored is null) return Results.Unauthorized();
+
+    // Already rotated -> someone replayed an old copy; end the whole session
+    if (stored.RevokedAtUtc is not null)
+    {
+        await RevokeRefreshSession(db, stored.SessionId);
+        return Results.Unauthorized();
+    }
+
+    if (stored.ExpiresAtUtc <= DateTime.UtcNow) return Results.Unauthorized();
+
+    var user = await db.Users.FirstOrDefaultAsync(u => u.Id == stored.UserId && u.Role == "Parent");
+    if (user is null) return Results.Unauthorized();
+
+    // Rotate: the presented token is used up, a new one continues the session
+    stored.RevokedAtUtc = DateTime.UtcNow;
+    var (refreshToken, refreshTokenExpiresAt) = IssueRefreshToken(db, user.Id, stored.SessionId);
+    await db.SaveChangesAsync();
+
+    var token = CreateToken(subjectId: user.Id, role: "Parent");
+
+    // Kid session renewal: kid must still be in this parent's household and active.
+    // Otherwise kidToken is null and the client drops back to Parent Mode.
+    string? kidToken = null;
+    KidProfile? kid = null;
+    if (!string.IsNullOrWhiteSpace(req.KidId))
+    {
+        kid = await db.Kids.FirstOrDefaultAsync(k => k.Id == req.KidId && k.HouseholdId == user.HouseholdId && !k.IsArchived);
+        if (kid is not null)
+            kidToken = CreateToken(subjectId: kid.Id, role: "Kid", kidId: kid.Id, parentId: user.Id);
+    }
+
+    return Results.Ok(new
+    {
+        token,
+        role = "Parent",
+        refreshToken,
+        refreshTokenExpiresAt,
+        kidToken,
+        kidId = kid?.Id,
+        kidDisplayName = kid?.DisplayName
+    });
+})
+.AllowAnonymous();
+
+api.MapPost("/auth/logout", async (AppDbContext db, LogoutRequest req) =>
+{
+    if (!string.IsNullOrWhiteSpace(req.RefreshToken))
+    {
+        var hash = HashRefreshToken(req.RefreshToken);
+        var stored = await db.RefreshTokens.FirstOrDefaultAsync(t => t.TokenHash == hash);
+        if (stored is not null) await RevokeRefreshSession(db, stored.SessionId);
+    }
+
+    return Results.NoContent();
 })
 .AllowAnonymous();
 
@@ -362,9 +592,15 @@ api.MapPost("/kid-session", async (ClaimsPrincipal principal, AppDbContext db, K
     var parentId = GetUserId(principal);
     if (string.IsNullOrWhiteSpace(parentId)) return Results.Unauthorized();
 
-    // Ensure kid belongs to this parent (ownership check)
-    var kid = await db.Kids.FirstOrDefaultAsync(k => k.Id == req.KidId && k.ParentId == parentId);
+    // Ensure kid belongs to this parent's household (ownership check)
+    var householdId = await GetHouseholdId(principal, db);
+    var kid = await db.Kids.FirstOrDefaultAsync(k => k.Id == req.KidId && k.HouseholdId == householdId);
     if (kid is null) return Results.NotFound("Kid not found for this parent.");
+    if (kid.IsArchived) return Results.BadRequest("This kid profile is archived.");
+
+    // Without a PIN nothing would keep the kid from switching back to Parent Mode
+    var hasPin = await db.Households.AnyAsync(h => h.Id == householdId && h.ParentPinHash != null);
+    if (!hasPin) return Results.BadRequest("Set a parent PIN in Settings before using Kid Mode.");
 
     // Create Kid JWT with kidId + parentId claims
     var kidToken = CreateToken(subjectId: kid.Id, role: "Kid", kidId: kid.Id, parentId: parentId);
@@ -376,23 +612,43 @@ api.MapPost("/kid-session", async (ClaimsPrincipal principal, AppDbContext db, K
 // ============================================================
 // 13) Kids Endpoints (ParentOnly)
 // - Parents list, create, and update kid profiles
+// - Archiving hides a kid from pickers (GET /kids) but keeps their
+//   tasks + points ledger; pass includeArchived=true to see them
 // ============================================================
 
-api.MapGet("/kids", async (ClaimsPrincipal principal, AppDbContext db) =>
+// Light validation for profile look fields (shared by create + update)
+static string? ValidateKidLook(string? avatar, string? color)
+{
+    if (avatar is not null && avatar.Trim().Length > 16)
+        return "Avatar must be a short emoji or label.";
+
+    if (!string.IsNullOrWhiteSpace(color) &&
+        !Regex.IsMatch(color.Trim(), "^#[0-9a-fA-F]{6}$"))
+        return "Color must be a hex value like #22c55e.";
+
+    return null;
+}
+
+api.MapGet("/kids", async (ClaimsPrincipal principal, AppDbContext db, bool? includeArchived) =>
 {
     try
     {
-        var parentId = GetUserId(principal);
-        if (string.IsNullOrWhiteSpace(parentId))
+        var householdId = await GetHouseholdId(principal, db);
+        if (string.IsNullOrWhiteSpace(householdId))
             return Results.Unauthorized();
 
-        // Debug logging to confirm parent filter + data
-        Console.WriteLine($"[GET /api/kids] parentId={parentId}");
+        // Debug logging to confirm household filter + data
+        Console.WriteLine($"[GET /api/kids] householdId={householdId}");
         Console.WriteLine($"[GET /api/kids] totalKids={await db.Kids.CountAsync()}");
-        Console.WriteLine($"[GET /api/kids] kidsForParent={await db.Kids.CountAsync(k => k.ParentId == parentId)}");
+        Console.WriteLine($"[GET /api/kids] kidsForHousehold={await db.Kids.CountAsync(k => k.HouseholdId == householdId)}");
 
-        var kids = await db.Kids
-            .Where(k => k.ParentId == parentId)
+        var q = db.Kids.Where(k => k.HouseholdId == householdId);
+
+        // Archived kids are hidden unless explicitly requested (Manage Kids screen)
+        if (includeArchived != true)
+            q = q.Where(k => !k.IsArchived);
+
+        var kids = await q
             .OrderBy(k => k.DisplayName)
             .ToListAsync();
 
@@ -409,17 +665,22 @@ api.MapGet("/kids", async (ClaimsPrincipal principal, AppDbContext db) =>
 
 api.MapPost("/kids", async (ClaimsPrincipal principal, AppDbContext db, CreateKidRequest req) =>
 {
-    var parentId = GetUserId(principal);
-    if (string.IsNullOrWhiteSpace(parentId)) return Results.Unauthorized();
+    var householdId = await GetHouseholdId(principal, db);
+    if (string.IsNullOrWhiteSpace(householdId)) return Results.Unauthorized();
 
     var name = (req.DisplayName ?? "").Trim();
     if (string.IsNullOrWhiteSpace(name)) return Results.BadRequest("DisplayName is required.");
 
+    var lookError = ValidateKidLook(req.Avatar, req.Color);
+    if (lookError is not null) return Results.BadRequest(lookError);
+
     var kid = new KidProfile
     {
         Id = Guid.NewGuid().ToString(),
-        ParentId = parentId,
-        DisplayName = name
+        HouseholdId = householdId,
+        DisplayName = name,
+        Avatar = (req.Avatar ?? "").Trim(),
+        Color = (req.Color ?? "").Trim()
     };
 
     db.Kids.Add(kid);
@@ -429,19 +690,31 @@ api.MapPost("/kids", async (ClaimsPrincipal principal, AppDbContext db, CreateKi
 })
 .RequireAuthorization("ParentOnly");
 
+// Parent edits a kid profile (all fields optional; archive/unarchive via IsArchived)
 api.MapPut("/kids/{kidId}", async (ClaimsPrincipal principal, AppDbContext db, string kidId, UpdateKidRequest req) =>
 {
-    var parentId = GetUserId(principal);
-    if (string.IsNullOrWhiteSpace(parentId)) return Results.Unauthorized();
-
-    var name = (req.DisplayName ?? "").Trim();
-    if (string.IsNullOrWhiteSpace(name)) return Results.BadRequest("DisplayName is required.");
+    var householdId = await GetHouseholdId(principal, db);
+    if (string.IsNullOrWhiteSpace(householdId)) return Results.Unauthorized();
 
-    // Ownership check: kid must belong to parent
-    var kid = await db.Kids.FirstOrDefaultAsync(k => k.Id == kidId && k.ParentId == parentId);
+    // Ownership check: kid must belong to the household
+    var kid = await db.Kids.FirstOrDefaultAsync(k => k.Id == kidId && k.HouseholdId == householdId);
     if (kid is null) return Results.NotFound("Kid not found for this parent.");
 
-    kid.DisplayName = name;
+    if (req.DisplayName is not null)
+    {
+        var name = req.DisplayName.Trim();
+        if (string.IsNullOrWhiteSpace(name)) return Results.BadRequest("DisplayName cannot be empty.");
+        kid.DisplayName = name;
+    }
+
+    var lookError = ValidateKidLook(req.Avatar, req.Color);
+    if (lookError is not null) return Results.BadRequest(lookError);
+
+    if (req.Avatar is not null) kid.Avatar = req.Avatar.Trim();
+    if (req.Color is not null) kid.Color = req.Color.Trim();
+
+    if (req.IsArchived is not null) kid.IsArchived = req.IsArchived.Value;
+
     await db.SaveChangesAsync();
 
     return Results.Ok(kid);
@@ -454,9 +727,184 @@ api.MapPut("/kids/{kidId}", async (ClaimsPrincipal principal, AppDbContext db, s
 // - POST /tasks: Parent creates tasks for a kid
 // - PUT /tasks/{id}: Parent edits tasks they created
 // - PUT /tasks/{id}/complete: Kid completes own task OR Parent completes on behalf (KidOrParent policy)
+//   (accepts an Idempotency-Key header: offline Kid Mode replays, see Idempotency.cs;
+//   a replay's Queued-At time only picks the occurrence it was for, expiry and
+//   late points are judged when the request arrives. A replay for an occurrence
+//   that was rolled past meanwhile completes THAT occurrence and refunds its
+//   missed-task penalty; with no occurrence that day it's a 409)
 // - DELETE /tasks/{id}: Parent deletes tasks they created
+// - Recurring tasks (Daily / Weekdays / Weekly / Monthly) complete once per
+//   occurrence; see TaskSchedule.cs for the rules. Occurrence days follow the
+//   family's calendar (FamilyClock), so "today" ends at local midnight
+// - Optional deadline: late completions earn LatePointsPercent of the points,
+//   expired occurrences cost MissedPenalty (settled whenever tasks are read or
+//   completed, like the recurrence roll). Due times and the end of a due day
+//   are on the family's clock too
 // ============================================================
 
+// Validate + apply schedule fields to a task (shared by create + edit; today = the family's date)
+static string? ApplySchedule(KidTask task, TaskRecurrence recurrence, int recurrenceDays, DateTime? startDate, DateTime today)
+{
+    if (!Enum.IsDefined(recurrence)) return "Unknown recurrence.";
+
+    if (recurrence == TaskRecurrence.Weekdays && (recurrenceDays & 0b111_1111) == 0)
+        return "Pick at least one weekday.";
+
+    var days = recurrence == TaskRecurrence.Weekdays ? recurrenceDays & 0b111_1111 : 0;
+    DateTime? start = recurrence == TaskRecurrence.None ? null : (startDate ?? today).Date;
+
+    // Unchanged schedule: keep the current occurrence as-is
+    if (task.Id != 0 && task.Recurrence == recurrence && task.RecurrenceDays == days && task.StartDate == start)
+        return null;
+
+    task.Recurrence = recurrence;
+    task.RecurrenceDays = days;
+    task.StartDate = start;
+
+    TaskSchedule.Reset(task, today);
+    return null;
+}
+
+// Validate + apply deadline fields (shared by create + edit; after ApplySchedule)
+// DueMinutes = minutes after the family's midnight, DueAtUtc = an instant
+static string? ApplyDeadline(KidTask task, TaskDeadline deadline)
+{
+    if (deadline.DueMinutes is < 0 or >= 1440) return "Due time must be within the day.";
+    if (deadline.LatePointsPercent is < 0 or > 100) return "Late points must be between 0 and 100 percent.";
+    if (deadline.MissedPenalty is < 1) return "Missed penalty must be at least 1 point.";
+
+    // One-shot tasks have a due date + time, recurring ones a due time per occurrence
+    var oneShot = task.Recurrence == TaskRecurrence.None;
+    task.DueAtUtc = oneShot ? deadline.DueAtUtc?.ToUniversalTime() : null;
+    task.DueMinutes = oneShot ? null : deadline.DueMinutes;
+    task.LatePointsPercent = deadline.LatePointsPercent;
+    task.MissedPenalty = deadline.MissedPenalty;
+
+    // New deadline: an expired task gets another chance
+    task.ExpiredAtUtc = null;
+    return null;
+}
+
+// Pending / rejected flags on a recurring task describe its CURRENT occurrence:
+// re-read them from that occurrence's completion whenever OccurrenceDate moves
+async Task SyncOccurrenceStatus(AppDbContext db, KidTask task)
+{
+    var completion = task.OccurrenceDate is DateTime day
+        ? await db.TaskCompletions.FirstOrDefaultAsync(c => c.TaskId == task.Id && c.OccurrenceDate == day.Date)
+        : null;
+
+    task.IsPendingApproval = completion?.Status == TaskCompletionStatus.Pending;
+    task.RejectionReason = completion?.Status == TaskCompletionStatus.Rejected ? completion.RejectionReason : null;
+}
+
+// Does the completion belong to the occurrence the task shows now? (one-shots: always)
+static bool IsCurrentOccurrence(KidTask task, TaskCompletion completion) =>
+    task.Recurrence == TaskRecurrence.None || task.OccurrenceDate?.Date == completion.OccurrenceDate.Date;
+
+// Catch a task up with the clock (caller saves when this returns true):
+// - Recurring: skip missed occurrences (TaskSchedule.Roll); a submission still
+//   waiting for review stays in the approval queue but no longer blocks the
+//   new occurrence
+// - One-shot with a deadline: expires at the end of its due day (family's clock)
+// - Each occurrence that expired uncompleted costs MissedPenalty (never below 0)
+async Task<bool> SettleTask(AppDbContext db, KidTask task, DateTime now, TimeZoneInfo zone)
+{
+    var missed = new List<DateTime>();
+
+    if (task.Recurrence == TaskRecurrence.None)
+    {
+        if (task.IsComplete || task.IsPendingApproval || task.ExpiredAtUtc is not null || task.DueAtUtc is null)
+            return false;
+        var dueDay = FamilyClock.LocalDate(zone, task.DueAtUtc.Value);
+        if (FamilyClock.ToUtc(zone, dueDay.AddDays(1)) > now) return false;
+
+        task.ExpiredAtUtc = now;
+        missed.Add(dueDay);
+    }
+    else
+    {
+        var previous = task.OccurrenceDate;
+        if (!TaskSchedule.Roll(task, FamilyClock.LocalDate(zone, now))) return false;
+        await SyncOccurrenceStatus(db, task);
+        if (previous is null || task.MissedPenalty is null) return true;
+
+        // Skipped occurrences that were done or are waiting for review weren't missed
+        var skipped = TaskSchedule.Between(task, previous.Value, task.OccurrenceDate!.Value);
+        var handled = await db.TaskCompletions
+            .Where(c => c.TaskId == task.Id && skipped.Contains(c.OccurrenceDate) && c.Status != TaskCompletionStatus.Rejected)
+            .Select(c => c.OccurrenceDate)
+            .ToListAsync();
+
+        missed.AddRange(skipped.Except(handled));
+    }
+
+    if (task.MissedPenalty is not int penalty || missed.Count == 0) return true;
+
+    var kid = await db.Kids.FirstOrDefaultAsync(k => k.Id == task.AssignedKidId);
+    if (kid is null) return true;
+
+    foreach (var day in missed)
+    {
+        var delta = Math.Min(penalty, kid.PointsBalance);
+        if (delta <= 0) break;
+
+        PointsLedger.Post(db, kid, new PointTransaction
+        {
+            Type = PointTransactionType.Adjust,
+            Delta = -delta,
+            TaskId = task.Id,
+            Category = "Missed task",
+            Note = task.Recurrence == TaskRecurrence.None
+                ? $"Missed task: {task.Title}"
+                : $"Missed task: {task.Title} ({day:yyyy-MM-dd})",
+            CreatedAtUtc = now
+        });
+    }
+
+    return true;
+}
+
+// A recurring occurrence that was settled as missed but turns out to be done
+// (an offline completion synced later): give its MissedPenalty back, once.
+// Entries are found by the "(yyyy-MM-dd)" suffix SettleTask writes (titles may change)
+async Task RefundMissedPenalty(AppDbContext db, KidProfile kid, KidTask task, DateTime occurrence, DateTime now)
+{
+    var suffix = $"({occurrence:yyyy-MM-dd})";
+    var entries = await db.PointTransactions
+        .Where(p => p.KidId == kid.Id && p.TaskId == task.Id && p.Category == "Missed task" && p.Note.EndsWith(suffix))
+        .ToListAsync();
+
+    var penalty = entries.Where(p => p.Delta < 0).Sum(p => p.Delta);
+    if (penalty == 0 || entries.Any(p => p.Delta > 0)) return;
+
+    PointsLedger.Post(db, kid, new PointTransaction
+    {
+        Type = PointTransactionType.Adjust,
+        Delta = -penalty,
+        TaskId = task.Id,
+        Category = "Missed task",
+        Note = $"Missed task refunded: {task.Title} {suffix}",
+        CreatedAtUtc = now
+    });
+}
+
+// Settle tasks (skipped occurrences, expiry, penalties) before returning them
+// (all from one household: the callers list a kid's or a household's tasks)
+async Task<List<KidTask>> SettleTasks(AppDbContext db, List<KidTask> tasks)
+{
+    if (tasks.Count == 0) return tasks;
+
+    var now = DateTime.UtcNow;
+    var zone = await FamilyClock.ForHouseholdAsync(db, tasks[0].HouseholdId);
+    var changed = false;
+
+    foreach (var t in tasks)
+        changed |= await SettleTask(db, t, now, zone);
+
+    if (changed) await db.SaveChangesAsync();
+    return tasks;
+}
+
 api.MapGet("/tasks", async (ClaimsPrincipal principal, AppDbContext db, string? kidId) =>
 {
     var role = principal.FindFirstValue(ClaimTypes.Role);
@@ -469,51 +917,63 @@ api.MapGet("/tasks", async (ClaimsPrincipal principal, AppDbContext db, string?
         if (string.IsNullOrWhiteSpace(kidClaim)) return Results.Unauthorized();
 
         var tasks = await db.Tasks.Where(t => t.AssignedKidId == kidClaim).ToListAsync();
-        return Results.Ok(tasks);
+        return Results.Ok(await SettleTasks(db, tasks));
     }
 
-    // ----- Parent view: their tasks -----
-    var parentId = GetUserId(principal);
-    if (string.IsNullOrWhiteSpace(parentId)) return Results.Unauthorized();
+    // ----- Parent view: the household's tasks -----
+    var householdId = await GetHouseholdId(principal, db);
+    if (string.IsNullOrWhiteSpace(householdId)) return Results.Unauthorized();
 
     var q = db.Tasks.AsQueryable();
 
-    // If parent passes kidId, verify kid belongs to parent then filter
+    // If parent passes kidId, verify kid belongs to the household then filter
     if (!string.IsNullOrWhiteSpace(kidId))
     {
-        var kidOwned = await db.Kids.AnyAsync(k => k.Id == kidId && k.ParentId == parentId);
-        if (!kidOwned) return Results.BadRequest("Unknown kidId for this parent.");
+        var kidOwned = await db.Kids.AnyAsync(k => k.Id == kidId && k.HouseholdId == householdId);
+        if (!kidOwned) return Results.BadRequest("Unknown kidId for this household.");
         q = q.Where(t => t.AssignedKidId == kidId);
     }
     else
     {
-        // Default: show tasks created by this parent
-        q = q.Where(t => t.CreatedByParentId == parentId);
+        // Default: every task in the household (whichever parent created it)
+        q = q.Where(t => t.HouseholdId == householdId);
     }
 
-    return Results.Ok(await q.ToListAsync());
+    return Results.Ok(await SettleTasks(db, await q.ToListAsync()));
 })
 .RequireAuthorization();
 
 api.MapPost("/tasks", async (ClaimsPrincipal principal, AppDbContext db, CreateTaskRequest req) =>
 {
-    var parentId = GetUserId(principal);
-    if (string.IsNullOrWhiteSpace(parentId)) return Results.Unauthorized();
+    var householdId = await GetHouseholdId(principal, db);
+    if (string.IsNullOrWhiteSpace(householdId)) return Results.Unauthorized();
 
-    // Ownership check: Parent can only assign tasks to their own kids
-    var kidExists = await db.Kids.AnyAsync(k => k.Id == req.AssignedKidId && k.ParentId == parentId);
-    if (!kidExists) return Results.BadRequest("Unknown kidId for this parent.");
+    // Ownership check: Parent can only assign tasks to the household's (active) kids
+    var kidExists = await db.Kids.AnyAsync(k => k.Id == req.AssignedKidId && k.HouseholdId == householdId && !k.IsArchived);
+    if (!kidExists) return Results.BadRequest("Unknown kidId for this household.");
 
     var task = new KidTask
     {
         Title = req.Title,
         Points = req.Points,
         AssignedKidId = req.AssignedKidId,
-        CreatedByParentId = parentId,
+        HouseholdId = householdId,
+        CreatedByParentId = GetUserId(principal) ?? "",
         IsComplete = false,
-        CompletedAt = null
+        CompletedAt = null,
+        RequiresApproval = req.RequiresApproval ?? false
     };
 
+    var zone = await FamilyClock.ForHouseholdAsync(db, householdId);
+    var scheduleError = ApplySchedule(task, req.Recurrence ?? TaskRecurrence.None, req.RecurrenceDays ?? 0, req.StartDate, FamilyClock.Today(zone));
+    if (scheduleError is not null) return Results.BadRequest(scheduleError);
+
+    if (req.Deadline is not null)
+    {
+        var deadlineError = ApplyDeadline(task, req.Deadline);
+        if (deadlineError is not null) return Results.BadRequest(deadlineError);
+    }
+
     db.Tasks.Add(task);
     await db.SaveChangesAsync();
 
@@ -521,15 +981,17 @@ api.MapPost("/tasks", async (ClaimsPrincipal principal, AppDbContext db, CreateT
 })
 .RequireAuthorization("ParentOnly");
 
-// Parent edits a task they created
+// Parent edits a household task
 api.MapPut("/tasks/{id:int}", async (ClaimsPrincipal principal, AppDbContext db, int id, UpdateTaskRequest req) =>
 {
-    var parentId = GetUserId(principal);
-    if (string.IsNullOrWhiteSpace(parentId)) return Results.Unauthorized();
+    var householdId = await GetHouseholdId(principal, db);
+    if (string.IsNullOrWhiteSpace(householdId)) return Results.Unauthorized();
 
-    var task = await db.Tasks.FirstOrDefaultAsync(t => t.Id == id && t.CreatedByParentId == parentId);
+    var task = await db.Tasks.FirstOrDefaultAsync(t => t.Id == id && t.HouseholdId == householdId);
     if (task is null) return Results.NotFound("Task not found.");
 
+    var zone = await FamilyClock.ForHouseholdAsync(db, householdId);
+
     // Update title if provided
     if (req.Title is not null)
     {
@@ -545,27 +1007,99 @@ api.MapPut("/tasks/{id:int}", async (ClaimsPrincipal principal, AppDbContext db,
         task.Points = req.Points.Value;
     }
 
-    // Reassign to a different kid (must still belong to same parent)
+    // Reassign to a different kid (must be in the same household)
     if (req.AssignedKidId is not null)
     {
         var newKidId = req.AssignedKidId.Trim();
         if (string.IsNullOrWhiteSpace(newKidId)) return Results.BadRequest("AssignedKidId cannot be empty.");
 
-        var kidOwned = await db.Kids.AnyAsync(k => k.Id == newKidId && k.ParentId == parentId);
-        if (!kidOwned) return Results.BadRequest("Unknown kidId for this parent.");
+        var kidOwned = await db.Kids.AnyAsync(k => k.Id == newKidId && k.HouseholdId == householdId);
+        if (!kidOwned) return Results.BadRequest("Unknown kidId for this household.");
 
         task.AssignedKidId = newKidId;
     }
 
+    if (req.RequiresApproval is not null) task.RequiresApproval = req.RequiresApproval.Value;
+
+    // Schedule change: any provided field re-applies the whole schedule
+    if (req.Recurrence is not null || req.RecurrenceDays is not null || req.StartDate is not null)
+    {
+        var scheduleError = ApplySchedule(
+            task,
+            req.Recurrence ?? task.Recurrence,
+            req.RecurrenceDays ?? task.RecurrenceDays,
+            req.StartDate ?? task.StartDate,
+            FamilyClock.Today(zone));
+        if (scheduleError is not null) return Results.BadRequest(scheduleError);
+        if (task.Recurrence != TaskRecurrence.None) await SyncOccurrenceStatus(db, task);
+    }
+
+    // Deadline is replaced as a whole. Switching between one-shot and recurring
+    // keeps the due time of day (recurring -> one-shot drops it: no date to use).
+    var deadline = req.Deadline;
+    if (deadline is null && task.Recurrence != TaskRecurrence.None && task.DueAtUtc is not null)
+        deadline = new TaskDeadline(null, (int)FamilyClock.ToLocal(zone, task.DueAtUtc.Value).TimeOfDay.TotalMinutes, task.LatePointsPercent, task.MissedPenalty);
+    else if (deadline is null && task.Recurrence == TaskRecurrence.None && task.DueMinutes is not null)
+        deadline = new TaskDeadline(null, null, task.LatePointsPercent, task.MissedPenalty);
+
+    if (deadline is not null)
+    {
+        var deadlineError = ApplyDeadline(task, deadline);
+        if (deadlineError is not null) return Results.BadRequest(deadlineError);
+    }
+
     await db.SaveChangesAsync();
     return Results.Ok(task);
 })
 .RequireAuthorization("ParentOnly");
 
+// Credit an approved completion: points + ledger, then close out the occurrence
+void ApplyApprovedCompletion(AppDbContext db, KidProfile kid, KidTask task, TaskCompletion completion, DateTime now, TimeZoneInfo zone)
+{
+    completion.Status = TaskCompletionStatus.Approved;
+
+    // Mark complete + timestamp (recurring tasks move on to the next occurrence instead;
+    // approving an older occurrence leaves the current one's state alone)
+    task.CompletedAt = now;
+
+    if (IsCurrentOccurrence(task, completion))
+    {
+        task.IsPendingApproval = false;
+        task.RejectionReason = null;
+
+        if (task.Recurrence == TaskRecurrence.None)
+            task.IsComplete = true;
+        else
+            task.OccurrenceDate = TaskSchedule.NextOccurrence(task, completion.OccurrenceDate);
+    }
+
+    // Done after the deadline (by the time the kid submitted it): reduced points if configured
+    var dueAt = TaskSchedule.DueAt(task, completion.OccurrenceDate, zone);
+    var late = dueAt is not null && completion.CompletedAtUtc > dueAt;
+    var points = late && task.LatePointsPercent is int percent ? task.Points * percent / 100 : task.Points;
+
+    // Add points to the kid’s balance + record ledger transaction for history
+    // (actor = the approving parent; null when the kid's own completion counted)
+    PointsLedger.Post(db, kid, new PointTransaction
+    {
+        Type = PointTransactionType.Earn,
+        Delta = points,
+        TaskId = task.Id,
+        TaskCompletion = completion,
+        ActorUserId = completion.ReviewedByParentId,
+        Note = (task.Recurrence == TaskRecurrence.None
+            ? $"Completed task: {task.Title}"
+            : $"Completed task: {task.Title} ({completion.OccurrenceDate:yyyy-MM-dd})") + (late ? " (late)" : ""),
+        CreatedAtUtc = now
+    });
+}
+
 // Complete a task:
 // - Kid completes their own task
 // - Parent can complete on behalf of a kid (must supply kidId + ownership check)
-api.MapPut("/tasks/{id:int}/complete", async (ClaimsPrincipal principal, AppDbContext db, int id, string? kidId) =>
+// - If approval is required (per task or family setting), a KID completion
+//   goes to the parent review queue instead; points are credited on approval
+api.MapPut("/tasks/{id:int}/complete", async (ClaimsPrincipal principal, AppDbContext db, HttpRequest request, int id, string? kidId) =>
 {
     var role = principal.FindFirstValue(ClaimTypes.Role);
 
@@ -579,13 +1113,13 @@ api.MapPut("/tasks/{id:int}/complete", async (ClaimsPrincipal principal, AppDbCo
     else
     {
         // Parent completing on behalf of a kid
-        var parentId = GetUserId(principal);
-        if (string.IsNullOrWhiteSpace(parentId)) return Results.Unauthorized();
+        var householdId = await GetHouseholdId(principal, db);
+        if (string.IsNullOrWhiteSpace(householdId)) return Results.Unauthorized();
         if (string.IsNullOrWhiteSpace(kidId)) return Results.BadRequest("kidId is required for parent.");
 
-        // Ownership check: parent can only act on their own kids
-        var kidOwned = await db.Kids.AnyAsync(k => k.Id == kidId && k.ParentId == parentId);
-        if (!kidOwned) return Results.BadRequest("Unknown kidId for this parent.");
+        // Ownership check: parent can only act on their household's kids
+        var kidOwned = await db.Kids.AnyAsync(k => k.Id == kidId && k.HouseholdId == householdId);
+        if (!kidOwned) return Results.BadRequest("Unknown kidId for this household.");
 
         effectiveKidId = kidId;
     }
@@ -594,42 +1128,125 @@ api.MapPut("/tasks/{id:int}/complete", async (ClaimsPrincipal principal, AppDbCo
     var task = await db.Tasks.FirstOrDefaultAsync(t => t.Id == id && t.AssignedKidId == effectiveKidId);
     if (task is null) return Results.NotFound();
 
-    // If already complete, return as-is (idempotent)
-    if (task.IsComplete) return Results.Ok(task);
+    var now = DateTime.UtcNow;
+    var zone = await FamilyClock.ForHouseholdAsync(db, task.HouseholdId);
+
+    // The family's day the kid tapped "done": the queued time for an offline
+    // replay, else today. It only picks the occurrence (the client says so)
+    var queuedAt = Idempotency.QueuedAt(request, now);
+    var today = FamilyClock.LocalDate(zone, queuedAt ?? now);
+    DateTime occurrence;
+
+    // Skip missed occurrences / expire past-due one-shots (penalties included)
+    if (await SettleTask(db, task, now, zone)) await db.SaveChangesAsync();
+
+    if (task.Recurrence == TaskRecurrence.None)
+    {
+        // If already complete, return as-is (idempotent)
+        if (task.IsComplete) return Results.Ok(task);
+        if (task.ExpiredAtUtc is not null) return Results.BadRequest("This task has expired.");
+
+        occurrence = today;
+    }
+    else if (queuedAt is not null && task.OccurrenceDate?.Date > today)
+    {
+        // Offline replay for a day the task has moved on from (done since, or
+        // another device settled it): the occurrence that was current that day
+        var seen = TaskSchedule.LastOccurrence(task, today);
+        if (seen is null) return Results.Conflict("This task had nothing due on that day.");
+
+        occurrence = seen.Value;
+    }
+    else
+    {
+        // Recurring: complete the current occurrence (missed ones were skipped above).
+        // If the next occurrence hasn't arrived yet, it's already done (idempotent).
+        if (task.OccurrenceDate is null || task.OccurrenceDate.Value.Date > today) return Results.Ok(task);
 
-    // Mark complete + timestamp
-    task.IsComplete = true;
-    task.CompletedAt = DateTime.UtcNow;
+        occurrence = task.OccurrenceDate.Value.Date;
+    }
 
-    // Add points to the kid’s balance
     var kid = await db.Kids.FirstOrDefaultAsync(k => k.Id == effectiveKidId);
     if (kid is null) return Results.NotFound("Kid not found.");
 
-    kid.PointsBalance += task.Points;
+    // One completion row per occurrence (one-shot tasks: at most one pending/approved row)
+    var completion = task.Recurrence == TaskRecurrence.None
+        ? await db.TaskCompletions.FirstOrDefaultAsync(c => c.TaskId == task.Id && c.Status != TaskCompletionStatus.Approved)
+        : await db.TaskCompletions.FirstOrDefaultAsync(c => c.TaskId == task.Id && c.OccurrenceDate == occurrence);
 
-    // Record ledger transaction for history
-    db.PointTransactions.Add(new PointTransaction
+    // Already completed this day (e.g. schedule was edited afterwards): just move on
+    if (completion?.Status == TaskCompletionStatus.Approved)
     {
-        KidId = kid.Id,
-        Type = PointTransactionType.Earn,
-        Delta = task.Points,
-        TaskId = task.Id,
-        Note = $"Completed task: {task.Title}",
-        CreatedAtUtc = DateTime.UtcNow
-    });
+        if (IsCurrentOccurrence(task, completion))
+        {
+            task.OccurrenceDate = TaskSchedule.NextOccurrence(task, occurrence);
+            await db.SaveChangesAsync();
+        }
+
+        return Results.Ok(task);
+    }
+
+    // Already waiting for review (idempotent)
+    if (completion?.Status == TaskCompletionStatus.Pending && role == "Kid") return Results.Ok(task);
+
+    // New completion, or a resubmission after a rejection (reuses the row)
+    if (completion is null)
+    {
+        completion = new TaskCompletion { TaskId = task.Id, KidId = kid.Id, OccurrenceDate = occurrence };
+        db.TaskCompletions.Add(completion);
+    }
+
+    completion.CompletedAtUtc = now;
+    completion.RejectionReason = null;
+
+    var needsApproval = role == "Kid" &&
+        (task.RequiresApproval ||
+         await db.Households.AnyAsync(h => h.Id == task.HouseholdId && h.RequireTaskApproval));
+
+    if (needsApproval)
+    {
+        // Parent review queue: no points and no ledger entry until approved
+        completion.Status = TaskCompletionStatus.Pending;
+        completion.ReviewedAtUtc = null;
+        completion.ReviewedByParentId = null;
+
+        if (IsCurrentOccurrence(task, completion))
+        {
+            task.IsPendingApproval = true;
+            task.RejectionReason = null;
+        }
+    }
+    else
+    {
+        // Parent completing on behalf of a kid counts as their approval
+        if (role != "Kid")
+        {
+            completion.ReviewedAtUtc = now;
+            completion.ReviewedByParentId = GetUserId(principal);
+        }
+
+        ApplyApprovedCompletion(db, kid, task, completion, now, zone);
+        if (task.Recurrence != TaskRecurrence.None) await RefundMissedPenalty(db, kid, task, occurrence, now);
+    }
 
     await db.SaveChangesAsync();
+
+    // Points were credited -> maybe a new badge (the kid's page picks it up as a toast)
+    if (!needsApproval && (await Achievements.AwardAsync(db, kid, now)).Count > 0)
+        await db.SaveChangesAsync();
+
     return Results.Ok(task);
 })
-.RequireAuthorization("KidOrParent");
+.RequireAuthorization("KidOrParent")
+.AddEndpointFilter(Idempotency.Filter);
 
 api.MapDelete("/tasks/{id:int}", async (ClaimsPrincipal principal, AppDbContext db, int id) =>
 {
-    var parentId = GetUserId(principal);
-    if (string.IsNullOrWhiteSpace(parentId)) return Results.Unauthorized();
+    var householdId = await GetHouseholdId(principal, db);
+    if (string.IsNullOrWhiteSpace(householdId)) return Results.Unauthorized();
 
-    // Parent can only delete tasks they created
-    var task = await db.Tasks.FirstOrDefaultAsync(t => t.Id == id && t.CreatedByParentId == parentId);
+    // Parent can only delete tasks in their household
+    var task = await db.Tasks.FirstOrDefaultAsync(t => t.Id == id && t.HouseholdId == householdId);
     if (task is null) return Results.NotFound();
 
     db.Tasks.Remove(task);
@@ -640,238 +1257,2054 @@ api.MapDelete("/tasks/{id:int}", async (ClaimsPrincipal principal, AppDbContext
 .RequireAuthorization("ParentOnly");
 
 // ============================================================
-// 15) Points Endpoints
-// - GET /points:
-//   Kid: gets own balance
-//   Parent: must provide kidId and pass ownership check
+// 14b) Task Approvals (ParentOnly)
+// - GET /approvals: pending kid completions for the household's kids
+// - POST /approvals/{id}/approve: credit points (ledger Earn entry)
+// - POST /approvals/{id}/reject: no points; reason is shown to the kid
 // ============================================================
 
-api.MapGet("/points", async (ClaimsPrincipal principal, AppDbContext db, string? kidId) =>
+api.MapGet("/approvals", async (ClaimsPrincipal principal, AppDbContext db) =>
 {
-    var role = principal.FindFirstValue(ClaimTypes.Role);
+    var householdId = await GetHouseholdId(principal, db);
+    if (string.IsNullOrWhiteSpace(householdId)) return Results.Unauthorized();
+
+    var pending = await db.TaskCompletions
+        .Where(c => c.Status == TaskCompletionStatus.Pending)
+        .Join(db.Kids.Where(k => k.HouseholdId == householdId), c => c.KidId, k => k.Id, (c, k) => new { c, k })
+        .OrderBy(x => x.c.CompletedAtUtc)
+        .Select(x => new PendingApprovalItem(
+            x.c.Id,
+            x.c.TaskId,
+            x.c.Task != null ? x.c.Task.Title : "",
+            x.c.Task != null ? x.c.Task.Points : 0,
+            x.k.Id,
+            x.k.DisplayName,
+            x.c.OccurrenceDate,
+            x.c.CompletedAtUtc))
+        .ToListAsync();
 
-    string effectiveKidId;
+    return Results.Ok(pending);
+})
+.RequireAuthorization("ParentOnly");
 
-    if (role == "Kid")
-    {
-        effectiveKidId = principal.FindFirstValue("kidId") ?? GetUserId(principal) ?? "";
-        if (string.IsNullOrWhiteSpace(effectiveKidId)) return Results.Unauthorized();
-    }
-    else
-    {
-        var parentId = GetUserId(principal);
-        if (string.IsNullOrWhiteSpace(parentId)) return Results.Unauthorized();
+api.MapPost("/approvals/{completionId:int}/approve", async (ClaimsPrincipal principal, AppDbContext db, int completionId) =>
+{
+    var householdId = await GetHouseholdId(principal, db);
+    if (string.IsNullOrWhiteSpace(householdId)) return Results.Unauthorized();
 
-        if (string.IsNullOrWhiteSpace(kidId)) return Results.BadRequest("kidId is required for parent.");
+    var completion = await db.TaskCompletions.Include(c => c.Task).FirstOrDefaultAsync(c => c.Id == completionId);
+    if (completion?.Task is null) return Results.NotFound("Completion not found.");
+
+    // Ownership check: completion must belong to one of the household's kids
+    var kid = await db.Kids.FirstOrDefaultAsync(k => k.Id == completion.KidId && k.HouseholdId == householdId);
+    if (kid is null) return Results.NotFound("Completion not found.");
+
+    if (completion.Status != TaskCompletionStatus.Pending)
+        return Results.BadRequest("This completion is not waiting for approval.");
+
+    var now = DateTime.UtcNow;
+    completion.ReviewedAtUtc = now;
+    completion.ReviewedByParentId = GetUserId(principal);
+
+    ApplyApprovedCompletion(db, kid, completion.Task, completion, now, await FamilyClock.ForHouseholdAsync(db, householdId));
+    if (completion.Task.Recurrence != TaskRecurrence.None)
+        await RefundMissedPenalty(db, kid, completion.Task, completion.OccurrenceDate, now);
+
+    await db.SaveChangesAsync();
+
+    if ((await Achievements.AwardAsync(db, kid, now)).Count > 0)
+        await db.SaveChangesAsync();
+
+    return Results.Ok(completion.Task);
+})
+.RequireAuthorization("ParentOnly");
+
+api.MapPost("/approvals/{completionId:int}/reject", async (ClaimsPrincipal principal, AppDbContext db, int completionId, RejectCompletionRequest req) =>
+{
+    var householdId = await GetHouseholdId(principal, db);
+    if (string.IsNullOrWhiteSpace(householdId)) return Results.Unauthorized();
+
+    var reason = (req.Reason ?? "").Trim();
+    if (string.IsNullOrWhiteSpace(reason)) return Results.BadRequest("A reason is required.");
+
+    var completion = await db.TaskCompletions.Include(c => c.Task).FirstOrDefaultAsync(c => c.Id == completionId);
+    if (completion?.Task is null) return Results.NotFound("Completion not found.");
+
+    var kidOwned = await db.Kids.AnyAsync(k => k.Id == completion.KidId && k.HouseholdId == householdId);
+    if (!kidOwned) return Results.NotFound("Completion not found.");
+
+    if (completion.Status != TaskCompletionStatus.Pending)
+        return Results.BadRequest("This completion is not waiting for approval.");
+
+    completion.Status = TaskCompletionStatus.Rejected;
+    completion.RejectionReason = reason;
+    completion.ReviewedAtUtc = DateTime.UtcNow;
+    completion.ReviewedByParentId = GetUserId(principal);
+
+    // Back to the kid's list with the reason; they can try again
+    // (an older occurrence has been rolled past: only its completion row changes)
+    if (IsCurrentOccurrence(completion.Task, completion))
+    {
+        completion.Task.IsPendingApproval = false;
+        completion.Task.RejectionReason = reason;
+    }
+
+    await db.SaveChangesAsync();
+    return Results.Ok(completion.Task);
+})
+.RequireAuthorization("ParentOnly");
+
+// ============================================================
+// 14c) Parent Settings (household-wide switches)
+// - GET/PUT /parent/settings (household name, time zone + switches)
+// - PUT /parent/pin: set/change the Kid Mode exit PIN (account password required)
+// - PUT/DELETE /parent/allowance: points -> money exchange rate (allowance mode)
+// - POST /parent/pin/verify: check the PIN before leaving Kid Mode
+//   (callable with the kid token; wrong attempts lead to a short lockout)
+// - The PIN belongs to the household, so any parent in it can set it
+// ============================================================
+
+const int MaxPinAttempts = 5;
+var pinLockout = TimeSpan.FromMinutes(5);
+
+static ParentSettingsResponse ToParentSettings(Household household) =>
+    new(household.RequireTaskApproval, household.ParentPinHash is not null, household.Name, AllowanceRateOf(household), household.TimeZone);
+
+// null = allowance mode is off
+static AllowanceRate? AllowanceRateOf(Household household) =>
+    household.AllowancePoints is int points && household.AllowanceAmountCents is int amountCents
+        ? new AllowanceRate(points, amountCents, household.AllowanceCurrency ?? "USD")
+        : null;
+
+// Caller's household row (parent or kid token)
+async Task<Household?> FindHousehold(ClaimsPrincipal principal, AppDbContext db)
+{
+    var householdId = await GetHouseholdId(principal, db);
+    return householdId is null ? null : await db.Households.FirstOrDefaultAsync(h => h.Id == householdId);
+}
+
+api.MapGet("/parent/settings", async (ClaimsPrincipal principal, AppDbContext db) =>
+{
+    var household = await FindHousehold(principal, db);
+    if (household is null) return Results.Unauthorized();
+
+    return Results.Ok(ToParentSettings(household));
+})
+.RequireAuthorization("ParentOnly");
+
+api.MapPut("/parent/settings", async (ClaimsPrincipal principal, AppDbContext db, UpdateParentSettingsRequest req) =>
+{
+    var household = await FindHousehold(principal, db);
+    if (household is null) return Results.Unauthorized();
+
+    if (req.RequireTaskApproval is not null) household.RequireTaskApproval = req.RequireTaskApproval.Value;
+
+    if (req.FamilyName is not null)
+    {
+        var familyName = req.FamilyName.Trim();
+        if (familyName.Length == 0) return Results.BadRequest("Family name is required.");
+        if (familyName.Length > 60) return Results.BadRequest("Family name must be 60 characters or less.");
+        household.Name = familyName;
+    }
+
+    if (req.TimeZone is not null)
+    {
+        var timeZone = req.TimeZone.Trim();
+        if (!FamilyClock.IsKnownZone(timeZone)) return Results.BadRequest("Unknown time zone.");
+
+        // First pick: recurring due times were kept as UTC minutes until now ->
+        // move them to the same moment on the family's clock. Later changes
+        // keep the wall-clock time ("8 PM" stays 8 PM after a move)
+        if (household.TimeZone is null)
+        {
+            var offset = (int)FamilyClock.Zone(timeZone).GetUtcOffset(DateTime.UtcNow).TotalMinutes;
+            var dueTasks = await db.Tasks.Where(t => t.HouseholdId == household.Id && t.DueMinutes != null).ToListAsync();
+            foreach (var t in dueTasks)
+                t.DueMinutes = ((t.DueMinutes!.Value + offset) % 1440 + 1440) % 1440;
+        }
+
+        household.TimeZone = timeZone;
+    }
+
+    await db.SaveChangesAsync();
+    return Results.Ok(ToParentSettings(household));
+})
+.RequireAuthorization("ParentOnly");
+
+api.MapPut("/parent/pin", async (ClaimsPrincipal principal, AppDbContext db, IPasswordHasher<AppUser> hasher, SetParentPinRequest req) =>
+{
+    var parentId = GetUserId(principal);
+    var user = await db.Users.FirstOrDefaultAsync(u => u.Id == parentId && u.Role == "Parent");
+    if (user is null) return Results.Unauthorized();
+
+    var household = await db.Households.FirstOrDefaultAsync(h => h.Id == user.HouseholdId);
+    if (household is null) return Results.Unauthorized();
+
+    // Re-check the account password so a kid on an unlocked screen can't change it
+    var verified = hasher.VerifyHashedPassword(user, user.PasswordHash, req.Password ?? "");
+    if (verified == PasswordVerificationResult.Failed) return Results.BadRequest("Password is incorrect.");
+
+    var pin = (req.NewPin ?? "").Trim();
+    if (!Regex.IsMatch(pin, "^[0-9]{4,8}$")) return Results.BadRequest("PIN must be 4 to 8 digits.");
+
+    household.ParentPinHash = hasher.HashPassword(user, pin);
+    household.PinFailedAttempts = 0;
+    household.PinLockedUntilUtc = null;
+
+    await db.SaveChangesAsync();
+    return Results.Ok(ToParentSettings(household));
+})
+.RequireAuthorization("ParentOnly");
+
+api.MapPut("/parent/allowance", async (ClaimsPrincipal principal, AppDbContext db, AllowanceRate req) =>
+{
+    var household = await FindHousehold(principal, db);
+    if (household is null) return Results.Unauthorized();
+
+    if (req.Points < 1 || req.Points > 100_000) return Results.BadRequest("Points must be between 1 and 100000.");
+    if (req.AmountCents < 1 || req.AmountCents > 100_000) return Results.BadRequest("Amount must be between 0.01 and 1000.");
+
+    var currency = (req.Currency ?? "").Trim().ToUpperInvariant();
+    if (!Regex.IsMatch(currency, "^[A-Z]{3}$")) return Results.BadRequest("Currency must be a 3-letter code like USD.");
+
+    household.AllowancePoints = req.Points;
+    household.AllowanceAmountCents = req.AmountCents;
+    household.AllowanceCurrency = currency;
+
+    await db.SaveChangesAsync();
+    return Results.Ok(ToParentSettings(household));
+})
+.RequireAuthorization("ParentOnly");
+
+// Turns allowance mode off (past payouts keep the rate they were paid at)
+api.MapDelete("/parent/allowance", async (ClaimsPrincipal principal, AppDbContext db) =>
+{
+    var household = await FindHousehold(principal, db);
+    if (household is null) return Results.Unauthorized();
+
+    household.AllowancePoints = null;
+    household.AllowanceAmountCents = null;
+    household.AllowanceCurrency = null;
+
+    await db.SaveChangesAsync();
+    return Results.Ok(ToParentSettings(household));
+})
+.RequireAuthorization("ParentOnly");
+
+api.MapPost("/parent/pin/verify", async (ClaimsPrincipal principal, AppDbContext db, IPasswordHasher<AppUser> hasher, VerifyParentPinRequest req) =>
+{
+    // Kid token -> the kid's household; parent token -> their own
+    var household = await FindHousehold(principal, db);
+    if (household is null) return Results.Unauthorized();
+
+    // No PIN configured: never "verified" (Kid Mode can't be started without one;
+    // older kid sessions leave through Logout and a parent sign-in)
+    if (household.ParentPinHash is null)
+        return Results.BadRequest("No parent PIN is set. Log out and sign in as a parent to set one.");
+
+    var now = DateTime.UtcNow;
+    if (household.PinLockedUntilUtc > now)
+    {
+        var minutes = (int)Math.Ceiling((household.PinLockedUntilUtc.Value - now).TotalMinutes);
+        return Results.Json($"Too many wrong PINs. Try again in {minutes} minute(s).", statusCode: StatusCodes.Status429TooManyRequests);
+    }
+
+    // The hasher doesn't look at the user argument; PINs belong to the household
+    var result = hasher.VerifyHashedPassword(new AppUser(), household.ParentPinHash, req.Pin ?? "");
+    if (result == PasswordVerificationResult.Failed)
+    {
+        household.PinFailedAttempts++;
+
+        // Lock after too many misses; the counter starts over once the lockout ends
+        if (household.PinFailedAttempts >= MaxPinAttempts)
+        {
+            household.PinFailedAttempts = 0;
+            household.PinLockedUntilUtc = now.Add(pinLockout);
+            await db.SaveChangesAsync();
+            return Results.Json($"Too many wrong PINs. Try again in {(int)pinLockout.TotalMinutes} minute(s).", statusCode: StatusCodes.Status429TooManyRequests);
+        }
+
+        await db.SaveChangesAsync();
+        return Results.BadRequest($"Wrong PIN. {MaxPinAttempts - household.PinFailedAttempts} attempt(s) left.");
+    }
+
+    household.PinFailedAttempts = 0;
+    household.PinLockedUntilUtc = null;
+    await db.SaveChangesAsync();
+
+    return Results.Ok(new { verified = true });
+})
+.RequireAuthorization("KidOrParent");
+
+// ============================================================
+// 14d) Household (co-parents)
+// - GET /household: name, parent members and open invite codes
+// - GET /household/clock: the family's time zone + today's date there
+//   (kid tokens too: screens use it for "today" and due times)
+// - POST /household/invites: new single-use code (valid 7 days)
+// - DELETE /household/invites/{code}: revoke an unused code
+// - POST /household/join: move the caller into the invite's household
+//   (only from a household without kids, so nobody's kids get orphaned;
+//   an empty household left behind with no other parents is deleted)
+// ============================================================
+
+var inviteLifetime = TimeSpan.FromDays(7);
+
+// No 0/O or 1/I so codes survive being read out loud
+const string InviteCodeAlphabet = "ABCDEFGHJKLMNPQRSTUVWXYZ23456789";
+
+static string NewInviteCode() =>
+    string.Concat(Enumerable.Range(0, 8).Select(_ => InviteCodeAlphabet[RandomNumberGenerator.GetInt32(InviteCodeAlphabet.Length)]));
+
+async Task<HouseholdResponse> BuildHouseholdResponse(AppDbContext db, Household household, string userId)
+{
+    var now = DateTime.UtcNow;
+
+    var members = await db.Users
+        .Where(u => u.HouseholdId == household.Id && u.Role == "Parent")
+        .OrderBy(u => u.Username)
+        .Select(u => new HouseholdMemberItem(u.Id, u.Username, u.Id == userId))
+        .ToListAsync();
+
+    var invites = await db.HouseholdInvites
+        .Where(i => i.HouseholdId == household.Id && i.AcceptedAtUtc == null && i.ExpiresAtUtc > now)
+        .OrderBy(i => i.ExpiresAtUtc)
+        .Select(i => new HouseholdInviteItem(i.Code, i.ExpiresAtUtc))
+        .ToListAsync();
+
+    return new HouseholdResponse(household.Id, household.Name, members, invites);
+}
+
+api.MapGet("/household", async (ClaimsPrincipal principal, AppDbContext db) =>
+{
+    var household = await FindHousehold(principal, db);
+    if (household is null) return Results.Unauthorized();
+
+    return Results.Ok(await BuildHouseholdResponse(db, household, GetUserId(principal) ?? ""));
+})
+.RequireAuthorization("ParentOnly");
+
+api.MapGet("/household/clock", async (ClaimsPrincipal principal, AppDbContext db) =>
+{
+    var household = await FindHousehold(principal, db);
+    if (household is null) return Results.Unauthorized();
+
+    var zone = FamilyClock.Zone(household.TimeZone);
+    return Results.Ok(new FamilyClockResponse(household.TimeZone ?? FamilyClock.DefaultTimeZone, FamilyClock.Today(zone)));
+})
+.RequireAuthorization("KidOrParent");
+
+api.MapPost("/household/invites", async (ClaimsPrincipal principal, AppDbContext db) =>
+{
+    var household = await FindHousehold(principal, db);
+    if (household is null) return Results.Unauthorized();
+
+    var code = NewInviteCode();
+    while (await db.HouseholdInvites.AnyAsync(i => i.Code == code)) code = NewInviteCode();
+
+    var invite = new HouseholdInvite
+    {
+        HouseholdId = household.Id,
+        Code = code,
+        CreatedByUserId = GetUserId(principal) ?? "",
+        ExpiresAtUtc = DateTime.UtcNow.Add(inviteLifetime)
+    };
+
+    db.HouseholdInvites.Add(invite);
+    await db.SaveChangesAsync();
+
+    return Results.Ok(new HouseholdInviteItem(invite.Code, invite.ExpiresAtUtc));
+})
+.RequireAuthorization("ParentOnly");
+
+api.MapDelete("/household/invites/{code}", async (ClaimsPrincipal principal, AppDbContext db, string code) =>
+{
+    var householdId = await GetHouseholdId(principal, db);
+    if (string.IsNullOrWhiteSpace(householdId)) return Results.Unauthorized();
+
+    var normalized = code.Trim().ToUpperInvariant();
+    var invite = await db.HouseholdInvites.FirstOrDefaultAsync(i =>
+        i.Code == normalized && i.HouseholdId == householdId && i.AcceptedAtUtc == null);
+    if (invite is null) return Results.NotFound();
+
+    db.HouseholdInvites.Remove(invite);
+    await db.SaveChangesAsync();
+
+    return Results.NoContent();
+})
+.RequireAuthorization("ParentOnly");
+
+api.MapPost("/household/join", async (ClaimsPrincipal principal, AppDbContext db, JoinHouseholdRequest req) =>
+{
+    var userId = GetUserId(principal);
+    var user = await db.Users.FirstOrDefaultAsync(u => u.Id == userId && u.Role == "Parent");
+    if (user is null) return Results.Unauthorized();
+
+    var code = (req.Code ?? "").Trim().ToUpperInvariant();
+    if (code.Length == 0) return Results.BadRequest("Invite code is required.");
+
+    var now = DateTime.UtcNow;
+    var invite = await db.HouseholdInvites.FirstOrDefaultAsync(i => i.Code == code);
+    if (invite is null || invite.AcceptedAtUtc is not null || invite.ExpiresAtUtc <= now)
+        return Results.BadRequest("This invite code is invalid or has expired.");
+
+    if (invite.HouseholdId == user.HouseholdId)
+        return Results.BadRequest("You're already in this family.");
+
+    var target = await db.Households.FirstOrDefaultAsync(h => h.Id == invite.HouseholdId);
+    if (target is null) return Results.BadRequest("This invite code is invalid or has expired.");
+
+    var oldHouseholdId = user.HouseholdId;
+    if (oldHouseholdId is not null)
+    {
+        if (await db.Kids.AnyAsync(k => k.HouseholdId == oldHouseholdId))
+            return Results.BadRequest("Your current family still has kid profiles. Remove them before joining another family.");
+
+        // Last parent out: clean up the empty household (catalog, todos, open invites)
+        var otherMembers = await db.Users.AnyAsync(u => u.HouseholdId == oldHouseholdId && u.Id != user.Id);
+        if (!otherMembers)
+        {
+            db.Rewards.RemoveRange(await db.Rewards.Where(r => r.HouseholdId == oldHouseholdId).ToListAsync());
+            db.Todos.RemoveRange(await db.Todos.Where(t => t.HouseholdId == oldHouseholdId).ToListAsync());
+            db.HouseholdInvites.RemoveRange(
+                await db.HouseholdInvites.Where(i => i.HouseholdId == oldHouseholdId).ToListAsync());
+
+            var oldHousehold = await db.Households.FirstOrDefaultAsync(h => h.Id == oldHouseholdId);
+            if (oldHousehold is not null) db.Households.Remove(oldHousehold);
+        }
+    }
+
+    user.HouseholdId = target.Id;
+    invite.AcceptedAtUtc = now;
+    invite.AcceptedByUserId = user.Id;
+
+    await db.SaveChangesAsync();
+    return Results.Ok(await BuildHouseholdResponse(db, target, user.Id));
+})
+.RequireAuthorization("ParentOnly");
+
+// ============================================================
+// 14e) Shared devices (kids sign in by themselves)
+// - PUT /kids/{kidId}/login: parent sets a kid's 4-digit PIN or picture password
+// - POST /devices: parent turns this browser into a shared kid tablet; the
+//   response's device token is all the tablet keeps (no parent token)
+// - GET /devices, DELETE /devices/{id}: list / revoke tablets
+// - POST /device/profiles: kid picker for a device token (kids with a login)
+// - POST /device/kid-login: kid's PIN / pictures -> kid token
+//   (wrong attempts lock that kid's login for a few minutes, like the parent PIN)
+// ============================================================
+
+// Picture password: a sequence of KidPictureLength picks from this set
+// (web/src/utils/kidLoginPictures.ts shows the same keys as pictures)
+var kidLoginPictures = new[] { "cat", "dog", "fish", "bird", "sun", "moon", "star", "tree", "car" };
+const int KidPictureLength = 4;
+
+// Normalized secret for the method, or null if it isn't valid
+string? NormalizeKidSecret(KidLoginMethod method, string? secret)
+{
+    var value = (secret ?? "").Trim().ToLowerInvariant();
+
+    if (method == KidLoginMethod.Pin)
+        return Regex.IsMatch(value, "^[0-9]{4}$") ? value : null;
+
+    if (method == KidLoginMethod.Picture)
+    {
+        var picks = value.Split('-');
+        return picks.Length == KidPictureLength && picks.All(kidLoginPictures.Contains) ? value : null;
+    }
+
+    return null;
+}
+
+// Active device for a raw device token (marks it as used; caller saves)
+async Task<SharedDevice?> FindDevice(AppDbContext db, string? deviceToken)
+{
+    if (string.IsNullOrWhiteSpace(deviceToken)) return null;
+
+    var hash = HashRefreshToken(deviceToken);
+    var device = await db.SharedDevices.FirstOrDefaultAsync(d => d.TokenHash == hash && d.RevokedAtUtc == null);
+    if (device is not null) device.LastUsedAtUtc = DateTime.UtcNow;
+
+    return device;
+}
+
+api.MapPut("/kids/{kidId}/login", async (ClaimsPrincipal principal, AppDbContext db, IPasswordHasher<AppUser> hasher, string kidId, SetKidLoginRequest req) =>
+{
+    var householdId = await GetHouseholdId(principal, db);
+    if (string.IsNullOrWhiteSpace(householdId)) return Results.Unauthorized();
+
+    // Ownership check: kid must belong to the household
+    var kid = await db.Kids.FirstOrDefaultAsync(k => k.Id == kidId && k.HouseholdId == householdId);
+    if (kid is null) return Results.NotFound("Kid not found for this parent.");
+
+    var method = req.Method ?? KidLoginMethod.None;
+    if (!Enum.IsDefined(method)) return Results.BadRequest("Unknown login method.");
+
+    if (method == KidLoginMethod.None)
+    {
+        kid.LoginSecretHash = null;
+    }
+    else
+    {
+        var secret = NormalizeKidSecret(method, req.Secret);
+        if (secret is null)
+        {
+            return Results.BadRequest(method == KidLoginMethod.Pin
+                ? "PIN must be 4 digits."
+                : $"Pick {KidPictureLength} pictures.");
+        }
+
+        // The hasher doesn't look at the user argument
+        kid.LoginSecretHash = hasher.HashPassword(new AppUser(), secret);
+    }
+
+    kid.LoginMethod = method;
+    kid.LoginFailedAttempts = 0;
+    kid.LoginLockedUntilUtc = null;
+
+    await db.SaveChangesAsync();
+    return Results.Ok(kid);
+})
+.RequireAuthorization("ParentOnly");
+
+api.MapPost("/devices", async (ClaimsPrincipal principal, AppDbContext db, RegisterDeviceRequest req) =>
+{
+    var householdId = await GetHouseholdId(principal, db);
+    if (string.IsNullOrWhiteSpace(householdId)) return Results.Unauthorized();
+
+    var name = (req.Name ?? "").Trim();
+    if (name.Length == 0) name = "Shared tablet";
+    if (name.Length > 40) return Results.BadRequest("Device name must be 40 characters or less.");
+
+    var deviceToken = Convert.ToHexString(RandomNumberGenerator.GetBytes(32));
+    var device = new SharedDevice
+    {
+        HouseholdId = householdId,
+        Name = name,
+        TokenHash = HashRefreshToken(deviceToken),
+        CreatedByUserId = GetUserId(principal) ?? ""
+    };
+
+    db.SharedDevices.Add(device);
+    await db.SaveChangesAsync();
+
+    return Results.Ok(new { deviceToken, id = device.Id, name = device.Name });
+})
+.RequireAuthorization("ParentOnly");
+
+api.MapGet("/devices", async (ClaimsPrincipal principal, AppDbContext db) =>
+{
+    var householdId = await GetHouseholdId(principal, db);
+    if (string.IsNullOrWhiteSpace(householdId)) return Results.Unauthorized();
+
+    var devices = await db.SharedDevices
+        .Where(d => d.HouseholdId == householdId && d.RevokedAtUtc == null)
+        .OrderBy(d => d.CreatedAtUtc)
+        .Select(d => new SharedDeviceItem(d.Id, d.Name, d.CreatedAtUtc, d.LastUsedAtUtc))
+        .ToListAsync();
+
+    return Results.Ok(devices);
+})
+.RequireAuthorization("ParentOnly");
+
+api.MapDelete("/devices/{id:int}", async (ClaimsPrincipal principal, AppDbContext db, int id) =>
+{
+    var householdId = await GetHouseholdId(principal, db);
+    if (string.IsNullOrWhiteSpace(householdId)) return Results.Unauthorized();
+
+    var device = await db.SharedDevices.FirstOrDefaultAsync(d =>
+        d.Id == id && d.HouseholdId == householdId && d.RevokedAtUtc == null);
+    if (device is null) return Results.NotFound();
+
+    // Kid tokens already issued on it run out on their own (deviceKidSessionLifetime)
+    device.RevokedAtUtc = DateTime.UtcNow;
+    await db.SaveChangesAsync();
+
+    return Results.NoContent();
+})
+.RequireAuthorization("ParentOnly");
+
+api.MapPost("/device/profiles", async (AppDbContext db, DeviceProfilesRequest req) =>
+{
+    var device = await FindDevice(db, req.DeviceToken);
+    if (device is null) return Results.Unauthorized();
+
+    var familyName = await db.Households
+        .Where(h => h.Id == device.HouseholdId)
+        .Select(h => h.Name)
+        .FirstOrDefaultAsync() ?? "";
+
+    var kids = await db.Kids
+        .Where(k => k.HouseholdId == device.HouseholdId && !k.IsArchived && k.LoginMethod != KidLoginMethod.None)
+        .OrderBy(k => k.DisplayName)
+        .Select(k => new DeviceKidItem(k.Id, k.DisplayName, k.Avatar, k.Color, k.LoginMethod))
+        .ToListAsync();
+
+    await db.SaveChangesAsync();
+    return Results.Ok(new DeviceProfilesResponse(device.Name, familyName, kids));
+})
+.AllowAnonymous();
+
+api.MapPost("/device/kid-login", async (AppDbContext db, IPasswordHasher<AppUser> hasher, DeviceKidLoginRequest req) =>
+{
+    var device = await FindDevice(db, req.DeviceToken);
+    if (device is null) return Results.Unauthorized();
+
+    var kid = await db.Kids.FirstOrDefaultAsync(k =>
+        k.Id == req.KidId && k.HouseholdId == device.HouseholdId && !k.IsArchived);
+    if (kid is null || kid.LoginMethod == KidLoginMethod.None || kid.LoginSecretHash is null)
+        return Results.BadRequest("This kid can't sign in on this device yet. Ask a parent to set it up.");
+
+    var now = DateTime.UtcNow;
+    if (kid.LoginLockedUntilUtc > now)
+    {
+        var minutes = (int)Math.Ceiling((kid.LoginLockedUntilUtc.Value - now).TotalMinutes);
+        return Results.Json($"Too many wrong tries. Try again in {minutes} minute(s).", statusCode: StatusCodes.Status429TooManyRequests);
+    }
+
+    var secret = NormalizeKidSecret(kid.LoginMethod, req.Secret) ?? "";
+    var result = hasher.VerifyHashedPassword(new AppUser(), kid.LoginSecretHash, secret);
+    if (result == PasswordVerificationResult.Failed)
+    {
+        kid.LoginFailedAttempts++;
+
+        if (kid.LoginFailedAttempts >= MaxPinAttempts)
+        {
+            kid.LoginFailedAttempts = 0;
+            kid.LoginLockedUntilUtc = now.Add(pinLockout);
+            await db.SaveChangesAsync();
+            return Results.Json($"Too many wrong tries. Try again in {(int)pinLockout.TotalMinutes} minute(s).", statusCode: StatusCodes.Status429TooManyRequests);
+        }
+
+        await db.SaveChangesAsync();
+        return Results.BadRequest($"That's not it. {MaxPinAttempts - kid.LoginFailedAttempts} tries left.");
+    }
+
+    kid.LoginFailedAttempts = 0;
+    kid.LoginLockedUntilUtc = null;
+    await db.SaveChangesAsync();
+
+    // Same shape as /kid-session
+    var kidToken = CreateToken(subjectId: kid.Id, role: "Kid", kidId: kid.Id, lifetime: deviceKidSessionLifetime);
+    return Results.Ok(new { token = kidToken, role = "Kid", kidId = kid.Id, displayName = kid.DisplayName });
+})
+.AllowAnonymous();
+
+// ============================================================
+// 14f) Backup + restore (ParentOnly; archive format in FamilyBackup.cs)
+// - GET /backup: the whole family as one versioned JSON download
+// - POST /restore: re-imports an archive into the CALLER's family
+//   (fresh ids, nothing existing is changed or removed)
+// - A bad archive (wrong format, newer schema, broken references) is
+//   rejected as a whole before anything is written
+// ============================================================
+
+api.MapGet("/backup", async (ClaimsPrincipal principal, AppDbContext db) =>
+{
+    var household = await FindHousehold(principal, db);
+    if (household is null) return Results.Unauthorized();
+
+    var archive = await FamilyBackup.CreateAsync(db, household);
+    var json = JsonSerializer.SerializeToUtf8Bytes(archive, FamilyBackup.JsonOptions);
+    var fileName = $"{Exports.Slug(household.Name, "family")}-backup-{archive.CreatedAtUtc:yyyy-MM-dd}.json";
+
+    return Results.File(json, "application/json", fileName);
+})
+.RequireAuthorization("ParentOnly");
+
+api.MapPost("/restore", async (ClaimsPrincipal principal, AppDbContext db, BackupArchive archive) =>
+{
+    var household = await FindHousehold(principal, db);
+    var userId = GetUserId(principal);
+    if (household is null || userId is null) return Results.Unauthorized();
+
+    var error = FamilyBackup.Validate(archive);
+    if (error is not null) return Results.BadRequest(error);
+
+    return Results.Ok(await FamilyBackup.RestoreAsync(db, household, userId, archive));
+})
+.RequireAuthorization("ParentOnly");
+
+// ============================================================
+// 15) Points Endpoints
+// - GET /points:
+//   Kid: gets own balance
+//   Parent: must provide kidId and pass ownership check
+// - POST /kids/{kidId}/points/adjust: parent bonus/deduction
+// ============================================================
+
+api.MapGet("/points", async (ClaimsPrincipal principal, AppDbContext db, string? kidId) =>
+{
+    var role = principal.FindFirstValue(ClaimTypes.Role);
+
+    string effectiveKidId;
+
+    if (role == "Kid")
+    {
+        effectiveKidId = principal.FindFirstValue("kidId") ?? GetUserId(principal) ?? "";
+        if (string.IsNullOrWhiteSpace(effectiveKidId)) return Results.Unauthorized();
+    }
+    else
+    {
+        var householdId = await GetHouseholdId(principal, db);
+        if (string.IsNullOrWhiteSpace(householdId)) return Results.Unauthorized();
+
+        if (string.IsNullOrWhiteSpace(kidId)) return Results.BadRequest("kidId is required for parent.");
 
         // Ownership check
-        var kidOwned = await db.Kids.AnyAsync(k => k.Id == kidId && k.ParentId == parentId);
-        if (!kidOwned) return Results.BadRequest("Unknown kidId for this parent.");
+        var kidOwned = await db.Kids.AnyAsync(k => k.Id == kidId && k.HouseholdId == householdId);
+        if (!kidOwned) return Results.BadRequest("Unknown kidId for this household.");
+
+        effectiveKidId = kidId;
+    }
+
+    var kid = await db.Kids.FirstOrDefaultAsync(k => k.Id == effectiveKidId);
+    if (kid is null) return Results.NotFound("Kid not found.");
+
+    return Results.Ok(new { kidId = effectiveKidId, points = kid.PointsBalance });
+})
+.RequireAuthorization();
+
+// Manual adjustment (ParentOnly):
+// - Bonus (Delta > 0) or deduction (Delta < 0) with a required note
+// - Goes through PointsLedger like task/reward changes (Adjust entry)
+api.MapPost("/kids/{kidId}/points/adjust", async (ClaimsPrincipal principal, AppDbContext db, string kidId, AdjustPointsRequest req) =>
+{
+    var householdId = await GetHouseholdId(principal, db);
+    if (string.IsNullOrWhiteSpace(householdId)) return Results.Unauthorized();
+
+    var kid = await db.Kids.FirstOrDefaultAsync(k => k.Id == kidId && k.HouseholdId == householdId);
+    if (kid is null) return Results.BadRequest("Unknown kidId for this household.");
+
+    if (req.Delta == 0) return Results.BadRequest("Delta cannot be 0.");
+
+    var note = (req.Note ?? "").Trim();
+    if (string.IsNullOrWhiteSpace(note)) return Results.BadRequest("A note is required.");
+
+    var category = string.IsNullOrWhiteSpace(req.Category) ? null : req.Category.Trim();
+    if (category?.Length > 40) return Results.BadRequest("Category must be 40 characters or fewer.");
+
+    // Deductions can't push the balance below zero
+    if (kid.PointsBalance + req.Delta < 0)
+        return Results.BadRequest($"Cannot deduct more than the current balance ({kid.PointsBalance}).");
+
+    var entry = PointsLedger.Post(db, kid, new PointTransaction
+    {
+        Type = PointTransactionType.Adjust,
+        Delta = req.Delta,
+        Note = note,
+        Category = category,
+        ActorUserId = GetUserId(principal),
+        CreatedAtUtc = DateTime.UtcNow
+    });
+
+    await db.SaveChangesAsync();
+
+    return Results.Ok(new { kidId, newPoints = kid.PointsBalance, transactionId = entry.Id });
+})
+.RequireAuthorization("ParentOnly");
+
+// ============================================================
+// 15b) Allowance payouts (points -> real money)
+// - POST /kids/{kidId}/payouts: parent cashes points out at the family's
+//   exchange rate (Spend entry, Category "Allowance", linked to the Payout)
+// - GET /kids/{kidId}/payouts: payout history + monthly totals
+//   (kid token: own payouts only; parent: any kid in the household)
+// - Amounts round down to the cent; a locked savings goal is respected
+// ============================================================
+
+static int ToAmountCents(AllowanceRate rate, int points) =>
+    (int)Math.Min(int.MaxValue, (long)points * rate.AmountCents / rate.Points);
+
+static string FormatMoney(int amountCents, string currency) =>
+    $"{amountCents / 100m:0.00} {currency}";
+
+static PayoutItem ToPayoutItem(Payout p) =>
+    new(p.Id, p.Points, p.AmountCents, p.Currency, p.Note, p.PaidAtUtc);
+
+api.MapPost("/kids/{kidId}/payouts", async (ClaimsPrincipal principal, AppDbContext db, string kidId, CashOutRequest req) =>
+{
+    var household = await FindHousehold(principal, db);
+    if (household is null) return Results.Unauthorized();
+
+    var rate = AllowanceRateOf(household);
+    if (rate is null) return Results.BadRequest("Set an exchange rate in Settings before cashing out.");
+
+    var kid = await db.Kids.FirstOrDefaultAsync(k => k.Id == kidId && k.HouseholdId == household.Id);
+    if (kid is null) return Results.BadRequest("Unknown kidId for this household.");
+
+    if (req.Points <= 0) return Results.BadRequest("Points must be greater than 0.");
+    if (req.Points > kid.PointsBalance)
+        return Results.BadRequest($"Cannot cash out more than the current balance ({kid.PointsBalance}).");
+
+    // Locked savings goal: the goal's cost stays put
+    if (kid.GoalLocksPoints && kid.GoalRewardId is not null)
+    {
+        var goal = await db.Rewards.FirstOrDefaultAsync(r => r.Id == kid.GoalRewardId);
+        if (goal is not null && kid.PointsBalance - req.Points < goal.Cost)
+            return Results.BadRequest($"{goal.Cost} points are saved for {goal.Name}. Unlock the goal to cash them out.");
+    }
+
+    var amountCents = ToAmountCents(rate, req.Points);
+    if (amountCents == 0) return Results.BadRequest("That's less than one cent at the current rate.");
+
+    var note = string.IsNullOrWhiteSpace(req.Note) ? null : req.Note.Trim();
+    if (note?.Length > 200) return Results.BadRequest("Note must be 200 characters or fewer.");
+
+    var now = DateTime.UtcNow;
+    var parentId = GetUserId(principal);
+
+    var payout = new Payout
+    {
+        KidId = kid.Id,
+        Points = req.Points,
+        AmountCents = amountCents,
+        Currency = rate.Currency,
+        Note = note,
+        ActorUserId = parentId,
+        PaidAtUtc = now
+    };
+
+    db.Payouts.Add(payout);
+
+    PointsLedger.Post(db, kid, new PointTransaction
+    {
+        Type = PointTransactionType.Spend,
+        Delta = -req.Points,
+        Payout = payout,
+        Note = $"Cashed out: {FormatMoney(amountCents, rate.Currency)}",
+        Category = "Allowance",
+        ActorUserId = parentId,
+        CreatedAtUtc = now
+    });
+
+    await db.SaveChangesAsync();
+
+    return Results.Ok(new { kidId, newPoints = kid.PointsBalance, payout = ToPayoutItem(payout) });
+})
+.RequireAuthorization("ParentOnly");
+
+api.MapGet("/kids/{kidId}/payouts", async (ClaimsPrincipal principal, AppDbContext db, string kidId) =>
+{
+    var kid = await FindKidForCaller(principal, db, kidId);
+    if (kid is null) return Results.NotFound("Kid not found.");
+
+    var household = await db.Households.FirstOrDefaultAsync(h => h.Id == kid.HouseholdId);
+    var rate = household is null ? null : AllowanceRateOf(household);
+    var zone = FamilyClock.Zone(household?.TimeZone);
+
+    var payouts = await db.Payouts
+        .Where(p => p.KidId == kid.Id)
+        .OrderByDescending(p => p.PaidAtUtc)
+        .ThenByDescending(p => p.Id)
+        .ToListAsync();
+
+    // The family's calendar months, newest first; split by currency if the family switched
+    var months = payouts
+        .GroupBy(p =>
+        {
+            var paidOn = FamilyClock.LocalDate(zone, p.PaidAtUtc);
+            return new { paidOn.Year, paidOn.Month, p.Currency };
+        })
+        .Select(g => new PayoutMonthItem(
+            g.Key.Year,
+            g.Key.Month,
+            g.Key.Currency,
+            g.Count(),
+            g.Sum(p => p.Points),
+            g.Sum(p => p.AmountCents)))
+        .OrderByDescending(m => m.Year)
+        .ThenByDescending(m => m.Month)
+        .ToList();
+
+    return Results.Ok(new PayoutsResponse(
+        rate,
+        kid.PointsBalance,
+        rate is null ? null : ToAmountCents(rate, kid.PointsBalance),
+        payouts.Select(ToPayoutItem).ToList(),
+        months));
+})
+.RequireAuthorization("KidOrParent");
+
+// ============================================================
+// 16) Points History (Ledger)
+// - Parent: can view a specific kid’s history (ownership check)
+// - Kid: can view their own history
+// - Each entry carries the task title / reward info that caused it,
+//   so the UI can link back without extra lookups
+// - ActorName: which parent made the change (null = the kid's own action)
+// ============================================================
+
+IQueryable<PointHistoryItem> QueryPointsHistory(AppDbContext db, string kidId) =>
+    db.PointTransactions
+        .Where(x => x.KidId == kidId)
+        .OrderByDescending(x => x.CreatedAtUtc)
+        .ThenByDescending(x => x.Id)
+        .Select(x => new PointHistoryItem(
+            x.Id,
+            x.Type,
+            x.Delta,
+            x.Note,
+            x.TaskId,
+            x.Task != null ? x.Task.Title : null,
+            x.TaskCompletion != null ? (DateTime?)x.TaskCompletion.OccurrenceDate : null,
+            x.RedemptionId,
+            x.Redemption != null ? (int?)x.Redemption.RewardId : null,
+            x.Redemption != null ? x.Redemption.RewardName : null,
+            x.PayoutId,
+            x.Category,
+            x.ActorUserId != null
+                ? db.Users.Where(u => u.Id == x.ActorUserId).Select(u => u.Username).FirstOrDefault()
+                : null,
+            x.CreatedAtUtc
+        ));
+
+api.MapGet("/kids/{kidId}/points/history", async (ClaimsPrincipal principal, AppDbContext db, string kidId) =>
+{
+    var householdId = await GetHouseholdId(principal, db);
+    if (string.IsNullOrWhiteSpace(householdId))
+        return Results.Unauthorized();
+
+    // Parent can only view history for their household's kids
+    var kidOwned = await db.Kids.AnyAsync(k => k.Id == kidId && k.HouseholdId == householdId);
+    if (!kidOwned)
+        return Results.BadRequest("Unknown kidId for this household.");
+
+    var history = await QueryPointsHistory(db, kidId).ToListAsync();
+
+    return Results.Ok(history);
+})
+.RequireAuthorization("ParentOnly");
+
+// Kid-friendly: current kid views their own points history
+api.MapGet("/points/history", async (ClaimsPrincipal principal, AppDbContext db) =>
+{
+    var role = principal.FindFirstValue(ClaimTypes.Role);
+    if (role != "Kid") return Results.Forbid();
+
+    var kidId = principal.FindFirstValue("kidId") ?? GetUserId(principal);
+    if (string.IsNullOrWhiteSpace(kidId)) return Results.Unauthorized();
+
+    var history = await QueryPointsHistory(db, kidId).ToListAsync();
+
+    return Results.Ok(new { kidId, history });
+})
+.RequireAuthorization("KidOnly");
+
+// ============================================================
+// 16b) Achievements (badges; catalog + rules in Achievements.cs)
+// - GET /kids/{kidId}/achievements: earned badges + the catalog (trophy shelf)
+// - POST /kids/{kidId}/achievements/seen: badges the kid hasn't seen yet,
+//   marked as seen (the Kid Mode "badge earned" toast); kid token only,
+//   so a parent browsing doesn't swallow the kid's toasts
+// ============================================================
+
+AchievementItem ToAchievementItem(KidAchievement a) =>
+    new(a.Id, a.AchievementKey, a.Title, a.Icon, a.BonusPoints, a.TaskId, a.EarnedAtUtc);
+
+api.MapGet("/kids/{kidId}/achievements", async (ClaimsPrincipal principal, AppDbContext db, string kidId) =>
+{
+    var kid = await FindKidForCaller(principal, db, kidId);
+    if (kid is null) return Results.NotFound("Kid not found.");
+
+    var earned = await db.KidAchievements
+        .Where(a => a.KidId == kid.Id)
+        .OrderByDescending(a => a.EarnedAtUtc)
+        .ToListAsync();
+
+    var catalog = Achievements.Catalog
+        .Select(d => new AchievementCatalogItem(
+            d.Key,
+            d.Name,
+            d.Description,
+            d.Icon,
+            d.BonusPoints,
+            d.Rule == AchievementRule.TaskStreakDays))
+        .ToList();
+
+    return Results.Ok(new AchievementsResponse(earned.Select(ToAchievementItem).ToList(), catalog));
+})
+.RequireAuthorization("KidOrParent");
+
+api.MapPost("/kids/{kidId}/achievements/seen", async (ClaimsPrincipal principal, AppDbContext db, string kidId) =>
+{
+    var kid = await FindKidForCaller(principal, db, kidId);
+    if (kid is null) return Results.NotFound("Kid not found.");
+
+    var unseen = await db.KidAchievements
+        .Where(a => a.KidId == kid.Id && a.SeenAtUtc == null)
+        .OrderBy(a => a.EarnedAtUtc)
+        .ToListAsync();
+
+    var now = DateTime.UtcNow;
+    foreach (var a in unseen) a.SeenAtUtc = now;
+    await db.SaveChangesAsync();
+
+    return Results.Ok(unseen.Select(ToAchievementItem).ToList());
+})
+.RequireAuthorization("KidOnly");
+
+// ============================================================
+// 16c) Exports (ParentOnly; columns + file building in Exports.cs)
+// - GET /kids/{kidId}/export/{dataset}?format=csv|json&from=&to=
+//   dataset: points (ledger), tasks (task completions), redemptions
+// - from/to are the family's calendar dates (FamilyClock), both inclusive,
+//   so a range matches the days the history screens show; leave out for all time
+// - Rows are oldest first (accounting order); the points ledger keeps the
+//   running balance of the full history, even for a partial range
+// ============================================================
+
+api.MapGet("/kids/{kidId}/export/{dataset}", async (
+    ClaimsPrincipal principal,
+    AppDbContext db,
+    string kidId,
+    string dataset,
+    string? format,
+    DateTime? from,
+    DateTime? to) =>
+{
+    var householdId = await GetHouseholdId(principal, db);
+    if (string.IsNullOrWhiteSpace(householdId)) return Results.Unauthorized();
+
+    var kid = await db.Kids.FirstOrDefaultAsync(k => k.Id == kidId && k.HouseholdId == householdId);
+    if (kid is null) return Results.BadRequest("Unknown kidId for this household.");
+
+    var fileFormat = (format ?? "csv").Trim().ToLowerInvariant();
+    if (fileFormat is not ("csv" or "json")) return Results.BadRequest("Format must be csv or json.");
+
+    if (from > to) return Results.BadRequest("The start date must be on or before the end date.");
+
+    // Local midnight of "from" up to local midnight after "to", as UTC instants
+    var zone = await FamilyClock.ForHouseholdAsync(db, householdId);
+    var start = from is DateTime fromDay ? FamilyClock.ToUtc(zone, fromDay.Date) : DateTime.MinValue;
+    var end = to is DateTime toDay ? FamilyClock.ToUtc(zone, toDay.Date.AddDays(1)) : DateTime.MaxValue;
+
+    switch (dataset.ToLowerInvariant())
+    {
+        case "points":
+        {
+            // Newest first, peeling each delta off the current balance
+            var history = await QueryPointsHistory(db, kidId).ToListAsync();
+            var balance = kid.PointsBalance;
+            var rows = new List<PointExportRow>();
+
+            foreach (var entry in history)
+            {
+                if (entry.CreatedAtUtc >= start && entry.CreatedAtUtc < end) rows.Add(new PointExportRow(entry, balance));
+                balance -= entry.Delta;
+            }
+
+            rows.Reverse();
+            return Exports.File(fileFormat, "points", kid, from, to, Exports.PointColumns, rows);
+        }
+
+        case "tasks":
+        {
+            var rows = await db.TaskCompletions
+                .Where(c => c.KidId == kidId && c.CompletedAtUtc >= start && c.CompletedAtUtc < end)
+                .OrderBy(c => c.CompletedAtUtc)
+                .ThenBy(c => c.Id)
+                .Select(c => new TaskExportRow(
+                    c.Id,
+                    c.TaskId,
+                    c.Task != null ? c.Task.Title : "",
+                    c.OccurrenceDate,
+                    c.CompletedAtUtc,
+                    c.Status,
+                    db.PointTransactions
+                        .Where(t => t.TaskCompletionId == c.Id && t.Type == PointTransactionType.Earn)
+                        .Sum(t => (int?)t.Delta) ?? 0,
+                    c.ReviewedAtUtc,
+                    c.RejectionReason))
+                .ToListAsync();
+
+            return Exports.File(fileFormat, "tasks", kid, from, to, Exports.TaskColumns, rows);
+        }
+
+        case "redemptions":
+        {
+            var rows = await db.Redemptions
+                .Where(r => r.KidId == kidId && r.RedeemedAt >= start && r.RedeemedAt < end)
+                .OrderBy(r => r.RedeemedAt)
+                .ThenBy(r => r.Id)
+                .ToListAsync();
+
+            return Exports.File(fileFormat, "redemptions", kid, from, to, Exports.RedemptionColumns, rows);
+        }
+
+        default:
+            return Results.NotFound("Unknown export. Use points, tasks or redemptions.");
+    }
+})
+.RequireAuthorization("ParentOnly");
+
+// ============================================================
+// 17) Rewards + Redemptions
+// - Each household has its own catalog (Reward.HouseholdId)
+// - GET /rewards: parents and kids see their household's catalog
+// - Parent: create/edit/delete rewards (own household's catalog only)
+// - Kid: redeem rewards (deduct points + create redemption + ledger entry);
+//   a locked savings goal reserves its cost (see 17b)
+// - Optional limits per reward: stock, per-kid max per day/week, cooldown;
+//   days and weeks (Monday to Sunday) are the family's (FamilyClock);
+//   redeem refuses with { code, message } (codes below), and
+//   GET /kids/{kidId}/reward-availability tells the UI what's blocked and until when
+// - Parent: redemption inbox (fulfill, or cancel + refund + restock)
+// - Kid: "My rewards" (what's still owed to them)
+// ============================================================
+
+// Limits must be positive when set (stock may be 0 = sold out)
+string? ValidateRewardLimits(RewardLimits limits)
+{
+    if (limits.Stock is < 0) return "Stock must be >= 0.";
+    if (limits.MaxPerDay is < 1) return "Max per day must be at least 1.";
+    if (limits.MaxPerWeek is < 1) return "Max per week must be at least 1.";
+    if (limits.CooldownHours is < 1) return "Cooldown must be at least 1 hour.";
+    return null;
+}
+
+void ApplyRewardLimits(Reward reward, RewardLimits limits)
+{
+    reward.Stock = limits.Stock;
+    reward.MaxPerDay = limits.MaxPerDay;
+    reward.MaxPerWeek = limits.MaxPerWeek;
+    reward.CooldownHours = limits.CooldownHours;
+}
+
+// First limit that stops this kid from redeeming the reward right now (null = allowed).
+// Codes: OutOfStock, DailyLimit, WeeklyLimit, Cooldown
+async Task<RewardLimitBlock?> CheckRewardLimits(AppDbContext db, string kidId, Reward reward, DateTime now, TimeZoneInfo zone)
+{
+    if (reward.Stock is <= 0)
+        return new RewardLimitBlock("OutOfStock", $"{reward.Name} is sold out.", null);
+
+    if (reward.MaxPerDay is null && reward.MaxPerWeek is null && reward.CooldownHours is null) return null;
+
+    // Day / week windows start at the family's midnight (as UTC instants)
+    var localToday = FamilyClock.LocalDate(zone, now);
+    var dayStart = FamilyClock.ToUtc(zone, localToday);
+    var tomorrow = FamilyClock.ToUtc(zone, localToday.AddDays(1));
+    var weekStart = FamilyClock.ToUtc(zone, WeekStart(localToday));
+    var nextWeek = FamilyClock.ToUtc(zone, WeekStart(localToday).AddDays(7));
+    var since = reward.CooldownHours is int hours && now.AddHours(-hours) < weekStart
+        ? now.AddHours(-hours)
+        : weekStart;
+
+    // Cancelled redemptions were refunded, so they don't count
+    var recent = await db.Redemptions
+        .Where(r => r.KidId == kidId && r.RewardId == reward.Id
+                    && r.Status != RedemptionStatus.Cancelled && r.RedeemedAt >= since)
+        .Select(r => r.RedeemedAt)
+        .ToListAsync();
+
+    if (reward.MaxPerDay is int perDay && recent.Count(at => at >= dayStart) >= perDay)
+        return new RewardLimitBlock("DailyLimit", $"{reward.Name} can be redeemed {perDay} time(s) a day.", tomorrow);
+
+    if (reward.MaxPerWeek is int perWeek && recent.Count(at => at >= weekStart) >= perWeek)
+        return new RewardLimitBlock("WeeklyLimit", $"{reward.Name} can be redeemed {perWeek} time(s) a week.", nextWeek);
+
+    if (reward.CooldownHours is int cooldown && recent.Count > 0)
+    {
+        var availableAgain = recent.Max().AddHours(cooldown);
+        if (availableAgain > now)
+            return new RewardLimitBlock("Cooldown", $"{reward.Name} needs a {cooldown}-hour break between redemptions.", availableAgain);
+    }
+
+    return null;
+}
+
+api.MapGet("/rewards", async (ClaimsPrincipal principal, AppDbContext db) =>
+{
+    var householdId = await GetHouseholdId(principal, db);
+    if (string.IsNullOrWhiteSpace(householdId)) return Results.Unauthorized();
+
+    return Results.Ok(await db.Rewards.Where(r => r.HouseholdId == householdId).ToListAsync());
+})
+.RequireAuthorization();
+
+api.MapPost("/rewards", async (ClaimsPrincipal principal, AppDbContext db, CreateRewardRequest req) =>
+{
+    var householdId = await GetHouseholdId(principal, db);
+    if (string.IsNullOrWhiteSpace(householdId)) return Results.Unauthorized();
+
+    var reward = new Reward { Name = req.Name, Cost = req.Cost, HouseholdId = householdId };
+
+    if (req.Limits is not null)
+    {
+        var limitsError = ValidateRewardLimits(req.Limits);
+        if (limitsError is not null) return Results.BadRequest(limitsError);
+        ApplyRewardLimits(reward, req.Limits);
+    }
+
+    db.Rewards.Add(reward);
+    await db.SaveChangesAsync();
+
+    return Results.Created($"/api/rewards/{reward.Id}", reward);
+})
+.RequireAuthorization("ParentOnly");
+
+api.MapPut("/rewards/{id:int}", async (ClaimsPrincipal principal, AppDbContext db, int id, UpdateRewardRequest req) =>
+{
+    var householdId = await GetHouseholdId(principal, db);
+    if (string.IsNullOrWhiteSpace(householdId)) return Results.Unauthorized();
+
+    // Parent can only edit rewards in their household's catalog
+    var reward = await db.Rewards.FirstOrDefaultAsync(r => r.Id == id && r.HouseholdId == householdId);
+    if (reward is null) return Results.NotFound("Reward not found.");
+
+    if (req.Name is not null)
+    {
+        var name = req.Name.Trim();
+        if (string.IsNullOrWhiteSpace(name)) return Results.BadRequest("Name cannot be empty.");
+        reward.Name = name;
+    }
+
+    if (req.Cost is not null)
+    {
+        if (req.Cost.Value < 0) return Results.BadRequest("Cost must be >= 0.");
+        reward.Cost = req.Cost.Value;
+    }
+
+    // Limits are replaced as a whole (null fields = unlimited)
+    if (req.Limits is not null)
+    {
+        var limitsError = ValidateRewardLimits(req.Limits);
+        if (limitsError is not null) return Results.BadRequest(limitsError);
+        ApplyRewardLimits(reward, req.Limits);
+    }
+
+    await db.SaveChangesAsync();
+    return Results.Ok(reward);
+})
+.RequireAuthorization("ParentOnly");
+
+api.MapDelete("/rewards/{id:int}", async (ClaimsPrincipal principal, AppDbContext db, int id) =>
+{
+    var householdId = await GetHouseholdId(principal, db);
+    if (string.IsNullOrWhiteSpace(householdId)) return Results.Unauthorized();
+
+    // Parent can only delete rewards in their household's catalog
+    var reward = await db.Rewards.FirstOrDefaultAsync(r => r.Id == id && r.HouseholdId == householdId);
+    if (reward is null) return Results.NotFound();
+
+    // Kids saving up for it lose the goal (nothing to save for anymore)
+    foreach (var saver in await db.Kids.Where(k => k.GoalRewardId == id).ToListAsync())
+    {
+        saver.GoalRewardId = null;
+        saver.GoalLocksPoints = false;
+    }
+
+    db.Rewards.Remove(reward);
+    await db.SaveChangesAsync();
+    return Results.NoContent();
+})
+.RequireAuthorization("ParentOnly");
+
+// Kid redeems reward:
+// - Must have enough points and pass the reward's limits
+// - Deduct points from balance (and one from stock, if tracked)
+// - Store redemption + ledger transaction (Spend)
+// - Refusals are { code, message }: NotEnoughPoints, GoalLocked, OutOfStock,
+//   DailyLimit, WeeklyLimit, Cooldown
+api.MapPost("/rewards/{rewardId:int}/redeem", async (ClaimsPrincipal principal, AppDbContext db, int rewardId) =>
+{
+    var kidId = principal.FindFirstValue("kidId") ?? GetUserId(principal);
+    if (string.IsNullOrWhiteSpace(kidId)) return Results.Unauthorized();
+
+    var kid = await db.Kids.FirstOrDefaultAsync(k => k.Id == kidId);
+    if (kid is null) return Results.NotFound("Kid not found.");
+
+    // Only rewards from this kid's household catalog
+    var reward = await db.Rewards.FirstOrDefaultAsync(r => r.Id == rewardId && r.HouseholdId == kid.HouseholdId);
+    if (reward is null) return Results.NotFound("Reward not found.");
+
+    var now = DateTime.UtcNow;
+
+    var block = await CheckRewardLimits(db, kidId, reward, now, await FamilyClock.ForHouseholdAsync(db, kid.HouseholdId));
+    if (block is not null) return Results.BadRequest(new ApiError(block.Code, block.Message));
+
+    if (kid.PointsBalance < reward.Cost)
+        return Results.BadRequest(new ApiError("NotEnoughPoints", "Not enough points."));
+
+    // Locked savings goal: the goal's cost stays put unless this *is* the goal
+    if (kid.GoalLocksPoints && kid.GoalRewardId is not null && kid.GoalRewardId != reward.Id)
+    {
+        var goal = await db.Rewards.FirstOrDefaultAsync(r => r.Id == kid.GoalRewardId);
+        if (goal is not null && kid.PointsBalance - reward.Cost < goal.Cost)
+            return Results.BadRequest(new ApiError(
+                "GoalLocked",
+                $"Those points are saved for {goal.Name}. Unlock your goal to spend them."));
+    }
+
+    if (reward.Stock is not null) reward.Stock--;
+
+    // Reached the goal -> it's done
+    if (kid.GoalRewardId == reward.Id)
+    {
+        kid.GoalRewardId = null;
+        kid.GoalLocksPoints = false;
+    }
+
+    // Create redemption record (snapshot name + cost for the inbox and refunds)
+    var redemption = new Redemption
+    {
+        KidId = kidId,
+        RewardId = rewardId,
+        RewardName = reward.Name,
+        Cost = reward.Cost,
+        RedeemedAt = now
+    };
+
+    db.Redemptions.Add(redemption);
+
+    // Deduct points + ledger entry for spend history
+    PointsLedger.Post(db, kid, new PointTransaction
+    {
+        Type = PointTransactionType.Spend,
+        Delta = -reward.Cost,
+        Redemption = redemption,
+        Note = $"Redeemed reward: {reward.Name}",
+        CreatedAtUtc = now
+    });
+
+    await db.SaveChangesAsync();
+
+    if ((await Achievements.AwardAsync(db, kid, now)).Count > 0)
+        await db.SaveChangesAsync();
+
+    return Results.Ok(new { kidId, newPoints = kid.PointsBalance, redemption });
+})
+.RequireAuthorization("KidOnly");
+
+// Which rewards this kid can't redeem right now because of a limit (and until when).
+// Points and savings-goal locks are left to the client (it already has both).
+api.MapGet("/kids/{kidId}/reward-availability", async (ClaimsPrincipal principal, AppDbContext db, string kidId) =>
+{
+    var kid = await FindKidForCaller(principal, db, kidId);
+    if (kid is null) return Results.NotFound("Kid not found.");
+
+    var now = DateTime.UtcNow;
+    var zone = await FamilyClock.ForHouseholdAsync(db, kid.HouseholdId);
+    var rewards = await db.Rewards.Where(r => r.HouseholdId == kid.HouseholdId).ToListAsync();
+
+    var items = new List<RewardAvailabilityItem>();
+    foreach (var reward in rewards)
+    {
+        var block = await CheckRewardLimits(db, kid.Id, reward, now, zone);
+        items.Add(new RewardAvailabilityItem(reward.Id, reward.Stock, block?.Code, block?.Message, block?.AvailableAgainUtc));
+    }
+
+    return Results.Ok(items);
+})
+.RequireAuthorization("KidOrParent");
+
+// Parent redemption inbox:
+// - All of the household's kids by default, optional kidId/status filters
+// - Pending first, newest first within each group
+api.MapGet("/redemptions", async (ClaimsPrincipal principal, AppDbContext db, string? kidId, RedemptionStatus? status) =>
+{
+    var householdId = await GetHouseholdId(principal, db);
+    if (string.IsNullOrWhiteSpace(householdId)) return Results.Unauthorized();
+
+    var kids = db.Kids.Where(k => k.HouseholdId == householdId);
+    if (!string.IsNullOrWhiteSpace(kidId)) kids = kids.Where(k => k.Id == kidId);
+
+    var query = db.Redemptions.AsQueryable();
+    if (status is not null) query = query.Where(r => r.Status == status);
+
+    var items = await query
+        .Join(kids, r => r.KidId, k => k.Id, (r, k) => new { r, k })
+        .Select(x => new RedemptionItem(
+            x.r.Id,
+            x.k.Id,
+            x.k.DisplayName,
+            x.r.RewardId,
+            x.r.RewardName,
+            x.r.Cost,
+            x.r.Status,
+            x.r.RedeemedAt,
+            x.r.FulfilledAtUtc,
+            x.r.CancelledAtUtc))
+        .ToListAsync();
+
+    return Results.Ok(items
+        .OrderBy(x => x.Status == RedemptionStatus.Pending ? 0 : 1)
+        .ThenByDescending(x => x.RedeemedAt)
+        .ToList());
+})
+.RequireAuthorization("ParentOnly");
+
+// Kid "My rewards": own redemptions, newest first
+api.MapGet("/redemptions/mine", async (ClaimsPrincipal principal, AppDbContext db) =>
+{
+    var kidId = principal.FindFirstValue("kidId");
+    if (string.IsNullOrWhiteSpace(kidId)) return Results.Unauthorized();
+
+    var kid = await db.Kids.FirstOrDefaultAsync(k => k.Id == kidId);
+    if (kid is null) return Results.NotFound("Kid not found.");
+
+    var items = await db.Redemptions
+        .Where(r => r.KidId == kidId)
+        .OrderByDescending(r => r.RedeemedAt)
+        .Select(r => new RedemptionItem(
+            r.Id,
+            kid.Id,
+            kid.DisplayName,
+            r.RewardId,
+            r.RewardName,
+            r.Cost,
+            r.Status,
+            r.RedeemedAt,
+            r.FulfilledAtUtc,
+            r.CancelledAtUtc))
+        .ToListAsync();
+
+    return Results.Ok(items);
+})
+.RequireAuthorization("KidOnly");
+
+// Parent marks a redemption as handed over
+api.MapPost("/redemptions/{id:int}/fulfill", async (ClaimsPrincipal principal, AppDbContext db, int id) =>
+{
+    var householdId = await GetHouseholdId(principal, db);
+    if (string.IsNullOrWhiteSpace(householdId)) return Results.Unauthorized();
+
+    var redemption = await db.Redemptions.FirstOrDefaultAsync(r => r.Id == id);
+    if (redemption is null) return Results.NotFound("Redemption not found.");
+
+    // Ownership check: redemption must belong to one of the household's kids
+    var kidOwned = await db.Kids.AnyAsync(k => k.Id == redemption.KidId && k.HouseholdId == householdId);
+    if (!kidOwned) return Results.NotFound("Redemption not found.");
+
+    if (redemption.Status != RedemptionStatus.Pending)
+        return Results.BadRequest("Only pending redemptions can be fulfilled.");
+
+    redemption.Status = RedemptionStatus.Fulfilled;
+    redemption.FulfilledAtUtc = DateTime.UtcNow;
+
+    await db.SaveChangesAsync();
+    return Results.Ok(redemption);
+})
+.RequireAuthorization("ParentOnly");
+
+// Parent cancels a redemption:
+// - Refunds the points that were spent (compensating Adjust entry)
+// - The original Spend entry stays in the ledger
+api.MapPost("/redemptions/{id:int}/cancel", async (ClaimsPrincipal principal, AppDbContext db, int id) =>
+{
+    var householdId = await GetHouseholdId(principal, db);
+    if (string.IsNullOrWhiteSpace(householdId)) return Results.Unauthorized();
+
+    var redemption = await db.Redemptions.FirstOrDefaultAsync(r => r.Id == id);
+    if (redemption is null) return Results.NotFound("Redemption not found.");
+
+    var kid = await db.Kids.FirstOrDefaultAsync(k => k.Id == redemption.KidId && k.HouseholdId == householdId);
+    if (kid is null) return Results.NotFound("Redemption not found.");
+
+    if (redemption.Status != RedemptionStatus.Pending)
+        return Results.BadRequest("Only pending redemptions can be cancelled.");
+
+    var now = DateTime.UtcNow;
+    redemption.Status = RedemptionStatus.Cancelled;
+    redemption.CancelledAtUtc = now;
+
+    // Put the copy back on the shelf (if the reward still exists and tracks stock)
+    var reward = await db.Rewards.FirstOrDefaultAsync(r => r.Id == redemption.RewardId);
+    if (reward?.Stock is not null) reward.Stock++;
+
+    PointsLedger.Post(db, kid, new PointTransaction
+    {
+        Type = PointTransactionType.Adjust,
+        Delta = redemption.Cost,
+        RedemptionId = redemption.Id,
+        Note = $"Refund: {redemption.RewardName} (cancelled)",
+        ActorUserId = GetUserId(principal),
+        CreatedAtUtc = now
+    });
+
+    await db.SaveChangesAsync();
+    return Results.Ok(new { kidId = kid.Id, newPoints = kid.PointsBalance, redemption });
+})
+.RequireAuthorization("ParentOnly");
 
-        effectiveKidId = kidId;
+// ============================================================
+// 17b) Savings goals
+// - GET/PUT/DELETE /kids/{kidId}/goal: the reward a kid is saving up for
+//   (kid token: own goal only; parent: any kid in the household)
+// - Progress is the balance vs. the reward's cost; the ETA divides what's
+//   left by the average daily Earn over the last GoalEarningsWindowDays
+// - LockPoints: redeeming other rewards can't dip into the goal's cost
+// - Redeeming the goal reward clears the goal
+// ============================================================
+
+const int GoalEarningsWindowDays = 14;
+
+// Kid the caller may manage: a kid token only itself, a parent their household's kids
+async Task<KidProfile?> FindKidForCaller(ClaimsPrincipal principal, AppDbContext db, string kidId)
+{
+    if (principal.FindFirstValue(ClaimTypes.Role) == "Kid")
+    {
+        var ownId = principal.FindFirstValue("kidId") ?? GetUserId(principal);
+        return ownId == kidId ? await db.Kids.FirstOrDefaultAsync(k => k.Id == kidId) : null;
     }
 
-    var kid = await db.Kids.FirstOrDefaultAsync(k => k.Id == effectiveKidId);
+    var householdId = await GetHouseholdId(principal, db);
+    return await db.Kids.FirstOrDefaultAsync(k => k.Id == kidId && k.HouseholdId == householdId);
+}
+
+async Task<SavingsGoalResponse?> BuildSavingsGoal(AppDbContext db, KidProfile kid)
+{
+    if (kid.GoalRewardId is null) return null;
+
+    var reward = await db.Rewards.FirstOrDefaultAsync(r => r.Id == kid.GoalRewardId);
+    if (reward is null) return null;
+
+    var since = DateTime.UtcNow.AddDays(-GoalEarningsWindowDays);
+    var earned = await db.PointTransactions
+        .Where(t => t.KidId == kid.Id && t.Type == PointTransactionType.Earn && t.CreatedAtUtc >= since)
+        .SumAsync(t => (int?)t.Delta) ?? 0;
+
+    var averagePerDay = (double)earned / GoalEarningsWindowDays;
+    var remaining = Math.Max(0, reward.Cost - kid.PointsBalance);
+    var progressPercent = reward.Cost <= 0 ? 100 : Math.Min(100, kid.PointsBalance * 100 / reward.Cost);
+
+    // No recent earnings -> no honest estimate
+    DateTime? estimatedDate = remaining == 0
+        ? DateTime.UtcNow.Date
+        : averagePerDay > 0
+            ? DateTime.UtcNow.Date.AddDays(Math.Ceiling(remaining / averagePerDay))
+            : null;
+
+    return new SavingsGoalResponse(
+        reward.Id,
+        reward.Name,
+        reward.Cost,
+        kid.PointsBalance,
+        remaining,
+        progressPercent,
+        kid.GoalLocksPoints,
+        Math.Round(averagePerDay, 1),
+        estimatedDate);
+}
+
+api.MapGet("/kids/{kidId}/goal", async (ClaimsPrincipal principal, AppDbContext db, string kidId) =>
+{
+    var kid = await FindKidForCaller(principal, db, kidId);
     if (kid is null) return Results.NotFound("Kid not found.");
 
-    return Results.Ok(new { kidId = effectiveKidId, points = kid.PointsBalance });
+    var goal = await BuildSavingsGoal(db, kid);
+    return goal is null ? Results.NoContent() : Results.Ok(goal);
 })
-.RequireAuthorization();
+.RequireAuthorization("KidOrParent");
+
+api.MapPut("/kids/{kidId}/goal", async (ClaimsPrincipal principal, AppDbContext db, string kidId, SetSavingsGoalRequest req) =>
+{
+    var kid = await FindKidForCaller(principal, db, kidId);
+    if (kid is null) return Results.NotFound("Kid not found.");
+
+    // Only rewards from this kid's household catalog
+    var rewardExists = await db.Rewards.AnyAsync(r => r.Id == req.RewardId && r.HouseholdId == kid.HouseholdId);
+    if (!rewardExists) return Results.BadRequest("Unknown reward.");
+
+    // LockPoints omitted -> keep the current setting (switching goals)
+    kid.GoalRewardId = req.RewardId;
+    kid.GoalLocksPoints = req.LockPoints ?? kid.GoalLocksPoints;
+    await db.SaveChangesAsync();
+
+    return Results.Ok(await BuildSavingsGoal(db, kid));
+})
+.RequireAuthorization("KidOrParent");
+
+api.MapDelete("/kids/{kidId}/goal", async (ClaimsPrincipal principal, AppDbContext db, string kidId) =>
+{
+    var kid = await FindKidForCaller(principal, db, kidId);
+    if (kid is null) return Results.NotFound("Kid not found.");
+
+    kid.GoalRewardId = null;
+    kid.GoalLocksPoints = false;
+    await db.SaveChangesAsync();
+
+    return Results.NoContent();
+})
+.RequireAuthorization("KidOrParent");
 
 // ============================================================
-// 16) Points History (Ledger)
-// - Parent: can view a specific kid’s history (ownership check)
-// - Kid: can view their own history
+// 17c) Family analytics (ParentOnly)
+// - Summaries for the parent dashboard, aggregated here so the web app
+//   only draws charts; all across the caller's household (archived kids
+//   and deleted tasks drop out)
+// - Days and weeks are the family's (FamilyClock), like task occurrences
+// - GET /analytics/points-by-week?weeks=12: Earned vs Spent per kid per
+//   week (Monday-based). Earned = task points + bonuses/badges;
+//   Spent = rewards + allowance cash outs; deductions/penalties count in
+//   neither, and a cancelled redemption + its refund in neither either
+//   (same as top-rewards)
+// - GET /analytics/task-completion?days=30: per task, occurrences that
+//   were due in the window vs approved completions (today's occurrence
+//   only counts once it's done; open one-time tasks are left out)
+// - GET /analytics/top-rewards?days=90: most redeemed (cancelled don't count)
+// - GET /analytics/busiest-days?days=90: approved completions + points
+//   earned per weekday
 // ============================================================
 
-api.MapGet("/kids/{kidId}/points/history", async (ClaimsPrincipal principal, AppDbContext db, string kidId) =>
+const int MaxAnalyticsWeeks = 52;
+const int MaxAnalyticsDays = 365;
+
+// Monday of the day's week
+static DateTime WeekStart(DateTime day) => day.Date.AddDays(-(((int)day.DayOfWeek + 6) % 7));
+
+// Household's active kids + its time zone (days are bucketed on its calendar)
+async Task<(List<KidProfile> Kids, TimeZoneInfo Zone)> AnalyticsScope(ClaimsPrincipal principal, AppDbContext db)
 {
-    var parentId = GetUserId(principal);
-    if (string.IsNullOrWhiteSpace(parentId))
-        return Results.Unauthorized();
+    var householdId = await GetHouseholdId(principal, db);
+    if (string.IsNullOrWhiteSpace(householdId)) return (new List<KidProfile>(), TimeZoneInfo.Utc);
 
-    // Parent can only view history for their own kid
-    var kidOwned = await db.Kids.AnyAsync(k => k.Id == kidId && k.ParentId == parentId);
-    if (!kidOwned)
-        return Results.BadRequest("Unknown kidId for this parent.");
+    var kids = await db.Kids
+        .Where(k => k.HouseholdId == householdId && !k.IsArchived)
+        .OrderBy(k => k.DisplayName)
+        .ToListAsync();
 
-    var history = await db.PointTransactions
-        .Where(x => x.KidId == kidId)
-        .OrderByDescending(x => x.CreatedAtUtc)
-        .Select(x => new
-        {
-            x.Id,
-            x.Type,
-            x.Delta,
-            x.Note,
-            x.TaskId,
-            x.RedemptionId,
-            x.CreatedAtUtc
-        })
+    return (kids, await FamilyClock.ForHouseholdAsync(db, householdId));
+}
+
+api.MapGet("/analytics/points-by-week", async (ClaimsPrincipal principal, AppDbContext db, int? weeks) =>
+{
+    var weekCount = Math.Clamp(weeks ?? 12, 1, MaxAnalyticsWeeks);
+    var (kids, zone) = await AnalyticsScope(principal, db);
+    var kidIds = kids.Select(k => k.Id).ToList();
+
+    var firstWeek = WeekStart(FamilyClock.Today(zone)).AddDays(-7 * (weekCount - 1));
+    var weekStarts = Enumerable.Range(0, weekCount).Select(i => firstWeek.AddDays(7 * i)).ToList();
+    var firstWeekUtc = FamilyClock.ToUtc(zone, firstWeek);
+
+    var entries = await db.PointTransactions
+        .Where(t => kidIds.Contains(t.KidId) && t.CreatedAtUtc >= firstWeekUtc)
+        .Select(t => new { t.KidId, t.Type, t.Delta, t.RedemptionId, t.CreatedAtUtc })
         .ToListAsync();
 
-    return Results.Ok(history);
+    // Refunds (cancelled redemptions) always come after their spend, so both are in the window
+    var refunded = entries
+        .Where(e => e.Type != PointTransactionType.Spend && e.RedemptionId is not null)
+        .Select(e => e.RedemptionId)
+        .ToHashSet();
+
+    var series = kids.Select(kid =>
+    {
+        var earned = new int[weekCount];
+        var spent = new int[weekCount];
+
+        foreach (var e in entries.Where(e => e.KidId == kid.Id && !refunded.Contains(e.RedemptionId)))
+        {
+            var week = (WeekStart(FamilyClock.LocalDate(zone, e.CreatedAtUtc)) - firstWeek).Days / 7;
+            if (week < 0 || week >= weekCount) continue;
+
+            if (e.Type == PointTransactionType.Spend) spent[week] += -e.Delta;
+            else if (e.Delta > 0) earned[week] += e.Delta;
+        }
+
+        return new KidWeeklyPointsItem(kid.Id, kid.DisplayName, kid.Color, earned.ToList(), spent.ToList());
+    }).ToList();
+
+    return Results.Ok(new PointsByWeekResponse(weekStarts, series));
 })
 .RequireAuthorization("ParentOnly");
 
-// Kid-friendly: current kid views their own points history
-api.MapGet("/points/history", async (ClaimsPrincipal principal, AppDbContext db) =>
+api.MapGet("/analytics/task-completion", async (ClaimsPrincipal principal, AppDbContext db, int? days) =>
 {
-    var role = principal.FindFirstValue(ClaimTypes.Role);
-    if (role != "Kid") return Results.Forbid();
+    var dayCount = Math.Clamp(days ?? 30, 1, MaxAnalyticsDays);
+    var (kids, zone) = await AnalyticsScope(principal, db);
+    var kidIds = kids.Select(k => k.Id).ToList();
+    var kidNames = kids.ToDictionary(k => k.Id, k => k.DisplayName);
 
-    var kidId = principal.FindFirstValue("kidId") ?? GetUserId(principal);
-    if (string.IsNullOrWhiteSpace(kidId)) return Results.Unauthorized();
+    var today = FamilyClock.Today(zone);
+    var from = today.AddDays(-(dayCount - 1));
+    var fromUtc = FamilyClock.ToUtc(zone, from);
 
-    var history = await db.PointTransactions
-        .Where(x => x.KidId == kidId)
-        .OrderByDescending(x => x.CreatedAtUtc)
-        .Select(x => new
-        {
-            x.Id,
-            x.Type,
-            x.Delta,
-            x.Note,
-            x.TaskId,
-            x.RedemptionId,
-            x.CreatedAtUtc
-        })
+    var tasks = await db.Tasks
+        .Where(t => kidIds.Contains(t.AssignedKidId))
         .ToListAsync();
 
-    return Results.Ok(new { kidId, history });
+    var completedDays = (await db.TaskCompletions
+            .Where(c => kidIds.Contains(c.KidId)
+                && c.Status == TaskCompletionStatus.Approved
+                && c.OccurrenceDate >= from)
+            .Select(c => new { c.TaskId, c.OccurrenceDate })
+            .ToListAsync())
+        .GroupBy(c => c.TaskId)
+        .ToDictionary(g => g.Key, g => g.Select(c => c.OccurrenceDate.Date).ToHashSet());
+
+    var items = new List<TaskCompletionRateItem>();
+
+    foreach (var task in tasks)
+    {
+        var done = completedDays.GetValueOrDefault(task.Id) ?? new HashSet<DateTime>();
+        int expected;
+
+        if (task.Recurrence == TaskRecurrence.None)
+        {
+            // One-time: done in the window, or expired in it; still open = no verdict yet
+            if (done.Count > 0) expected = 1;
+            else if (task.ExpiredAtUtc >= fromUtc) expected = 1;
+            else continue;
+        }
+        else
+        {
+            var start = task.StartDate is DateTime s && s.Date > from ? s.Date : from;
+            expected = TaskSchedule.Between(task, start, today.AddDays(1))
+                .Count(day => TaskSchedule.OccursOn(task, day) && (day < today || done.Contains(day)));
+            if (expected == 0) continue;
+        }
+
+        var completed = Math.Min(done.Count, expected);
+
+        items.Add(new TaskCompletionRateItem(
+            task.Id,
+            task.Title,
+            task.AssignedKidId,
+            kidNames.GetValueOrDefault(task.AssignedKidId, ""),
+            expected,
+            completed,
+            completed * 100 / expected));
+    }
+
+    return Results.Ok(items
+        .OrderBy(i => i.RatePercent)
+        .ThenBy(i => i.TaskTitle)
+        .ToList());
 })
-.RequireAuthorization("KidOnly");
+.RequireAuthorization("ParentOnly");
 
-// ============================================================
-// 17) Rewards + Redemptions
-// - GET /rewards: anyone logged in can view rewards
-// - Parent: create/edit/delete rewards
-// - Kid: redeem rewards (deduct points + create redemption + ledger entry)
-// ============================================================
+api.MapGet("/analytics/top-rewards", async (ClaimsPrincipal principal, AppDbContext db, int? days, int? limit) =>
+{
+    var dayCount = Math.Clamp(days ?? 90, 1, MaxAnalyticsDays);
+    var take = Math.Clamp(limit ?? 10, 1, 50);
+    var (kids, zone) = await AnalyticsScope(principal, db);
+    var kidIds = kids.Select(k => k.Id).ToList();
 
-api.MapGet("/rewards", async (AppDbContext db) =>
-    Results.Ok(await db.Rewards.ToListAsync())
-)
-.RequireAuthorization();
+    var since = FamilyClock.ToUtc(zone, FamilyClock.Today(zone).AddDays(-(dayCount - 1)));
 
-api.MapPost("/rewards", async (AppDbContext db, CreateRewardRequest req) =>
+    var redemptions = await db.Redemptions
+        .Where(r => kidIds.Contains(r.KidId) && r.Status != RedemptionStatus.Cancelled && r.RedeemedAt >= since)
+        .Select(r => new { r.RewardId, r.RewardName, r.Cost, r.RedeemedAt })
+        .ToListAsync();
+
+    // Grouped by reward; the newest snapshot name wins if it was renamed
+    var items = redemptions
+        .GroupBy(r => r.RewardId)
+        .Select(g => new TopRewardItem(
+            g.Key,
+            g.OrderByDescending(r => r.RedeemedAt).First().RewardName,
+            g.Count(),
+            g.Sum(r => r.Cost)))
+        .OrderByDescending(i => i.Count)
+        .ThenByDescending(i => i.Points)
+        .Take(take)
+        .ToList();
+
+    return Results.Ok(items);
+})
+.RequireAuthorization("ParentOnly");
+
+api.MapGet("/analytics/busiest-days", async (ClaimsPrincipal principal, AppDbContext db, int? days) =>
 {
-    var reward = new Reward { Name = req.Name, Cost = req.Cost };
-    db.Rewards.Add(reward);
-    await db.SaveChangesAsync();
+    var dayCount = Math.Clamp(days ?? 90, 1, MaxAnalyticsDays);
+    var (kids, zone) = await AnalyticsScope(principal, db);
+    var kidIds = kids.Select(k => k.Id).ToList();
 
-    return Results.Created($"/api/rewards/{reward.Id}", reward);
+    var since = FamilyClock.ToUtc(zone, FamilyClock.Today(zone).AddDays(-(dayCount - 1)));
+
+    var completions = await db.TaskCompletions
+        .Where(c => kidIds.Contains(c.KidId) && c.Status == TaskCompletionStatus.Approved && c.CompletedAtUtc >= since)
+        .Select(c => c.CompletedAtUtc)
+        .ToListAsync();
+
+    var earnings = await db.PointTransactions
+        .Where(t => kidIds.Contains(t.KidId) && t.Type == PointTransactionType.Earn && t.CreatedAtUtc >= since)
+        .Select(t => new { t.CreatedAtUtc, t.Delta })
+        .ToListAsync();
+
+    // Monday first, like the weekly charts; weekday on the family's clock
+    // (an 8 PM chore in Chicago is 01:00 UTC the next day)
+    DayOfWeek LocalDay(DateTime utc) => FamilyClock.ToLocal(zone, utc).DayOfWeek;
+
+    var items = Enumerable.Range(0, 7)
+        .Select(i => (DayOfWeek)((i + 1) % 7))
+        .Select(day => new BusiestDayItem(
+            day,
+            completions.Count(at => LocalDay(at) == day),
+            earnings.Where(e => LocalDay(e.CreatedAtUtc) == day).Sum(e => e.Delta)))
+        .ToList();
+
+    return Results.Ok(items);
 })
 .RequireAuthorization("ParentOnly");
 
-api.MapPut("/rewards/{id:int}", async (AppDbContext db, int id, UpdateRewardRequest req) =>
+// ============================================================
+// 17d) Bulk import (ParentOnly): tasks + rewards from a file
+// - The web app reads the CSV/JSON file; rows arrive here as text so every
+//   check (and its message) lives in one place
+// - POST /import?dryRun=true: validate only -> per-row errors (preview)
+// - POST /import: validate again and create everything in one SaveChanges
+//   (one transaction); any row error -> 400 with the same report, nothing saved
+// - Kids are matched by display name (active kids, case-insensitive)
+// - Schedule: once | daily | weekly | monthly | weekdays | weekends |
+//   day list ("mon wed fri"); Start (yyyy-MM-dd) for recurring tasks
+// - Names already in use (reward, or task for the same kid) are errors,
+//   so importing the same file twice doesn't double everything
+// ============================================================
+
+const int MaxImportRows = 500;
+
+var importDayNames = new Dictionary<string, DayOfWeek>(StringComparer.OrdinalIgnoreCase)
 {
-    var reward = await db.Rewards.FirstOrDefaultAsync(r => r.Id == id);
-    if (reward is null) return Results.NotFound("Reward not found.");
+    ["sun"] = DayOfWeek.Sunday,
+    ["mon"] = DayOfWeek.Monday,
+    ["tue"] = DayOfWeek.Tuesday,
+    ["wed"] = DayOfWeek.Wednesday,
+    ["thu"] = DayOfWeek.Thursday,
+    ["fri"] = DayOfWeek.Friday,
+    ["sat"] = DayOfWeek.Saturday,
+};
+
+// "weekdays" / "mon wed fri" / ... -> recurrence + weekday bits (error message on failure)
+string? ParseImportSchedule(string? text, out TaskRecurrence recurrence, out int days)
+{
+    recurrence = TaskRecurrence.None;
+    days = 0;
 
-    if (req.Name is not null)
+    var value = (text ?? "").Trim().ToLowerInvariant();
+    switch (value)
     {
-        var name = req.Name.Trim();
-        if (string.IsNullOrWhiteSpace(name)) return Results.BadRequest("Name cannot be empty.");
-        reward.Name = name;
+        case "" or "once" or "none":
+            return null;
+        case "daily":
+            recurrence = TaskRecurrence.Daily;
+            return null;
+        case "weekly":
+            recurrence = TaskRecurrence.Weekly;
+            return null;
+        case "monthly":
+            recurrence = TaskRecurrence.Monthly;
+            return null;
+        case "weekdays":
+            value = "mon tue wed thu fri";
+            break;
+        case "weekends":
+            value = "sat sun";
+            break;
     }
 
-    if (req.Cost is not null)
+    foreach (var part in value.Split(new[] { ' ', ',', ';', '/' }, StringSplitOptions.RemoveEmptyEntries))
     {
-        if (req.Cost.Value < 0) return Results.BadRequest("Cost must be >= 0.");
-        reward.Cost = req.Cost.Value;
+        var key = part.Length >= 3 ? part[..3] : part;
+        if (!importDayNames.TryGetValue(key, out var day))
+            return $"Unknown schedule \"{text}\". Use once, daily, weekly, monthly, weekdays, weekends or days like \"mon wed fri\".";
+        days |= TaskSchedule.DayBit(day);
     }
 
-    await db.SaveChangesAsync();
-    return Results.Ok(reward);
-})
-.RequireAuthorization("ParentOnly");
+    if (days == 0) return $"Unknown schedule \"{text}\".";
 
-api.MapDelete("/rewards/{id:int}", async (AppDbContext db, int id) =>
+    recurrence = TaskRecurrence.Weekdays;
+    return null;
+}
+
+api.MapPost("/import", async (ClaimsPrincipal principal, AppDbContext db, ImportRequest req, bool? dryRun) =>
 {
-    var reward = await db.Rewards.FirstOrDefaultAsync(r => r.Id == id);
-    if (reward is null) return Results.NotFound();
+    var householdId = await GetHouseholdId(principal, db);
+    if (string.IsNullOrWhiteSpace(householdId)) return Results.Unauthorized();
 
-    db.Rewards.Remove(reward);
-    await db.SaveChangesAsync();
-    return Results.NoContent();
-})
-.RequireAuthorization("ParentOnly");
+    var taskRows = req.Tasks ?? new List<ImportTaskRow>();
+    var rewardRows = req.Rewards ?? new List<ImportRewardRow>();
 
-// Kid redeems reward:
-// - Must have enough points
-// - Deduct points from balance
-// - Store redemption + ledger transaction (Spend)
-api.MapPost("/rewards/{rewardId:int}/redeem", async (ClaimsPrincipal principal, AppDbContext db, int rewardId) =>
-{
-    var kidId = principal.FindFirstValue("kidId") ?? GetUserId(principal);
-    if (string.IsNullOrWhiteSpace(kidId)) return Results.Unauthorized();
+    if (taskRows.Count + rewardRows.Count == 0) return Results.BadRequest("The file has no tasks or rewards.");
+    if (taskRows.Count + rewardRows.Count > MaxImportRows)
+        return Results.BadRequest($"Import at most {MaxImportRows} rows at a time.");
 
-    var kid = await db.Kids.FirstOrDefaultAsync(k => k.Id == kidId);
-    if (kid is null) return Results.NotFound("Kid not found.");
+    var kids = await db.Kids
+        .Where(k => k.HouseholdId == householdId && !k.IsArchived)
+        .ToListAsync();
 
-    var reward = await db.Rewards.FirstOrDefaultAsync(r => r.Id == rewardId);
-    if (reward is null) return Results.NotFound("Reward not found.");
+    var existingTasks = (await db.Tasks
+            .Where(t => t.HouseholdId == householdId)
+            .Select(t => new { t.AssignedKidId, t.Title })
+            .ToListAsync())
+        .Select(t => (t.AssignedKidId, t.Title.ToLowerInvariant()))
+        .ToHashSet();
+
+    var existingRewards = (await db.Rewards
+            .Where(r => r.HouseholdId == householdId)
+            .Select(r => r.Name)
+            .ToListAsync())
+        .Select(n => n.ToLowerInvariant())
+        .ToHashSet();
+
+    var parentId = GetUserId(principal) ?? "";
+    var today = FamilyClock.Today(await FamilyClock.ForHouseholdAsync(db, householdId));
+    var tasks = new List<KidTask>();
+    var rewards = new List<Reward>();
+    var taskResults = new List<ImportRowResult>();
+    var rewardResults = new List<ImportRowResult>();
+
+    for (var i = 0; i < taskRows.Count; i++)
+    {
+        var row = taskRows[i];
+        var errors = new List<string>();
 
-    if (kid.PointsBalance < reward.Cost)
-        return Results.BadRequest("Not enough points.");
+        var title = (row.Title ?? "").Trim();
+        if (title.Length == 0) errors.Add("Title is required.");
+        else if (title.Length > 100) errors.Add("Title must be 100 characters or fewer.");
 
-    // Deduct points
-    kid.PointsBalance -= reward.Cost;
+        if (!int.TryParse((row.Points ?? "").Trim(), NumberStyles.None, CultureInfo.InvariantCulture, out var points))
+            errors.Add("Points must be a whole number (0 or more).");
 
-    // Create redemption record
-    var redemption = new Redemption
+        var kidName = (row.Kid ?? "").Trim();
+        var matches = kids.Where(k => string.Equals(k.DisplayName.Trim(), kidName, StringComparison.OrdinalIgnoreCase)).ToList();
+        var kid = matches.Count == 1 ? matches[0] : null;
+        if (kidName.Length == 0) errors.Add("Kid is required.");
+        else if (matches.Count == 0) errors.Add($"No kid named \"{kidName}\".");
+        else if (matches.Count > 1) errors.Add($"More than one kid is named \"{kidName}\".");
+
+        var scheduleError = ParseImportSchedule(row.Schedule, out var recurrence, out var recurrenceDays);
+        if (scheduleError is not null) errors.Add(scheduleError);
+
+        DateTime? start = null;
+        var startText = (row.Start ?? "").Trim();
+        if (startText.Length > 0)
+        {
+            if (!DateTime.TryParseExact(startText, "yyyy-MM-dd", CultureInfo.InvariantCulture, DateTimeStyles.None, out var parsed))
+                errors.Add("Start must be a date like 2026-01-31.");
+            else if (recurrence == TaskRecurrence.None)
+                errors.Add("Start only applies to repeating tasks.");
+            else
+                start = parsed;
+        }
+
+        if (kid is not null && title.Length > 0 && !existingTasks.Add((kid.Id, title.ToLowerInvariant())))
+            errors.Add($"{kid.DisplayName} already has a task named \"{title}\".");
+
+        var schedule = recurrence == TaskRecurrence.Weekdays ? (row.Schedule ?? "").Trim() : recurrence.ToString();
+        taskResults.Add(new ImportRowResult(i + 1, $"{title} • {points} pts • {kid?.DisplayName ?? kidName} • {schedule}", errors));
+
+        if (errors.Count > 0) continue;
+
+        var task = new KidTask
+        {
+            Title = title,
+            Points = points,
+            AssignedKidId = kid!.Id,
+            HouseholdId = householdId,
+            CreatedByParentId = parentId
+        };
+
+        ApplySchedule(task, recurrence, recurrenceDays, start, today);
+        tasks.Add(task);
+    }
+
+    for (var i = 0; i < rewardRows.Count; i++)
     {
-        KidId = kidId,
-        RewardId = rewardId,
-        RedeemedAt = DateTime.UtcNow
-    };
+        var row = rewardRows[i];
+        var errors = new List<string>();
 
-    db.Redemptions.Add(redemption);
-    await db.SaveChangesAsync(); // redemption.Id available now
+        var name = (row.Name ?? "").Trim();
+        if (name.Length == 0) errors.Add("Name is required.");
+        else if (name.Length > 100) errors.Add("Name must be 100 characters or fewer.");
+        else if (!existingRewards.Add(name.ToLowerInvariant())) errors.Add($"A reward named \"{name}\" already exists.");
+
+        if (!int.TryParse((row.Cost ?? "").Trim(), NumberStyles.None, CultureInfo.InvariantCulture, out var cost))
+            errors.Add("Cost must be a whole number (0 or more).");
+
+        rewardResults.Add(new ImportRowResult(i + 1, $"{name} • {cost} pts", errors));
+
+        if (errors.Count == 0) rewards.Add(new Reward { Name = name, Cost = cost, HouseholdId = householdId });
+    }
+
+    var valid = taskResults.All(r => r.Errors.Count == 0) && rewardResults.All(r => r.Errors.Count == 0);
 
-    // Ledger entry for spend history
-    db.PointTransactions.Add(new PointTransaction
+    if (dryRun == true || !valid)
     {
-        KidId = kidId,
-        Type = PointTransactionType.Spend,
-        Delta = -reward.Cost,
-        RedemptionId = redemption.Id,
-        Note = $"Redeemed reward: {reward.Name}",
-        CreatedAtUtc = DateTime.UtcNow
-    });
+        var report = new ImportResponse(false, 0, 0, taskResults, rewardResults);
+        return dryRun == true ? Results.Ok(report) : Results.BadRequest(report);
+    }
 
+    // All or nothing: one SaveChanges runs in a single transaction
+    db.Tasks.AddRange(tasks);
+    db.Rewards.AddRange(rewards);
     await db.SaveChangesAsync();
 
-    return Results.Ok(new { kidId, newPoints = kid.PointsBalance, redemption });
+    return Results.Ok(new ImportResponse(true, tasks.Count, rewards.Count, taskResults, rewardResults));
 })
-.RequireAuthorization("KidOnly");
+.RequireAuthorization("ParentOnly");
 
 // ============================================================
-// 18) Todos (Shared Parent/Kid)
-// - GET: list todos
-// - POST: add todo
+// 18) Todos (Shared Parent/Kid, scoped to one household)
+// - Each todo belongs to a household (TodoItem.HouseholdId)
+// - AssignedKidId = null -> shared family todo; otherwise one kid's todo
+// - GET: Parent sees all family todos (optional ?kidId= filter, "shared" = unassigned)
+//        Kid sees their own + shared family todos
+// - POST: add todo (a kid's todo is always assigned to themselves)
 // - PUT:
-//    Kid: can ONLY toggle IsDone
-//    Parent: can edit Title and IsDone
-// - DELETE: remove todo
+//    Kid: can ONLY toggle IsDone (own or shared)
+//    Parent: can edit Title, IsDone and assignee
+//    (accepts an Idempotency-Key header, like task completion)
+// - DELETE: Parent any family todo, Kid only their own
 // ============================================================
 
-api.MapGet("/todos", async (AppDbContext db) =>
-    Results.Ok(await db.Todos.OrderBy(t => t.Id).ToListAsync())
-)
+api.MapGet("/todos", async (ClaimsPrincipal principal, AppDbContext db, string? kidId) =>
+{
+    var householdId = await GetHouseholdId(principal, db);
+    if (string.IsNullOrWhiteSpace(householdId)) return Results.Unauthorized();
+
+    var query = db.Todos.Where(t => t.HouseholdId == householdId);
+
+    if (principal.FindFirstValue(ClaimTypes.Role) == "Kid")
+    {
+        var myKidId = principal.FindFirstValue("kidId");
+        query = query.Where(t => t.AssignedKidId == null || t.AssignedKidId == myKidId);
+    }
+    else if (kidId == "shared")
+    {
+        query = query.Where(t => t.AssignedKidId == null);
+    }
+    else if (!string.IsNullOrWhiteSpace(kidId))
+    {
+        query = query.Where(t => t.AssignedKidId == kidId);
+    }
+
+    return Results.Ok(await query.OrderBy(t => t.Id).ToListAsync());
+})
 .RequireAuthorization(policy => policy.RequireRole("Parent", "Kid"));
 
-api.MapPost("/todos", async (AppDbContext db, TodoItem todo) =>
+api.MapPost("/todos", async (ClaimsPrincipal principal, AppDbContext db, CreateTodoRequest req) =>
 {
-    if (string.IsNullOrWhiteSpace(todo.Title))
+    if (string.IsNullOrWhiteSpace(req.Title))
         return Results.BadRequest("Title is required.");
 
-    // Force EF to treat as new row
-    todo.Id = 0;
+    var householdId = await GetHouseholdId(principal, db);
+    if (string.IsNullOrWhiteSpace(householdId)) return Results.Unauthorized();
+
+    string? assignedKidId;
+
+    if (principal.FindFirstValue(ClaimTypes.Role) == "Kid")
+    {
+        assignedKidId = principal.FindFirstValue("kidId");
+    }
+    else
+    {
+        assignedKidId = string.IsNullOrWhiteSpace(req.AssignedKidId) ? null : req.AssignedKidId;
+
+        // Ownership check: assignee must be one of the household's kids
+        if (assignedKidId is not null &&
+            !await db.Kids.AnyAsync(k => k.Id == assignedKidId && k.HouseholdId == householdId))
+            return Results.BadRequest("Unknown kidId for this household.");
+    }
 
-    // Normalize
-    todo.Title = todo.Title.Trim();
+    var todo = new TodoItem
+    {
+        Title = req.Title.Trim(),
+        IsDone = req.IsDone,
+        HouseholdId = householdId,
+        AssignedKidId = assignedKidId
+    };
 
     db.Todos.Add(todo);
     await db.SaveChangesAsync();
@@ -887,14 +3320,21 @@ api.MapPut("/todos/{id:int}", async (ClaimsPrincipal principal, AppDbContext db,
     if (string.IsNullOrWhiteSpace(role))
         return Results.Forbid();
 
-    var todo = await db.Todos.FirstOrDefaultAsync(t => t.Id == id);
+    var householdId = await GetHouseholdId(principal, db);
+    if (string.IsNullOrWhiteSpace(householdId)) return Results.Unauthorized();
+
+    var todo = await db.Todos.FirstOrDefaultAsync(t => t.Id == id && t.HouseholdId == householdId);
     if (todo is null) return Results.NotFound();
 
-    // Kid rules: only toggle IsDone
+    // Kid rules: only toggle IsDone (own or shared todos)
     if (role == "Kid")
     {
-        if (updated.Title is not null)
-            return Results.Forbid(); // kids cannot edit titles
+        var myKidId = principal.FindFirstValue("kidId");
+        if (todo.AssignedKidId is not null && todo.AssignedKidId != myKidId)
+            return Results.NotFound();
+
+        if (updated.Title is not null || updated.AssignedKidId is not null)
+            return Results.Forbid(); // kids cannot edit titles or reassign
 
         if (updated.IsDone is null)
             return Results.BadRequest("IsDone is required.");
@@ -914,16 +3354,41 @@ api.MapPut("/todos/{id:int}", async (ClaimsPrincipal principal, AppDbContext db,
     if (updated.IsDone is not null)
         todo.IsDone = updated.IsDone.Value;
 
+    // Assignee: "" = make it a shared family todo
+    if (updated.AssignedKidId is not null)
+    {
+        if (updated.AssignedKidId == "")
+        {
+            todo.AssignedKidId = null;
+        }
+        else
+        {
+            var kidOwned = await db.Kids.AnyAsync(k => k.Id == updated.AssignedKidId && k.HouseholdId == householdId);
+            if (!kidOwned) return Results.BadRequest("Unknown kidId for this household.");
+
+            todo.AssignedKidId = updated.AssignedKidId;
+        }
+    }
+
     await db.SaveChangesAsync();
     return Results.Ok(todo);
 })
-.RequireAuthorization(policy => policy.RequireRole("Parent", "Kid"));
+.RequireAuthorization(policy => policy.RequireRole("Parent", "Kid"))
+.AddEndpointFilter(Idempotency.Filter);
 
-api.MapDelete("/todos/{id:int}", async (AppDbContext db, int id) =>
+api.MapDelete("/todos/{id:int}", async (ClaimsPrincipal principal, AppDbContext db, int id) =>
 {
-    var todo = await db.Todos.FirstOrDefaultAsync(t => t.Id == id);
+    var householdId = await GetHouseholdId(principal, db);
+    if (string.IsNullOrWhiteSpace(householdId)) return Results.Unauthorized();
+
+    var todo = await db.Todos.FirstOrDefaultAsync(t => t.Id == id && t.HouseholdId == householdId);
     if (todo is null) return Results.NotFound();
 
+    // Kids can only remove their own todos (shared ones belong to the parent)
+    if (principal.FindFirstValue(ClaimTypes.Role) == "Kid" &&
+        todo.AssignedKidId != principal.FindFirstValue("kidId"))
+        return Results.Forbid();
+
     db.Todos.Remove(todo);
     await db.SaveChangesAsync();
 
@@ -931,6 +3396,91 @@ api.MapDelete("/todos/{id:int}", async (AppDbContext db, int id) =>
 })
 .RequireAuthorization(policy => policy.RequireRole("Parent", "Kid"));
 
+// ============================================================
+// 18b) Live updates (server-sent events, see FamilyEvents.cs)
+// - GET /events: text/event-stream of the caller's family events
+//   ("event: task.completed" + "data: {json}"), for screens to re-read
+// - Kid tokens only get events about that kid or the whole family
+// - A comment line every 25s keeps proxies from closing an idle stream
+// - The stream ends when the access token expires; the client refreshes
+//   its token and reconnects (an old token can't keep listening)
+// ============================================================
+
+var eventsHeartbeat = TimeSpan.FromSeconds(25);
+
+api.MapGet("/events", async (
+    ClaimsPrincipal principal,
+    AppDbContext db,
+    FamilyEventHub hub,
+    HttpContext http,
+    IOptions<Microsoft.AspNetCore.Http.Json.JsonOptions> jsonOptions) =>
+{
+    var householdId = await GetHouseholdId(principal, db);
+    if (string.IsNullOrWhiteSpace(householdId)) return Results.Unauthorized();
+
+    var kidOnlyId = principal.FindFirstValue(ClaimTypes.Role) == "Kid"
+        ? principal.FindFirstValue("kidId") ?? GetUserId(principal)
+        : null;
+
+    // Close at token expiry (or when the client goes away)
+    using var streamLifetime = CancellationTokenSource.CreateLinkedTokenSource(http.RequestAborted);
+    if (long.TryParse(principal.FindFirstValue(JwtRegisteredClaimNames.Exp), out var exp))
+    {
+        var untilExpiry = DateTimeOffset.FromUnixTimeSeconds(exp) - DateTimeOffset.UtcNow;
+        streamLifetime.CancelAfter(untilExpiry > TimeSpan.Zero ? untilExpiry : TimeSpan.Zero);
+    }
+    var ct = streamLifetime.Token;
+
+    http.Response.Headers.ContentType = "text/event-stream";
+    http.Response.Headers.CacheControl = "no-cache";
+    http.Response.Headers["X-Accel-Buffering"] = "no"; // nginx-style proxies: don't buffer the stream
+
+    var (subscriptionId, reader) = hub.Subscribe(householdId);
+    try
+    {
+        await http.Response.WriteAsync(": connected\n\n", ct);
+        await http.Response.Body.FlushAsync(ct);
+
+        while (!ct.IsCancellationRequested)
+        {
+            using var heartbeat = CancellationTokenSource.CreateLinkedTokenSource(ct);
+            heartbeat.CancelAfter(eventsHeartbeat);
+
+            try
+            {
+                await reader.WaitToReadAsync(heartbeat.Token);
+            }
+            catch (OperationCanceledException) when (!ct.IsCancellationRequested)
+            {
+                await http.Response.WriteAsync(": ping\n\n", ct);
+                await http.Response.Body.FlushAsync(ct);
+                continue;
+            }
+
+            while (reader.TryRead(out var familyEvent))
+            {
+                if (kidOnlyId is not null && familyEvent.KidId is not null && familyEvent.KidId != kidOnlyId) continue;
+
+                var json = JsonSerializer.Serialize(familyEvent, jsonOptions.Value.SerializerOptions);
+                await http.Response.WriteAsync($"event: {familyEvent.Type}\ndata: {json}\n\n", ct);
+            }
+
+            await http.Response.Body.FlushAsync(ct);
+        }
+    }
+    catch (OperationCanceledException)
+    {
+        // Client left or the token expired: just end the response
+    }
+    finally
+    {
+        hub.Unsubscribe(householdId, subscriptionId);
+    }
+
+    return Results.Empty;
+})
+.RequireAuthorization("KidOrParent");
+
 // ============================================================
 // 19) SPA Fallback (Deep Links)
 // - If user refreshes on /parent/kids or /kid/tasks, the server serves index.html
@@ -947,6 +3497,135 @@ app.Run();
 // - If you already have them elsewhere, do not duplicate
 // ============================================================
 
-public record UpdateTaskRequest(string? Title, int? Points, string? AssignedKidId);
-public record UpdateRewardRequest(string? Name, int? Cost);
-public record UpdateTodoRequest(string? Title, bool? IsDone);
+public record UpdateTaskRequest(
+    string? Title,
+    int? Points,
+    string? AssignedKidId,
+    TaskRecurrence? Recurrence = null,
+    int? RecurrenceDays = null,
+    DateTime? StartDate = null,
+    bool? RequiresApproval = null,
+    TaskDeadline? Deadline = null);
+public record UpdateRewardRequest(string? Name, int? Cost, RewardLimits? Limits = null);
+public record UpdateTodoRequest(string? Title, bool? IsDone, string? AssignedKidId = null);
+public record RejectCompletionRequest(string? Reason);
+public record UpdateParentSettingsRequest(bool? RequireTaskApproval, string? FamilyName = null, string? TimeZone = null);
+public record SetParentPinRequest(string? NewPin, string? Password);
+public record VerifyParentPinRequest(string? Pin);
+public record JoinHouseholdRequest(string? Code);
+public record SetKidLoginRequest(KidLoginMethod? Method, string? Secret);
+public record SetSavingsGoalRequest(int RewardId, bool? LockPoints = null);
+public record CashOutRequest(int Points, string? Note = null);
+
+// Bulk import rows arrive as text (parsed from CSV/JSON by the web app)
+public record ImportTaskRow(string? Title, string? Points, string? Kid, string? Schedule, string? Start);
+public record ImportRewardRow(string? Name, string? Cost);
+public record ImportRequest(List<ImportTaskRow>? Tasks, List<ImportRewardRow>? Rewards);
+
+// Response DTOs
+public record PointHistoryItem(
+    int Id,
+    PointTransactionType Type,
+    int Delta,
+    string Note,
+    int? TaskId,
+    string? TaskTitle,
+    DateTime? OccurrenceDate,
+    int? RedemptionId,
+    int? RewardId,
+    string? RewardName,
+    int? PayoutId,
+    string? Category,
+    string? ActorName,
+    DateTime CreatedAtUtc);
+
+public record PendingApprovalItem(
+    int CompletionId,
+    int TaskId,
+    string TaskTitle,
+    int Points,
+    string KidId,
+    string KidName,
+    DateTime OccurrenceDate,
+    DateTime CompletedAtUtc);
+
+public record ParentSettingsResponse(bool RequireTaskApproval, bool HasParentPin, string FamilyName, AllowanceRate? Allowance, string? TimeZone);
+public record FamilyClockResponse(string TimeZone, DateTime Today);
+
+public record HouseholdMemberItem(string Id, string Username, bool IsYou);
+public record HouseholdInviteItem(string Code, DateTime ExpiresAtUtc);
+public record SavingsGoalResponse(
+    int RewardId,
+    string RewardName,
+    int Cost,
+    int Balance,
+    int Remaining,
+    int ProgressPercent,
+    bool LocksPoints,
+    double AveragePerDay,
+    DateTime? EstimatedDate);
+
+public record PayoutItem(int Id, int Points, int AmountCents, string Currency, string? Note, DateTime PaidAtUtc);
+public record PayoutMonthItem(int Year, int Month, string Currency, int Count, int Points, int AmountCents);
+public record PayoutsResponse(
+    AllowanceRate? Rate,
+    int Balance,
+    int? BalanceValueCents,
+    List<PayoutItem> Payouts,
+    List<PayoutMonthItem> Months);
+
+public record AchievementItem(int Id, string Key, string Title, string Icon, int BonusPoints, int? TaskId, DateTime EarnedAtUtc);
+public record AchievementCatalogItem(string Key, string Name, string Description, string Icon, int BonusPoints, bool PerTask);
+public record AchievementsResponse(List<AchievementItem> Earned, List<AchievementCatalogItem> Catalog);
+
+public record KidWeeklyPointsItem(string KidId, string KidName, string Color, List<int> Earned, List<int> Spent);
+public record PointsByWeekResponse(List<DateTime> WeekStarts, List<KidWeeklyPointsItem> Kids);
+public record TaskCompletionRateItem(
+    int TaskId,
+    string TaskTitle,
+    string KidId,
+    string KidName,
+    int Expected,
+    int Completed,
+    int RatePercent);
+public record TopRewardItem(int RewardId, string RewardName, int Count, int Points);
+public record BusiestDayItem(DayOfWeek Day, int Completions, int PointsEarned);
+
+public record ImportRowResult(int Row, string Summary, List<string> Errors);
+public record ImportResponse(
+    bool Committed,
+    int TasksCreated,
+    int RewardsCreated,
+    List<ImportRowResult> Tasks,
+    List<ImportRowResult> Rewards);
+
+public record ApiError(string Code, string Message);
+public record RewardLimitBlock(string Code, string Message, DateTime? AvailableAgainUtc);
+public record RewardAvailabilityItem(
+    int RewardId,
+    int? StockLeft,
+    string? BlockedCode,
+    string? BlockedMessage,
+    DateTime? AvailableAgainUtc);
+
+public record SharedDeviceItem(int Id, string Name, DateTime CreatedAtUtc, DateTime? LastUsedAtUtc);
+public record DeviceKidItem(string Id, string DisplayName, string Avatar, string Color, KidLoginMethod LoginMethod);
+public record DeviceProfilesResponse(string DeviceName, string FamilyName, List<DeviceKidItem> Kids);
+
+public record HouseholdResponse(
+    string Id,
+    string Name,
+    List<HouseholdMemberItem> Members,
+    List<HouseholdInviteItem> Invites);
+
+public record RedemptionItem(
+    int Id,
+    string KidId,
+    string KidName,
+    int RewardId,
+    string RewardName,
+    int Cost,
+    RedemptionStatus Status,
+    DateTime RedeemedAt,
+    DateTime? FulfilledAtUtc,
+    DateTime? CancelledAtUtc);
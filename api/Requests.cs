@@ -1,8 +1,27 @@
-public record CreateKidRequest(string DisplayName);
-public record UpdateKidRequest(string DisplayName);
+public record CreateKidRequest(string DisplayName, string? Avatar = null, string? Color = null);
+public record UpdateKidRequest(string? DisplayName, string? Avatar, string? Color, bool? IsArchived);
 
 // If these types currently live in Program.cs too, move them here:
 public record ParentLoginRequest(string Username, string Password);
+public record RegisterParentRequest(string? Username, string? Password, string? FamilyName, string? TimeZone = null);
 public record KidSessionRequest(string KidId);
-public record CreateTaskRequest(string Title, int Points, string AssignedKidId);
-public record CreateRewardRequest(string Name, int Cost);
+public record RefreshSessionRequest(string? RefreshToken, string? KidId = null);
+public record LogoutRequest(string? RefreshToken);
+public record RegisterDeviceRequest(string? Name);
+public record DeviceProfilesRequest(string? DeviceToken);
+public record DeviceKidLoginRequest(string? DeviceToken, string? KidId, string? Secret);
+public record CreateTaskRequest(
+    string Title,
+    int Points,
+    string AssignedKidId,
+    TaskRecurrence? Recurrence = null,
+    int? RecurrenceDays = null,
+    DateTime? StartDate = null,
+    bool? RequiresApproval = null,
+    TaskDeadline? Deadline = null);
+public record TaskDeadline(DateTime? DueAtUtc, int? DueMinutes, int? LatePointsPercent, int? MissedPenalty);
+public record CreateRewardRequest(string Name, int Cost, RewardLimits? Limits = null);
+public record RewardLimits(int? Stock, int? MaxPerDay, int? MaxPerWeek, int? CooldownHours);
+public record CreateTodoRequest(string Title, bool IsDone = false, string? AssignedKidId = null);
+public record AdjustPointsRequest(int Delta, string Note, string? Category = null);
+public record AllowanceRate(int Points, int AmountCents, string Currency);
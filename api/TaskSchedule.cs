@@ -0,0 +1,173 @@
+// ============================================================
+// TaskSchedule (recurrence rules for KidTask)
+// - All dates are calendar dates of the family's time zone (time part
+//   ignored); callers pass "today" from FamilyClock, never UtcNow.Date
+// - A recurring task keeps one "current" occurrence (KidTask.OccurrenceDate)
+//   - Completing it records a TaskCompletion for that day and moves
+//     OccurrenceDate to the next scheduled day
+//   - Missed days are skipped when a newer occurrence has arrived (Roll)
+// - Optional deadline per occurrence (DueAt); see SettleTask in Program.cs
+//   for late points and missed-task penalties
+// - web/src/utils/schedule.ts mirrors these rules for form previews
+// ============================================================
+
+public static class TaskSchedule
+{
+    // Upper bound for day-by-day scans (Monthly on the 31st still fits easily)
+    private const int MaxScanDays = 400;
+
+    // ------------------------------------------------------------
+    // OccursOn
+    // - Does the task's schedule include this calendar day?
+    // ------------------------------------------------------------
+    public static bool OccursOn(KidTask task, DateTime date)
+    {
+        if (task.Recurrence == TaskRecurrence.None) return false;
+
+        var day = date.Date;
+        var start = (task.StartDate ?? day).Date;
+        if (day < start) return false;
+
+        return task.Recurrence switch
+        {
+            TaskRecurrence.Daily => true,
+            TaskRecurrence.Weekdays => (task.RecurrenceDays & DayBit(day.DayOfWeek)) != 0,
+            TaskRecurrence.Weekly => (day - start).Days % 7 == 0,
+            // Clamp to month length so "every 31st" still happens in short months
+            TaskRecurrence.Monthly => day.Day == Math.Min(start.Day, DateTime.DaysInMonth(day.Year, day.Month)),
+            _ => false
+        };
+    }
+
+    // ------------------------------------------------------------
+    // NextOccurrence
+    // - First scheduled day strictly after the given date (null if none)
+    // ------------------------------------------------------------
+    public static DateTime? NextOccurrence(KidTask task, DateTime after)
+    {
+        var day = after.Date;
+        for (var i = 0; i < MaxScanDays; i++)
+        {
+            day = day.AddDays(1);
+            if (OccursOn(task, day)) return day;
+        }
+
+        return null;
+    }
+
+    // ------------------------------------------------------------
+    // LastOccurrence
+    // - Latest scheduled day on or before the given date (null if none),
+    //   i.e. the occurrence that was current that day
+    // ------------------------------------------------------------
+    public static DateTime? LastOccurrence(KidTask task, DateTime onOrBefore)
+    {
+        var day = onOrBefore.Date;
+        for (var i = 0; i < MaxScanDays; i++, day = day.AddDays(-1))
+            if (OccursOn(task, day)) return day;
+
+        return null;
+    }
+
+    // ------------------------------------------------------------
+    // FirstOccurrence
+    // - First scheduled day on or after the given date
+    // ------------------------------------------------------------
+    public static DateTime? FirstOccurrence(KidTask task, DateTime from) =>
+        OccursOn(task, from) ? from.Date : NextOccurrence(task, from);
+
+    // ------------------------------------------------------------
+    // Upcoming
+    // - Next N scheduled days starting at (and including) "from"
+    // ------------------------------------------------------------
+    public static List<DateTime> Upcoming(KidTask task, DateTime from, int count)
+    {
+        var result = new List<DateTime>();
+        var next = FirstOccurrence(task, from);
+
+        while (next is not null && result.Count < count)
+        {
+            result.Add(next.Value);
+            next = NextOccurrence(task, next.Value);
+        }
+
+        return result;
+    }
+
+    // ------------------------------------------------------------
+    // Roll
+    // - If a newer occurrence has arrived (<= today), skip the missed one
+    // - An older, uncompleted occurrence stays current until then
+    //   (e.g. a weekly chore can still be done a few days late)
+    // - Returns true when OccurrenceDate changed (caller re-reads the new
+    //   occurrence's pending / rejected state and saves)
+    // ------------------------------------------------------------
+    public static bool Roll(KidTask task, DateTime today)
+    {
+        if (task.Recurrence == TaskRecurrence.None || task.OccurrenceDate is null) return false;
+
+        var current = task.OccurrenceDate.Value.Date;
+        var latest = current;
+
+        var next = NextOccurrence(task, current);
+        while (next is not null && next.Value <= today.Date)
+        {
+            latest = next.Value;
+            next = NextOccurrence(task, latest);
+        }
+
+        if (latest == current) return false;
+
+        task.OccurrenceDate = latest;
+        return true;
+    }
+
+    // ------------------------------------------------------------
+    // Reset
+    // - Recompute the current occurrence after a schedule change
+    // ------------------------------------------------------------
+    public static void Reset(KidTask task, DateTime today)
+    {
+        if (task.Recurrence == TaskRecurrence.None)
+        {
+            task.OccurrenceDate = null;
+            return;
+        }
+
+        var start = (task.StartDate ?? today).Date;
+        task.OccurrenceDate = FirstOccurrence(task, start > today.Date ? start : today.Date);
+    }
+
+    // ------------------------------------------------------------
+    // DueAt
+    // - Deadline of an occurrence as a UTC instant (null = no deadline):
+    //   one-shot tasks use DueAtUtc, recurring ones DueMinutes into the
+    //   occurrence day on the family's clock
+    // ------------------------------------------------------------
+    public static DateTime? DueAt(KidTask task, DateTime occurrence, TimeZoneInfo zone) =>
+        task.Recurrence == TaskRecurrence.None
+            ? task.DueAtUtc
+            : task.DueMinutes is int minutes ? FamilyClock.ToUtc(zone, occurrence.Date.AddMinutes(minutes)) : null;
+
+    // ------------------------------------------------------------
+    // Between
+    // - Occurrences from "from" (inclusive) up to "to" (exclusive),
+    //   i.e. the ones a Roll from "from" to "to" skipped
+    // ------------------------------------------------------------
+    public static List<DateTime> Between(KidTask task, DateTime from, DateTime to)
+    {
+        var result = new List<DateTime>();
+        DateTime? day = from.Date;
+
+        while (day is not null && day.Value < to.Date && result.Count < MaxScanDays)
+        {
+            result.Add(day.Value);
+            day = NextOccurrence(task, day.Value);
+        }
+
+        return result;
+    }
+
+    // Sunday = bit 0 ... Saturday = bit 6 (matches DayOfWeek numbering)
+    public static int DayBit(DayOfWeek day) => 1 << (int)day;
+}
@@ -0,0 +1,76 @@
+// ============================================================
+// sw.js (service worker: offline app shell)
+// - Page loads: network first, cached index.html when offline (every route
+//   is the same SPA page, so deep links open offline too)
+// - Built assets (hashed names) + icons: cache first, filled as they load
+// - API calls are never touched here: data for offline use lives in
+//   IndexedDB (src/utils/offlineStore.ts), queued actions in the outbox
+// - Bump CACHE_VERSION to drop old caches on the next activation
+// ============================================================
+
+const CACHE_VERSION = "v1";
+const SHELL_CACHE = `kidsrewards-shell-${CACHE_VERSION}`;
+
+// Deployed under a sub-path on GitHub Pages -> resolve against the scope
+const INDEX_URL = new URL("./index.html", self.registration.scope).href;
+
+self.addEventListener("install", (event) => {
+  event.waitUntil(
+    caches
+      .open(SHELL_CACHE)
+      .then((cache) => cache.add(INDEX_URL))
+      .then(() => self.skipWaiting())
+  );
+});
+
+self.addEventListener("activate", (event) => {
+  event.waitUntil(
+    caches
+      .keys()
+      .then((keys) =>
+        Promise.all(
+          keys.filter((key) => key.startsWith("kidsrewards-shell-") && key !== SHELL_CACHE).map((key) => caches.delete(key))
+        )
+      )
+      .then(() => self.clients.claim())
+  );
+});
+
+self.addEventListener("fetch", (event) => {
+  const request = event.request;
+  const url = new URL(request.url);
+
+  // Same-origin GETs only; the API (same origin in production) is left alone
+  if (request.method !== "GET" || url.origin !== self.location.origin || url.pathname.includes("/api/")) return;
+
+  if (request.mode === "navigate") {
+    event.respondWith(
+      fetch(request)
+        .then((response) => {
+          if (response.ok) {
+            const copy = response.clone();
+            caches.open(SHELL_CACHE).then((cache) => cache.put(INDEX_URL, copy));
+          }
+          return response;
+        })
+        .catch(() => caches.match(INDEX_URL).then((cached) => cached ?? Response.error()))
+    );
+    return;
+  }
+
+  if (["script", "style", "font", "image", "manifest"].includes(request.destination)) {
+    event.respondWith(
+      caches.match(request).then(
+        (cached) =>
+          cached ??
+          fetch(request).then((response) => {
+            if (response.ok) {
+              const copy = response.clone();
+              caches.open(SHELL_CACHE).then((cache) => cache.put(request, copy));
+            }
+            return response;
+          })
+      )
+    );
+  }
+});
@@ -10,16 +10,31 @@
 // Key ideas:
 // - Parent logs in first -> gets parentToken.
 // - Parent can start a kid session -> backend returns a kidToken (JWT with Kid role).
+// - A shared kid tablet holds only a device token; kids sign in at /kid-login.
 // - Switching modes maps the current route to a role-specific equivalent (parent/... <-> kid/...).
 //
-import React from "react";
+import React, { useState } from "react";
 import { Link, Routes, Route, Navigate, useLocation, useNavigate } from "react-router-dom";
 import KidsRewardsPage from "./pages/KidsRewardsPage";
 import TodosPage from "./pages/TodosPage";
 import Login from "./pages/Login";
+import Register from "./pages/Register";
+import KidSignIn from "./pages/KidSignIn";
+import OnboardingPage from "./pages/OnboardingPage";
 import RequireRole from "./components/RequireRole";
 import { useAuth } from "./context/AuthContext";
+import { getParentSettings } from "./api";
 import SelectKid from "./pages/SelectKid";
+import PointsHistoryPage from "./pages/PointsHistoryPage";
+import PayoutsPage from "./pages/PayoutsPage";
+import ManageKidsPage from "./pages/ManageKidsPage";
+import RedemptionsPage from "./pages/RedemptionsPage";
+import SettingsPage from "./pages/SettingsPage";
+import AnalyticsPage from "./pages/AnalyticsPage";
+import ImportPage from "./pages/ImportPage";
+import PinModal from "./components/PinModal";
+import SessionExpiryBanner from "./components/SessionExpiryBanner";
+import OfflineIndicator from "./components/OfflineIndicator";
 
 // External links shown in the top bar
 const GITHUB_URL = "https://github.com/maximowinfield";
@@ -167,39 +182,45 @@ export default function App(): JSX.Element {
     fontWeight: 800,
   };
 
+  // Parent PIN dialog (shown when leaving Kid Mode)
+  const [pinModalOpen, setPinModalOpen] = useState(false);
+
   /**
    * switchToParentMode
    *
    * Purpose:
-   * - Allows a kid-mode UI to be "locked" behind a simple Parent PIN gate.
+   * - Allows a kid-mode UI to be "locked" behind the parent's PIN.
    * - Only possible if a parentToken exists (meaning a parent previously logged in).
    *
    * Flow:
-   * - Prompt for PIN
-   * - If correct:
+   * - Already using the parent token -> switch right away
+   * - Otherwise open <PinModal />; the API verifies the PIN (with lockout)
+   * - On success (finishParentSwitch):
    *   - enterParentMode() updates AuthContext
    *   - Map current path to the parent equivalent (if possible)
    *   - Navigate there
-   * - If wrong:
-   *   - Keep kid mode
+   * - Cancel / wrong PIN: keep kid mode
    */
-  async function switchToParentMode() {
+  function switchToParentMode() {
     if (!auth?.parentToken) return;
 
-    const expectedPin = import.meta.env.VITE_PARENT_PIN || "1234";
-    const entered = window.prompt("Enter Parent PIN:");
+    if (auth.activeRole === "Kid") {
+      setPinModalOpen(true);
+      return;
+    }
+
+    finishParentSwitch();
+  }
 
-    if (entered === expectedPin) {
-      enterParentMode();
+  function finishParentSwitch() {
+    setPinModalOpen(false);
+    enterParentMode();
 
-      const mapped =
-        mapPathForRole(location.pathname, "Parent") ??
-        (selectedKidId ? `/parent/kids/${selectedKidId}` : "/parent/select-kid");
+    const mapped =
+      mapPathForRole(location.pathname, "Parent") ??
+      (selectedKidId ? `/parent/kids/${selectedKidId}` : "/parent/select-kid");
 
-      navigate(mapped, { replace: true });
-    } else {
-      alert("Wrong PIN. Staying in Kid Mode.");
-    }
+    navigate(mapped, { replace: true });
   }
 
   /**
@@ -212,6 +233,8 @@ export default function App(): JSX.Element {
    * Requirements:
    * - Must have a parentToken (parent must be logged in to request kid session).
    * - Must have a selectedKidId (otherwise we redirect to select one).
+   * - The family needs a parent PIN (it's what locks Kid Mode); without one
+   *   we send the parent to Settings to set it.
    */
   async function switchToKidMode() {
     if (!auth?.parentToken) return;
@@ -224,6 +247,13 @@ export default function App(): JSX.Element {
     }
 
     try {
+      const settings = await getParentSettings();
+      if (!settings.hasParentPin) {
+        alert("Set a parent PIN first: it keeps kids from leaving Kid Mode.");
+        navigate("/parent/settings");
+        return;
+      }
+
       // Calls API: /api/kid-session -> returns kid JWT + display name
       await enterKidMode(kidId);
 
@@ -236,7 +266,7 @@ export default function App(): JSX.Element {
       navigate(finalPath, { replace: true });
     } catch (e: any) {
       console.error(e);
-      alert(e?.message ?? "Failed to start kid session.");
+      alert(e?.response?.data ?? e?.message ?? "Failed to start kid session.");
     }
   }
 
@@ -245,11 +275,11 @@ export default function App(): JSX.Element {
    *
    * Purpose:
    * - Logs out from both roles by clearing AuthContext + localStorage tokens.
-   * - Redirects user to /login.
+   * - Redirects user to /login (shared kid tablet: back to the kid picker).
    */
   function clearAuth() {
     logout();
-    navigate("/login", { replace: true });
+    navigate(auth?.deviceToken ? "/kid-login" : "/login", { replace: true });
   }
 
   return (
@@ -304,6 +334,42 @@ export default function App(): JSX.Element {
             >
               Todos
             </Link>
+
+            {auth?.activeRole === "Parent" && (
+              <Link
+                to="/parent/redemptions"
+                style={{
+                  ...navPill,
+                  ...(location.pathname.startsWith("/parent/redemptions") ? navPillActive : {}),
+                }}
+              >
+                Redemptions
+              </Link>
+            )}
+
+            {auth?.activeRole === "Parent" && (
+              <Link
+                to="/parent/analytics"
+                style={{
+                  ...navPill,
+                  ...(location.pathname.startsWith("/parent/analytics") ? navPillActive : {}),
+                }}
+              >
+                Analytics
+              </Link>
+            )}
+
+            {auth?.activeRole === "Parent" && (
+              <Link
+                to="/parent/settings"
+                style={{
+                  ...navPill,
+                  ...(location.pathname.startsWith("/parent/settings") ? navPillActive : {}),
+                }}
+              >
+                Settings
+              </Link>
+            )}
           </>
         )}
 
@@ -369,18 +435,23 @@ export default function App(): JSX.Element {
             </Link>
           ) : (
             <>
-              {/* Switch UI/auth context into kid mode (requires parentToken + selectedKidId) */}
-              <button onClick={switchToKidMode} style={{ ...topBtn, opacity: isKidMode ? 0.7 : 1 }}>
-                Kid Mode
-              </button>
-
-              {/* Switch UI back into parent mode (PIN-gated) */}
-              <button
-                onClick={switchToParentMode}
-                style={{ ...topBtn, opacity: isParentMode ? 0.7 : 1 }}
-              >
-                Parent Mode
-              </button>
+              {/* Mode switching needs the parent session (not on a kid-only tablet) */}
+              {auth?.parentToken && (
+                <>
+                  {/* Switch UI/auth context into kid mode (requires parentToken + selectedKidId) */}
+                  <button onClick={switchToKidMode} style={{ ...topBtn, opacity: isKidMode ? 0.7 : 1 }}>
+                    Kid Mode
+                  </button>
+
+                  {/* Switch UI back into parent mode (PIN-gated) */}
+                  <button
+                    onClick={switchToParentMode}
+                    style={{ ...topBtn, opacity: isParentMode ? 0.7 : 1 }}
+                  >
+                    Parent Mode
+                  </button>
+                </>
+              )}
 
               {/* Parent-only shortcut to change which kid is selected */}
               {auth?.parentToken && (
@@ -390,13 +461,22 @@ export default function App(): JSX.Element {
               )}
 
               <button onClick={clearAuth} style={dangerBtn}>
-                Logout
+                {auth?.parentToken ? "Logout" : "Switch kid"}
               </button>
             </>
           )}
         </div>
       </div>
 
+      {isAuthed && <SessionExpiryBanner />}
+      {isAuthed && <OfflineIndicator />}
+
+      <PinModal
+        open={pinModalOpen}
+        onVerified={finishParentSwitch}
+        onCancel={() => setPinModalOpen(false)}
+      />
+
       {/* App routes */}
       <Routes>
         {/* Default route:
@@ -420,13 +500,15 @@ export default function App(): JSX.Element {
                 <Navigate to="/parent/select-kid" replace />
               )
             ) : (
-              <Navigate to="/login" replace />
+              <Navigate to={auth?.deviceToken ? "/kid-login" : "/login"} replace />
             )
           }
         />
 
         {/* Public route */}
         <Route path="/login" element={<Login />} />
+        <Route path="/register" element={<Register />} />
+        <Route path="/kid-login" element={<KidSignIn />} />
 
         {/* Parent-only routes */}
         <Route
@@ -438,6 +520,60 @@ export default function App(): JSX.Element {
           }
         />
 
+        <Route
+          path="/parent/manage-kids"
+          element={
+            <RequireRole role="Parent">
+              <ManageKidsPage />
+            </RequireRole>
+          }
+        />
+
+        <Route
+          path="/parent/onboarding"
+          element={
+            <RequireRole role="Parent">
+              <OnboardingPage />
+            </RequireRole>
+          }
+        />
+
+        <Route
+          path="/parent/settings"
+          element={
+            <RequireRole role="Parent">
+              <SettingsPage />
+            </RequireRole>
+          }
+        />
+
+        <Route
+          path="/parent/analytics"
+          element={
+            <RequireRole role="Parent">
+              <AnalyticsPage />
+            </RequireRole>
+          }
+        />
+
+        <Route
+          path="/parent/import"
+          element={
+            <RequireRole role="Parent">
+              <ImportPage />
+            </RequireRole>
+          }
+        />
+
+        <Route
+          path="/parent/redemptions"
+          element={
+            <RequireRole role="Parent">
+              <RedemptionsPage />
+            </RequireRole>
+          }
+        />
+
         <Route
           path="/parent/kids"
           element={
@@ -456,6 +592,24 @@ export default function App(): JSX.Element {
           }
         />
 
+        <Route
+          path="/parent/kids/:kidId/history"
+          element={
+            <RequireRole role="Parent">
+              <PointsHistoryPage />
+            </RequireRole>
+          }
+        />
+
+        <Route
+          path="/parent/kids/:kidId/payouts"
+          element={
+            <RequireRole role="Parent">
+              <PayoutsPage />
+            </RequireRole>
+          }
+        />
+
         <Route
           path="/parent/todos"
           element={
@@ -484,6 +638,24 @@ export default function App(): JSX.Element {
           }
         />
 
+        <Route
+          path="/kid/kids/:kidId/history"
+          element={
+            <RequireRole role="Kid">
+              <PointsHistoryPage />
+            </RequireRole>
+          }
+        />
+
+        <Route
+          path="/kid/kids/:kidId/payouts"
+          element={
+            <RequireRole role="Kid">
+              <PayoutsPage />
+            </RequireRole>
+          }
+        />
+
         <Route
           path="/kid/todos"
           element={
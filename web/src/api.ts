@@ -1,9 +1,40 @@
 import axios from "axios";
+import type { InternalAxiosRequestConfig } from "axios";
 import type {
+  TaskRecurrence,
   KidProfile,
+  CreateKidRequest,
+  UpdateKidRequest,
   KidTask,
+  TaskDeadline,
   Reward,
   PointsResponse,
+  PointHistoryEntry,
+  PendingApproval,
+  RedemptionItem,
+  RedemptionStatus,
+  ParentSettings,
+  AllowanceRate,
+  Payout,
+  Payouts,
+  Household,
+  HouseholdInvite,
+  KidLoginMethod,
+  SharedDevice,
+  DeviceProfiles,
+  SavingsGoal,
+  RewardLimits,
+  RewardAvailability,
+  Achievement,
+  Achievements,
+  PointsByWeek,
+  TaskCompletionRate,
+  TopReward,
+  BusiestDay,
+  ImportRequest,
+  ImportResult,
+  RestoreResult,
+  FamilyClock,
   CreateTaskRequest,
   CreateRewardRequest,
 } from "./types";
@@ -54,28 +85,95 @@ export const api = axios.create({
  * - Chooses kidToken or parentToken accordingly.
  */
 api.interceptors.request.use((config) => {
+  // Retries after a refresh already carry the new token (storage may lag behind)
+  if ((config as RetryableConfig)._retry) return config;
+
+  const token = storedToken();
+  if (token) {
+    config.headers = config.headers ?? {};
+    config.headers.Authorization = `Bearer ${token}`;
+  }
+
+  return config;
+});
+
+/**
+ * Token for the active role, straight from localStorage (see the request interceptor).
+ * Exported for requests made without axios (the live events stream).
+ */
+export function storedToken(): string | null {
   try {
     const raw = localStorage.getItem("kidsrewards.auth.v1");
-    if (raw) {
-      const parsed = JSON.parse(raw);
-
-      const role = parsed?.activeRole ?? parsed?.uiMode;
-      const token =
-        role === "Kid"
-          ? parsed?.kidToken
-          : parsed?.parentToken;
-
-      if (token) {
-        config.headers = config.headers ?? {};
-        config.headers.Authorization = `Bearer ${token}`;
-      }
-    }
+    if (!raw) return null;
+
+    const parsed = JSON.parse(raw);
+    const role = parsed?.activeRole ?? parsed?.uiMode;
+    return (role === "Kid" ? parsed?.kidToken : parsed?.parentToken) ?? null;
   } catch {
     // Ignore storage or JSON parsing errors
+    return null;
   }
+}
 
-  return config;
-});
+/**
+ * 401 handling bridge.
+ *
+ * Why:
+ * - api.ts can't use React state, but AuthContext owns the tokens.
+ * - AuthProvider registers a handler; the response interceptor calls it
+ *   with the exact token the failed request used, so only that token
+ *   (kid vs parent) gets refreshed or cleared.
+ * - The handler resolves to a replacement token (retry the request once)
+ *   or null when the session is over.
+ */
+type UnauthorizedHandler = (rejectedToken: string | null) => Promise<string | null>;
+
+type RetryableConfig = InternalAxiosRequestConfig & { _retry?: boolean };
+
+// Endpoints whose 401 means "bad credentials", not "token expired"
+const AUTH_ENDPOINTS = ["/parent/login", "/auth/refresh", "/auth/logout", "/device/profiles", "/device/kid-login"];
+
+let onUnauthorized: UnauthorizedHandler | null = null;
+
+export function setUnauthorizedHandler(handler: UnauthorizedHandler | null) {
+  onUnauthorized = handler;
+}
+
+/** Same 401 path as axios requests, for callers outside axios: fresh token or null. */
+export async function renewToken(rejectedToken: string | null): Promise<string | null> {
+  return onUnauthorized ? onUnauthorized(rejectedToken) : null;
+}
+
+/**
+ * Response interceptor.
+ *
+ * Purpose:
+ * - On 401, hand the rejected token to AuthContext (see setUnauthorizedHandler).
+ * - If it comes back with a fresh token, replay the request once with it.
+ * - Auth endpoints are skipped (a 401 there just means wrong credentials).
+ * - Otherwise the error is rejected so callers can stop what they were doing.
+ */
+api.interceptors.response.use(
+  (response) => response,
+  async (error) => {
+    const config = error?.config as RetryableConfig | undefined;
+    const url = String(config?.url ?? "");
+    const isAuthEndpoint = AUTH_ENDPOINTS.some((path) => url.endsWith(path));
+
+    if (error?.response?.status === 401 && config && !config._retry && !isAuthEndpoint && onUnauthorized) {
+      const header = String(config.headers?.Authorization ?? "");
+      const freshToken = await onUnauthorized(header.startsWith("Bearer ") ? header.slice(7) : null);
+
+      if (freshToken) {
+        config._retry = true;
+        config.headers.Authorization = `Bearer ${freshToken}`;
+        return api(config);
+      }
+    }
+
+    return Promise.reject(error);
+  }
+);
 
 /**
  * Sets or clears the Authorization header immediately.
@@ -121,17 +219,64 @@ export type ParentLoginRequest = {
 export type ParentLoginResponse = {
   token: string;
   role: "Parent";
+  refreshToken: string;
+  refreshTokenExpiresAt: string;
 };
 
 export const parentLogin = async (payload: ParentLoginRequest) =>
   (await api.post<ParentLoginResponse>("/parent/login", payload)).data;
 
+export type RegisterParentRequest = {
+  username: string;
+  password: string;
+  familyName: string;
+  timeZone?: string; // IANA id of this browser; becomes the family's time zone
+};
+
+/** Creates a parent account + empty family and signs in (same response as login). */
+export const registerParent = async (payload: RegisterParentRequest) =>
+  (await api.post<ParentLoginResponse>("/parent/register", payload)).data;
+
+/**
+ * Trades the refresh token for a new parent token + rotated refresh token
+ * (the old refresh token stops working). Pass kidId to renew that kid's
+ * session as well; kidToken is null if the kid can't be renewed.
+ */
+export type RefreshSessionResponse = ParentLoginResponse & {
+  kidToken: string | null;
+  kidId: string | null;
+  kidDisplayName: string | null;
+};
+
+export const refreshSession = async (payload: { refreshToken: string; kidId?: string }) =>
+  (await api.post<RefreshSessionResponse>("/auth/refresh", payload)).data;
+
+/** Revokes the refresh token's session on the server (logout). */
+export const logoutSession = async (refreshToken: string) => {
+  await api.post("/auth/logout", { refreshToken });
+};
+
 /* ============================================================
    KIDS
    ============================================================ */
 
-export const getKids = async () =>
-  (await api.get<KidProfile[]>("/kids")).data;
+/**
+ * Lists the parent's kids. Archived kids are hidden unless includeArchived is set
+ * (only the Manage Kids screen needs them).
+ */
+export const getKids = async (includeArchived = false) =>
+  (await api.get<KidProfile[]>("/kids", { params: includeArchived ? { includeArchived } : undefined }))
+    .data;
+
+export const createKid = async (payload: CreateKidRequest) =>
+  (await api.post<KidProfile>("/kids", payload)).data;
+
+export const updateKid = async (kidId: string, payload: UpdateKidRequest) =>
+  (await api.put<KidProfile>(`/kids/${kidId}`, payload)).data;
+
+export const archiveKid = async (kidId: string) => updateKid(kidId, { isArchived: true });
+
+export const restoreKid = async (kidId: string) => updateKid(kidId, { isArchived: false });
 
 /* ============================================================
    TASKS
@@ -140,8 +285,25 @@ export const getKids = async () =>
 export const getTasks = async (kidId: string) =>
   (await api.get<KidTask[]>("/tasks", { params: { kidId } })).data;
 
-export const completeTask = async (id: number) =>
-  (await api.put<KidTask>(`/tasks/${id}/complete`)).data;
+/**
+ * Completes a task (or the current occurrence of a recurring task).
+ * Kid token: kid comes from the JWT. Parent token: pass the kidId being acted for.
+ * idempotencyKey: retries with the same key get the first answer back (offline outbox).
+ * queuedAt: when an outbox replay was queued; picks the occurrence it was for
+ * (only sent with a key; deadlines are still judged when the request arrives).
+ */
+export const completeTask = async (id: number, kidId?: string, idempotencyKey?: string, queuedAt?: number) =>
+  (
+    await api.put<KidTask>(`/tasks/${id}/complete`, null, {
+      params: kidId ? { kidId } : undefined,
+      headers: idempotencyKey
+        ? {
+            "Idempotency-Key": idempotencyKey,
+            ...(queuedAt ? { "Queued-At": new Date(queuedAt).toISOString() } : {}),
+          }
+        : undefined,
+    })
+  ).data;
 
 export const createTask = async (payload: CreateTaskRequest) =>
   (await api.post<KidTask>("/tasks", payload)).data;
@@ -150,6 +312,11 @@ export type UpdateTaskRequest = {
   title?: string;
   points?: number;
   assignedKidId?: string;
+  recurrence?: TaskRecurrence;
+  recurrenceDays?: number;
+  startDate?: string;
+  requiresApproval?: boolean;
+  deadline?: TaskDeadline; // replaces the whole deadline (null fields = none)
 };
 
 export const updateTask = async (id: number, payload: UpdateTaskRequest) =>
@@ -158,6 +325,83 @@ export const updateTask = async (id: number, payload: UpdateTaskRequest) =>
 export const deleteTask = async (id: number) =>
   (await api.delete(`/tasks/${id}`)).data;
 
+/* ============================================================
+   TODOS
+   ============================================================ */
+
+/** Checks / unchecks a todo (kids may only do this). idempotencyKey: as for completeTask. */
+export const setTodoDone = async (id: number, isDone: boolean, idempotencyKey?: string) =>
+  (
+    await api.put(`/todos/${id}`, { isDone }, {
+      headers: idempotencyKey ? { "Idempotency-Key": idempotencyKey } : undefined,
+    })
+  ).data;
+
+/* ============================================================
+   APPROVALS (Parent review queue)
+   ============================================================ */
+
+export const getApprovals = async () =>
+  (await api.get<PendingApproval[]>("/approvals")).data;
+
+export const approveCompletion = async (completionId: number) =>
+  (await api.post<KidTask>(`/approvals/${completionId}/approve`)).data;
+
+export const rejectCompletion = async (completionId: number, reason: string) =>
+  (await api.post<KidTask>(`/approvals/${completionId}/reject`, { reason })).data;
+
+/* ============================================================
+   PARENT SETTINGS
+   ============================================================ */
+
+export const getParentSettings = async () =>
+  (await api.get<ParentSettings>("/parent/settings")).data;
+
+export const updateParentSettings = async (payload: { requireTaskApproval?: boolean; familyName?: string; timeZone?: string }) =>
+  (await api.put<ParentSettings>("/parent/settings", payload)).data;
+
+/**
+ * Set or change the PIN that guards leaving Kid Mode (account password required).
+ */
+export const setParentPin = async (payload: { newPin: string; password: string }) =>
+  (await api.put<ParentSettings>("/parent/pin", payload)).data;
+
+/** Turns allowance mode on / changes the points -> money exchange rate. */
+export const setAllowanceRate = async (payload: AllowanceRate) =>
+  (await api.put<ParentSettings>("/parent/allowance", payload)).data;
+
+export const clearAllowanceRate = async () =>
+  (await api.delete<ParentSettings>("/parent/allowance")).data;
+
+/**
+ * Checks the parent PIN (works with the kid token). Wrong PINs -> 400, lockout -> 429.
+ */
+export const verifyParentPin = async (pin: string) =>
+  (await api.post<{ verified: boolean }>("/parent/pin/verify", { pin })).data;
+
+/* ============================================================
+   HOUSEHOLD (co-parents)
+   ============================================================ */
+
+export const getHousehold = async () =>
+  (await api.get<Household>("/household")).data;
+
+/** Family time zone + today's date there (kid or parent token). */
+export const getFamilyClock = async () =>
+  (await api.get<FamilyClock>("/household/clock")).data;
+
+export const createHouseholdInvite = async () =>
+  (await api.post<HouseholdInvite>("/household/invites")).data;
+
+export const revokeHouseholdInvite = async (code: string) =>
+  (await api.delete(`/household/invites/${encodeURIComponent(code)}`)).data;
+
+/**
+ * Join a co-parent's household with their invite code (only from a household without kids).
+ */
+export const joinHousehold = async (code: string) =>
+  (await api.post<Household>("/household/join", { code })).data;
+
 /* ============================================================
    POINTS
    ============================================================ */
@@ -165,10 +409,127 @@ export const deleteTask = async (id: number) =>
 export const getPoints = async (kidId: string) =>
   (await api.get<PointsResponse>("/points", { params: { kidId } })).data;
 
+/**
+ * Points ledger for a kid (Parent token; ownership checked server-side).
+ * Entries are returned newest first.
+ */
+export const getKidPointsHistory = async (kidId: string) =>
+  (await api.get<PointHistoryEntry[]>(`/kids/${kidId}/points/history`)).data;
+
+/**
+ * Parent bonus (delta > 0) or deduction (delta < 0). Note is required.
+ */
+export const adjustKidPoints = async (
+  kidId: string,
+  payload: { delta: number; note: string; category?: string }
+) =>
+  (await api.post<{ kidId: string; newPoints: number; transactionId: number }>(
+    `/kids/${kidId}/points/adjust`,
+    payload
+  )).data;
+
+/**
+ * Points ledger for the current kid (Kid token; kid is taken from the JWT).
+ */
+export const getMyPointsHistory = async () =>
+  (await api.get<{ kidId: string; history: PointHistoryEntry[] }>("/points/history")).data
+    .history;
+
+/* ============================================================
+   EXPORTS (Parent only; CSV / JSON downloads)
+   ============================================================ */
+
+export type ExportDataset = "points" | "tasks" | "redemptions";
+export type ExportFormat = "csv" | "json";
+
+// "attachment; filename=x.csv; filename*=UTF-8''x.csv" -> "x.csv"
+function fileNameFrom(disposition: string | undefined): string | null {
+  if (!disposition) return null;
+
+  const encoded = /filename\*=UTF-8''([^;]+)/i.exec(disposition);
+  if (encoded) return decodeURIComponent(encoded[1]);
+
+  const plain = /filename="?([^";]+)"?/i.exec(disposition);
+  return plain ? plain[1] : null;
+}
+
+// Hands a blob to the browser as a file download
+function saveBlob(blob: Blob, fileName: string) {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+}
+
+/**
+ * Downloads a kid's export (from/to: the family's "YYYY-MM-DD" days, inclusive; omit for all time).
+ * Goes through the shared axios instance, so the token + 401 refresh work as usual.
+ * Error bodies arrive as blobs too; they're turned back into text for the caller.
+ */
+export async function downloadKidExport(
+  kidId: string,
+  dataset: ExportDataset,
+  format: ExportFormat,
+  range: { from?: string; to?: string } = {}
+) {
+  try {
+    const res = await api.get<Blob>(`/kids/${kidId}/export/${dataset}`, {
+      params: { format, from: range.from || undefined, to: range.to || undefined },
+      responseType: "blob",
+    });
+
+    saveBlob(res.data, fileNameFrom(res.headers["content-disposition"]) ?? `${dataset}.${format}`);
+  } catch (e: any) {
+    if (e?.response?.data instanceof Blob) e.response.data = await e.response.data.text();
+    throw e;
+  }
+}
+
+/* ============================================================
+   BACKUP + RESTORE (Parent only; whole family)
+   ============================================================ */
+
+/** Downloads the family archive (kids, tasks, rewards, ledger, todos, ...). */
+export async function downloadBackup() {
+  try {
+    const res = await api.get<Blob>("/backup", { responseType: "blob" });
+    saveBlob(res.data, fileNameFrom(res.headers["content-disposition"]) ?? "family-backup.json");
+  } catch (e: any) {
+    if (e?.response?.data instanceof Blob) e.response.data = await e.response.data.text();
+    throw e;
+  }
+}
+
+/**
+ * Re-imports an archive into the caller's family. The server checks the format and
+ * schema version and adds everything with new ids (existing data is left alone).
+ */
+export const restoreBackup = async (archive: unknown) =>
+  (await api.post<RestoreResult>("/restore", archive)).data;
+
+/* ============================================================
+   ALLOWANCE PAYOUTS (points -> money)
+   ============================================================ */
+
+/** Payout history + monthly totals (kid token: own; parent: any kid). */
+export const getPayouts = async (kidId: string) =>
+  (await api.get<Payouts>(`/kids/${kidId}/payouts`)).data;
+
+/** Parent only: converts points at the family rate (Spend entry in the ledger). */
+export const cashOut = async (kidId: string, payload: { points: number; note?: string }) =>
+  (await api.post<{ kidId: string; newPoints: number; payout: Payout }>(`/kids/${kidId}/payouts`, payload)).data;
+
 /* ============================================================
    REWARDS
    ============================================================ */
 
+/**
+ * Caller's family catalog only (parent token: own rewards; kid token: their parent's).
+ */
 export const getRewards = async () =>
   (await api.get<Reward[]>("/rewards")).data;
 
@@ -181,6 +542,7 @@ export const createReward = async (payload: CreateRewardRequest) =>
 export type UpdateRewardRequest = {
   name?: string;
   cost?: number;
+  limits?: RewardLimits; // replaces all limits (null fields = unlimited)
 };
 
 export const updateReward = async (id: number, payload: UpdateRewardRequest) =>
@@ -189,6 +551,86 @@ export const updateReward = async (id: number, payload: UpdateRewardRequest) =>
 export const deleteReward = async (id: number) =>
   (await api.delete(`/rewards/${id}`)).data;
 
+/** Stock left and limit blocks (daily/weekly cap, cooldown) for one kid. */
+export const getRewardAvailability = async (kidId: string) =>
+  (await api.get<RewardAvailability[]>(`/kids/${kidId}/reward-availability`)).data;
+
+/* ============================================================
+   BULK IMPORT (Parent; tasks + rewards)
+   ============================================================ */
+
+/** Validates only: per-row errors for the preview, nothing is saved. */
+export const previewImport = async (payload: ImportRequest) =>
+  (await api.post<ImportResult>("/import", payload, { params: { dryRun: true } })).data;
+
+/**
+ * Creates everything or nothing. If a row became invalid since the preview
+ * (e.g. a kid was renamed) the API answers 400 with the same report.
+ */
+export const commitImport = async (payload: ImportRequest) =>
+  (await api.post<ImportResult>("/import", payload)).data;
+
+/* ============================================================
+   REDEMPTIONS (Parent inbox + Kid "My rewards")
+   ============================================================ */
+
+export const getRedemptions = async (filters: { kidId?: string; status?: RedemptionStatus } = {}) =>
+  (await api.get<RedemptionItem[]>("/redemptions", { params: filters })).data;
+
+export const getMyRedemptions = async () =>
+  (await api.get<RedemptionItem[]>("/redemptions/mine")).data;
+
+export const fulfillRedemption = async (id: number) =>
+  (await api.post(`/redemptions/${id}/fulfill`)).data;
+
+export const cancelRedemption = async (id: number) =>
+  (await api.post(`/redemptions/${id}/cancel`)).data;
+
+/* ============================================================
+   SAVINGS GOALS (kid token: own goal; parent: any kid)
+   ============================================================ */
+
+/** The kid's current goal, or null when none is set (API answers 204). */
+export const getSavingsGoal = async (kidId: string) => {
+  const res = await api.get<SavingsGoal>(`/kids/${kidId}/goal`);
+  return res.status === 204 ? null : res.data;
+};
+
+export const setSavingsGoal = async (kidId: string, payload: { rewardId: number; lockPoints?: boolean }) =>
+  (await api.put<SavingsGoal>(`/kids/${kidId}/goal`, payload)).data;
+
+export const clearSavingsGoal = async (kidId: string) =>
+  (await api.delete(`/kids/${kidId}/goal`)).data;
+
+/* ============================================================
+   ACHIEVEMENTS (badges + trophy shelf)
+   ============================================================ */
+
+export const getAchievements = async (kidId: string) =>
+  (await api.get<Achievements>(`/kids/${kidId}/achievements`)).data;
+
+/** Kid token only: badges not shown yet (for the toast); marks them as seen. */
+export const takeNewAchievements = async (kidId: string) =>
+  (await api.post<Achievement[]>(`/kids/${kidId}/achievements/seen`)).data;
+
+/* ============================================================
+   ANALYTICS (Parent dashboard; whole household)
+   ============================================================ */
+
+export const getPointsByWeek = async (weeks = 12) =>
+  (await api.get<PointsByWeek>("/analytics/points-by-week", { params: { weeks } })).data;
+
+/** Lowest completion rate first. */
+export const getTaskCompletion = async (days = 30) =>
+  (await api.get<TaskCompletionRate[]>("/analytics/task-completion", { params: { days } })).data;
+
+export const getTopRewards = async (days = 90) =>
+  (await api.get<TopReward[]>("/analytics/top-rewards", { params: { days } })).data;
+
+/** Monday first; weekdays on the family's calendar (its time zone). */
+export const getBusiestDays = async (days = 90) =>
+  (await api.get<BusiestDay[]>("/analytics/busiest-days", { params: { days } })).data;
+
 /* ============================================================
    KID SESSION
    ============================================================ */
@@ -206,3 +648,38 @@ export type KidSessionResponse = {
 
 export const startKidSession = async (payload: KidSessionRequest) =>
   (await api.post<KidSessionResponse>("/kid-session", payload)).data;
+
+/* ============================================================
+   SHARED DEVICES (kids sign in by themselves)
+   ============================================================ */
+
+/** Parent sets (or clears with "None") a kid's PIN / picture password. */
+export const setKidLogin = async (kidId: string, payload: { method: KidLoginMethod; secret?: string }) =>
+  (await api.put<KidProfile>(`/kids/${kidId}/login`, payload)).data;
+
+export type RegisterDeviceResponse = {
+  deviceToken: string;
+  id: number;
+  name: string;
+};
+
+/** Parent turns this browser into a shared kid tablet (keep only the device token). */
+export const registerDevice = async (name: string) =>
+  (await api.post<RegisterDeviceResponse>("/devices", { name })).data;
+
+export const getDevices = async () =>
+  (await api.get<SharedDevice[]>("/devices")).data;
+
+export const revokeDevice = async (id: number) =>
+  (await api.delete(`/devices/${id}`)).data;
+
+/** Kid picker for this device (no login needed; 401 = device revoked). */
+export const getDeviceProfiles = async (deviceToken: string) =>
+  (await api.post<DeviceProfiles>("/device/profiles", { deviceToken })).data;
+
+/**
+ * Kid signs in on the device. Same response as /kid-session.
+ * Wrong secret -> 400 with tries left, lockout -> 429.
+ */
+export const deviceKidLogin = async (payload: { deviceToken: string; kidId: string; secret: string }) =>
+  (await api.post<KidSessionResponse>("/device/kid-login", payload)).data;
@@ -0,0 +1,66 @@
+import { useEffect } from "react";
+import type { Achievement } from "../types";
+
+/*
+AchievementToast.tsx
+--------------------
+Purpose:
+- "Badge earned!" pop-ups in the corner of Kid Mode, one per new badge.
+- Each toast closes by itself after a few seconds (or on click).
+
+Props:
+- items: badges to announce (oldest first)
+- onDismiss(id): remove one from the list
+*/
+
+type Props = {
+  items: Achievement[];
+  onDismiss: (id: number) => void;
+};
+
+const TOAST_MS = 5000;
+
+export default function AchievementToast({ items, onDismiss }: Props) {
+  // Only the oldest toast runs its timer, so a burst of badges plays one after another
+  const first = items[0];
+
+  useEffect(() => {
+    if (!first) return;
+    const timer = window.setTimeout(() => onDismiss(first.id), TOAST_MS);
+    return () => window.clearTimeout(timer);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [first?.id]);
+
+  if (!first) return null;
+
+  return (
+    <div
+      role="status"
+      onClick={() => onDismiss(first.id)}
+      style={{
+        position: "fixed",
+        right: 20,
+        bottom: 20,
+        zIndex: 1000,
+        display: "flex",
+        gap: 12,
+        alignItems: "center",
+        padding: "14px 18px",
+        borderRadius: 16,
+        background: "#0f172a",
+        color: "#f8fafc",
+        boxShadow: "0 10px 30px rgba(15, 23, 42, 0.35)",
+        cursor: "pointer",
+        fontFamily: "system-ui",
+      }}
+    >
+      <span style={{ fontSize: 36 }}>{first.icon}</span>
+      <div>
+        <div style={{ fontSize: 12, opacity: 0.8 }}>Badge earned!</div>
+        <div style={{ fontWeight: 800 }}>{first.title}</div>
+        {first.bonusPoints > 0 && <div style={{ fontSize: 12 }}>+{first.bonusPoints} bonus points</div>}
+      </div>
+      {items.length > 1 && <span style={{ fontSize: 12, opacity: 0.7 }}>+{items.length - 1} more</span>}
+    </div>
+  );
+}
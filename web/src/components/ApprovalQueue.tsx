@@ -0,0 +1,209 @@
+import { useEffect, useState } from "react";
+import type { PendingApproval } from "../types";
+import {
+  approveCompletion,
+  getApprovals,
+  getParentSettings,
+  rejectCompletion,
+  updateParentSettings,
+} from "../api";
+import { formatOccurrence, toDateOnly } from "../utils/schedule";
+import { batchEvents, subscribeFamilyEvents } from "../utils/liveEvents";
+
+/*
+ApprovalQueue.tsx
+-----------------
+Purpose:
+- Parent review queue for task completions submitted in Kid Mode.
+- Approve: the API credits the points and writes the ledger entry.
+- Reject: no points; the reason is shown to the kid next to the task.
+- Also hosts the family-wide "require approval for every task" switch.
+- Refreshes by itself when a kid submits a task on another device
+  (or a co-parent reviews one).
+
+Props:
+- onReviewed is called after approve/reject so the page can reload
+  tasks + points for the kid currently on screen.
+*/
+
+type Palette = {
+  text: string;
+  card: string;
+  border: string;
+  subtleText: string;
+  buttonBg: string;
+  buttonText: string;
+  dangerBg: string;
+  dangerText: string;
+  bg: string;
+};
+
+type Props = {
+  ui: Palette;
+  onReviewed: () => void | Promise<void>;
+};
+
+export default function ApprovalQueue({ ui, onReviewed }: Props) {
+  const [pending, setPending] = useState<PendingApproval[]>([]);
+  const [requireAll, setRequireAll] = useState(false);
+  const [reasons, setReasons] = useState<Record<number, string>>({});
+  const [error, setError] = useState<string | null>(null);
+
+  async function load() {
+    const [items, settings] = await Promise.all([getApprovals(), getParentSettings()]);
+    setPending(items);
+    setRequireAll(settings.requireTaskApproval);
+  }
+
+  useEffect(() => {
+    load().catch((e) => {
+      console.error("ApprovalQueue: load failed", e);
+      setError(e?.message ?? String(e));
+    });
+  }, []);
+
+  // Any kid's completions change the queue
+  useEffect(() => {
+    const live = batchEvents((events) => {
+      if (!events.some((e) => e.type === "task.completed" || e.type === "task.rejected")) return;
+      load().catch((e) => console.warn("ApprovalQueue: live reload failed", e));
+    });
+
+    const unsubscribe = subscribeFamilyEvents(live.listener);
+    return () => {
+      unsubscribe();
+      live.cancel();
+    };
+  }, []);
+
+  async function onToggleRequireAll(next: boolean) {
+    try {
+      setError(null);
+      const saved = await updateParentSettings({ requireTaskApproval: next });
+      setRequireAll(saved.requireTaskApproval);
+    } catch (e: any) {
+      console.error("updateParentSettings failed:", e);
+      setError(e?.message ?? String(e));
+    }
+  }
+
+  async function onApprove(item: PendingApproval) {
+    try {
+      setError(null);
+      await approveCompletion(item.completionId);
+      await load();
+      await onReviewed();
+    } catch (e: any) {
+      console.error("approveCompletion failed:", e);
+      setError(e?.response?.data ?? e?.message ?? String(e));
+    }
+  }
+
+  async function onReject(item: PendingApproval) {
+    const reason = (reasons[item.completionId] ?? "").trim();
+    if (!reason) {
+      setError("Add a reason so your kid knows what to fix.");
+      return;
+    }
+
+    try {
+      setError(null);
+      await rejectCompletion(item.completionId, reason);
+      setReasons((prev) => ({ ...prev, [item.completionId]: "" }));
+      await load();
+      await onReviewed();
+    } catch (e: any) {
+      console.error("rejectCompletion failed:", e);
+      setError(e?.response?.data ?? e?.message ?? String(e));
+    }
+  }
+
+  const buttonStyle = {
+    padding: "8px 12px",
+    borderRadius: 10,
+    border: `1px solid ${ui.border}`,
+    background: ui.buttonBg,
+    color: ui.buttonText,
+    cursor: "pointer",
+    fontWeight: 700,
+  } as const;
+
+  return (
+    <div
+      style={{
+        border: `1px solid ${ui.border}`,
+        borderRadius: 14,
+        padding: 16,
+        marginBottom: 18,
+        background: ui.card,
+      }}
+    >
+      <div style={{ display: "flex", alignItems: "center", gap: 12, marginBottom: 10 }}>
+        <h3 style={{ margin: 0 }}>
+          Review Queue {pending.length > 0 && <span style={{ color: ui.subtleText }}>({pending.length})</span>}
+        </h3>
+
+        <label style={{ marginLeft: "auto", display: "flex", gap: 6, alignItems: "center", fontSize: 14 }}>
+          <input
+            type="checkbox"
+            checked={requireAll}
+            onChange={(e) => void onToggleRequireAll(e.target.checked)}
+          />
+          Require approval for every task
+        </label>
+      </div>
+
+      {error && <div style={{ color: ui.dangerText, marginBottom: 10 }}>{String(error)}</div>}
+
+      {pending.length === 0 ? (
+        <p style={{ color: ui.subtleText, margin: 0 }}>Nothing waiting for review.</p>
+      ) : (
+        <ul style={{ listStyle: "none", padding: 0, margin: 0 }}>
+          {pending.map((item) => (
+            <li
+              key={item.completionId}
+              style={{
+                display: "flex",
+                alignItems: "center",
+                gap: 10,
+                padding: 12,
+                borderBottom: `1px solid ${ui.border}`,
+                flexWrap: "wrap",
+              }}
+            >
+              <div style={{ flex: 1, minWidth: 200 }}>
+                <strong>{item.kidName}</strong>: {item.taskTitle}{" "}
+                <span style={{ color: ui.subtleText }}>
+                  ({item.points} pts • {formatOccurrence(toDateOnly(item.occurrenceDate)!)})
+                </span>
+              </div>
+
+              <input
+                value={reasons[item.completionId] ?? ""}
+                onChange={(e) => setReasons((prev) => ({ ...prev, [item.completionId]: e.target.value }))}
+                placeholder="Reason (if rejecting)"
+                style={{
+                  padding: 8,
+                  borderRadius: 10,
+                  border: `1px solid ${ui.border}`,
+                  background: ui.bg,
+                  color: ui.text,
+                }}
+              />
+
+              <button onClick={() => void onApprove(item)} style={buttonStyle}>
+                Approve
+              </button>
+              <button
+                onClick={() => void onReject(item)}
+                style={{ ...buttonStyle, background: ui.dangerBg, color: ui.dangerText }}
+              >
+                Reject
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,62 @@
+/*
+ColumnChart.tsx
+---------------
+Purpose:
+- Small SVG column chart for a handful of categories (busiest weekdays).
+- The tallest column is highlighted.
+
+Props:
+- columns: short label under the column, value, hover text
+*/
+
+export type Column = { key: string; label: string; value: number; title?: string };
+
+type Palette = {
+  text: string;
+  subtleText: string;
+  border: string;
+};
+
+type Props = {
+  ui: Palette;
+  columns: Column[];
+  color?: string;
+  highlight?: string;
+};
+
+const WIDTH = 640;
+const HEIGHT = 180;
+const PAD_BOTTOM = 22;
+const PAD_TOP = 18;
+
+export default function ColumnChart({ ui, columns, color = "#93c5fd", highlight = "#2563eb" }: Props) {
+  const max = Math.max(1, ...columns.map((c) => c.value));
+  const plotHeight = HEIGHT - PAD_TOP - PAD_BOTTOM;
+  const slot = WIDTH / Math.max(1, columns.length);
+  const barWidth = slot * 0.6;
+
+  return (
+    <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} width="100%" role="img">
+      <line x1={0} x2={WIDTH} y1={HEIGHT - PAD_BOTTOM} y2={HEIGHT - PAD_BOTTOM} stroke={ui.border} />
+
+      {columns.map((c, i) => {
+        const height = (c.value / max) * plotHeight;
+        const x = i * slot + (slot - barWidth) / 2;
+        const y = HEIGHT - PAD_BOTTOM - height;
+
+        return (
+          <g key={c.key}>
+            {c.title && <title>{c.title}</title>}
+            <rect x={x} y={y} width={barWidth} height={height} fill={c.value === max ? highlight : color} rx={3} />
+            <text x={x + barWidth / 2} y={y - 4} fontSize={11} textAnchor="middle" fill={ui.text}>
+              {c.value}
+            </text>
+            <text x={x + barWidth / 2} y={HEIGHT - 6} fontSize={11} textAnchor="middle" fill={ui.subtleText}>
+              {c.label}
+            </text>
+          </g>
+        );
+      })}
+    </svg>
+  );
+}
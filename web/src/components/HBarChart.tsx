@@ -0,0 +1,66 @@
+/*
+HBarChart.tsx
+-------------
+Purpose:
+- Labelled horizontal bars in SVG (completion rate per task, most
+  redeemed rewards, ...). Bars scale to `max` (default: the largest value).
+
+Props:
+- rows: label + value; `valueLabel` replaces the number at the bar's end,
+  `title` is the hover text, `color` overrides the default bar color
+*/
+
+export type HBarRow = {
+  key: string | number;
+  label: string;
+  value: number;
+  valueLabel?: string;
+  title?: string;
+  color?: string;
+};
+
+type Palette = {
+  text: string;
+  subtleText: string;
+  border: string;
+};
+
+type Props = {
+  ui: Palette;
+  rows: HBarRow[];
+  max?: number;
+  color?: string;
+};
+
+const WIDTH = 640;
+const ROW_HEIGHT = 26;
+const LABEL_WIDTH = 200;
+const VALUE_WIDTH = 70;
+
+export default function HBarChart({ ui, rows, max, color = "#2563eb" }: Props) {
+  const top = Math.max(1, max ?? Math.max(0, ...rows.map((r) => r.value)));
+  const barSpace = WIDTH - LABEL_WIDTH - VALUE_WIDTH;
+
+  return (
+    <svg viewBox={`0 0 ${WIDTH} ${rows.length * ROW_HEIGHT}`} width="100%" role="img">
+      {rows.map((r, i) => {
+        const y = i * ROW_HEIGHT;
+        const width = Math.max(0, Math.min(1, r.value / top)) * barSpace;
+
+        return (
+          <g key={r.key}>
+            {r.title && <title>{r.title}</title>}
+            <text x={LABEL_WIDTH - 8} y={y + 17} fontSize={12} textAnchor="end" fill={ui.text}>
+              {r.label.length > 28 ? `${r.label.slice(0, 27)}…` : r.label}
+            </text>
+            <rect x={LABEL_WIDTH} y={y + 5} width={barSpace} height={ROW_HEIGHT - 10} fill={ui.border} rx={3} />
+            <rect x={LABEL_WIDTH} y={y + 5} width={width} height={ROW_HEIGHT - 10} fill={r.color ?? color} rx={3} />
+            <text x={LABEL_WIDTH + barSpace + 8} y={y + 17} fontSize={12} fill={ui.subtleText}>
+              {r.valueLabel ?? r.value}
+            </text>
+          </g>
+        );
+      })}
+    </svg>
+  );
+}
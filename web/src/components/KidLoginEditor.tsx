@@ -0,0 +1,167 @@
+import { useState } from "react";
+import type React from "react";
+import { setKidLogin } from "../api";
+import type { KidLoginMethod, KidProfile } from "../types";
+import {
+  KID_PIN_LENGTH,
+  LOGIN_PICTURES,
+  PICTURE_PASSWORD_LENGTH,
+  pictureEmoji,
+  toPictureSecret,
+} from "../utils/kidLoginPictures";
+
+/*
+KidLoginEditor.tsx
+------------------
+Purpose:
+- Lets a parent choose how a kid signs in on a shared tablet:
+  off, a 4-digit PIN, or a picture password (tap pictures in order).
+- The secret is only sent to the API (stored hashed); the current one is
+  never shown, so saving always sets a new one.
+
+Props:
+- kid: the kid being edited
+- onSaved(kid): API accepted the change (kid.loginMethod updated)
+- onClose: hide the editor
+*/
+
+type Props = {
+  kid: KidProfile;
+  onSaved: (kid: KidProfile) => void;
+  onClose: () => void;
+};
+
+export default function KidLoginEditor({ kid, onSaved, onClose }: Props) {
+  const [method, setMethod] = useState<KidLoginMethod>(kid.loginMethod ?? "None");
+  const [pin, setPin] = useState("");
+  const [pictures, setPictures] = useState<string[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  const isDark =
+    typeof window !== "undefined" &&
+    window.matchMedia &&
+    window.matchMedia("(prefers-color-scheme: dark)").matches;
+
+  const ui = {
+    bg: isDark ? "#0b0f19" : "#f8fafc",
+    text: isDark ? "#e5e7eb" : "#0f172a",
+    border: isDark ? "#1e293b" : "#e2e8f0",
+    subtleText: isDark ? "#94a3b8" : "#64748b",
+    buttonBg: isDark ? "#020617" : "#ffffff",
+    dangerText: isDark ? "#fecaca" : "#991b1b",
+  };
+
+  const buttonStyle: React.CSSProperties = {
+    padding: "8px 12px",
+    borderRadius: 10,
+    border: `1px solid ${ui.border}`,
+    background: ui.buttonBg,
+    color: ui.text,
+    cursor: "pointer",
+    fontWeight: 700,
+  };
+
+  const ready =
+    method === "None" ||
+    (method === "Pin" && pin.length === KID_PIN_LENGTH) ||
+    (method === "Picture" && pictures.length === PICTURE_PASSWORD_LENGTH);
+
+  async function onSave() {
+    if (!ready || busy) return;
+
+    try {
+      setBusy(true);
+      setError(null);
+      const secret = method === "Pin" ? pin : method === "Picture" ? toPictureSecret(pictures) : undefined;
+      onSaved(await setKidLogin(kid.id, { method, secret }));
+    } catch (e: any) {
+      console.error("setKidLogin failed:", e);
+      setError(e?.response?.data ?? e?.message ?? String(e));
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  return (
+    <div
+      style={{
+        marginTop: 10,
+        padding: 12,
+        borderRadius: 12,
+        border: `1px dashed ${ui.border}`,
+        display: "grid",
+        gap: 10,
+      }}
+    >
+      <label style={{ display: "flex", gap: 8, alignItems: "center" }}>
+        Tablet sign-in:
+        <select
+          value={method}
+          onChange={(e) => setMethod(e.target.value as KidLoginMethod)}
+          style={{ padding: 8, borderRadius: 10, border: `1px solid ${ui.border}`, background: ui.bg, color: ui.text }}
+        >
+          <option value="None">Off</option>
+          <option value="Pin">4-digit PIN</option>
+          <option value="Picture">Picture password</option>
+        </select>
+      </label>
+
+      {method === "Pin" && (
+        <input
+          inputMode="numeric"
+          autoComplete="off"
+          value={pin}
+          onChange={(e) => setPin(e.target.value.replace(/\D/g, "").slice(0, KID_PIN_LENGTH))}
+          placeholder="New PIN"
+          style={{ padding: 10, borderRadius: 10, border: `1px solid ${ui.border}`, background: ui.bg, color: ui.text }}
+        />
+      )}
+
+      {method === "Picture" && (
+        <div>
+          <div style={{ fontSize: 28, minHeight: 36 }}>
+            {pictures.map((key, i) => (
+              <span key={i}>{pictureEmoji(key)}</span>
+            ))}
+            <span style={{ fontSize: 13, color: ui.subtleText, marginLeft: 8 }}>
+              {pictures.length}/{PICTURE_PASSWORD_LENGTH}
+            </span>
+          </div>
+          <div style={{ display: "flex", gap: 6, flexWrap: "wrap" }}>
+            {LOGIN_PICTURES.map((p) => (
+              <button
+                key={p.key}
+                type="button"
+                aria-label={p.label}
+                disabled={pictures.length >= PICTURE_PASSWORD_LENGTH}
+                onClick={() => setPictures((prev) => [...prev, p.key])}
+                style={{ ...buttonStyle, fontSize: 22 }}
+              >
+                {p.emoji}
+              </button>
+            ))}
+            <button type="button" onClick={() => setPictures([])} style={buttonStyle}>
+              Clear
+            </button>
+          </div>
+        </div>
+      )}
+
+      {error && (
+        <div style={{ color: ui.dangerText, fontSize: 14 }}>
+          {typeof error === "string" ? error : JSON.stringify(error)}
+        </div>
+      )}
+
+      <div style={{ display: "flex", gap: 8 }}>
+        <button onClick={onSave} disabled={!ready || busy} style={{ ...buttonStyle, opacity: ready ? 1 : 0.5 }}>
+          Save
+        </button>
+        <button onClick={onClose} style={buttonStyle}>
+          Cancel
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -11,7 +11,7 @@ export default function KidSelector({ kids, selectedKidId, onChange }: Props) {
     <select value={selectedKidId} onChange={e => onChange(e.target.value)}>
       {kids.map(k => (
         <option key={k.id} value={k.id}>
-          {k.displayName}
+          {k.avatar ? `${k.avatar} ${k.displayName}` : k.displayName}
         </option>
       ))}
     </select>
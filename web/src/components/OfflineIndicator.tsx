@@ -0,0 +1,103 @@
+import { useEffect, useState } from "react";
+import { dismissRefused, refreshOutbox, replayOutbox, subscribeOutbox, type OutboxState } from "../utils/outbox";
+
+/*
+OfflineIndicator.tsx
+--------------------
+Purpose:
+- "Offline • 2 pending" strip under the top bar while the network is down
+  or queued actions (outbox.ts) haven't reached the server yet.
+- Drives the replays: on load, when the browser comes back online, and
+  every RETRY_MS while something is pending (tablets often report
+  "online" on Wi-Fi that doesn't actually work).
+- Lists queued actions the server turned down on replay (task deleted,
+  expired, ...) until dismissed.
+*/
+
+const RETRY_MS = 30_000;
+
+export default function OfflineIndicator() {
+  const [online, setOnline] = useState(() => navigator.onLine);
+  const [outbox, setOutbox] = useState<OutboxState | null>(null);
+
+  useEffect(() => subscribeOutbox(setOutbox), []);
+
+  useEffect(() => {
+    void refreshOutbox().then(replayOutbox);
+
+    const goOnline = () => {
+      setOnline(true);
+      void replayOutbox();
+    };
+    const goOffline = () => setOnline(false);
+
+    window.addEventListener("online", goOnline);
+    window.addEventListener("offline", goOffline);
+    return () => {
+      window.removeEventListener("online", goOnline);
+      window.removeEventListener("offline", goOffline);
+    };
+  }, []);
+
+  const pending = outbox?.pending.length ?? 0;
+
+  useEffect(() => {
+    if (pending === 0 || !online) return;
+    const timer = window.setInterval(() => void replayOutbox(), RETRY_MS);
+    return () => window.clearInterval(timer);
+  }, [pending, online]);
+
+  const refused = outbox?.refused ?? [];
+  if (online && pending === 0 && refused.length === 0) return null;
+
+  const status = !online ? "Offline" : outbox?.syncing ? "Syncing…" : "Waiting to sync";
+
+  return (
+    <div
+      role="status"
+      style={{
+        maxWidth: 980,
+        margin: "10px auto 0",
+        padding: "10px 16px",
+        borderRadius: 12,
+        display: "flex",
+        gap: 12,
+        alignItems: "center",
+        flexWrap: "wrap",
+        border: "1px solid rgba(100,116,139,0.4)",
+        background: "rgba(148,163,184,0.15)",
+        fontWeight: 600,
+      }}
+    >
+      {(!online || pending > 0) && (
+        <span>
+          {!online ? "📴" : "🔄"} {status}
+          {pending > 0 && ` • ${pending} pending`}
+          {!online && pending === 0 && " • showing saved data"}
+        </span>
+      )}
+
+      {online && pending > 0 && !outbox?.syncing && (
+        <button
+          onClick={() => void replayOutbox()}
+          style={{ background: "none", border: "none", color: "inherit", fontWeight: 800, cursor: "pointer" }}
+        >
+          Try now
+        </button>
+      )}
+
+      {refused.length > 0 && (
+        <span style={{ color: "#b91c1c" }}>
+          Couldn't sync: {refused.join(", ")}
+          <button
+            onClick={dismissRefused}
+            style={{ marginLeft: 8, background: "none", border: "none", color: "inherit", cursor: "pointer" }}
+            aria-label="Dismiss"
+          >
+            ✕
+          </button>
+        </span>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,150 @@
+import { useEffect, useRef, useState } from "react";
+import type React from "react";
+import { verifyParentPin } from "../api";
+
+/*
+PinModal.tsx
+------------
+Purpose:
+- Asks for the parent PIN before leaving Kid Mode (replaces window.prompt).
+- The PIN is checked by the API (POST /parent/pin/verify), never in the bundle.
+- Wrong PINs show the attempts left; too many misses -> the API locks the
+  PIN for a few minutes (HTTP 429) and we show that message instead.
+
+Props:
+- open: render the dialog or nothing
+- onVerified: PIN accepted
+- onCancel: stay in Kid Mode
+*/
+
+type Props = {
+  open: boolean;
+  onVerified: () => void;
+  onCancel: () => void;
+};
+
+export default function PinModal({ open, onVerified, onCancel }: Props) {
+  const [pin, setPin] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  const isDark =
+    typeof window !== "undefined" &&
+    window.matchMedia &&
+    window.matchMedia("(prefers-color-scheme: dark)").matches;
+
+  const ui = {
+    text: isDark ? "#e5e7eb" : "#0f172a",
+    card: isDark ? "#0f172a" : "#ffffff",
+    border: isDark ? "#1e293b" : "#e2e8f0",
+    bg: isDark ? "#0b0f19" : "#f8fafc",
+    subtleText: isDark ? "#94a3b8" : "#64748b",
+    dangerText: isDark ? "#fecaca" : "#991b1b",
+  };
+
+  // Fresh dialog every time it opens
+  useEffect(() => {
+    if (!open) return;
+    setPin("");
+    setError(null);
+    inputRef.current?.focus();
+  }, [open]);
+
+  if (!open) return null;
+
+  async function onSubmit(e: React.FormEvent) {
+    e.preventDefault();
+    if (!pin || busy) return;
+
+    try {
+      setBusy(true);
+      setError(null);
+      await verifyParentPin(pin);
+      onVerified();
+    } catch (e: any) {
+      setPin("");
+      setError(e?.response?.data ?? e?.message ?? String(e));
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  const buttonStyle: React.CSSProperties = {
+    padding: "8px 12px",
+    borderRadius: 10,
+    border: `1px solid ${ui.border}`,
+    background: ui.card,
+    color: ui.text,
+    cursor: "pointer",
+    fontWeight: 700,
+  };
+
+  return (
+    <div
+      role="dialog"
+      aria-modal="true"
+      aria-labelledby="pin-modal-title"
+      onKeyDown={(e) => e.key === "Escape" && onCancel()}
+      style={{
+        position: "fixed",
+        inset: 0,
+        background: "rgba(15, 23, 42, 0.55)",
+        display: "grid",
+        placeItems: "center",
+        zIndex: 1000,
+      }}
+    >
+      <form
+        onSubmit={onSubmit}
+        style={{
+          width: 320,
+          padding: 20,
+          borderRadius: 14,
+          border: `1px solid ${ui.border}`,
+          background: ui.card,
+          color: ui.text,
+          fontFamily: "system-ui",
+          display: "grid",
+          gap: 12,
+        }}
+      >
+        <h3 id="pin-modal-title" style={{ margin: 0 }}>
+          Parent PIN
+        </h3>
+        <div style={{ fontSize: 13, color: ui.subtleText }}>Enter the PIN to leave Kid Mode.</div>
+
+        <input
+          ref={inputRef}
+          type="password"
+          inputMode="numeric"
+          autoComplete="off"
+          value={pin}
+          onChange={(e) => setPin(e.target.value.replace(/\D/g, ""))}
+          maxLength={8}
+          style={{
+            padding: 10,
+            borderRadius: 10,
+            border: `1px solid ${ui.border}`,
+            background: ui.bg,
+            color: ui.text,
+            fontSize: 20,
+            letterSpacing: 6,
+            textAlign: "center",
+          }}
+        />
+
+        {error && <div style={{ color: ui.dangerText, fontSize: 13 }}>{String(error)}</div>}
+
+        <div style={{ display: "flex", gap: 8, justifyContent: "flex-end" }}>
+          <button type="button" onClick={onCancel} style={buttonStyle}>
+            Cancel
+          </button>
+          <button type="submit" disabled={busy || !pin} style={{ ...buttonStyle, fontWeight: 800 }}>
+            {busy ? "Checking…" : "Unlock"}
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+}
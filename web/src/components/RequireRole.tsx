@@ -5,7 +5,8 @@
 // - Works with AuthContext where:
 //   - auth.activeRole is the real authenticated role ("Parent" or "Kid").
 //   - auth.parentToken / auth.kidToken are the stored JWT tokens.
-// - If the user is not authenticated, it redirects to /login.
+// - If the user is not authenticated, it redirects to /login
+//   (or to the kid picker /kid-login on a shared kid tablet).
 // - If the user is authenticated but on the wrong role route, it redirects them
 //   to the mirrored route for their current activeRole (or a safe fallback).
 //
@@ -85,27 +86,30 @@ export default function RequireRole({
   const hasParentAuth = !!auth?.parentToken;
   const hasKidAuth = !!auth?.kidToken;
 
+  // Shared kid tablets sign in through the kid picker instead of the parent login
+  const loginPath = auth?.deviceToken && !hasParentAuth ? "/kid-login" : "/login";
+
   /**
    * Auth gate:
-   * - If the user has no token at all, they are not logged in -> go to /login.
+   * - If the user has no token at all, they are not logged in -> go to the login page.
    * - We store "from" in router state so the Login page could optionally redirect back.
    */
   if (!hasParentAuth && !hasKidAuth) {
-    return <Navigate to="/login" replace state={{ from: location }} />;
+    return <Navigate to={loginPath} replace state={{ from: location }} />;
   }
 
   /**
    * Token safety checks:
    * - If activeRole says "Kid" but kidToken is missing, something is inconsistent.
    * - If activeRole says "Parent" but parentToken is missing, also inconsistent.
-   * - In either case, force re-auth by sending them to /login.
+   * - In either case, force re-auth by sending them to the login page.
    */
   if (activeRole === "Kid" && !hasKidAuth) {
-    return <Navigate to="/login" replace state={{ from: location }} />;
+    return <Navigate to={loginPath} replace state={{ from: location }} />;
   }
 
   if (activeRole === "Parent" && !hasParentAuth) {
-    return <Navigate to="/login" replace state={{ from: location }} />;
+    return <Navigate to={loginPath} replace state={{ from: location }} />;
   }
 
   /**
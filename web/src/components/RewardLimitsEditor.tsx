@@ -0,0 +1,52 @@
+import type React from "react";
+import type { RewardLimits } from "../types";
+
+/*
+RewardLimitsEditor.tsx
+----------------------
+Purpose:
+- Optional limits for a reward: how many are left, how often each kid may
+  redeem it (per day / per week) and a cooldown between redemptions.
+- Empty field = no limit.
+
+Used by:
+- "Parent: Create Reward" form and inline reward editing in KidsRewardsPage.
+*/
+
+type Props = {
+  value: RewardLimits;
+  onChange: (next: RewardLimits) => void;
+  inputStyle?: React.CSSProperties;
+  subtleColor?: string;
+};
+
+const FIELDS: { key: keyof RewardLimits; label: string; min: number }[] = [
+  { key: "stock", label: "In stock", min: 0 },
+  { key: "maxPerDay", label: "Max per kid / day", min: 1 },
+  { key: "maxPerWeek", label: "Max per kid / week", min: 1 },
+  { key: "cooldownHours", label: "Cooldown (hours)", min: 1 },
+];
+
+export default function RewardLimitsEditor({ value, onChange, inputStyle, subtleColor }: Props) {
+  function setField(key: keyof RewardLimits, raw: string) {
+    onChange({ ...value, [key]: raw === "" ? null : Math.max(0, Math.floor(Number(raw)) || 0) });
+  }
+
+  return (
+    <div style={{ display: "flex", gap: 8, flexWrap: "wrap", alignItems: "center" }}>
+      {FIELDS.map((f) => (
+        <label key={f.key} style={{ display: "grid", gap: 2, fontSize: 12, color: subtleColor }}>
+          {f.label}
+          <input
+            type="number"
+            min={f.min}
+            value={value[f.key] ?? ""}
+            onChange={(e) => setField(f.key, e.target.value)}
+            placeholder="No limit"
+            style={{ ...inputStyle, width: 120 }}
+          />
+        </label>
+      ))}
+    </div>
+  );
+}
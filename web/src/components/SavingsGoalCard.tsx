@@ -0,0 +1,115 @@
+import type { SavingsGoal } from "../types";
+import { parseUtc } from "../utils/dates";
+
+/*
+SavingsGoalCard.tsx
+-------------------
+Purpose:
+- Shows the reward a kid is saving up for: progress bar against the
+  current balance and an estimated date from recent average earnings.
+- "Lock points" keeps the goal's cost from being spent on other rewards
+  (the API enforces it on redeem).
+
+Props:
+- goal: current goal from GET /kids/{kidId}/goal
+- onToggleLock(next): save the lock setting
+- onClear: stop saving for this reward
+*/
+
+type Palette = {
+  text: string;
+  card: string;
+  border: string;
+  subtleText: string;
+  buttonBg: string;
+  buttonText: string;
+  dangerBg: string;
+  dangerText: string;
+};
+
+type Props = {
+  ui: Palette;
+  goal: SavingsGoal;
+  onToggleLock: (next: boolean) => void | Promise<void>;
+  onClear: () => void | Promise<void>;
+};
+
+function describeEta(goal: SavingsGoal): string {
+  if (goal.remaining === 0) return "You have enough points! 🎉";
+  if (!goal.estimatedDate) return "Earn some points to see when you'll get there.";
+
+  const date = parseUtc(goal.estimatedDate).toLocaleDateString(undefined, { timeZone: "UTC" });
+  return `About ${goal.averagePerDay.toFixed(1)} pts/day → ready around ${date}`;
+}
+
+export default function SavingsGoalCard({ ui, goal, onToggleLock, onClear }: Props) {
+  const buttonStyle = {
+    padding: "8px 12px",
+    borderRadius: 10,
+    border: `1px solid ${ui.border}`,
+    background: ui.buttonBg,
+    color: ui.buttonText,
+    cursor: "pointer",
+    fontWeight: 700,
+  } as const;
+
+  return (
+    <div
+      style={{
+        border: `1px solid ${ui.border}`,
+        borderRadius: 14,
+        padding: 16,
+        marginBottom: 18,
+        background: ui.card,
+      }}
+    >
+      <div style={{ display: "flex", alignItems: "center", gap: 12, marginBottom: 10 }}>
+        <h3 style={{ margin: 0 }}>🎯 Saving for {goal.rewardName}</h3>
+        <span style={{ marginLeft: "auto", fontWeight: 700 }}>
+          {Math.min(goal.balance, goal.cost)} / {goal.cost} pts
+        </span>
+      </div>
+
+      <div
+        role="progressbar"
+        aria-valuemin={0}
+        aria-valuemax={100}
+        aria-valuenow={goal.progressPercent}
+        style={{ height: 14, borderRadius: 999, background: ui.border, overflow: "hidden" }}
+      >
+        <div
+          style={{
+            width: `${goal.progressPercent}%`,
+            height: "100%",
+            borderRadius: 999,
+            background: goal.remaining === 0 ? "#16a34a" : "#2563eb",
+            transition: "width 0.3s",
+          }}
+        />
+      </div>
+
+      <p style={{ color: ui.subtleText, fontSize: 14, margin: "10px 0" }}>
+        {goal.remaining > 0 && <>{goal.remaining} pts to go • </>}
+        {describeEta(goal)}
+      </p>
+
+      <div style={{ display: "flex", alignItems: "center", gap: 12 }}>
+        <label style={{ display: "flex", gap: 6, alignItems: "center", fontSize: 14 }}>
+          <input
+            type="checkbox"
+            checked={goal.locksPoints}
+            onChange={(e) => void onToggleLock(e.target.checked)}
+          />
+          🔒 Lock points for this goal
+        </label>
+
+        <button
+          onClick={() => void onClear()}
+          style={{ ...buttonStyle, marginLeft: "auto", background: ui.dangerBg, color: ui.dangerText }}
+        >
+          Remove goal
+        </button>
+      </div>
+    </div>
+  );
+}
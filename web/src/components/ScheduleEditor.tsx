@@ -0,0 +1,92 @@
+import type React from "react";
+import type { TaskRecurrence } from "../types";
+import {
+  RECURRENCE_LABELS,
+  WEEKDAY_LABELS,
+  formatOccurrence,
+  upcomingOccurrences,
+  type Schedule,
+} from "../utils/schedule";
+import { familyToday } from "../utils/familyClock";
+
+/*
+ScheduleEditor.tsx
+------------------
+Purpose:
+- Lets a parent pick how often a task repeats (one-time, daily, specific
+  weekdays, weekly, monthly) and from which day.
+- Shows a preview of the next few occurrences so the rule is easy to check.
+
+Used by:
+- "Parent: Create Task" form and inline task editing in KidsRewardsPage.
+*/
+
+type Props = {
+  value: Schedule;
+  onChange: (next: Schedule) => void;
+  inputStyle?: React.CSSProperties;
+  subtleColor?: string;
+};
+
+const RECURRENCES = Object.keys(RECURRENCE_LABELS) as TaskRecurrence[];
+
+export default function ScheduleEditor({ value, onChange, inputStyle, subtleColor }: Props) {
+  const upcoming = upcomingOccurrences(value, familyToday(), 5);
+
+  function toggleDay(index: number) {
+    onChange({ ...value, recurrenceDays: value.recurrenceDays ^ (1 << index) });
+  }
+
+  return (
+    <div style={{ display: "grid", gap: 8 }}>
+      <div style={{ display: "flex", gap: 8, flexWrap: "wrap", alignItems: "center" }}>
+        <select
+          value={value.recurrence}
+          onChange={(e) => onChange({ ...value, recurrence: e.target.value as TaskRecurrence })}
+          style={inputStyle}
+        >
+          {RECURRENCES.map((r) => (
+            <option key={r} value={r}>
+              {RECURRENCE_LABELS[r]}
+            </option>
+          ))}
+        </select>
+
+        {value.recurrence !== "None" && (
+          <label style={{ display: "flex", gap: 6, alignItems: "center" }}>
+            Starting
+            <input
+              type="date"
+              value={value.startDate}
+              onChange={(e) => onChange({ ...value, startDate: e.target.value || familyToday() })}
+              style={inputStyle}
+            />
+          </label>
+        )}
+      </div>
+
+      {value.recurrence === "Weekdays" && (
+        <div style={{ display: "flex", gap: 8, flexWrap: "wrap" }}>
+          {WEEKDAY_LABELS.map((label, i) => (
+            <label key={label} style={{ display: "flex", gap: 4, alignItems: "center" }}>
+              <input
+                type="checkbox"
+                checked={(value.recurrenceDays & (1 << i)) !== 0}
+                onChange={() => toggleDay(i)}
+              />
+              {label}
+            </label>
+          ))}
+        </div>
+      )}
+
+      {value.recurrence !== "None" && (
+        <div style={{ fontSize: 13, color: subtleColor }}>
+          {upcoming.length === 0
+            ? "No upcoming occurrences — pick at least one day."
+            : `Upcoming: ${upcoming.map(formatOccurrence).join(" • ")}`}
+        </div>
+      )}
+    </div>
+  );
+}
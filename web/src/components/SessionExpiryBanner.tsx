@@ -0,0 +1,73 @@
+import { useEffect, useState } from "react";
+import { Link, useLocation } from "react-router-dom";
+import { useAuth } from "../context/AuthContext";
+import { getTokenExpiry } from "../utils/jwt";
+
+/*
+SessionExpiryBanner.tsx
+-----------------------
+Purpose:
+- Warns a few minutes before the session token expires so nobody loses
+  work mid-form. Once it does expire, AuthContext drops the token and
+  RequireRole sends the user to /login.
+- Sessions with a refresh token renew themselves, so nothing to warn about.
+- Otherwise watches the parent token (kid sessions are started from it);
+  a kid-only session falls back to the kid token.
+- "Log in again" goes to /login with `from` so Login returns to this page
+  (kid-only sessions on a shared tablet go back to the kid picker).
+*/
+
+const WARN_BEFORE_MS = 10 * 60 * 1000;
+
+export default function SessionExpiryBanner() {
+  const { auth } = useAuth();
+  const location = useLocation();
+  const [now, setNow] = useState(() => Date.now());
+
+  const token = auth.refreshToken ? null : (auth.parentToken ?? auth.kidToken);
+  const expiresAt = token ? getTokenExpiry(token) : null;
+
+  // Re-render every 30s so the countdown stays roughly current
+  useEffect(() => {
+    if (expiresAt === null) return;
+    const timer = window.setInterval(() => setNow(Date.now()), 30_000);
+    return () => window.clearInterval(timer);
+  }, [expiresAt]);
+
+  if (expiresAt === null) return null;
+
+  const msLeft = expiresAt - now;
+  if (msLeft > WARN_BEFORE_MS || msLeft <= 0) return null;
+
+  const minutesLeft = Math.max(1, Math.ceil(msLeft / 60_000));
+  const loginPath = auth.deviceToken && !auth.parentToken ? "/kid-login" : "/login";
+
+  return (
+    <div
+      role="status"
+      style={{
+        maxWidth: 980,
+        margin: "10px auto 0",
+        padding: "10px 16px",
+        borderRadius: 12,
+        display: "flex",
+        gap: 12,
+        alignItems: "center",
+        border: "1px solid rgba(180,83,9,0.4)",
+        background: "rgba(251,191,36,0.15)",
+        fontWeight: 600,
+      }}
+    >
+      <span>
+        Your session expires in {minutesLeft} minute{minutesLeft === 1 ? "" : "s"}.
+      </span>
+      <Link
+        to={loginPath}
+        state={{ from: location }}
+        style={{ marginLeft: "auto", color: "inherit", fontWeight: 800 }}
+      >
+        Log in again
+      </Link>
+    </div>
+  );
+}
@@ -0,0 +1,96 @@
+import type React from "react";
+import type { TaskDeadline } from "../types";
+import {
+  fromLocalDateTimeInput,
+  fromTimeInput,
+  toLocalDateTimeInput,
+  toTimeInput,
+} from "../utils/taskDeadline";
+import { browserTimeZone, familyTimeZone } from "../utils/familyClock";
+
+/*
+TaskDeadlineEditor.tsx
+----------------------
+Purpose:
+- Optional deadline for a task: a due date + time for one-time tasks, a due
+  time for each occurrence of recurring ones.
+- Late rules: share of the points a late completion still earns, and a
+  penalty when the task expires undone (one-time: end of the due day;
+  recurring: when the next occurrence arrives).
+- Empty field = not used.
+- The recurring due time is on the family's clock (Settings > time zone);
+  the label names the zone when this device runs on another one.
+
+Used by:
+- "Parent: Create Task" form and inline task editing in KidsRewardsPage.
+*/
+
+type Props = {
+  value: TaskDeadline;
+  recurring: boolean;
+  onChange: (next: TaskDeadline) => void;
+  inputStyle?: React.CSSProperties;
+  subtleColor?: string;
+};
+
+function toNumberOrNull(raw: string): number | null {
+  return raw === "" ? null : Math.max(0, Math.floor(Number(raw)) || 0);
+}
+
+export default function TaskDeadlineEditor({ value, recurring, onChange, inputStyle, subtleColor }: Props) {
+  const labelStyle: React.CSSProperties = { display: "grid", gap: 2, fontSize: 12, color: subtleColor };
+
+  return (
+    <div style={{ display: "flex", gap: 8, flexWrap: "wrap", alignItems: "center" }}>
+      {recurring ? (
+        <label style={labelStyle}>
+          Due by (each time{familyTimeZone() !== browserTimeZone() && `, ${familyTimeZone().replace(/_/g, " ")} time`})
+          <input
+            type="time"
+            value={toTimeInput(value.dueMinutes)}
+            onChange={(e) => onChange({ ...value, dueMinutes: fromTimeInput(e.target.value) })}
+            style={inputStyle}
+          />
+        </label>
+      ) : (
+        <label style={labelStyle}>
+          Due
+          <input
+            type="datetime-local"
+            value={toLocalDateTimeInput(value.dueAtUtc)}
+            onChange={(e) => onChange({ ...value, dueAtUtc: fromLocalDateTimeInput(e.target.value) })}
+            style={inputStyle}
+          />
+        </label>
+      )}
+
+      <label style={labelStyle}>
+        Late: % of points
+        <input
+          type="number"
+          min={0}
+          max={100}
+          value={value.latePointsPercent ?? ""}
+          onChange={(e) => {
+            const percent = toNumberOrNull(e.target.value);
+            onChange({ ...value, latePointsPercent: percent === null ? null : Math.min(100, percent) });
+          }}
+          placeholder="100"
+          style={{ ...inputStyle, width: 110 }}
+        />
+      </label>
+
+      <label style={labelStyle}>
+        Missed: penalty pts
+        <input
+          type="number"
+          min={1}
+          value={value.missedPenalty ?? ""}
+          onChange={(e) => onChange({ ...value, missedPenalty: toNumberOrNull(e.target.value) || null })}
+          placeholder="None"
+          style={{ ...inputStyle, width: 110 }}
+        />
+      </label>
+    </div>
+  );
+}
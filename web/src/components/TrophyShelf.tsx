@@ -0,0 +1,77 @@
+import type { Achievements } from "../types";
+import { parseUtc } from "../utils/dates";
+
+/*
+TrophyShelf.tsx
+---------------
+Purpose:
+- Kid Mode trophy shelf: every badge the kid earned, newest first, then the
+  ones still to win (greyed out, hover for how to get them).
+- Streak badges are earned per task, so they stay on the "to win" side
+  until the first one; the earned copies name their task.
+
+Props:
+- achievements: GET /kids/{kidId}/achievements
+*/
+
+type Palette = {
+  card: string;
+  border: string;
+  subtleText: string;
+};
+
+type Props = {
+  ui: Palette;
+  achievements: Achievements;
+};
+
+export default function TrophyShelf({ ui, achievements }: Props) {
+  const earnedKeys = new Set(achievements.earned.map((a) => a.key));
+  const locked = achievements.catalog.filter((c) => !earnedKeys.has(c.key));
+
+  const tileStyle = {
+    width: 96,
+    padding: 10,
+    borderRadius: 12,
+    border: `1px solid ${ui.border}`,
+    textAlign: "center",
+    fontSize: 12,
+  } as const;
+
+  return (
+    <div
+      style={{
+        border: `1px solid ${ui.border}`,
+        borderRadius: 14,
+        padding: 16,
+        marginBottom: 18,
+        background: ui.card,
+      }}
+    >
+      <h2 style={{ marginTop: 0, marginBottom: 10 }}>
+        Trophy Shelf{" "}
+        <span style={{ fontSize: 14, color: ui.subtleText }}>({achievements.earned.length} earned)</span>
+      </h2>
+
+      <div style={{ display: "flex", gap: 10, flexWrap: "wrap" }}>
+        {achievements.earned.map((a) => (
+          <div key={a.id} title={parseUtc(a.earnedAtUtc).toLocaleDateString()} style={tileStyle}>
+            <div style={{ fontSize: 32 }}>{a.icon}</div>
+            <div style={{ fontWeight: 700 }}>{a.title}</div>
+          </div>
+        ))}
+
+        {locked.map((c) => (
+          <div
+            key={c.key}
+            title={c.bonusPoints > 0 ? `${c.description} (+${c.bonusPoints} pts)` : c.description}
+            style={{ ...tileStyle, opacity: 0.35, filter: "grayscale(1)" }}
+          >
+            <div style={{ fontSize: 32 }}>{c.icon}</div>
+            <div>{c.name}</div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,89 @@
+import type { KidWeeklyPoints } from "../types";
+import { parseUtc } from "../utils/dates";
+
+/*
+WeeklyPointsChart.tsx
+---------------------
+Purpose:
+- One kid's points per week as an SVG bar chart: earned above the line
+  (kid's color), spent below it (red). Hover a bar for the numbers.
+- Scales to its container (viewBox); no chart library.
+
+Props:
+- weekStarts: Monday of each week (from GET /analytics/points-by-week)
+- series: the kid's earned/spent arrays (same length as weekStarts)
+*/
+
+type Palette = {
+  text: string;
+  subtleText: string;
+  border: string;
+  spend: string;
+};
+
+type Props = {
+  ui: Palette;
+  weekStarts: string[];
+  series: KidWeeklyPoints;
+};
+
+const WIDTH = 640;
+const HEIGHT = 200;
+const PAD_LEFT = 36;
+const PAD_BOTTOM = 22;
+const PAD_TOP = 8;
+
+function shortDate(value: string) {
+  return parseUtc(value).toLocaleDateString(undefined, { month: "short", day: "numeric", timeZone: "UTC" });
+}
+
+export default function WeeklyPointsChart({ ui, weekStarts, series }: Props) {
+  const max = Math.max(1, ...series.earned, ...series.spent);
+  const plotHeight = HEIGHT - PAD_TOP - PAD_BOTTOM;
+
+  // Earned and spent share one scale so the bars compare honestly
+  const half = plotHeight / 2;
+  const zeroY = PAD_TOP + half;
+  const scale = (v: number) => (v / max) * half;
+
+  const slot = (WIDTH - PAD_LEFT) / Math.max(1, weekStarts.length);
+  const barWidth = Math.max(2, slot * 0.6);
+  const labelEvery = Math.ceil(weekStarts.length / 6);
+  const color = series.color || "#2563eb";
+
+  return (
+    <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} width="100%" role="img" aria-label={`${series.kidName}: points per week`}>
+      {/* Axis labels: max up, max down */}
+      <text x={PAD_LEFT - 6} y={PAD_TOP + 10} fontSize={10} textAnchor="end" fill={ui.subtleText}>
+        +{max}
+      </text>
+      <text x={PAD_LEFT - 6} y={zeroY + 4} fontSize={10} textAnchor="end" fill={ui.subtleText}>
+        0
+      </text>
+      <text x={PAD_LEFT - 6} y={HEIGHT - PAD_BOTTOM} fontSize={10} textAnchor="end" fill={ui.subtleText}>
+        −{max}
+      </text>
+
+      <line x1={PAD_LEFT} x2={WIDTH} y1={zeroY} y2={zeroY} stroke={ui.border} />
+
+      {weekStarts.map((week, i) => {
+        const x = PAD_LEFT + i * slot + (slot - barWidth) / 2;
+        const earned = series.earned[i] ?? 0;
+        const spent = series.spent[i] ?? 0;
+
+        return (
+          <g key={week}>
+            <title>{`Week of ${shortDate(week)}: +${earned} earned, −${spent} spent`}</title>
+            <rect x={x} y={zeroY - scale(earned)} width={barWidth} height={scale(earned)} fill={color} rx={2} />
+            <rect x={x} y={zeroY} width={barWidth} height={scale(spent)} fill={ui.spend} opacity={0.75} rx={2} />
+            {i % labelEvery === 0 && (
+              <text x={x + barWidth / 2} y={HEIGHT - 6} fontSize={10} textAnchor="middle" fill={ui.subtleText}>
+                {shortDate(week)}
+              </text>
+            )}
+          </g>
+        );
+      })}
+    </svg>
+  );
+}
@@ -1,11 +1,26 @@
-import { createContext, useContext, useEffect, useState } from "react";
-import { setApiRoleToken, setApiToken, startKidSession } from "../api";
+import { createContext, useContext, useEffect, useRef, useState } from "react";
+import {
+  deviceKidLogin,
+  logoutSession,
+  refreshSession,
+  registerDevice,
+  setApiRoleToken,
+  setApiToken,
+  setUnauthorizedHandler,
+  startKidSession,
+} from "../api";
+import { getTokenExpiry, isTokenExpired } from "../utils/jwt";
 
 // ============================================================
 // Auth Context (Frontend)
 // - Central place to store auth/session state for Parent + Kid.
 // - Persists tokens in localStorage so refresh doesn't log you out.
 // - Keeps the API client (axios/fetch wrapper) in sync with the active token.
+// - Renews expiring/rejected tokens with the refresh token (see renewSession);
+//   drops them when that's not possible (see expireToken) so RequireRole can
+//   send the user to /login with the page they were on.
+// - Shared kid tablets hold only a device token (no parent session); kids
+//   sign in there with their own PIN / pictures (see signInKidOnDevice).
 // ============================================================
 
 // ActiveRole = what the API should treat you as (real auth role)
@@ -18,14 +33,19 @@ export type UiMode = "Parent" | "Kid";
 // AuthState: single source of truth for session/tokens
 // - parentToken: JWT used for parent-only endpoints
 // - kidToken: JWT used for kid-only endpoints
+// - refreshToken: long-lived, server-revocable; renews both JWTs
 // - activeRole: which token we are currently using for API requests (SOURCE OF TRUTH)
 // - uiMode: which UI we are showing (UI ONLY)
 // - selectedKid*: which kid the parent selected in the UI
 // - kidId/kidName: info for current kid session
+// - deviceToken: set on a shared kid tablet; survives logout so the
+//   kid picker (/kid-login) keeps working
 // ============================================================
 export interface AuthState {
   parentToken: string | null;
   kidToken: string | null;
+  refreshToken: string | null;
+  deviceToken: string | null;
 
   activeRole: ActiveRole | null; // ✅ SOURCE OF TRUTH (drives API auth)
   uiMode: UiMode;                // ✅ UI ONLY (drives what components render)
@@ -44,6 +64,9 @@ export interface AuthState {
 // - enterParentMode: switch UI back to parent view safely
 // - enterKidMode: starts a kid session by calling backend + storing kid JWT
 // - logout: clears tokens + local storage + api header
+// - setUpSharedDevice: parent turns this browser into a kid tablet (and logs out)
+// - signInKidOnDevice: kid signs in on a tablet with their PIN / pictures
+// - forgetDevice: drop the device token (revoked, or parent undoes the setup)
 // ============================================================
 type AuthContextValue = {
   auth: AuthState;
@@ -53,6 +76,10 @@ type AuthContextValue = {
   enterParentMode: () => void;
   enterKidMode: (kidId: string) => Promise<void>;
   logout: () => void;
+
+  setUpSharedDevice: (name: string) => Promise<void>;
+  signInKidOnDevice: (kidId: string, secret: string) => Promise<void>;
+  forgetDevice: () => void;
 };
 
 // The React Context itself (starts as null until provider mounts)
@@ -61,6 +88,19 @@ const AuthContext = createContext<AuthContextValue | null>(null);
 // localStorage key for persistence across refresh / tab reopen
 const STORAGE_KEY = "kidsrewards.auth.v1";
 
+// Renew the active token this long before it expires
+const RENEW_BEFORE_MS = 60 * 1000;
+
+// Web Lock shared by every tab of this app while it refreshes the session
+const REFRESH_LOCK = "kidsrewards.refresh";
+
+// Runs work under REFRESH_LOCK where the browser has Web Locks (https only;
+// plain-http LAN tablets run it directly: one tab per tablet in practice)
+async function withRefreshLock(work: () => Promise<AuthState>): Promise<AuthState> {
+  const locks = typeof navigator !== "undefined" ? navigator.locks : undefined;
+  return locks ? await locks.request(REFRESH_LOCK, work) : work();
+}
+
 // ============================================================
 // emptyAuth()
 // - Returns a clean "logged out" state.
@@ -70,6 +110,8 @@ function emptyAuth(): AuthState {
   return {
     parentToken: null,
     kidToken: null,
+    refreshToken: null,
+    deviceToken: null,
     activeRole: null,
     uiMode: "Parent",
     selectedKidId: undefined,
@@ -82,8 +124,10 @@ function emptyAuth(): AuthState {
 // ============================================================
 // loadAuth()
 // - Reads auth state from localStorage on initial load.
-// - Validates token strings (must be non-empty).
+// - Validates token strings (must be non-empty and not expired).
+//   Expired JWTs are kept when a refresh token can renew them.
 // - Derives activeRole ONLY from tokens (kidToken > parentToken).
+//   A device-only tablet may hold just a kid token (or no token at all).
 // - Keeps uiMode if valid; otherwise picks a safe default.
 // ============================================================
 function loadAuth(): AuthState {
@@ -93,15 +137,27 @@ function loadAuth(): AuthState {
 
     const parsed = JSON.parse(raw) as Partial<AuthState>;
 
+    const refreshToken =
+      typeof parsed.refreshToken === "string" && parsed.refreshToken.length > 0
+        ? parsed.refreshToken
+        : null;
+
+    const deviceToken =
+      typeof parsed.deviceToken === "string" && parsed.deviceToken.length > 0
+        ? parsed.deviceToken
+        : null;
+
     // Validate parent token
     const parentToken =
-      typeof parsed.parentToken === "string" && parsed.parentToken.length > 0
+      typeof parsed.parentToken === "string" &&
+      (!isTokenExpired(parsed.parentToken) || refreshToken)
         ? parsed.parentToken
         : null;
 
-    // Validate kid token
+    // Validate kid token (only renewable while the parent session is)
     const kidToken =
-      typeof parsed.kidToken === "string" && parsed.kidToken.length > 0
+      typeof parsed.kidToken === "string" &&
+      (!isTokenExpired(parsed.kidToken) || (refreshToken && parentToken))
         ? parsed.kidToken
         : null;
 
@@ -123,10 +179,12 @@ function loadAuth(): AuthState {
     return {
       parentToken,
       kidToken,
+      refreshToken: parentToken ? refreshToken : null,
+      deviceToken,
       activeRole,
-      uiMode,
-      kidId: parsed.kidId,
-      kidName: parsed.kidName,
+      uiMode: kidToken ? uiMode : "Parent",
+      kidId: kidToken ? parsed.kidId : undefined,
+      kidName: kidToken ? parsed.kidName : undefined,
       selectedKidId: parsed.selectedKidId,
       selectedKidName: parsed.selectedKidName,
     };
@@ -186,6 +244,209 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
     }
   }, [auth.activeRole, auth.parentToken, auth.kidToken]);
 
+  // ============================================================
+  // expireToken(rejectedToken)
+  // - Called when the API answers 401 or the active token's exp passes.
+  // - Kid token: drop only the kid session; fall back to Parent Mode
+  //   if the parent token is still valid.
+  // - Parent token: the whole session is over (kid tokens are minted from it).
+  //   selectedKid* is kept so logging back in returns to the same kid.
+  // - The device token is never dropped here (it isn't a session).
+  // - Tokens we no longer hold (already replaced) are ignored.
+  // ============================================================
+  const expireToken = (rejectedToken: string | null) => {
+    setAuth((prev) => {
+      if (rejectedToken && rejectedToken === prev.kidToken) {
+        const parentToken = isTokenExpired(prev.parentToken) ? null : prev.parentToken;
+
+        return {
+          ...prev,
+          kidToken: null,
+          kidId: undefined,
+          kidName: undefined,
+          parentToken,
+          activeRole: parentToken ? "Parent" : null,
+          uiMode: "Parent",
+        };
+      }
+
+      if (rejectedToken && rejectedToken === prev.parentToken) {
+        return {
+          ...emptyAuth(),
+          deviceToken: prev.deviceToken,
+          selectedKidId: prev.selectedKidId,
+          selectedKidName: prev.selectedKidName,
+        };
+      }
+
+      return prev;
+    });
+  };
+
+  // Latest auth for async code (the 401 handler outlives renders)
+  const authRef = useRef(auth);
+  authRef.current = auth;
+
+  // One refresh at a time: refresh tokens rotate, so a second request
+  // with the same token would look like a replay and end the session
+  const refreshInFlight = useRef<Promise<AuthState> | null>(null);
+
+  // ------------------------------------------------------------
+  // adoptStoredTokens(stored)
+  // - Another tab rotated the refresh token (same browser, same session):
+  //   take its tokens so this tab never sends the spent one
+  // - Its kid token only replaces ours when it's for the same kid
+  // ------------------------------------------------------------
+  const adoptStoredTokens = (stored: AuthState) => {
+    const apply = (prev: AuthState): AuthState => ({
+      ...prev,
+      parentToken: stored.parentToken,
+      refreshToken: stored.refreshToken,
+      kidToken: prev.kidToken && stored.kidToken && stored.kidId === prev.kidId ? stored.kidToken : prev.kidToken,
+    });
+
+    authRef.current = apply(authRef.current);
+    setAuth(apply);
+  };
+
+  // Newer refresh token in localStorage than ours (another tab refreshed)?
+  const storedTokensAreNewer = (stored: AuthState) =>
+    !!authRef.current.refreshToken && !!stored.refreshToken && stored.refreshToken !== authRef.current.refreshToken;
+
+  // ============================================================
+  // renewSession(rejectedToken)
+  // - Called on 401 and shortly before the active token expires.
+  // - Uses the refresh token to get a new parent token (and a new kid token
+  //   if a kid session is open). Resolves to the replacement for
+  //   rejectedToken, or null when the session can't be renewed.
+  // - Re-reads localStorage under a cross-tab lock first: if another tab
+  //   already rotated the refresh token, its tokens are used instead.
+  // - No refresh token / refresh rejected (400/401) -> expireToken.
+  //   Network errors keep the session (offline tablets): the next request
+  //   or the browser's "online" event tries again.
+  // ============================================================
+  const renewSession = async (rejectedToken: string | null): Promise<string | null> => {
+    const current = authRef.current;
+    const isKidToken = !!rejectedToken && rejectedToken === current.kidToken;
+    const isParentToken = !!rejectedToken && rejectedToken === current.parentToken;
+
+    // Already replaced by a refresh that finished meanwhile -> use the new one
+    if (!isKidToken && !isParentToken) {
+      return (current.activeRole === "Kid" ? current.kidToken : current.parentToken) ?? null;
+    }
+
+    if (!current.refreshToken) {
+      expireToken(rejectedToken);
+      return null;
+    }
+
+    if (!refreshInFlight.current) {
+      refreshInFlight.current = withRefreshLock(async () => {
+        const stored = loadAuth();
+        if (storedTokensAreNewer(stored)) {
+          adoptStoredTokens(stored);
+
+          const replacement = isKidToken ? authRef.current.kidToken : authRef.current.parentToken;
+          if (replacement && replacement !== rejectedToken && !isTokenExpired(replacement, RENEW_BEFORE_MS)) {
+            return authRef.current;
+          }
+        }
+
+        const latest = authRef.current;
+        const kidId = latest.kidToken ? latest.kidId : undefined;
+        const res = await refreshSession({ refreshToken: latest.refreshToken ?? "", kidId });
+
+        const apply = (prev: AuthState): AuthState => ({
+          ...prev,
+          parentToken: res.token,
+          refreshToken: res.refreshToken,
+          kidToken: res.kidToken,
+          kidId: res.kidToken ? (res.kidId ?? prev.kidId) : undefined,
+          kidName: res.kidToken ? (res.kidDisplayName ?? prev.kidName) : undefined,
+          activeRole: prev.activeRole === "Kid" && !res.kidToken ? "Parent" : prev.activeRole,
+          uiMode: res.kidToken ? prev.uiMode : "Parent",
+        });
+
+        // Update the ref now so 401s racing the re-render see the new tokens,
+        // and storage before the lock is released so the next tab reads them
+        authRef.current = apply(authRef.current);
+        setAuth(apply);
+        try {
+          localStorage.setItem(STORAGE_KEY, JSON.stringify(authRef.current));
+        } catch {
+          // Ignore storage errors (private mode / quota issues)
+        }
+        return authRef.current;
+      }).finally(() => {
+        refreshInFlight.current = null;
+      });
+    }
+
+    try {
+      const next = await refreshInFlight.current;
+      return (isKidToken ? next.kidToken : next.parentToken) ?? null;
+    } catch (e: any) {
+      const status = e?.response?.status;
+
+      if (status === 400 || status === 401) {
+        console.error("Session refresh rejected", e);
+        expireToken(current.parentToken);
+      } else {
+        console.warn("Session refresh failed; keeping the session to retry", e);
+      }
+      return null;
+    }
+  };
+
+  // 401 responses from any request -> renewSession (retry) or expireToken
+  useEffect(() => {
+    setUnauthorizedHandler(renewSession);
+    return () => setUnauthorizedHandler(null);
+  }, []);
+
+  // Other tabs: pick up their rotated tokens as soon as they store them
+  useEffect(() => {
+    const onStorage = (e: StorageEvent) => {
+      if (e.key !== STORAGE_KEY || !e.newValue) return;
+
+      const stored = loadAuth();
+      if (storedTokensAreNewer(stored)) adoptStoredTokens(stored);
+    };
+
+    window.addEventListener("storage", onStorage);
+    return () => window.removeEventListener("storage", onStorage);
+  }, []);
+
+  // Token ran out while offline (the renew timer's refresh failed): renew
+  // as soon as the network is back instead of waiting for a 401
+  useEffect(() => {
+    const onOnline = () => {
+      const current = authRef.current;
+      const token = current.activeRole === "Kid" ? current.kidToken : current.parentToken;
+      if (token && current.refreshToken && isTokenExpired(token, RENEW_BEFORE_MS)) void renewSession(token);
+    };
+
+    window.addEventListener("online", onOnline);
+    return () => window.removeEventListener("online", onOnline);
+  }, []);
+
+  // Proactively renew the active token just before exp (or, without a
+  // refresh token, drop it at exp) instead of waiting for a 401
+  useEffect(() => {
+    const token = auth.activeRole === "Kid" ? auth.kidToken : auth.parentToken;
+    const expiry = token ? getTokenExpiry(token) : null;
+    if (!token || expiry === null) return;
+
+    const canRenew = !!auth.refreshToken;
+    const delay = expiry - (canRenew ? RENEW_BEFORE_MS : 0) - Date.now();
+
+    const timer = window.setTimeout(
+      () => (canRenew ? void renewSession(token) : expireToken(token)),
+      Math.max(0, delay)
+    );
+    return () => window.clearTimeout(timer);
+  }, [auth.activeRole, auth.parentToken, auth.kidToken, auth.refreshToken]);
+
   // ============================================================
   // enterParentMode()
   // - Switches UI to Parent view.
@@ -231,19 +492,83 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
 
   // ============================================================
   // logout()
-  // - Clears all auth state
+  // - Revokes the refresh session on the server (best effort)
+  // - Clears all auth state (a shared tablet keeps its device token)
   // - Removes localStorage entry
   // - Removes Authorization header from API client
   // ============================================================
   const logout = () => {
-    setAuth(emptyAuth());
+    if (auth.refreshToken) {
+      logoutSession(auth.refreshToken).catch((e) => console.error("logoutSession failed", e));
+    }
+
+    setAuth({ ...emptyAuth(), deviceToken: auth.deviceToken });
     localStorage.removeItem(STORAGE_KEY);
     setApiToken(undefined);
   };
 
+  // ============================================================
+  // setUpSharedDevice(name)
+  // - Registers this browser as a kid tablet (parent token required),
+  //   then ends the parent session so no parent token stays on it.
+  // ============================================================
+  const setUpSharedDevice = async (name: string) => {
+    if (!auth.parentToken) {
+      throw new Error("Parent must be logged in to set up a shared device.");
+    }
+
+    const res = await registerDevice(name);
+
+    if (auth.refreshToken) {
+      logoutSession(auth.refreshToken).catch((e) => console.error("logoutSession failed", e));
+    }
+
+    setAuth({ ...emptyAuth(), deviceToken: res.deviceToken });
+    setApiToken(undefined);
+  };
+
+  // ============================================================
+  // signInKidOnDevice(kidId, secret)
+  // - The API checks the kid's PIN / picture password and returns a
+  //   kid JWT (same shape as enterKidMode). No parent token involved.
+  // ============================================================
+  const signInKidOnDevice = async (kidId: string, secret: string) => {
+    if (!auth.deviceToken) {
+      throw new Error("This device isn't set up for kids yet.");
+    }
+
+    const res = await deviceKidLogin({ deviceToken: auth.deviceToken, kidId, secret });
+
+    setAuth((prev) => ({
+      ...prev,
+      uiMode: "Kid",
+      activeRole: "Kid",
+      kidToken: res.token,
+      selectedKidId: res.kidId,
+      selectedKidName: res.displayName,
+      kidId: res.kidId,
+      kidName: res.displayName,
+    }));
+  };
+
+  const forgetDevice = () => {
+    setAuth((prev) => ({ ...prev, deviceToken: null }));
+  };
+
   // Provide auth state + helpers to the entire app tree
   return (
-    <AuthContext.Provider value={{ auth, setAuth, enterParentMode, enterKidMode, logout }}>
+    <AuthContext.Provider
+      value={{
+        auth,
+        setAuth,
+        enterParentMode,
+        enterKidMode,
+        logout,
+        setUpSharedDevice,
+        signInKidOnDevice,
+        forgetDevice,
+      }}
+    >
       {children}
     </AuthContext.Provider>
   );
@@ -8,6 +8,15 @@ if (import.meta.env.VITE_DEMO_ENABLED === "true") {
   (window as any).__DEMO_ENABLED__ = true;
 }
 
+// Offline app shell (public/sw.js); production builds only so dev reloads stay fresh
+if (import.meta.env.PROD && "serviceWorker" in navigator) {
+  window.addEventListener("load", () => {
+    navigator.serviceWorker
+      .register(`${import.meta.env.BASE_URL}sw.js`, { scope: import.meta.env.BASE_URL })
+      .catch((e) => console.warn("Service worker registration failed", e));
+  });
+}
+
 
 ReactDOM.createRoot(document.getElementById("root")!).render(
   <React.StrictMode>
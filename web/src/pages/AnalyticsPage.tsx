@@ -0,0 +1,229 @@
+import { useEffect, useState } from "react";
+import type React from "react";
+import type { BusiestDay, PointsByWeek, TaskCompletionRate, TopReward } from "../types";
+import { getBusiestDays, getPointsByWeek, getTaskCompletion, getTopRewards } from "../api";
+import WeeklyPointsChart from "../components/WeeklyPointsChart";
+import HBarChart from "../components/HBarChart";
+import ColumnChart from "../components/ColumnChart";
+
+// ============================================================
+// AnalyticsPage (Parent only)
+// - Family trends: points earned vs spent per week (one chart per kid),
+//   completion rate per task, most redeemed rewards, busiest weekdays
+// - Numbers come from the /analytics summary endpoints; this page only
+//   draws them (SVG, no chart library)
+// ============================================================
+
+type Range = 30 | 90 | 365;
+
+const RANGES: { value: Range; label: string }[] = [
+  { value: 30, label: "Last 30 days" },
+  { value: 90, label: "Last 90 days" },
+  { value: 365, label: "Last year" },
+];
+
+export default function AnalyticsPage() {
+  const [range, setRange] = useState<Range>(90);
+
+  const [weekly, setWeekly] = useState<PointsByWeek | null>(null);
+  const [completion, setCompletion] = useState<TaskCompletionRate[]>([]);
+  const [topRewards, setTopRewards] = useState<TopReward[]>([]);
+  const [busiestDays, setBusiestDays] = useState<BusiestDay[]>([]);
+
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const isDark =
+    typeof window !== "undefined" &&
+    window.matchMedia &&
+    window.matchMedia("(prefers-color-scheme: dark)").matches;
+
+  const ui = {
+    bg: isDark ? "#0b0f19" : "#f8fafc",
+    text: isDark ? "#e5e7eb" : "#0f172a",
+    card: isDark ? "#0f172a" : "#ffffff",
+    border: isDark ? "#1e293b" : "#e2e8f0",
+    subtleText: isDark ? "#94a3b8" : "#64748b",
+    earn: isDark ? "#86efac" : "#15803d",
+    spend: isDark ? "#fca5a5" : "#b91c1c",
+    warn: isDark ? "#fde68a" : "#d97706",
+    dangerBg: isDark ? "#3a1212" : "#fee2e2",
+    dangerText: isDark ? "#fecaca" : "#991b1b",
+  };
+
+  useEffect(() => {
+    (async () => {
+      try {
+        setLoading(true);
+        setError(null);
+
+        const [w, c, r, d] = await Promise.all([
+          getPointsByWeek(Math.ceil(range / 7)),
+          getTaskCompletion(range),
+          getTopRewards(range),
+          getBusiestDays(range),
+        ]);
+
+        setWeekly(w);
+        setCompletion(c);
+        setTopRewards(r);
+        setBusiestDays(d);
+      } catch (e: any) {
+        console.error("load analytics failed:", e);
+        setError(e?.message ?? String(e));
+      } finally {
+        setLoading(false);
+      }
+    })();
+  }, [range]);
+
+  const cardStyle: React.CSSProperties = {
+    border: `1px solid ${ui.border}`,
+    borderRadius: 14,
+    padding: 16,
+    marginBottom: 18,
+    background: ui.card,
+  };
+
+  const emptyNote = (text: string) => <p style={{ margin: 0, color: ui.subtleText }}>{text}</p>;
+
+  // Red under 50%, amber under 80%, green otherwise
+  const rateColor = (percent: number) => (percent < 50 ? ui.spend : percent < 80 ? ui.warn : ui.earn);
+
+  return (
+    <div
+      style={{
+        minHeight: "calc(100vh - 80px)",
+        background: ui.bg,
+        color: ui.text,
+        padding: "32px 16px",
+      }}
+    >
+      <div style={{ maxWidth: 860, margin: "0 auto", fontFamily: "system-ui" }}>
+        <div style={{ display: "flex", alignItems: "center", gap: 12, marginBottom: 18 }}>
+          <h1 style={{ margin: 0, fontSize: 24 }}>Family Analytics</h1>
+          <select
+            value={range}
+            onChange={(e) => setRange(Number(e.target.value) as Range)}
+            style={{
+              marginLeft: "auto",
+              padding: 8,
+              borderRadius: 10,
+              border: `1px solid ${ui.border}`,
+              background: ui.bg,
+              color: ui.text,
+            }}
+          >
+            {RANGES.map((r) => (
+              <option key={r.value} value={r.value}>
+                {r.label}
+              </option>
+            ))}
+          </select>
+        </div>
+
+        {error && (
+          <div
+            style={{
+              border: `1px solid ${ui.dangerText}`,
+              background: ui.dangerBg,
+              padding: 12,
+              borderRadius: 12,
+              marginBottom: 16,
+              color: ui.dangerText,
+            }}
+          >
+            {error}
+          </div>
+        )}
+
+        {loading ? (
+          <p style={{ color: ui.subtleText }}>Loading…</p>
+        ) : (
+          <>
+            {/* Earned vs spent per week */}
+            <div style={cardStyle}>
+              <h3 style={{ marginTop: 0, marginBottom: 4 }}>Points earned vs spent per week</h3>
+              <p style={{ marginTop: 0, fontSize: 13, color: ui.subtleText }}>
+                Earned = tasks, bonuses and badges (above the line). Spent = rewards and allowance cash outs (below).
+              </p>
+
+              {!weekly || weekly.kids.length === 0
+                ? emptyNote("No kids yet.")
+                : weekly.kids.map((kid) => (
+                    <div key={kid.kidId} style={{ marginBottom: 12 }}>
+                      <div style={{ fontWeight: 700, marginBottom: 4 }}>
+                        {kid.kidName}{" "}
+                        <span style={{ fontWeight: 400, fontSize: 13, color: ui.subtleText }}>
+                          +{kid.earned.reduce((a, b) => a + b, 0)} / −{kid.spent.reduce((a, b) => a + b, 0)}
+                        </span>
+                      </div>
+                      <WeeklyPointsChart ui={ui} weekStarts={weekly.weekStarts} series={kid} />
+                    </div>
+                  ))}
+            </div>
+
+            {/* Completion rate per task */}
+            <div style={cardStyle}>
+              <h3 style={{ marginTop: 0 }}>Completion rate per task</h3>
+              {completion.length === 0 ? (
+                emptyNote("No tasks were due in this period.")
+              ) : (
+                <HBarChart
+                  ui={ui}
+                  max={100}
+                  rows={completion.map((c) => ({
+                    key: c.taskId,
+                    label: `${c.taskTitle} (${c.kidName})`,
+                    value: c.ratePercent,
+                    valueLabel: `${c.ratePercent}%`,
+                    title: `${c.completed} of ${c.expected} done`,
+                    color: rateColor(c.ratePercent),
+                  }))}
+                />
+              )}
+            </div>
+
+            {/* Most redeemed rewards */}
+            <div style={cardStyle}>
+              <h3 style={{ marginTop: 0 }}>Most redeemed rewards</h3>
+              {topRewards.length === 0 ? (
+                emptyNote("No rewards redeemed in this period.")
+              ) : (
+                <HBarChart
+                  ui={ui}
+                  rows={topRewards.map((r) => ({
+                    key: r.rewardId,
+                    label: r.rewardName,
+                    value: r.count,
+                    valueLabel: `${r.count}×`,
+                    title: `${r.points} points spent`,
+                  }))}
+                />
+              )}
+            </div>
+
+            {/* Busiest days */}
+            <div style={cardStyle}>
+              <h3 style={{ marginTop: 0, marginBottom: 4 }}>Busiest days</h3>
+              <p style={{ marginTop: 0, fontSize: 13, color: ui.subtleText }}>Tasks completed per weekday.</p>
+              {busiestDays.every((d) => d.completions === 0) ? (
+                emptyNote("No completed tasks in this period.")
+              ) : (
+                <ColumnChart
+                  ui={ui}
+                  columns={busiestDays.map((d) => ({
+                    key: d.day,
+                    label: d.day.slice(0, 3),
+                    value: d.completions,
+                    title: `${d.day}: ${d.completions} tasks, ${d.pointsEarned} points`,
+                  }))}
+                />
+              )}
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,239 @@
+import { useState } from "react";
+import type React from "react";
+import { Link } from "react-router-dom";
+import type { ImportRequest, ImportResult, ImportRowResult } from "../types";
+import { commitImport, previewImport } from "../api";
+import { IMPORT_TEMPLATE_CSV, parseImportFile } from "../utils/importFile";
+
+// ============================================================
+// ImportPage (Parent only)
+// - Set up a family in one go: tasks + rewards from a CSV or JSON file
+// - Pick a file -> the API validates it (dry run) -> preview with the
+//   problems per row -> "Import" creates everything in one server call
+//   (all or nothing)
+// - File layout: see utils/importFile.ts (template download below)
+// ============================================================
+
+export default function ImportPage() {
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [rows, setRows] = useState<ImportRequest | null>(null);
+  const [report, setReport] = useState<ImportResult | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const isDark =
+    typeof window !== "undefined" &&
+    window.matchMedia &&
+    window.matchMedia("(prefers-color-scheme: dark)").matches;
+
+  const ui = {
+    bg: isDark ? "#0b0f19" : "#f8fafc",
+    text: isDark ? "#e5e7eb" : "#0f172a",
+    card: isDark ? "#0f172a" : "#ffffff",
+    border: isDark ? "#1e293b" : "#e2e8f0",
+    subtleText: isDark ? "#94a3b8" : "#64748b",
+    link: isDark ? "#93c5fd" : "#2563eb",
+    buttonBg: isDark ? "#020617" : "#ffffff",
+    buttonText: isDark ? "#e5e7eb" : "#0f172a",
+    successText: isDark ? "#86efac" : "#15803d",
+    dangerBg: isDark ? "#3a1212" : "#fee2e2",
+    dangerText: isDark ? "#fecaca" : "#991b1b",
+  };
+
+  const cardStyle: React.CSSProperties = {
+    border: `1px solid ${ui.border}`,
+    borderRadius: 14,
+    padding: 16,
+    marginBottom: 18,
+    background: ui.card,
+  };
+
+  const buttonStyle: React.CSSProperties = {
+    padding: "10px 12px",
+    borderRadius: 10,
+    border: `1px solid ${ui.border}`,
+    background: ui.buttonBg,
+    color: ui.buttonText,
+    cursor: "pointer",
+    fontWeight: 800,
+  };
+
+  const errorCount = report
+    ? [...report.tasks, ...report.rewards].filter((r) => r.errors.length > 0).length
+    : 0;
+  const canImport = !!rows && !!report && !report.committed && errorCount === 0 && !busy;
+
+  async function onPickFile(e: React.ChangeEvent<HTMLInputElement>) {
+    const file = e.target.files?.[0];
+    e.target.value = ""; // picking the same file again re-runs the preview
+    if (!file) return;
+
+    setFileName(file.name);
+    setRows(null);
+    setReport(null);
+    setError(null);
+
+    try {
+      setBusy(true);
+      const parsed = parseImportFile(file.name, await file.text());
+      setRows(parsed);
+      setReport(await previewImport(parsed));
+    } catch (e: any) {
+      console.error("import preview failed:", e);
+      setError(e?.response?.data ?? e?.message ?? String(e));
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  async function onImport() {
+    if (!rows) return;
+
+    try {
+      setBusy(true);
+      setError(null);
+      setReport(await commitImport(rows));
+    } catch (e: any) {
+      console.error("commitImport failed:", e);
+      const data = e?.response?.data;
+      // 400 with a report: something changed since the preview -> show the new errors
+      if (data && typeof data === "object" && Array.isArray(data.tasks)) setReport(data as ImportResult);
+      else setError(data ?? e?.message ?? String(e));
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  function onDownloadTemplate() {
+    const url = URL.createObjectURL(new Blob([IMPORT_TEMPLATE_CSV], { type: "text/csv" }));
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = "chores-import-template.csv";
+    link.click();
+    URL.revokeObjectURL(url);
+  }
+
+  function resultList(title: string, results: ImportRowResult[]) {
+    if (results.length === 0) return null;
+
+    return (
+      <div style={cardStyle}>
+        <h3 style={{ marginTop: 0 }}>
+          {title} <span style={{ fontSize: 14, color: ui.subtleText }}>({results.length})</span>
+        </h3>
+        <table style={{ width: "100%", borderCollapse: "collapse", fontSize: 14 }}>
+          <tbody>
+            {results.map((r) => (
+              <tr key={r.row} style={{ borderTop: `1px solid ${ui.border}`, verticalAlign: "top" }}>
+                <td style={{ padding: 8, width: 40, color: ui.subtleText }}>#{r.row}</td>
+                <td style={{ padding: 8 }}>{r.summary}</td>
+                <td style={{ padding: 8 }}>
+                  {r.errors.length === 0 ? (
+                    <span style={{ color: ui.successText }}>✔ OK</span>
+                  ) : (
+                    r.errors.map((message) => (
+                      <div key={message} style={{ color: ui.dangerText }}>
+                        {message}
+                      </div>
+                    ))
+                  )}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    );
+  }
+
+  return (
+    <div
+      style={{
+        minHeight: "calc(100vh - 80px)",
+        background: ui.bg,
+        color: ui.text,
+        padding: "32px 16px",
+      }}
+    >
+      <div style={{ maxWidth: 820, margin: "0 auto", fontFamily: "system-ui" }}>
+        <h1 style={{ margin: "0 0 18px", fontSize: 24 }}>Import tasks & rewards</h1>
+
+        <div style={cardStyle}>
+          <p style={{ marginTop: 0, color: ui.subtleText, fontSize: 14 }}>
+            Upload a CSV with the columns <code>type,name,points,kid,schedule,start</code> (type is{" "}
+            <code>task</code> or <code>reward</code>; for rewards "points" is the cost), or a JSON file with{" "}
+            <code>tasks</code> and <code>rewards</code> lists. Kids are matched by name. Schedule: once, daily,
+            weekly, monthly, weekdays, weekends or days like "mon wed fri"; start (YYYY-MM-DD) is optional.
+          </p>
+
+          <div style={{ display: "flex", gap: 10, alignItems: "center", flexWrap: "wrap" }}>
+            <label style={{ ...buttonStyle, display: "inline-block" }}>
+              {busy ? "Checking…" : "Choose file…"}
+              <input
+                type="file"
+                accept=".csv,.json,text/csv,application/json"
+                onChange={(e) => void onPickFile(e)}
+                disabled={busy}
+                style={{ display: "none" }}
+              />
+            </label>
+            {fileName && <span style={{ color: ui.subtleText }}>{fileName}</span>}
+            <button onClick={onDownloadTemplate} style={{ ...buttonStyle, marginLeft: "auto", fontWeight: 600 }}>
+              Download template
+            </button>
+          </div>
+        </div>
+
+        {error && (
+          <div
+            style={{
+              border: `1px solid ${ui.dangerText}`,
+              background: ui.dangerBg,
+              padding: 12,
+              borderRadius: 12,
+              marginBottom: 16,
+              color: ui.dangerText,
+            }}
+          >
+            {typeof error === "string" ? error : JSON.stringify(error)}
+          </div>
+        )}
+
+        {report && (
+          <>
+            <div style={{ ...cardStyle, display: "flex", gap: 12, alignItems: "center" }}>
+              {report.committed ? (
+                <>
+                  <strong style={{ color: ui.successText }}>
+                    Imported {report.tasksCreated} task(s) and {report.rewardsCreated} reward(s).
+                  </strong>
+                  <Link to="/parent/kids" style={{ marginLeft: "auto", color: ui.link, fontWeight: 700 }}>
+                    Go to Kids + Rewards →
+                  </Link>
+                </>
+              ) : (
+                <>
+                  <span>
+                    {errorCount === 0
+                      ? `Ready: ${report.tasks.length} task(s) and ${report.rewards.length} reward(s).`
+                      : `${errorCount} row(s) need fixing. Correct the file and choose it again.`}
+                  </span>
+                  <button
+                    onClick={() => void onImport()}
+                    disabled={!canImport}
+                    style={{ ...buttonStyle, marginLeft: "auto", opacity: canImport ? 1 : 0.5 }}
+                  >
+                    Import
+                  </button>
+                </>
+              )}
+            </div>
+
+            {resultList("Tasks", report.tasks)}
+            {resultList("Rewards", report.rewards)}
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
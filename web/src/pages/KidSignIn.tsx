@@ -0,0 +1,288 @@
+import { useEffect, useState } from "react";
+import type React from "react";
+import { Link, Navigate, useNavigate } from "react-router-dom";
+import type { DeviceKid, DeviceProfiles } from "../types";
+import { getDeviceProfiles } from "../api";
+import { useAuth } from "../context/AuthContext";
+import {
+  KID_PIN_LENGTH,
+  LOGIN_PICTURES,
+  PICTURE_PASSWORD_LENGTH,
+  pictureEmoji,
+  toPictureSecret,
+} from "../utils/kidLoginPictures";
+
+// ============================================================
+// KidSignIn (public, shared kid tablet)
+// - Profile picker: every kid with a login set up by a parent
+// - Then a 4-digit PIN pad or a picture password, checked by the API
+// - Works with only the device token on this browser (no parent token);
+//   the kid gets a kid-scoped JWT and lands on their dashboard
+// ============================================================
+
+const PIN_KEYS = ["1", "2", "3", "4", "5", "6", "7", "8", "9", "", "0", "⌫"];
+
+export default function KidSignIn() {
+  const { auth, signInKidOnDevice, forgetDevice } = useAuth();
+  const navigate = useNavigate();
+
+  const [profiles, setProfiles] = useState<DeviceProfiles | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  const [selectedKid, setSelectedKid] = useState<DeviceKid | null>(null);
+
+  // PIN digits or picture keys entered so far
+  const [entry, setEntry] = useState<string[]>([]);
+
+  const isDark =
+    typeof window !== "undefined" &&
+    window.matchMedia &&
+    window.matchMedia("(prefers-color-scheme: dark)").matches;
+
+  const ui = {
+    bg: isDark ? "#0b0f19" : "#f8fafc",
+    text: isDark ? "#e5e7eb" : "#0f172a",
+    card: isDark ? "#0f172a" : "#ffffff",
+    border: isDark ? "#1e293b" : "#e2e8f0",
+    subtleText: isDark ? "#94a3b8" : "#64748b",
+    dangerBg: isDark ? "#3a1212" : "#fee2e2",
+    dangerText: isDark ? "#fecaca" : "#991b1b",
+  };
+
+  const tileStyle: React.CSSProperties = {
+    border: `1px solid ${ui.border}`,
+    borderRadius: 16,
+    background: ui.card,
+    color: ui.text,
+    cursor: "pointer",
+    fontWeight: 800,
+  };
+
+  useEffect(() => {
+    if (!auth.deviceToken) return;
+
+    getDeviceProfiles(auth.deviceToken)
+      .then(setProfiles)
+      .catch((e: any) => {
+        console.error("KidSignIn: getDeviceProfiles failed", e);
+
+        // Device revoked by a parent -> this browser is no longer a kid tablet
+        if (e?.response?.status === 401) {
+          forgetDevice();
+          return;
+        }
+        setError(e?.message ?? String(e));
+      });
+  }, [auth.deviceToken]);
+
+  // Already signed in as a kid -> straight to their dashboard
+  if (auth.activeRole === "Kid" && auth.kidToken && auth.kidId) {
+    return <Navigate to={`/kid/kids/${auth.kidId}`} replace />;
+  }
+
+  const requiredLength =
+    selectedKid?.loginMethod === "Picture" ? PICTURE_PASSWORD_LENGTH : KID_PIN_LENGTH;
+
+  async function submit(kid: DeviceKid, values: string[]) {
+    const secret = kid.loginMethod === "Picture" ? toPictureSecret(values) : values.join("");
+
+    try {
+      setBusy(true);
+      setError(null);
+      await signInKidOnDevice(kid.id, secret);
+      navigate(`/kid/kids/${kid.id}`, { replace: true });
+    } catch (e: any) {
+      setEntry([]);
+      setError(e?.response?.data ?? e?.message ?? String(e));
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  // Adds one digit / picture; submits once the secret is complete
+  function press(value: string) {
+    if (!selectedKid || busy) return;
+
+    if (value === "⌫") {
+      setEntry((prev) => prev.slice(0, -1));
+      return;
+    }
+
+    const next = [...entry, value];
+    setEntry(next);
+    if (next.length === requiredLength) void submit(selectedKid, next);
+  }
+
+  function pickKid(kid: DeviceKid | null) {
+    setSelectedKid(kid);
+    setEntry([]);
+    setError(null);
+  }
+
+  return (
+    <div
+      style={{
+        minHeight: "calc(100vh - 80px)",
+        background: ui.bg,
+        color: ui.text,
+        padding: "32px 16px",
+      }}
+    >
+      <div style={{ maxWidth: 640, margin: "0 auto", fontFamily: "system-ui", textAlign: "center" }}>
+        {!auth.deviceToken ? (
+          <>
+            <h1 style={{ fontSize: 24 }}>Kid sign-in isn't set up here</h1>
+            <p style={{ color: ui.subtleText }}>
+              A parent can turn this device into a kid tablet under Settings → Shared devices.
+            </p>
+            <Link to="/login">Parent login</Link>
+          </>
+        ) : (
+          <>
+            <h1 style={{ margin: "0 0 6px", fontSize: 28 }}>
+              {selectedKid ? `Hi ${selectedKid.displayName}!` : "Who's using the tablet?"}
+            </h1>
+            <p style={{ marginTop: 0, color: ui.subtleText }}>
+              {selectedKid
+                ? selectedKid.loginMethod === "Picture"
+                  ? "Tap your pictures in order."
+                  : "Type your PIN."
+                : profiles?.familyName}
+            </p>
+
+            {error && (
+              <div
+                style={{
+                  border: `1px solid ${ui.dangerText}`,
+                  background: ui.dangerBg,
+                  padding: 12,
+                  borderRadius: 12,
+                  marginBottom: 16,
+                  color: ui.dangerText,
+                }}
+              >
+                {typeof error === "string" ? error : JSON.stringify(error)}
+              </div>
+            )}
+
+            {/* Step 1: profile picker */}
+            {!selectedKid && (
+              <div
+                style={{
+                  display: "grid",
+                  gridTemplateColumns: "repeat(auto-fill, minmax(140px, 1fr))",
+                  gap: 14,
+                }}
+              >
+                {profiles?.kids.map((k) => (
+                  <button key={k.id} onClick={() => pickKid(k)} style={{ ...tileStyle, padding: 18 }}>
+                    <div
+                      style={{
+                        width: 72,
+                        height: 72,
+                        margin: "0 auto 10px",
+                        borderRadius: 999,
+                        display: "grid",
+                        placeItems: "center",
+                        fontSize: 40,
+                        background: k.color || ui.border,
+                      }}
+                    >
+                      {k.avatar || k.displayName.slice(0, 1).toUpperCase()}
+                    </div>
+                    {k.displayName}
+                  </button>
+                ))}
+
+                {profiles && profiles.kids.length === 0 && (
+                  <p style={{ gridColumn: "1 / -1", color: ui.subtleText }}>
+                    No kid has a PIN or picture password yet. A parent can add one in Manage Kids.
+                  </p>
+                )}
+              </div>
+            )}
+
+            {/* Step 2: PIN pad or picture grid */}
+            {selectedKid && (
+              <>
+                <div style={{ display: "flex", justifyContent: "center", gap: 10, margin: "8px 0 18px" }}>
+                  {Array.from({ length: requiredLength }, (_, i) => (
+                    <span
+                      key={i}
+                      style={{
+                        width: 44,
+                        height: 44,
+                        borderRadius: 12,
+                        border: `2px solid ${ui.border}`,
+                        display: "grid",
+                        placeItems: "center",
+                        fontSize: 24,
+                      }}
+                    >
+                      {i < entry.length ? (selectedKid.loginMethod === "Picture" ? pictureEmoji(entry[i]) : "●") : ""}
+                    </span>
+                  ))}
+                </div>
+
+                <div
+                  style={{
+                    display: "grid",
+                    gridTemplateColumns: "repeat(3, 88px)",
+                    justifyContent: "center",
+                    gap: 12,
+                  }}
+                >
+                  {selectedKid.loginMethod === "Picture"
+                    ? LOGIN_PICTURES.map((p) => (
+                        <button
+                          key={p.key}
+                          aria-label={p.label}
+                          disabled={busy}
+                          onClick={() => press(p.key)}
+                          style={{ ...tileStyle, height: 88, fontSize: 44 }}
+                        >
+                          {p.emoji}
+                        </button>
+                      ))
+                    : PIN_KEYS.map((key, i) =>
+                        key ? (
+                          <button
+                            key={key}
+                            disabled={busy}
+                            onClick={() => press(key)}
+                            style={{ ...tileStyle, height: 72, fontSize: 28 }}
+                          >
+                            {key}
+                          </button>
+                        ) : (
+                          <span key={`gap-${i}`} />
+                        )
+                      )}
+                </div>
+
+                {selectedKid.loginMethod === "Picture" && entry.length > 0 && (
+                  <button onClick={() => press("⌫")} style={{ ...tileStyle, marginTop: 14, padding: "8px 14px" }}>
+                    ⌫ Undo
+                  </button>
+                )}
+
+                <div style={{ marginTop: 22 }}>
+                  <button onClick={() => pickKid(null)} style={{ ...tileStyle, padding: "10px 16px" }}>
+                    ← Not {selectedKid.displayName}?
+                  </button>
+                </div>
+              </>
+            )}
+
+            <p style={{ marginTop: 32, fontSize: 13 }}>
+              <Link to="/login" style={{ color: ui.subtleText }}>
+                Parent login
+              </Link>
+            </p>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -1,6 +1,16 @@
 import { useEffect, useMemo, useState } from "react";
-import { Link, useParams, Navigate, useNavigate } from "react-router-dom";
-import type { KidTask, Reward } from "../types";
+import { Link, useParams, Navigate, useNavigate, useLocation } from "react-router-dom";
+import type {
+  Achievement,
+  Achievements,
+  KidTask,
+  RedemptionItem,
+  Reward,
+  RewardAvailability,
+  RewardLimits,
+  SavingsGoal,
+  TaskDeadline,
+} from "../types";
 import {
   getTasks,
   getPoints,
@@ -13,19 +23,69 @@ import {
   deleteTask,
   updateReward,
   deleteReward,
+  getMyRedemptions,
+  adjustKidPoints,
+  getSavingsGoal,
+  setSavingsGoal,
+  clearSavingsGoal,
+  getRewardAvailability,
+  getAchievements,
+  takeNewAchievements,
 } from "../api";
 
 import { useAuth } from "../context/AuthContext";
 import type React from "react";
 import KidSelector from "../components/KidSelector";
+import ScheduleEditor from "../components/ScheduleEditor";
+import ApprovalQueue from "../components/ApprovalQueue";
+import SavingsGoalCard from "../components/SavingsGoalCard";
+import RewardLimitsEditor from "../components/RewardLimitsEditor";
+import TaskDeadlineEditor from "../components/TaskDeadlineEditor";
+import TrophyShelf from "../components/TrophyShelf";
+import AchievementToast from "../components/AchievementToast";
+import { NO_LIMITS, describeAvailability, describeLimits, limitsOf } from "../utils/rewardLimits";
+import { loadSnapshot, saveSnapshot } from "../utils/offlineStore";
+import { isNetworkError, newIdempotencyKey, queueAction, subscribeOutbox, type OutboxState } from "../utils/outbox";
+import { batchEvents, subscribeFamilyEvents } from "../utils/liveEvents";
+import { NO_DEADLINE, deadlineOf, dueAtOf, dueState, formatDue, sortByUrgency } from "../utils/taskDeadline";
+import {
+  describeSchedule,
+  formatOccurrence,
+  toDateOnly,
+  type Schedule,
+} from "../utils/schedule";
+import { familyToday, refreshFamilyClock } from "../utils/familyClock";
 import type { KidProfile } from "../types";
 import { getKids } from "../api";
+import { parseUtc } from "../utils/dates";
+
+// Blank schedule for the create/edit forms (one-time task starting today)
+function emptySchedule(): Schedule {
+  return { recurrence: "None", recurrenceDays: 0, startDate: familyToday() };
+}
+
+// What offline Kid Mode keeps per kid (IndexedDB, see offlineStore.ts)
+type KidSnapshot = {
+  tasks: KidTask[];
+  points: number;
+  rewards: Reward[];
+  goal: SavingsGoal | null;
+  availability: RewardAvailability[];
+};
+
+// Recurring task already done for its current occurrence (next one is in the future)
+function isWaitingForNextOccurrence(t: KidTask): boolean {
+  if (t.recurrence === "None") return false;
+  const next = toDateOnly(t.occurrenceDate);
+  return next === null || next > familyToday();
+}
 
 export default function KidsRewardsPage() {
   const { auth, setAuth } = useAuth();
   const { kidId } = useParams<{ kidId: string }>();
 
   const navigate = useNavigate();
+  const location = useLocation();
   const [kids, setKids] = useState<KidProfile[]>([]);
   const isKidMode = auth?.uiMode === "Kid";
   const isParentMode = auth?.activeRole === "Parent" && auth?.uiMode === "Parent";
@@ -49,6 +109,8 @@ export default function KidsRewardsPage() {
     buttonText: isDark ? "#e5e7eb" : "#0f172a",
     dangerBg: isDark ? "#3a1212" : "#fee2e2",
     dangerText: isDark ? "#fecaca" : "#991b1b",
+    warnBg: isDark ? "#3a2a0a" : "#fef3c7",
+    warnText: isDark ? "#fde68a" : "#92400e",
   };
 
   // ✅ Load kids (Parent mode only)
@@ -96,6 +158,15 @@ export default function KidsRewardsPage() {
   const [tasks, setTasks] = useState<KidTask[]>([]);
   const [points, setPoints] = useState<number>(0);
   const [rewards, setRewards] = useState<Reward[]>([]);
+  const [myRedemptions, setMyRedemptions] = useState<RedemptionItem[]>([]);
+  const [goal, setGoal] = useState<SavingsGoal | null>(null);
+  const [availability, setAvailability] = useState<RewardAvailability[]>([]);
+  const [achievements, setAchievements] = useState<Achievements | null>(null);
+  const [newBadges, setNewBadges] = useState<Achievement[]>([]);
+
+  // Offline Kid Mode: when the last load came from the saved snapshot (ms timestamp)
+  const [savedAt, setSavedAt] = useState<number | null>(null);
+  const [outbox, setOutbox] = useState<OutboxState | null>(null);
 
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
@@ -103,9 +174,18 @@ export default function KidsRewardsPage() {
   // Parent/admin form state
   const [taskTitle, setTaskTitle] = useState("");
   const [taskPoints, setTaskPoints] = useState(5);
+  const [taskSchedule, setTaskSchedule] = useState<Schedule>(() => emptySchedule());
+  const [taskRequiresApproval, setTaskRequiresApproval] = useState(false);
+  const [taskDeadline, setTaskDeadline] = useState<TaskDeadline>(NO_DEADLINE);
 
   const [rewardName, setRewardName] = useState("");
   const [rewardCost, setRewardCost] = useState(20);
+  const [rewardLimits, setRewardLimits] = useState<RewardLimits>(NO_LIMITS);
+
+  const [adjustKind, setAdjustKind] = useState<"Bonus" | "Deduct">("Bonus");
+  const [adjustAmount, setAdjustAmount] = useState(5);
+  const [adjustNote, setAdjustNote] = useState("");
+  const [adjustCategory, setAdjustCategory] = useState("");
 
   // ✅ Option A: kidId comes from the URL
   const effectiveKidId = useMemo(() => {
@@ -132,21 +212,35 @@ export default function KidsRewardsPage() {
   const [editingTaskId, setEditingTaskId] = useState<number | null>(null);
   const [editTaskTitle, setEditTaskTitle] = useState("");
   const [editTaskPoints, setEditTaskPoints] = useState(0);
+  const [editTaskSchedule, setEditTaskSchedule] = useState<Schedule>(() => emptySchedule());
+  const [editTaskRequiresApproval, setEditTaskRequiresApproval] = useState(false);
+  const [editTaskDeadline, setEditTaskDeadline] = useState<TaskDeadline>(NO_DEADLINE);
 
   const [editingRewardId, setEditingRewardId] = useState<number | null>(null);
   const [editRewardName, setEditRewardName] = useState("");
   const [editRewardCost, setEditRewardCost] = useState(0);
+  const [editRewardLimits, setEditRewardLimits] = useState<RewardLimits>(NO_LIMITS);
 
   function startEditTask(t: KidTask) {
     setEditingTaskId(t.id);
     setEditTaskTitle(t.title);
     setEditTaskPoints(t.points);
+    setEditTaskSchedule({
+      recurrence: t.recurrence ?? "None",
+      recurrenceDays: t.recurrenceDays ?? 0,
+      startDate: toDateOnly(t.startDate) ?? familyToday(),
+    });
+    setEditTaskRequiresApproval(t.requiresApproval);
+    setEditTaskDeadline(deadlineOf(t));
   }
 
   function cancelEditTask() {
     setEditingTaskId(null);
     setEditTaskTitle("");
     setEditTaskPoints(0);
+    setEditTaskSchedule(emptySchedule());
+    setEditTaskRequiresApproval(false);
+    setEditTaskDeadline(NO_DEADLINE);
   }
 
   async function onSaveTask(id: number) {
@@ -156,12 +250,15 @@ export default function KidsRewardsPage() {
         title: editTaskTitle.trim(),
         points: Number(editTaskPoints) || 0,
         assignedKidId: effectiveKidId, // keep it assigned to the current kid page
+        ...editTaskSchedule,
+        requiresApproval: editTaskRequiresApproval,
+        deadline: editTaskDeadline,
       });
       cancelEditTask();
       await loadAll(effectiveKidId);
     } catch (e: any) {
       console.error("updateTask failed:", e);
-      setError(e?.message ?? String(e));
+      setError(e?.response?.data ?? e?.message ?? String(e));
     }
   }
 
@@ -182,12 +279,14 @@ export default function KidsRewardsPage() {
     setEditingRewardId(r.id);
     setEditRewardName(r.name);
     setEditRewardCost(r.cost);
+    setEditRewardLimits(limitsOf(r));
   }
 
   function cancelEditReward() {
     setEditingRewardId(null);
     setEditRewardName("");
     setEditRewardCost(0);
+    setEditRewardLimits(NO_LIMITS);
   }
 
   async function onSaveReward(id: number) {
@@ -196,12 +295,13 @@ export default function KidsRewardsPage() {
       await updateReward(id, {
         name: editRewardName.trim(),
         cost: Number(editRewardCost) || 0,
+        limits: editRewardLimits,
       });
       cancelEditReward();
       await loadAll(effectiveKidId);
     } catch (e: any) {
       console.error("updateReward failed:", e);
-      setError(e?.message ?? String(e));
+      setError(e?.response?.data ?? e?.message ?? String(e));
     }
   }
 
@@ -219,10 +319,50 @@ export default function KidsRewardsPage() {
   }
 
   async function loadAll(id: string) {
-    const [t, p, r] = await Promise.all([getTasks(id), getPoints(id), getRewards()]);
-    setTasks(t);
-    setPoints(p.points);
-    setRewards(r);
+    let snapshot: KidSnapshot;
+    let offline = false;
+    try {
+      // Family clock too: "done for today" depends on the family's date
+      const [t, p, r, g, a] = await Promise.all([
+        getTasks(id),
+        getPoints(id),
+        getRewards(),
+        getSavingsGoal(id),
+        getRewardAvailability(id),
+        refreshFamilyClock(),
+      ]);
+      snapshot = { tasks: t, points: p.points, rewards: r, goal: g, availability: a };
+      void saveSnapshot(`kid:${id}`, snapshot);
+      setSavedAt(null);
+    } catch (e) {
+      // No connection: last saved copy (if this tablet ever loaded this kid)
+      const saved = isNetworkError(e) ? await loadSnapshot<KidSnapshot>(`kid:${id}`) : null;
+      if (!saved) throw e;
+
+      snapshot = saved.value;
+      offline = true;
+      setSavedAt(saved.savedAt);
+    }
+
+    setTasks(snapshot.tasks);
+    setPoints(snapshot.points);
+    setRewards(snapshot.rewards);
+    setGoal(snapshot.goal);
+    setAvailability(snapshot.availability);
+
+    // Redemptions + badges aren't kept offline
+    if (offline) return;
+
+    // Kid session only: rewards bought but not handed over yet
+    if (auth?.activeRole === "Kid") setMyRedemptions(await getMyRedemptions());
+
+    // Kid session only: trophy shelf + toasts for badges not shown yet
+    // (including ones earned while a parent approved tasks)
+    if (auth?.activeRole === "Kid") {
+      const [all, fresh] = await Promise.all([getAchievements(id), takeNewAchievements(id)]);
+      setAchievements(all);
+      if (fresh.length > 0) setNewBadges((prev) => [...prev, ...fresh]);
+    }
   }
 
   useEffect(() => {
@@ -246,14 +386,118 @@ export default function KidsRewardsPage() {
     })();
   }, [effectiveKidId]);
 
-  async function onCompleteTask(id: number) {
+  // Queued (offline) completions show as "waiting to sync"; reload once a replay went through
+  useEffect(() => subscribeOutbox(setOutbox), []);
+
+  const lastSyncAt = outbox?.lastSyncAt ?? null;
+  useEffect(() => {
+    if (lastSyncAt === null || !effectiveKidId) return;
+    loadAll(effectiveKidId).catch((e) => console.error("loadAll after sync failed:", e));
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [lastSyncAt]);
+
+  const queuedTaskIds = useMemo(
+    () =>
+      new Set(
+        (outbox?.pending ?? []).flatMap((item) =>
+          item.kind === "completeTask" && item.kidId === effectiveKidId ? [item.taskId] : []
+        )
+      ),
+    [outbox, effectiveKidId]
+  );
+
+  // Live updates (e.g. the kid completed a chore on the tablet): re-read only what changed
+  useEffect(() => {
+    if (!effectiveKidId) return;
+
+    const live = batchEvents(async (events) => {
+      const mine = events.filter((e) => e.kidId === effectiveKidId);
+      if (mine.length === 0) return;
+
+      // The event already carries the new balance
+      const balance = mine.filter((e) => e.type === "points.changed").pop()?.pointsBalance;
+      if (balance !== undefined && balance !== null) setPoints(balance);
+
+      try {
+        if (mine.some((e) => e.type.startsWith("task."))) setTasks(await getTasks(effectiveKidId));
+
+        if (mine.some((e) => e.type === "points.changed" || e.type === "reward.redeemed" || e.type === "redemption.updated")) {
+          const [g, a] = await Promise.all([getSavingsGoal(effectiveKidId), getRewardAvailability(effectiveKidId)]);
+          setGoal(g);
+          setAvailability(a);
+          if (auth?.activeRole === "Kid") setMyRedemptions(await getMyRedemptions());
+        }
+      } catch (e) {
+        console.warn("Live update refresh failed", e);
+      }
+    });
+
+    const unsubscribe = subscribeFamilyEvents(live.listener);
+    return () => {
+      unsubscribe();
+      live.cancel();
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [effectiveKidId, auth?.activeRole]);
+
+  // ✅ Deep links from the points history page (#task-12 / #reward-3)
+  useEffect(() => {
+    if (loading || !location.hash) return;
+    document.getElementById(location.hash.slice(1))?.scrollIntoView({ behavior: "smooth", block: "center" });
+  }, [loading, location.hash]);
+
+  // Most urgent first (overdue, due today, upcoming, no deadline, done)
+  const sortedTasks = useMemo(() => sortByUrgency(tasks), [tasks]);
+
+  function dueBadge(t: KidTask) {
+    const state = dueState(t);
+    if (!state) return null;
+
+    const due = dueAtOf(t);
+    const urgent = state === "Overdue" || state === "Expired";
+    const label =
+      state === "Expired"
+        ? "Expired"
+        : state === "Overdue"
+          ? `Overdue${t.latePointsPercent !== null ? ` • ${t.latePointsPercent}% pts` : ""}`
+          : state === "DueToday"
+            ? `Due today ${formatDue(due!)}`
+            : `Due ${formatDue(due!)}`;
+
+    return (
+      <span
+        style={{
+          marginLeft: 8,
+          padding: "2px 8px",
+          borderRadius: 999,
+          fontSize: 12,
+          fontWeight: 700,
+          background: urgent ? ui.dangerBg : state === "DueToday" ? ui.warnBg : "transparent",
+          color: urgent ? ui.dangerText : state === "DueToday" ? ui.warnText : ui.subtleText,
+        }}
+      >
+        ⏰ {label}
+      </span>
+    );
+  }
+
+  async function onCompleteTask(t: KidTask) {
+    // Key made up front: a retry of this tap (now or from the outbox) can't count twice
+    const key = newIdempotencyKey();
+
     try {
       setError(null);
-      await completeTask(id);
+      await completeTask(t.id, effectiveKidId, key);
       await loadAll(effectiveKidId);
     } catch (e: any) {
+      if (isNetworkError(e)) {
+        // Offline: queue it, OfflineIndicator sends it when the connection is back
+        await queueAction({ kind: "completeTask", taskId: t.id, kidId: effectiveKidId }, t.title, key);
+        return;
+      }
+
       console.error("completeTask failed:", e);
-      setError(e?.message ?? String(e));
+      setError(e?.response?.data ?? e?.message ?? String(e));
     }
   }
 
@@ -267,10 +511,52 @@ export default function KidsRewardsPage() {
       }
     } catch (e: any) {
       console.error("redeemReward failed:", e);
-      setError(e?.message ?? String(e));
+      // Refusals come back as { code, message }
+      setError(e?.response?.data?.message ?? e?.response?.data ?? e?.message ?? String(e));
     }
   }
 
+  // Pin a reward as the savings goal (keeps the lock setting when switching goals)
+  async function onSetGoal(rewardId: number, lockPoints?: boolean) {
+    if (!effectiveKidId) return;
+
+    try {
+      setError(null);
+      setGoal(await setSavingsGoal(effectiveKidId, { rewardId, lockPoints }));
+    } catch (e: any) {
+      console.error("setSavingsGoal failed:", e);
+      setError(e?.response?.data ?? e?.message ?? String(e));
+    }
+  }
+
+  async function onClearGoal() {
+    if (!effectiveKidId) return;
+
+    try {
+      setError(null);
+      await clearSavingsGoal(effectiveKidId);
+      setGoal(null);
+    } catch (e: any) {
+      console.error("clearSavingsGoal failed:", e);
+      setError(e?.response?.data ?? e?.message ?? String(e));
+    }
+  }
+
+  const availabilityFor = (r: Reward) => availability.find((a) => a.rewardId === r.id);
+
+  // Parent sees the configured limits, a kid what they mean right now ("3 left", "available again Friday")
+  const rewardNote = (r: Reward) =>
+    isParentMode ? describeLimits(limitsOf(r)) : describeAvailability(availabilityFor(r));
+
+  // Limits (stock, caps, cooldown) first; then a locked goal reserves its cost:
+  // other rewards may only use points above it
+  function canAfford(r: Reward) {
+    if (availabilityFor(r)?.blockedCode) return false;
+    if (points < r.cost) return false;
+    if (goal?.locksPoints && goal.rewardId !== r.id) return points - r.cost >= goal.cost;
+    return true;
+  }
+
   async function onCreateTask(e: React.FormEvent<HTMLFormElement>) {
     e.preventDefault();
     if (!effectiveKidId) return;
@@ -284,12 +570,18 @@ export default function KidsRewardsPage() {
         title,
         points: Number(taskPoints) || 0,
         assignedKidId: effectiveKidId,
+        ...taskSchedule,
+        requiresApproval: taskRequiresApproval,
+        deadline: taskDeadline,
       });
       setTaskTitle("");
+      setTaskSchedule(emptySchedule());
+      setTaskRequiresApproval(false);
+      setTaskDeadline(NO_DEADLINE);
       await loadAll(effectiveKidId);
     } catch (e: any) {
       console.error("createTask failed:", e);
-      setError(e?.message ?? String(e));
+      setError(e?.response?.data ?? e?.message ?? String(e));
     }
   }
 
@@ -304,8 +596,10 @@ export default function KidsRewardsPage() {
       await createReward({
         name,
         cost: Number(rewardCost) || 0,
+        limits: rewardLimits,
       });
       setRewardName("");
+      setRewardLimits(NO_LIMITS);
 
       if (effectiveKidId) {
         await loadAll(effectiveKidId);
@@ -314,7 +608,31 @@ export default function KidsRewardsPage() {
       }
     } catch (e: any) {
       console.error("createReward failed:", e);
-      setError(e?.message ?? String(e));
+      setError(e?.response?.data ?? e?.message ?? String(e));
+    }
+  }
+
+  async function onAdjustPoints(e: React.FormEvent) {
+    e.preventDefault();
+    if (!effectiveKidId) return;
+
+    const note = adjustNote.trim();
+    const amount = Math.abs(Number(adjustAmount) || 0);
+    if (!note || amount === 0) return;
+
+    try {
+      setError(null);
+      await adjustKidPoints(effectiveKidId, {
+        delta: adjustKind === "Bonus" ? amount : -amount,
+        note,
+        category: adjustCategory.trim() || undefined,
+      });
+      setAdjustNote("");
+      setAdjustCategory("");
+      await loadAll(effectiveKidId);
+    } catch (e: any) {
+      console.error("adjustKidPoints failed:", e);
+      setError(e?.response?.data ?? e?.message ?? String(e));
     }
   }
 
@@ -358,7 +676,12 @@ export default function KidsRewardsPage() {
           <div style={{ minWidth: 120, fontWeight: 600 }}>Select Kid:</div>
 
           {kids.length === 0 ? (
-            <span style={{ color: ui.subtleText }}>No kids found.</span>
+            <span style={{ color: ui.subtleText }}>
+              No kids found.{" "}
+              <Link to="/parent/manage-kids" style={{ color: ui.link }}>
+                Add a kid
+              </Link>
+            </span>
           ) : (
             <KidSelector
               kids={kids}
@@ -429,6 +752,23 @@ export default function KidsRewardsPage() {
           </div>
         )}
 
+        {/* Offline: data is the last saved copy */}
+        {savedAt !== null && (
+          <div
+            style={{
+              border: `1px solid ${ui.border}`,
+              background: ui.warnBg,
+              color: ui.warnText,
+              padding: 12,
+              borderRadius: 12,
+              marginBottom: 16,
+            }}
+          >
+            You're offline. Showing what was saved {new Date(savedAt).toLocaleString()}; completed tasks are
+            sent when the connection is back.
+          </div>
+        )}
+
         {/* Header row */}
         <div
           style={{
@@ -465,6 +805,36 @@ export default function KidsRewardsPage() {
               Points: {points}
             </div>
 
+            <Link
+              to={`${kidsBasePath}/${effectiveKidId}/history`}
+              style={{
+                border: `1px solid ${ui.border}`,
+                background: ui.buttonBg,
+                color: ui.buttonText,
+                borderRadius: 12,
+                padding: "8px 12px",
+                fontWeight: 700,
+                textDecoration: "none",
+              }}
+            >
+              History
+            </Link>
+
+            <Link
+              to={`${kidsBasePath}/${effectiveKidId}/payouts`}
+              style={{
+                border: `1px solid ${ui.border}`,
+                background: ui.buttonBg,
+                color: ui.buttonText,
+                borderRadius: 12,
+                padding: "8px 12px",
+                fontWeight: 700,
+                textDecoration: "none",
+              }}
+            >
+              Allowance
+            </Link>
+
             {isParentMode && (
               <button
                 onClick={() => navigate("/parent/select-kid")}
@@ -485,6 +855,16 @@ export default function KidsRewardsPage() {
         </div>
 
 
+      {/* Parent review queue (task completions waiting for approval) */}
+      {isParentMode && !!auth?.parentToken && (
+        <ApprovalQueue
+          ui={ui}
+          onReviewed={async () => {
+            if (effectiveKidId) await loadAll(effectiveKidId);
+          }}
+        />
+      )}
+
       {/* Tasks card */}
       <div
         style={{
@@ -504,9 +884,10 @@ export default function KidsRewardsPage() {
           <p style={{ color: ui.subtleText }}>No tasks yet for this kid.</p>
         ) : (
           <ul style={{ listStyle: "none", padding: 0, margin: 0 }}>
-            {tasks.map((t) => (
+            {sortedTasks.map((t) => (
               <li
                 key={t.id}
+                id={`task-${t.id}`}
                 style={{
                   display: "flex",
                   alignItems: "center",
@@ -517,38 +898,87 @@ export default function KidsRewardsPage() {
               >
                 <div style={{ flex: 1 }}>
                   {editingTaskId === t.id ? (
-                    <div style={{ display: "flex", gap: 8, alignItems: "center" }}>
-                      <input
-                        value={editTaskTitle}
-                        onChange={(e) => setEditTaskTitle(e.target.value)}
-                        style={{
-                          padding: 10,
+                    <div style={{ display: "grid", gap: 8 }}>
+                      <div style={{ display: "flex", gap: 8, alignItems: "center" }}>
+                        <input
+                          value={editTaskTitle}
+                          onChange={(e) => setEditTaskTitle(e.target.value)}
+                          style={{
+                            padding: 10,
+                            borderRadius: 10,
+                            border: `1px solid ${ui.border}`,
+                            background: ui.bg,
+                            color: ui.text,
+                            flex: 1,
+                          }}
+                        />
+                        <input
+                          type="number"
+                          value={editTaskPoints}
+                          onChange={(e) => setEditTaskPoints(Number(e.target.value))}
+                          min={0}
+                          style={{
+                            padding: 10,
+                            borderRadius: 10,
+                            border: `1px solid ${ui.border}`,
+                            background: ui.bg,
+                            color: ui.text,
+                            width: 110,
+                          }}
+                        />
+                      </div>
+                      <ScheduleEditor
+                        value={editTaskSchedule}
+                        onChange={setEditTaskSchedule}
+                        subtleColor={ui.subtleText}
+                        inputStyle={{
+                          padding: 8,
                           borderRadius: 10,
                           border: `1px solid ${ui.border}`,
                           background: ui.bg,
                           color: ui.text,
-                          flex: 1,
                         }}
                       />
-                      <input
-                        type="number"
-                        value={editTaskPoints}
-                        onChange={(e) => setEditTaskPoints(Number(e.target.value))}
-                        min={0}
-                        style={{
-                          padding: 10,
+                      <TaskDeadlineEditor
+                        value={editTaskDeadline}
+                        recurring={editTaskSchedule.recurrence !== "None"}
+                        onChange={setEditTaskDeadline}
+                        subtleColor={ui.subtleText}
+                        inputStyle={{
+                          padding: 8,
                           borderRadius: 10,
                           border: `1px solid ${ui.border}`,
                           background: ui.bg,
                           color: ui.text,
-                          width: 110,
                         }}
                       />
+                      <label style={{ display: "flex", gap: 6, alignItems: "center", fontSize: 14 }}>
+                        <input
+                          type="checkbox"
+                          checked={editTaskRequiresApproval}
+                          onChange={(e) => setEditTaskRequiresApproval(e.target.checked)}
+                        />
+                        Needs parent approval
+                      </label>
                     </div>
                   ) : (
                     <span style={{ textDecoration: t.isComplete ? "line-through" : "none" }}>
                       {t.title}{" "}
                       <span style={{ color: ui.subtleText }}>({t.points} pts)</span>
+                      {t.recurrence !== "None" && (
+                        <span style={{ marginLeft: 8, fontSize: 12, color: ui.subtleText }}>
+                          🔁 {describeSchedule(t)}
+                        </span>
+                      )}
+                      {t.requiresApproval && isParentMode && (
+                        <span style={{ marginLeft: 8, fontSize: 12, color: ui.subtleText }}>✋ approval</span>
+                      )}
+                      {dueBadge(t)}
+                      {t.rejectionReason && !t.isPendingApproval && (
+                        <span style={{ display: "block", fontSize: 12, color: ui.dangerText }}>
+                          Not approved: {t.rejectionReason}
+                        </span>
+                      )}
                     </span>
                   )}
                 </div>
@@ -557,9 +987,21 @@ export default function KidsRewardsPage() {
                 <div style={{ display: "flex", gap: 8, alignItems: "center" }}>
                   {t.isComplete ? (
                     <span style={{ fontSize: 12, color: ui.subtleText }}>Completed</span>
+                  ) : t.expiredAtUtc ? (
+                    <span style={{ fontSize: 12, color: ui.subtleText }}>Expired</span>
+                  ) : queuedTaskIds.has(t.id) ? (
+                    <span style={{ fontSize: 12, color: ui.warnText }}>⏳ Done • waiting to sync</span>
+                  ) : t.isPendingApproval ? (
+                    <span style={{ fontSize: 12, color: ui.subtleText }}>Waiting for approval</span>
+                  ) : isWaitingForNextOccurrence(t) ? (
+                    <span style={{ fontSize: 12, color: ui.subtleText }}>
+                      {t.occurrenceDate
+                        ? `Done • next ${formatOccurrence(toDateOnly(t.occurrenceDate)!)}`
+                        : "Done"}
+                    </span>
                   ) : (
                     <button
-                      onClick={() => onCompleteTask(t.id)}
+                      onClick={() => onCompleteTask(t)}
                       style={{
                         padding: "8px 12px",
                         borderRadius: 10,
@@ -646,6 +1088,16 @@ export default function KidsRewardsPage() {
         )}
       </div>
 
+      {/* Savings goal (progress + ETA) */}
+      {goal && (
+        <SavingsGoalCard
+          ui={ui}
+          goal={goal}
+          onToggleLock={(next) => onSetGoal(goal.rewardId, next)}
+          onClear={onClearGoal}
+        />
+      )}
+
       {/* Rewards card */}
       <div
         style={{
@@ -668,6 +1120,7 @@ export default function KidsRewardsPage() {
             {rewards.map((r) => (
               <li
                 key={r.id}
+                id={`reward-${r.id}`}
                 style={{
                   display: "flex",
                   alignItems: "center",
@@ -678,37 +1131,55 @@ export default function KidsRewardsPage() {
               >
                 <div style={{ flex: 1 }}>
                   {editingRewardId === r.id ? (
-                    <div style={{ display: "flex", gap: 8, alignItems: "center" }}>
-                      <input
-                        value={editRewardName}
-                        onChange={(e) => setEditRewardName(e.target.value)}
-                        style={{
-                          padding: 10,
-                          borderRadius: 10,
-                          border: `1px solid ${ui.border}`,
-                          background: ui.bg,
-                          color: ui.text,
-                          flex: 1,
-                        }}
-                      />
-                      <input
-                        type="number"
-                        value={editRewardCost}
-                        onChange={(e) => setEditRewardCost(Number(e.target.value))}
-                        min={0}
-                        style={{
-                          padding: 10,
+                    <div style={{ display: "grid", gap: 8 }}>
+                      <div style={{ display: "flex", gap: 8, alignItems: "center" }}>
+                        <input
+                          value={editRewardName}
+                          onChange={(e) => setEditRewardName(e.target.value)}
+                          style={{
+                            padding: 10,
+                            borderRadius: 10,
+                            border: `1px solid ${ui.border}`,
+                            background: ui.bg,
+                            color: ui.text,
+                            flex: 1,
+                          }}
+                        />
+                        <input
+                          type="number"
+                          value={editRewardCost}
+                          onChange={(e) => setEditRewardCost(Number(e.target.value))}
+                          min={0}
+                          style={{
+                            padding: 10,
+                            borderRadius: 10,
+                            border: `1px solid ${ui.border}`,
+                            background: ui.bg,
+                            color: ui.text,
+                            width: 110,
+                          }}
+                        />
+                      </div>
+                      <RewardLimitsEditor
+                        value={editRewardLimits}
+                        onChange={setEditRewardLimits}
+                        subtleColor={ui.subtleText}
+                        inputStyle={{
+                          padding: 8,
                           borderRadius: 10,
                           border: `1px solid ${ui.border}`,
                           background: ui.bg,
                           color: ui.text,
-                          width: 110,
                         }}
                       />
                     </div>
                   ) : (
                     <span>
                       {r.name} <span style={{ color: ui.subtleText }}>({r.cost} pts)</span>
+                      {goal?.rewardId === r.id && <span title="Savings goal"> 🎯</span>}
+                      {rewardNote(r) && (
+                        <span style={{ marginLeft: 8, fontSize: 12, color: ui.subtleText }}>{rewardNote(r)}</span>
+                      )}
                     </span>
                   )}
                 </div>
@@ -747,6 +1218,22 @@ export default function KidsRewardsPage() {
                     </div>
                   ) : (
                     <div style={{ display: "flex", gap: 8 }}>
+                      {goal?.rewardId !== r.id && (
+                        <button
+                          onClick={() => onSetGoal(r.id)}
+                          style={{
+                            padding: "8px 12px",
+                            borderRadius: 10,
+                            border: `1px solid ${ui.border}`,
+                            background: ui.buttonBg,
+                            color: ui.buttonText,
+                            cursor: "pointer",
+                            fontWeight: 700,
+                          }}
+                        >
+                          🎯 Goal
+                        </button>
+                      )}
                       <button
                         onClick={() => startEditReward(r)}
                         style={{
@@ -778,22 +1265,44 @@ export default function KidsRewardsPage() {
                     </div>
                   )
                 ) : (
-                  <button
-                    disabled={points < r.cost}
-                    onClick={() => onRedeem(r.id)}
-                    style={{
-                      padding: "8px 12px",
-                      borderRadius: 10,
-                      border: `1px solid ${ui.border}`,
-                      background: ui.buttonBg,
-                      color: ui.buttonText,
-                      cursor: points < r.cost ? "not-allowed" : "pointer",
-                      fontWeight: 700,
-                      opacity: points < r.cost ? 0.5 : 1,
-                    }}
-                  >
-                    Redeem
-                  </button>
+                  <div style={{ display: "flex", gap: 8 }}>
+                    {goal?.rewardId !== r.id && (
+                      <button
+                        onClick={() => onSetGoal(r.id)}
+                        style={{
+                          padding: "8px 12px",
+                          borderRadius: 10,
+                          border: `1px solid ${ui.border}`,
+                          background: ui.buttonBg,
+                          color: ui.buttonText,
+                          cursor: "pointer",
+                          fontWeight: 700,
+                        }}
+                      >
+                        🎯 Save for this
+                      </button>
+                    )}
+                    <button
+                      disabled={!canAfford(r)}
+                      onClick={() => onRedeem(r.id)}
+                      title={
+                        availabilityFor(r)?.blockedMessage ??
+                        (points >= r.cost && !canAfford(r) ? "Those points are locked for your goal" : undefined)
+                      }
+                      style={{
+                        padding: "8px 12px",
+                        borderRadius: 10,
+                        border: `1px solid ${ui.border}`,
+                        background: ui.buttonBg,
+                        color: ui.buttonText,
+                        cursor: canAfford(r) ? "pointer" : "not-allowed",
+                        fontWeight: 700,
+                        opacity: canAfford(r) ? 1 : 0.5,
+                      }}
+                    >
+                      Redeem
+                    </button>
+                  </div>
                 )}
               </li>
             ))}
@@ -801,6 +1310,67 @@ export default function KidsRewardsPage() {
         )}
       </div>
 
+      {/* Kid: My rewards (pending = still owed by a parent) */}
+      {auth?.activeRole === "Kid" && myRedemptions.length > 0 && (
+        <div
+          style={{
+            border: `1px solid ${ui.border}`,
+            borderRadius: 14,
+            padding: 16,
+            marginBottom: 18,
+            background: ui.card,
+            boxShadow: isDark
+              ? "0 0 0 rgba(0,0,0,0)"
+              : "0 1px 3px rgba(15, 23, 42, 0.08)",
+          }}
+        >
+          <h2 style={{ marginTop: 0, marginBottom: 10 }}>My Rewards</h2>
+
+          <ul style={{ listStyle: "none", padding: 0, margin: 0 }}>
+            {[
+              ...myRedemptions.filter((r) => r.status === "Pending"),
+              ...myRedemptions.filter((r) => r.status !== "Pending").slice(0, 5),
+            ].map((r) => (
+              <li
+                key={r.id}
+                style={{
+                  display: "flex",
+                  alignItems: "center",
+                  gap: 10,
+                  padding: 12,
+                  borderBottom: `1px solid ${ui.border}`,
+                  opacity: r.status === "Pending" ? 1 : 0.6,
+                }}
+              >
+                <div style={{ flex: 1 }}>
+                  {r.rewardName}{" "}
+                  <span style={{ color: ui.subtleText }}>
+                    ({parseUtc(r.redeemedAt).toLocaleDateString()})
+                  </span>
+                </div>
+                <span style={{ fontSize: 12, color: ui.subtleText }}>
+                  {r.status === "Pending"
+                    ? "Coming soon"
+                    : r.status === "Fulfilled"
+                      ? "Received ✔"
+                      : `Cancelled • ${r.cost} pts refunded`}
+                </span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {/* Kid: Trophy shelf */}
+      {auth?.activeRole === "Kid" && achievements && <TrophyShelf ui={ui} achievements={achievements} />}
+
+      {auth?.activeRole === "Kid" && (
+        <AchievementToast
+          items={newBadges}
+          onDismiss={(id) => setNewBadges((prev) => prev.filter((b) => b.id !== id))}
+        />
+      )}
+
       {/* Parent admin */}
       {isParentMode && !!auth?.parentToken && (
         <div style={{ display: "grid", gridTemplateColumns: "1fr 1fr", gap: 16 }}>
@@ -815,7 +1385,12 @@ export default function KidsRewardsPage() {
             : "0 1px 3px rgba(15, 23, 42, 0.08)",
             }}
           >
-            <h3 style={{ marginTop: 0 }}>Parent: Create Task</h3>
+            <h3 style={{ marginTop: 0, display: "flex", alignItems: "baseline", gap: 8 }}>
+              Parent: Create Task
+              <Link to="/parent/import" style={{ marginLeft: "auto", fontSize: 13, fontWeight: 600, color: ui.link }}>
+                Import from file…
+              </Link>
+            </h3>
             <form onSubmit={onCreateTask} style={{ display: "grid", gap: 10 }}>
               <input
                 value={taskTitle}
@@ -842,6 +1417,39 @@ export default function KidsRewardsPage() {
                   color: ui.text,
                 }}
               />
+              <ScheduleEditor
+                value={taskSchedule}
+                onChange={setTaskSchedule}
+                subtleColor={ui.subtleText}
+                inputStyle={{
+                  padding: 10,
+                  borderRadius: 10,
+                  border: `1px solid ${ui.border}`,
+                  background: ui.bg,
+                  color: ui.text,
+                }}
+              />
+              <TaskDeadlineEditor
+                value={taskDeadline}
+                recurring={taskSchedule.recurrence !== "None"}
+                onChange={setTaskDeadline}
+                subtleColor={ui.subtleText}
+                inputStyle={{
+                  padding: 10,
+                  borderRadius: 10,
+                  border: `1px solid ${ui.border}`,
+                  background: ui.bg,
+                  color: ui.text,
+                }}
+              />
+              <label style={{ display: "flex", gap: 6, alignItems: "center", fontSize: 14 }}>
+                <input
+                  type="checkbox"
+                  checked={taskRequiresApproval}
+                  onChange={(e) => setTaskRequiresApproval(e.target.checked)}
+                />
+                Needs parent approval
+              </label>
               <button
                 type="submit"
                 style={{
@@ -897,6 +1505,18 @@ export default function KidsRewardsPage() {
                   color: ui.text,
                 }}
               />
+              <RewardLimitsEditor
+                value={rewardLimits}
+                onChange={setRewardLimits}
+                subtleColor={ui.subtleText}
+                inputStyle={{
+                  padding: 10,
+                  borderRadius: 10,
+                  border: `1px solid ${ui.border}`,
+                  background: ui.bg,
+                  color: ui.text,
+                }}
+              />
               <button
                 type="submit"
                 style={{
@@ -913,6 +1533,101 @@ export default function KidsRewardsPage() {
               </button>
             </form>
           </div>
+
+          <div
+            style={{
+              gridColumn: "1 / -1",
+              border: `1px solid ${ui.border}`,
+              borderRadius: 14,
+              padding: 16,
+              background: ui.card,
+              boxShadow: isDark
+            ? "0 0 0 rgba(0,0,0,0)"
+            : "0 1px 3px rgba(15, 23, 42, 0.08)",
+            }}
+          >
+            <h3 style={{ marginTop: 0 }}>Parent: Adjust Points</h3>
+            <form onSubmit={onAdjustPoints} style={{ display: "flex", gap: 10, flexWrap: "wrap" }}>
+              <select
+                value={adjustKind}
+                onChange={(e) => setAdjustKind(e.target.value as "Bonus" | "Deduct")}
+                style={{
+                  padding: 10,
+                  borderRadius: 10,
+                  border: `1px solid ${ui.border}`,
+                  background: ui.bg,
+                  color: ui.text,
+                }}
+              >
+                <option value="Bonus">+ Bonus</option>
+                <option value="Deduct">− Deduct</option>
+              </select>
+              <input
+                type="number"
+                value={adjustAmount}
+                onChange={(e) => setAdjustAmount(Number(e.target.value))}
+                min={1}
+                style={{
+                  padding: 10,
+                  borderRadius: 10,
+                  border: `1px solid ${ui.border}`,
+                  background: ui.bg,
+                  color: ui.text,
+                  width: 90,
+                }}
+              />
+              <input
+                value={adjustNote}
+                onChange={(e) => setAdjustNote(e.target.value)}
+                placeholder="Reason (e.g., Helped grandma)"
+                required
+                style={{
+                  padding: 10,
+                  borderRadius: 10,
+                  border: `1px solid ${ui.border}`,
+                  background: ui.bg,
+                  color: ui.text,
+                  flex: 1,
+                  minWidth: 200,
+                }}
+              />
+              <input
+                value={adjustCategory}
+                onChange={(e) => setAdjustCategory(e.target.value)}
+                placeholder="Category (optional)"
+                list="adjust-categories"
+                maxLength={40}
+                style={{
+                  padding: 10,
+                  borderRadius: 10,
+                  border: `1px solid ${ui.border}`,
+                  background: ui.bg,
+                  color: ui.text,
+                  width: 170,
+                }}
+              />
+              <datalist id="adjust-categories">
+                <option value="Bonus" />
+                <option value="Helping out" />
+                <option value="Behavior" />
+                <option value="Correction" />
+              </datalist>
+              <button
+                type="submit"
+                style={{
+                  padding: "10px 12px",
+                  borderRadius: 10,
+                  border: `1px solid ${ui.border}`,
+                  background: ui.buttonBg,
+                  color: ui.buttonText,
+                  cursor: "pointer",
+                  fontWeight: 800,
+                }}
+              >
+                Apply
+              </button>
+            </form>
+          </div>
         </div>
       )}
     </div>
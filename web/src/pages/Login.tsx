@@ -1,11 +1,16 @@
 import { useMemo, useState } from "react";
-import { useNavigate } from "react-router-dom";
+import { Link, useLocation, useNavigate } from "react-router-dom";
 import { useAuth } from "../context/AuthContext";
 import { parentLogin } from "../api";
+import { mapPathForRole } from "../utils/roleRoutes";
 
 export default function Login(): JSX.Element {
   const { setAuth } = useAuth();
   const navigate = useNavigate();
+  const location = useLocation();
+
+  // Page the user was on when their session expired (set by RequireRole / the expiry banner)
+  const fromPath: string | undefined = (location.state as any)?.from?.pathname;
 
   // ✅ Demo env (Vite)
   const demoEnabled = import.meta.env.VITE_DEMO_ENABLED === "true";
@@ -13,7 +18,6 @@ export default function Login(): JSX.Element {
   // ✅ Fallback demo creds (if env vars are missing)
   const demoUser = import.meta.env.VITE_DEMO_USERNAME ?? "parent1";
   const demoPass = import.meta.env.VITE_DEMO_PASSWORD ?? "ChangeMe123";
-  const demoPin = import.meta.env.VITE_DEMO_PARENT_PIN ?? "1234";
 
   // ✅ Prefill only when demo is enabled
   const initialUsername = useMemo(
@@ -52,15 +56,18 @@ export default function Login(): JSX.Element {
         const next = {
           ...prev,
           parentToken: data.token,
+          refreshToken: data.refreshToken,
           activeRole: "Parent" as const,
           uiMode: "Parent" as const,
           selectedKidId: prev.selectedKidId,
           selectedKidName: prev.selectedKidName,
         };
 
-        const target = next.selectedKidId
-          ? `/parent/kids/${next.selectedKidId}`
-          : "/parent/select-kid";
+        // Login always yields a parent session, so map kid routes to their parent twin
+        const returnTo = fromPath ? mapPathForRole(fromPath, "Parent") : null;
+        const target =
+          returnTo ??
+          (next.selectedKidId ? `/parent/kids/${next.selectedKidId}` : "/parent/select-kid");
 
         queueMicrotask(() => navigate(target, { replace: true }));
 
@@ -111,9 +118,6 @@ export default function Login(): JSX.Element {
           <div>
             <strong>Password:</strong> {demoPass}
           </div>
-          <div>
-            <strong>Parent Pin:</strong> {demoPin}
-          </div>
 
           {/* ✅ Autofill + Clear buttons */}
           <div style={{ display: "flex", gap: 8, marginTop: 10 }}>
@@ -195,6 +199,10 @@ export default function Login(): JSX.Element {
           Login
         </button>
       </div>
+
+      <p style={{ fontSize: 14 }}>
+        New here? <Link to="/register">Create a family account</Link>
+      </p>
     </div>
   );
 }
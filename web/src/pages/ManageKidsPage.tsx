@@ -0,0 +1,408 @@
+import { useEffect, useState } from "react";
+import type React from "react";
+import { Link } from "react-router-dom";
+import type { KidProfile } from "../types";
+import { archiveKid, createKid, getKids, restoreKid, updateKid } from "../api";
+import { useAuth } from "../context/AuthContext";
+import KidLoginEditor from "../components/KidLoginEditor";
+
+// ============================================================
+// ManageKidsPage (Parent only)
+// - Add kids, rename them, pick an avatar + color
+// - Archive a kid: hidden from KidSelector / SelectKid, ledger kept
+// - Archived kids can be restored from here at any time
+// - Tablet sign-in: PIN / picture password for shared devices
+// ============================================================
+
+const AVATAR_CHOICES = ["🦊", "🐼", "🦁", "🐸", "🐙", "🦄", "🐢", "🚀", "⚽", "🎨"];
+const DEFAULT_COLOR = "#6366f1";
+
+export default function ManageKidsPage() {
+  const { auth, setAuth } = useAuth();
+
+  const [kids, setKids] = useState<KidProfile[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  // Add form
+  const [newName, setNewName] = useState("");
+  const [newAvatar, setNewAvatar] = useState(AVATAR_CHOICES[0]);
+  const [newColor, setNewColor] = useState(DEFAULT_COLOR);
+
+  // Inline edit
+  const [editingKidId, setEditingKidId] = useState<string | null>(null);
+  const [editName, setEditName] = useState("");
+  const [editAvatar, setEditAvatar] = useState("");
+  const [editColor, setEditColor] = useState(DEFAULT_COLOR);
+
+  // Tablet sign-in editor (one kid at a time)
+  const [loginKidId, setLoginKidId] = useState<string | null>(null);
+
+  const isDark =
+    typeof window !== "undefined" &&
+    window.matchMedia &&
+    window.matchMedia("(prefers-color-scheme: dark)").matches;
+
+  const ui = {
+    bg: isDark ? "#0b0f19" : "#f8fafc",
+    text: isDark ? "#e5e7eb" : "#0f172a",
+    card: isDark ? "#0f172a" : "#ffffff",
+    border: isDark ? "#1e293b" : "#e2e8f0",
+    subtleText: isDark ? "#94a3b8" : "#64748b",
+    link: isDark ? "#93c5fd" : "#2563eb",
+    buttonBg: isDark ? "#020617" : "#ffffff",
+    buttonText: isDark ? "#e5e7eb" : "#0f172a",
+    dangerBg: isDark ? "#3a1212" : "#fee2e2",
+    dangerText: isDark ? "#fecaca" : "#991b1b",
+  };
+
+  const inputStyle: React.CSSProperties = {
+    padding: 10,
+    borderRadius: 10,
+    border: `1px solid ${ui.border}`,
+    background: ui.bg,
+    color: ui.text,
+  };
+
+  const buttonStyle: React.CSSProperties = {
+    padding: "8px 12px",
+    borderRadius: 10,
+    border: `1px solid ${ui.border}`,
+    background: ui.buttonBg,
+    color: ui.buttonText,
+    cursor: "pointer",
+    fontWeight: 700,
+  };
+
+  async function loadKids() {
+    setKids(await getKids(true));
+  }
+
+  useEffect(() => {
+    (async () => {
+      try {
+        setError(null);
+        await loadKids();
+      } catch (e: any) {
+        console.error("ManageKids: getKids failed", e);
+        setError(e?.message ?? String(e));
+      } finally {
+        setLoading(false);
+      }
+    })();
+  }, []);
+
+  async function onAddKid(e: React.FormEvent) {
+    e.preventDefault();
+
+    const displayName = newName.trim();
+    if (!displayName) return;
+
+    try {
+      setError(null);
+      await createKid({ displayName, avatar: newAvatar, color: newColor });
+      setNewName("");
+      await loadKids();
+    } catch (e: any) {
+      console.error("createKid failed:", e);
+      setError(e?.response?.data ?? e?.message ?? String(e));
+    }
+  }
+
+  function startEdit(k: KidProfile) {
+    setEditingKidId(k.id);
+    setEditName(k.displayName);
+    setEditAvatar(k.avatar ?? "");
+    setEditColor(k.color || DEFAULT_COLOR);
+  }
+
+  function cancelEdit() {
+    setEditingKidId(null);
+  }
+
+  async function onSaveKid(kidId: string) {
+    try {
+      setError(null);
+      const saved = await updateKid(kidId, {
+        displayName: editName.trim(),
+        avatar: editAvatar.trim(),
+        color: editColor,
+      });
+      cancelEdit();
+      await loadKids();
+
+      // Keep the top bar / selector label in sync if we renamed the selected kid
+      if (auth?.selectedKidId === kidId) {
+        setAuth((prev) => ({ ...prev, selectedKidName: saved.displayName }));
+      }
+    } catch (e: any) {
+      console.error("updateKid failed:", e);
+      setError(e?.response?.data ?? e?.message ?? String(e));
+    }
+  }
+
+  async function onArchive(k: KidProfile) {
+    if (!confirm(`Archive ${k.displayName}? Their history is kept and you can restore them later.`)) {
+      return;
+    }
+
+    try {
+      setError(null);
+      await archiveKid(k.id);
+      await loadKids();
+
+      // An archived kid can't stay selected
+      if (auth?.selectedKidId === k.id) {
+        setAuth((prev) => ({ ...prev, selectedKidId: undefined, selectedKidName: undefined }));
+      }
+    } catch (e: any) {
+      console.error("archiveKid failed:", e);
+      setError(e?.response?.data ?? e?.message ?? String(e));
+    }
+  }
+
+  async function onRestore(k: KidProfile) {
+    try {
+      setError(null);
+      await restoreKid(k.id);
+      await loadKids();
+    } catch (e: any) {
+      console.error("restoreKid failed:", e);
+      setError(e?.response?.data ?? e?.message ?? String(e));
+    }
+  }
+
+  const activeKids = kids.filter((k) => !k.isArchived);
+  const archivedKids = kids.filter((k) => k.isArchived);
+
+  function renderKid(k: KidProfile) {
+    const isEditing = editingKidId === k.id;
+
+    return (
+      <li
+        key={k.id}
+        style={{
+          display: "flex",
+          alignItems: "center",
+          gap: 10,
+          padding: 12,
+          borderBottom: `1px solid ${ui.border}`,
+          opacity: k.isArchived ? 0.6 : 1,
+        }}
+      >
+        <span
+          style={{
+            width: 40,
+            height: 40,
+            borderRadius: 999,
+            display: "grid",
+            placeItems: "center",
+            fontSize: 22,
+            background: k.color || ui.border,
+          }}
+        >
+          {k.avatar || k.displayName.slice(0, 1).toUpperCase()}
+        </span>
+
+        <div style={{ flex: 1 }}>
+          {isEditing ? (
+            <div style={{ display: "flex", gap: 8, alignItems: "center", flexWrap: "wrap" }}>
+              <input
+                value={editName}
+                onChange={(e) => setEditName(e.target.value)}
+                style={{ ...inputStyle, flex: 1 }}
+              />
+              <select
+                value={editAvatar}
+                onChange={(e) => setEditAvatar(e.target.value)}
+                style={inputStyle}
+              >
+                <option value="">(initial)</option>
+                {AVATAR_CHOICES.map((a) => (
+                  <option key={a} value={a}>
+                    {a}
+                  </option>
+                ))}
+              </select>
+              <input
+                type="color"
+                value={editColor}
+                onChange={(e) => setEditColor(e.target.value)}
+                style={{ ...inputStyle, padding: 2, width: 48, height: 40 }}
+              />
+            </div>
+          ) : (
+            <>
+              <strong>{k.displayName}</strong>
+              {k.isArchived && (
+                <span style={{ marginLeft: 8, fontSize: 12, color: ui.subtleText }}>Archived</span>
+              )}
+              {!k.isArchived && k.loginMethod && k.loginMethod !== "None" && (
+                <span style={{ marginLeft: 8, fontSize: 12, color: ui.subtleText }}>
+                  {k.loginMethod === "Pin" ? "PIN sign-in" : "Picture sign-in"}
+                </span>
+              )}
+            </>
+          )}
+
+          {loginKidId === k.id && (
+            <KidLoginEditor
+              kid={k}
+              onSaved={(saved) => {
+                setKids((prev) => prev.map((x) => (x.id === saved.id ? saved : x)));
+                setLoginKidId(null);
+              }}
+              onClose={() => setLoginKidId(null)}
+            />
+          )}
+        </div>
+
+        <div style={{ display: "flex", gap: 8 }}>
+          {isEditing ? (
+            <>
+              <button onClick={() => onSaveKid(k.id)} style={buttonStyle}>
+                Save
+              </button>
+              <button onClick={cancelEdit} style={buttonStyle}>
+                Cancel
+              </button>
+            </>
+          ) : k.isArchived ? (
+            <button onClick={() => onRestore(k)} style={buttonStyle}>
+              Restore
+            </button>
+          ) : (
+            <>
+              <button onClick={() => startEdit(k)} style={buttonStyle}>
+                Edit
+              </button>
+              <button onClick={() => setLoginKidId(k.id)} style={buttonStyle}>
+                Sign-in
+              </button>
+              <Link
+                to={`/parent/kids/${k.id}/history`}
+                style={{ ...buttonStyle, textDecoration: "none" }}
+              >
+                History
+              </Link>
+              <button
+                onClick={() => onArchive(k)}
+                style={{ ...buttonStyle, background: ui.dangerBg, color: ui.dangerText }}
+              >
+                Archive
+              </button>
+            </>
+          )}
+        </div>
+      </li>
+    );
+  }
+
+  return (
+    <div
+      style={{
+        minHeight: "calc(100vh - 80px)",
+        background: ui.bg,
+        color: ui.text,
+        padding: "32px 16px",
+      }}
+    >
+      <div style={{ maxWidth: 860, margin: "0 auto", fontFamily: "system-ui" }}>
+        <div style={{ display: "flex", alignItems: "center", marginBottom: 18 }}>
+          <h1 style={{ margin: 0, fontSize: 24 }}>Manage Kids</h1>
+          <Link to="/parent/select-kid" style={{ marginLeft: "auto", color: ui.link, fontWeight: 700 }}>
+            ← Back to Select Kid
+          </Link>
+        </div>
+
+        {error && (
+          <div
+            style={{
+              border: `1px solid ${ui.dangerText}`,
+              background: ui.dangerBg,
+              padding: 12,
+              borderRadius: 12,
+              marginBottom: 16,
+            }}
+          >
+            <strong style={{ color: ui.dangerText }}>Error</strong>
+            <pre style={{ margin: "8px 0 0", whiteSpace: "pre-wrap", color: ui.dangerText }}>
+              {typeof error === "string" ? error : JSON.stringify(error)}
+            </pre>
+          </div>
+        )}
+
+        {/* Add kid */}
+        <div
+          style={{
+            border: `1px solid ${ui.border}`,
+            borderRadius: 14,
+            padding: 16,
+            marginBottom: 18,
+            background: ui.card,
+          }}
+        >
+          <h3 style={{ marginTop: 0 }}>Add a Kid</h3>
+          <form onSubmit={onAddKid} style={{ display: "flex", gap: 10, flexWrap: "wrap" }}>
+            <input
+              value={newName}
+              onChange={(e) => setNewName(e.target.value)}
+              placeholder="Name (e.g., Sam)"
+              style={{ ...inputStyle, flex: 1, minWidth: 180 }}
+            />
+            <select value={newAvatar} onChange={(e) => setNewAvatar(e.target.value)} style={inputStyle}>
+              {AVATAR_CHOICES.map((a) => (
+                <option key={a} value={a}>
+                  {a}
+                </option>
+              ))}
+            </select>
+            <input
+              type="color"
+              value={newColor}
+              onChange={(e) => setNewColor(e.target.value)}
+              style={{ ...inputStyle, padding: 2, width: 48, height: 40 }}
+            />
+            <button type="submit" style={{ ...buttonStyle, fontWeight: 800 }}>
+              Add Kid
+            </button>
+          </form>
+        </div>
+
+        {/* Kid list */}
+        <div
+          style={{
+            border: `1px solid ${ui.border}`,
+            borderRadius: 14,
+            padding: 16,
+            marginBottom: 18,
+            background: ui.card,
+          }}
+        >
+          <h3 style={{ marginTop: 0 }}>Kids</h3>
+          {loading ? (
+            <p style={{ color: ui.subtleText }}>Loading…</p>
+          ) : activeKids.length === 0 ? (
+            <p style={{ color: ui.subtleText }}>No kids yet. Add one above.</p>
+          ) : (
+            <ul style={{ listStyle: "none", padding: 0, margin: 0 }}>{activeKids.map(renderKid)}</ul>
+          )}
+        </div>
+
+        {archivedKids.length > 0 && (
+          <div
+            style={{
+              border: `1px solid ${ui.border}`,
+              borderRadius: 14,
+              padding: 16,
+              background: ui.card,
+            }}
+          >
+            <h3 style={{ marginTop: 0 }}>Archived</h3>
+            <ul style={{ listStyle: "none", padding: 0, margin: 0 }}>{archivedKids.map(renderKid)}</ul>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
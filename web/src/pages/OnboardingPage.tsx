@@ -0,0 +1,384 @@
+import { useEffect, useState } from "react";
+import type React from "react";
+import { useNavigate } from "react-router-dom";
+import type { KidProfile, KidTask, Reward } from "../types";
+import { createKid, createReward, createTask, getKids, getRewards } from "../api";
+import { useAuth } from "../context/AuthContext";
+
+// ============================================================
+// OnboardingPage (Parent only)
+// - First-run wizard after sign-up: kids -> first tasks -> first rewards
+// - Every step saves right away through the normal endpoints, so leaving
+//   halfway loses nothing (and the wizard can be reopened later)
+// - Tasks and rewards can be skipped; at least one kid is required
+// ============================================================
+
+type Step = "kids" | "tasks" | "rewards" | "done";
+
+const STEPS: { key: Step; label: string }[] = [
+  { key: "kids", label: "1. Kids" },
+  { key: "tasks", label: "2. Tasks" },
+  { key: "rewards", label: "3. Rewards" },
+  { key: "done", label: "Done" },
+];
+
+const AVATAR_CHOICES = ["🦊", "🐼", "🦁", "🐸", "🦄", "🚀"];
+
+// One-click starters for empty families
+const TASK_IDEAS = [
+  { title: "Make your bed", points: 10 },
+  { title: "Brush teeth", points: 5 },
+  { title: "Homework", points: 20 },
+];
+
+const REWARD_IDEAS = [
+  { name: "Extra screen time", cost: 50 },
+  { name: "Pick dinner", cost: 100 },
+  { name: "Movie night", cost: 150 },
+];
+
+export default function OnboardingPage() {
+  const { setAuth } = useAuth();
+  const navigate = useNavigate();
+
+  const [step, setStep] = useState<Step>("kids");
+  const [error, setError] = useState<string | null>(null);
+
+  const [kids, setKids] = useState<KidProfile[]>([]);
+  const [tasks, setTasks] = useState<KidTask[]>([]);
+  const [rewards, setRewards] = useState<Reward[]>([]);
+
+  // Step forms
+  const [kidName, setKidName] = useState("");
+  const [kidAvatar, setKidAvatar] = useState(AVATAR_CHOICES[0]);
+  const [taskTitle, setTaskTitle] = useState("");
+  const [taskPoints, setTaskPoints] = useState(10);
+  const [taskKidId, setTaskKidId] = useState("");
+  const [rewardName, setRewardName] = useState("");
+  const [rewardCost, setRewardCost] = useState(50);
+
+  const isDark =
+    typeof window !== "undefined" &&
+    window.matchMedia &&
+    window.matchMedia("(prefers-color-scheme: dark)").matches;
+
+  const ui = {
+    bg: isDark ? "#0b0f19" : "#f8fafc",
+    text: isDark ? "#e5e7eb" : "#0f172a",
+    card: isDark ? "#0f172a" : "#ffffff",
+    border: isDark ? "#1e293b" : "#e2e8f0",
+    subtleText: isDark ? "#94a3b8" : "#64748b",
+    buttonBg: isDark ? "#020617" : "#ffffff",
+    buttonText: isDark ? "#e5e7eb" : "#0f172a",
+    activeBg: isDark ? "#1e293b" : "#e2e8f0",
+    dangerBg: isDark ? "#3a1212" : "#fee2e2",
+    dangerText: isDark ? "#fecaca" : "#991b1b",
+  };
+
+  const inputStyle: React.CSSProperties = {
+    padding: 10,
+    borderRadius: 10,
+    border: `1px solid ${ui.border}`,
+    background: ui.bg,
+    color: ui.text,
+  };
+
+  const buttonStyle: React.CSSProperties = {
+    padding: "8px 12px",
+    borderRadius: 10,
+    border: `1px solid ${ui.border}`,
+    background: ui.buttonBg,
+    color: ui.buttonText,
+    cursor: "pointer",
+    fontWeight: 700,
+  };
+
+  // Reopened wizard: show what the family already has
+  useEffect(() => {
+    Promise.all([getKids(), getRewards()])
+      .then(([k, r]) => {
+        setKids(k);
+        setRewards(r);
+        if (k.length > 0) setTaskKidId(k[0].id);
+      })
+      .catch((e) => {
+        console.error("Onboarding: load failed", e);
+        setError(e?.message ?? String(e));
+      });
+  }, []);
+
+  // Shared try/catch for the "add" buttons
+  async function run(action: () => Promise<void>) {
+    try {
+      setError(null);
+      await action();
+    } catch (e: any) {
+      console.error("Onboarding step failed:", e);
+      setError(e?.response?.data ?? e?.message ?? String(e));
+    }
+  }
+
+  function onAddKid(e: React.FormEvent) {
+    e.preventDefault();
+    const displayName = kidName.trim();
+    if (!displayName) return;
+
+    void run(async () => {
+      const kid = await createKid({ displayName, avatar: kidAvatar });
+      setKids((prev) => [...prev, kid]);
+      if (!taskKidId) setTaskKidId(kid.id);
+      setKidName("");
+    });
+  }
+
+  function addTask(title: string, points: number) {
+    if (!title.trim() || !taskKidId) return;
+
+    void run(async () => {
+      const task = await createTask({ title: title.trim(), points, assignedKidId: taskKidId });
+      setTasks((prev) => [...prev, task]);
+      setTaskTitle("");
+    });
+  }
+
+  function addReward(name: string, cost: number) {
+    if (!name.trim()) return;
+
+    void run(async () => {
+      const reward = await createReward({ name: name.trim(), cost });
+      setRewards((prev) => [...prev, reward]);
+      setRewardName("");
+    });
+  }
+
+  // Finish: select the first kid so the dashboard has someone to show
+  function onFinish() {
+    const first = kids[0];
+    if (!first) {
+      navigate("/parent/select-kid", { replace: true });
+      return;
+    }
+
+    setAuth((prev) => ({ ...prev, selectedKidId: first.id, selectedKidName: first.displayName }));
+    navigate(`/parent/kids/${first.id}`, { replace: true });
+  }
+
+  const kidNameFor = (id: string) => kids.find((k) => k.id === id)?.displayName ?? id;
+
+  const cardStyle: React.CSSProperties = {
+    border: `1px solid ${ui.border}`,
+    borderRadius: 14,
+    padding: 16,
+    background: ui.card,
+  };
+
+  return (
+    <div
+      style={{
+        minHeight: "calc(100vh - 80px)",
+        background: ui.bg,
+        color: ui.text,
+        padding: "32px 16px",
+      }}
+    >
+      <div style={{ maxWidth: 640, margin: "0 auto", fontFamily: "system-ui" }}>
+        <h1 style={{ margin: "0 0 6px", fontSize: 24 }}>Welcome! Let's set up your family</h1>
+        <p style={{ marginTop: 0, color: ui.subtleText }}>You can change all of this later.</p>
+
+        {/* Step indicator */}
+        <div style={{ display: "flex", gap: 8, marginBottom: 16 }}>
+          {STEPS.map((s) => (
+            <span
+              key={s.key}
+              style={{
+                ...buttonStyle,
+                cursor: "default",
+                background: step === s.key ? ui.activeBg : ui.buttonBg,
+              }}
+            >
+              {s.label}
+            </span>
+          ))}
+        </div>
+
+        {error && (
+          <div
+            style={{
+              border: `1px solid ${ui.dangerText}`,
+              background: ui.dangerBg,
+              padding: 12,
+              borderRadius: 12,
+              marginBottom: 16,
+              color: ui.dangerText,
+            }}
+          >
+            {typeof error === "string" ? error : JSON.stringify(error)}
+          </div>
+        )}
+
+        {step === "kids" && (
+          <div style={cardStyle}>
+            <h3 style={{ marginTop: 0 }}>Who are the kids?</h3>
+
+            <form onSubmit={onAddKid} style={{ display: "flex", gap: 8, flexWrap: "wrap" }}>
+              <select value={kidAvatar} onChange={(e) => setKidAvatar(e.target.value)} style={inputStyle}>
+                {AVATAR_CHOICES.map((a) => (
+                  <option key={a} value={a}>
+                    {a}
+                  </option>
+                ))}
+              </select>
+              <input
+                value={kidName}
+                onChange={(e) => setKidName(e.target.value)}
+                placeholder="Kid's name"
+                style={{ ...inputStyle, flex: 1 }}
+              />
+              <button type="submit" style={buttonStyle}>
+                Add kid
+              </button>
+            </form>
+
+            <ul style={{ paddingLeft: 18 }}>
+              {kids.map((k) => (
+                <li key={k.id}>
+                  {k.avatar} {k.displayName}
+                </li>
+              ))}
+            </ul>
+
+            <button
+              onClick={() => setStep("tasks")}
+              disabled={kids.length === 0}
+              style={{ ...buttonStyle, opacity: kids.length === 0 ? 0.5 : 1 }}
+            >
+              Next: tasks →
+            </button>
+          </div>
+        )}
+
+        {step === "tasks" && (
+          <div style={cardStyle}>
+            <h3 style={{ marginTop: 0 }}>First tasks</h3>
+
+            <div style={{ display: "flex", gap: 8, flexWrap: "wrap", marginBottom: 10 }}>
+              <select value={taskKidId} onChange={(e) => setTaskKidId(e.target.value)} style={inputStyle}>
+                {kids.map((k) => (
+                  <option key={k.id} value={k.id}>
+                    {k.displayName}
+                  </option>
+                ))}
+              </select>
+              <input
+                value={taskTitle}
+                onChange={(e) => setTaskTitle(e.target.value)}
+                placeholder="Task"
+                style={{ ...inputStyle, flex: 1 }}
+              />
+              <input
+                type="number"
+                min={1}
+                value={taskPoints}
+                onChange={(e) => setTaskPoints(Number(e.target.value))}
+                style={{ ...inputStyle, width: 80 }}
+              />
+              <button onClick={() => addTask(taskTitle, taskPoints)} style={buttonStyle}>
+                Add
+              </button>
+            </div>
+
+            <div style={{ display: "flex", gap: 8, flexWrap: "wrap", fontSize: 13 }}>
+              <span style={{ color: ui.subtleText }}>Ideas:</span>
+              {TASK_IDEAS.map((idea) => (
+                <button key={idea.title} onClick={() => addTask(idea.title, idea.points)} style={buttonStyle}>
+                  + {idea.title} ({idea.points})
+                </button>
+              ))}
+            </div>
+
+            <ul style={{ paddingLeft: 18 }}>
+              {tasks.map((t) => (
+                <li key={t.id}>
+                  {t.title} — {t.points} pts for {kidNameFor(t.assignedKidId)}
+                </li>
+              ))}
+            </ul>
+
+            <div style={{ display: "flex", gap: 8 }}>
+              <button onClick={() => setStep("kids")} style={buttonStyle}>
+                ← Back
+              </button>
+              <button onClick={() => setStep("rewards")} style={buttonStyle}>
+                {tasks.length === 0 ? "Skip" : "Next: rewards →"}
+              </button>
+            </div>
+          </div>
+        )}
+
+        {step === "rewards" && (
+          <div style={cardStyle}>
+            <h3 style={{ marginTop: 0 }}>First rewards</h3>
+
+            <div style={{ display: "flex", gap: 8, flexWrap: "wrap", marginBottom: 10 }}>
+              <input
+                value={rewardName}
+                onChange={(e) => setRewardName(e.target.value)}
+                placeholder="Reward"
+                style={{ ...inputStyle, flex: 1 }}
+              />
+              <input
+                type="number"
+                min={1}
+                value={rewardCost}
+                onChange={(e) => setRewardCost(Number(e.target.value))}
+                style={{ ...inputStyle, width: 80 }}
+              />
+              <button onClick={() => addReward(rewardName, rewardCost)} style={buttonStyle}>
+                Add
+              </button>
+            </div>
+
+            <div style={{ display: "flex", gap: 8, flexWrap: "wrap", fontSize: 13 }}>
+              <span style={{ color: ui.subtleText }}>Ideas:</span>
+              {REWARD_IDEAS.map((idea) => (
+                <button key={idea.name} onClick={() => addReward(idea.name, idea.cost)} style={buttonStyle}>
+                  + {idea.name} ({idea.cost})
+                </button>
+              ))}
+            </div>
+
+            <ul style={{ paddingLeft: 18 }}>
+              {rewards.map((r) => (
+                <li key={r.id}>
+                  {r.name} — {r.cost} pts
+                </li>
+              ))}
+            </ul>
+
+            <div style={{ display: "flex", gap: 8 }}>
+              <button onClick={() => setStep("tasks")} style={buttonStyle}>
+                ← Back
+              </button>
+              <button onClick={() => setStep("done")} style={buttonStyle}>
+                {rewards.length === 0 ? "Skip" : "Next →"}
+              </button>
+            </div>
+          </div>
+        )}
+
+        {step === "done" && (
+          <div style={cardStyle}>
+            <h3 style={{ marginTop: 0 }}>You're all set 🎉</h3>
+            <p style={{ color: ui.subtleText }}>
+              {kids.length} kid(s), {tasks.length} task(s) and {rewards.length} reward(s) ready. Set a
+              parent PIN in Settings before handing the tablet over.
+            </p>
+            <button onClick={onFinish} style={buttonStyle}>
+              Go to the dashboard
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
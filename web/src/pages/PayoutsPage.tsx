@@ -0,0 +1,297 @@
+import { useEffect, useState } from "react";
+import type React from "react";
+import { Link, Navigate, useParams } from "react-router-dom";
+import type { Payouts } from "../types";
+import { cashOut, getPayouts } from "../api";
+import { useAuth } from "../context/AuthContext";
+import { formatMoney, formatRate, pointsToCents } from "../utils/money";
+import { parseUtc } from "../utils/dates";
+
+// ============================================================
+// PayoutsPage (allowance mode)
+// - Parent: /parent/kids/:kidId/payouts — cash points out at the family
+//   rate (Settings -> Allowance), payout history, monthly totals
+// - Kid:    /kid/kids/:kidId/payouts    — same history, read-only
+// - A cash out is a Spend in the points ledger, so it also shows up on
+//   the Points History page
+// ============================================================
+
+export default function PayoutsPage() {
+  const { auth } = useAuth();
+  const { kidId } = useParams<{ kidId: string }>();
+
+  const isKid = auth?.activeRole === "Kid";
+  const isParentMode = auth?.activeRole === "Parent" && auth?.uiMode === "Parent";
+  const kidsBasePath = isKid ? "/kid/kids" : "/parent/kids";
+
+  const [data, setData] = useState<Payouts | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  // Cash out form
+  const [points, setPoints] = useState("");
+  const [note, setNote] = useState("");
+
+  const isDark =
+    typeof window !== "undefined" &&
+    window.matchMedia &&
+    window.matchMedia("(prefers-color-scheme: dark)").matches;
+
+  const ui = {
+    bg: isDark ? "#0b0f19" : "#f8fafc",
+    text: isDark ? "#e5e7eb" : "#0f172a",
+    card: isDark ? "#0f172a" : "#ffffff",
+    border: isDark ? "#1e293b" : "#e2e8f0",
+    subtleText: isDark ? "#94a3b8" : "#64748b",
+    link: isDark ? "#93c5fd" : "#2563eb",
+    buttonBg: isDark ? "#020617" : "#ffffff",
+    buttonText: isDark ? "#e5e7eb" : "#0f172a",
+    earn: isDark ? "#86efac" : "#15803d",
+    dangerBg: isDark ? "#3a1212" : "#fee2e2",
+    dangerText: isDark ? "#fecaca" : "#991b1b",
+  };
+
+  async function load(id: string) {
+    setData(await getPayouts(id));
+  }
+
+  useEffect(() => {
+    (async () => {
+      try {
+        setLoading(true);
+        setError(null);
+        if (!kidId) return;
+        await load(kidId);
+      } catch (e: any) {
+        console.error("load payouts failed:", e);
+        setError(e?.message ?? String(e));
+      } finally {
+        setLoading(false);
+      }
+    })();
+  }, [kidId]);
+
+  if (!kidId) return <Navigate to="/" replace />;
+
+  const inputStyle: React.CSSProperties = {
+    padding: 10,
+    borderRadius: 10,
+    border: `1px solid ${ui.border}`,
+    background: ui.bg,
+    color: ui.text,
+  };
+
+  const cardStyle: React.CSSProperties = {
+    border: `1px solid ${ui.border}`,
+    borderRadius: 14,
+    padding: 16,
+    marginBottom: 18,
+    background: ui.card,
+  };
+
+  const rate = data?.rate ?? null;
+  const pointsToCash = Math.floor(Number(points)) || 0;
+  const previewCents = rate && pointsToCash > 0 ? pointsToCents(rate, pointsToCash) : null;
+
+  async function onCashOut(e: React.FormEvent) {
+    e.preventDefault();
+    if (!kidId || !rate || pointsToCash <= 0 || previewCents === null) return;
+
+    const ok = confirm(`Cash out ${pointsToCash} points for ${formatMoney(previewCents, rate.currency)}?`);
+    if (!ok) return;
+
+    try {
+      setError(null);
+      await cashOut(kidId, { points: pointsToCash, note: note.trim() || undefined });
+      setPoints("");
+      setNote("");
+      await load(kidId);
+    } catch (e: any) {
+      console.error("cashOut failed:", e);
+      setError(e?.response?.data ?? e?.message ?? String(e));
+    }
+  }
+
+  return (
+    <div
+      style={{
+        minHeight: "calc(100vh - 80px)",
+        background: ui.bg,
+        color: ui.text,
+        padding: "32px 16px",
+      }}
+    >
+      <div style={{ maxWidth: 760, margin: "0 auto", fontFamily: "system-ui" }}>
+        {/* Header row */}
+        <div
+          style={{
+            ...cardStyle,
+            display: "flex",
+            gap: 12,
+            alignItems: "center",
+            padding: 14,
+            boxShadow: isDark ? "0 0 0 rgba(0,0,0,0)" : "0 1px 3px rgba(15, 23, 42, 0.08)",
+          }}
+        >
+          <div style={{ display: "grid", gap: 4 }}>
+            <div style={{ fontSize: 20, fontWeight: 800 }}>Allowance</div>
+            <div style={{ color: ui.subtleText, fontSize: 13 }}>
+              Balance: <strong style={{ color: ui.text }}>{data?.balance ?? 0} pts</strong>
+              {rate && data?.balanceValueCents != null && (
+                <>
+                  {" "}
+                  (worth <strong style={{ color: ui.text }}>{formatMoney(data.balanceValueCents, rate.currency)}</strong>)
+                </>
+              )}
+              {rate && ` • ${formatRate(rate)}`}
+            </div>
+          </div>
+
+          <Link to={`${kidsBasePath}/${kidId}`} style={{ marginLeft: "auto", color: ui.link, fontWeight: 700 }}>
+            ← Back to Kids + Rewards
+          </Link>
+        </div>
+
+        {error && (
+          <div
+            style={{
+              border: `1px solid ${ui.dangerText}`,
+              background: ui.dangerBg,
+              padding: 12,
+              borderRadius: 12,
+              marginBottom: 16,
+              color: ui.dangerText,
+            }}
+          >
+            {typeof error === "string" ? error : JSON.stringify(error)}
+          </div>
+        )}
+
+        {loading ? (
+          <p style={{ color: ui.subtleText }}>Loading…</p>
+        ) : (
+          <>
+            {/* Parent: cash out */}
+            {isParentMode && (
+              <div style={cardStyle}>
+                <h3 style={{ marginTop: 0 }}>Cash out</h3>
+
+                {!rate ? (
+                  <p style={{ margin: 0, color: ui.subtleText }}>
+                    Allowance mode is off. Set an exchange rate in{" "}
+                    <Link to="/parent/settings" style={{ color: ui.link }}>
+                      Settings
+                    </Link>{" "}
+                    to pay points out as money.
+                  </p>
+                ) : (
+                  <form onSubmit={onCashOut} style={{ display: "flex", gap: 10, flexWrap: "wrap", alignItems: "center" }}>
+                    <input
+                      type="number"
+                      min={1}
+                      max={data?.balance}
+                      value={points}
+                      onChange={(e) => setPoints(e.target.value)}
+                      placeholder="Points"
+                      style={{ ...inputStyle, width: 110 }}
+                    />
+                    <input
+                      value={note}
+                      onChange={(e) => setNote(e.target.value)}
+                      maxLength={200}
+                      placeholder="Note (optional)"
+                      style={{ ...inputStyle, flex: 1, minWidth: 160 }}
+                    />
+                    <button
+                      type="submit"
+                      disabled={previewCents === null || previewCents === 0}
+                      style={{
+                        padding: "10px 12px",
+                        borderRadius: 10,
+                        border: `1px solid ${ui.border}`,
+                        background: ui.buttonBg,
+                        color: ui.buttonText,
+                        cursor: "pointer",
+                        fontWeight: 800,
+                      }}
+                    >
+                      {previewCents ? `Pay ${formatMoney(previewCents, rate.currency)}` : "Cash out"}
+                    </button>
+                  </form>
+                )}
+              </div>
+            )}
+
+            {/* Monthly totals */}
+            <div style={cardStyle}>
+              <h3 style={{ marginTop: 0 }}>Monthly totals</h3>
+              {data?.months.length ? (
+                <table style={{ width: "100%", borderCollapse: "collapse", fontSize: 14 }}>
+                  <thead>
+                    <tr style={{ textAlign: "left", color: ui.subtleText }}>
+                      <th style={{ padding: 8 }}>Month</th>
+                      <th style={{ padding: 8, textAlign: "right" }}>Payouts</th>
+                      <th style={{ padding: 8, textAlign: "right" }}>Points</th>
+                      <th style={{ padding: 8, textAlign: "right" }}>Paid</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {data.months.map((m) => (
+                      <tr key={`${m.year}-${m.month}-${m.currency}`} style={{ borderTop: `1px solid ${ui.border}` }}>
+                        <td style={{ padding: 8 }}>
+                          {new Date(Date.UTC(m.year, m.month - 1, 1)).toLocaleDateString(undefined, {
+                            month: "long",
+                            year: "numeric",
+                            timeZone: "UTC",
+                          })}
+                        </td>
+                        <td style={{ padding: 8, textAlign: "right" }}>{m.count}</td>
+                        <td style={{ padding: 8, textAlign: "right" }}>{m.points}</td>
+                        <td style={{ padding: 8, textAlign: "right", fontWeight: 700, color: ui.earn }}>
+                          {formatMoney(m.amountCents, m.currency)}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              ) : (
+                <p style={{ margin: 0, color: ui.subtleText }}>No payouts yet.</p>
+              )}
+            </div>
+
+            {/* History */}
+            {!!data?.payouts.length && (
+              <div style={cardStyle}>
+                <h3 style={{ marginTop: 0 }}>Payout history</h3>
+                <ul style={{ listStyle: "none", padding: 0, margin: 0 }}>
+                  {data.payouts.map((p) => (
+                    <li
+                      key={p.id}
+                      id={`payout-${p.id}`}
+                      style={{
+                        display: "flex",
+                        gap: 10,
+                        alignItems: "center",
+                        padding: "10px 0",
+                        borderTop: `1px solid ${ui.border}`,
+                      }}
+                    >
+                      <div style={{ flex: 1 }}>
+                        <strong>{formatMoney(p.amountCents, p.currency)}</strong>{" "}
+                        <span style={{ color: ui.subtleText }}>for {p.points} pts</span>
+                        {p.note && <div style={{ fontSize: 13, color: ui.subtleText }}>{p.note}</div>}
+                      </div>
+                      <span style={{ fontSize: 13, color: ui.subtleText }}>
+                        {parseUtc(p.paidAtUtc).toLocaleDateString()}
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,386 @@
+import { useEffect, useMemo, useState } from "react";
+import type React from "react";
+import { Link, Navigate, useParams } from "react-router-dom";
+import type { PointHistoryEntry, PointTransactionType } from "../types";
+import { downloadKidExport, getKidPointsHistory, getMyPointsHistory, getPoints } from "../api";
+import type { ExportDataset, ExportFormat } from "../api";
+import { useAuth } from "../context/AuthContext";
+import { formatOccurrence, toDateOnly } from "../utils/schedule";
+import { parseUtc } from "../utils/dates";
+
+// ============================================================
+// PointsHistoryPage
+// - Ledger view of every Earn / Spend / Adjust for one kid.
+// - Parent: /parent/kids/:kidId/history (uses the parent endpoint)
+// - Kid:    /kid/kids/:kidId/history    (uses the kid endpoint, kid from JWT)
+// - Running balance is anchored to the current PointsBalance, so the
+//   newest row always matches the "Points" pill on KidsRewardsPage.
+// - Parent: export the ledger, task completions or redemptions as CSV /
+//   JSON for the same From / To dates
+// ============================================================
+
+type TypeFilter = "All" | PointTransactionType;
+
+type LedgerRow = PointHistoryEntry & { balanceAfter: number };
+
+export default function PointsHistoryPage() {
+  const { auth } = useAuth();
+  const { kidId } = useParams<{ kidId: string }>();
+
+  const isKid = auth?.activeRole === "Kid";
+  const kidsBasePath = isKid ? "/kid/kids" : "/parent/kids";
+
+  const [history, setHistory] = useState<PointHistoryEntry[]>([]);
+  const [points, setPoints] = useState(0);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  // Filters
+  const [typeFilter, setTypeFilter] = useState<TypeFilter>("All");
+  const [fromDate, setFromDate] = useState("");
+  const [toDate, setToDate] = useState("");
+
+  // Export (parent only)
+  const [exportDataset, setExportDataset] = useState<ExportDataset>("points");
+  const [exportFormat, setExportFormat] = useState<ExportFormat>("csv");
+  const [exporting, setExporting] = useState(false);
+
+  const isDark =
+    typeof window !== "undefined" &&
+    window.matchMedia &&
+    window.matchMedia("(prefers-color-scheme: dark)").matches;
+
+  const ui = {
+    bg: isDark ? "#0b0f19" : "#f8fafc",
+    text: isDark ? "#e5e7eb" : "#0f172a",
+    card: isDark ? "#0f172a" : "#ffffff",
+    border: isDark ? "#1e293b" : "#e2e8f0",
+    subtleText: isDark ? "#94a3b8" : "#64748b",
+    link: isDark ? "#93c5fd" : "#2563eb",
+    earn: isDark ? "#86efac" : "#15803d",
+    spend: isDark ? "#fca5a5" : "#b91c1c",
+    dangerBg: isDark ? "#3a1212" : "#fee2e2",
+    dangerText: isDark ? "#fecaca" : "#991b1b",
+  };
+
+  useEffect(() => {
+    (async () => {
+      try {
+        setLoading(true);
+        setError(null);
+        if (!kidId) return;
+
+        const [h, p] = await Promise.all([
+          isKid ? getMyPointsHistory() : getKidPointsHistory(kidId),
+          getPoints(kidId),
+        ]);
+
+        setHistory(h);
+        setPoints(p.points);
+      } catch (e: any) {
+        console.error("load points history failed:", e);
+        setError(e?.message ?? String(e));
+      } finally {
+        setLoading(false);
+      }
+    })();
+  }, [kidId, isKid]);
+
+  // Walk newest -> oldest, peeling each delta off the current balance
+  const rows = useMemo<LedgerRow[]>(() => {
+    let balance = points;
+    return history.map((entry) => {
+      const row = { ...entry, balanceAfter: balance };
+      balance -= entry.delta;
+      return row;
+    });
+  }, [history, points]);
+
+  // Filters apply after the running balance so balances stay correct
+  const visibleRows = useMemo(() => {
+    const from = fromDate ? new Date(`${fromDate}T00:00:00`) : null;
+    const to = toDate ? new Date(`${toDate}T23:59:59.999`) : null;
+
+    return rows.filter((r) => {
+      if (typeFilter !== "All" && r.type !== typeFilter) return false;
+
+      const at = parseUtc(r.createdAtUtc);
+      if (from && at < from) return false;
+      if (to && at > to) return false;
+
+      return true;
+    });
+  }, [rows, typeFilter, fromDate, toDate]);
+
+  if (!kidId) return <Navigate to="/" replace />;
+
+  const inputStyle: React.CSSProperties = {
+    padding: 8,
+    borderRadius: 10,
+    border: `1px solid ${ui.border}`,
+    background: ui.bg,
+    color: ui.text,
+  };
+
+  async function onExport() {
+    if (!kidId) return;
+
+    try {
+      setExporting(true);
+      setError(null);
+      await downloadKidExport(kidId, exportDataset, exportFormat, { from: fromDate, to: toDate });
+    } catch (e: any) {
+      console.error("downloadKidExport failed:", e);
+      setError(e?.response?.data ?? e?.message ?? String(e));
+    } finally {
+      setExporting(false);
+    }
+  }
+
+  function sourceLink(r: LedgerRow) {
+    if (r.taskId != null) {
+      return (
+        <Link to={`${kidsBasePath}/${kidId}#task-${r.taskId}`} style={{ color: ui.link }}>
+          {r.taskTitle ?? `Task #${r.taskId}`}
+          {r.occurrenceDate && ` • ${formatOccurrence(toDateOnly(r.occurrenceDate)!)}`}
+        </Link>
+      );
+    }
+
+    if (r.redemptionId != null) {
+      const label = r.rewardName ?? `Redemption #${r.redemptionId}`;
+      return r.rewardId != null ? (
+        <Link to={`${kidsBasePath}/${kidId}#reward-${r.rewardId}`} style={{ color: ui.link }}>
+          {label}
+        </Link>
+      ) : (
+        <span>{label}</span>
+      );
+    }
+
+    if (r.payoutId != null) {
+      return (
+        <Link to={`${kidsBasePath}/${kidId}/payouts#payout-${r.payoutId}`} style={{ color: ui.link }}>
+          Allowance payout
+        </Link>
+      );
+    }
+
+    return <span style={{ color: ui.subtleText }}>—</span>;
+  }
+
+  return (
+    <div
+      style={{
+        minHeight: "calc(100vh - 80px)",
+        background: ui.bg,
+        color: ui.text,
+        padding: "32px 16px",
+      }}
+    >
+      <div style={{ maxWidth: 980, margin: "0 auto", fontFamily: "system-ui" }}>
+        {/* Header row */}
+        <div
+          style={{
+            display: "flex",
+            gap: 12,
+            alignItems: "center",
+            marginBottom: 18,
+            padding: 14,
+            borderRadius: 14,
+            border: `1px solid ${ui.border}`,
+            background: ui.card,
+            boxShadow: isDark ? "0 0 0 rgba(0,0,0,0)" : "0 1px 3px rgba(15, 23, 42, 0.08)",
+          }}
+        >
+          <div style={{ display: "grid", gap: 4 }}>
+            <div style={{ fontSize: 20, fontWeight: 800 }}>Points History</div>
+            <div style={{ color: ui.subtleText, fontSize: 13 }}>
+              Kid ID: <strong style={{ color: ui.text }}>{kidId}</strong> • Current balance:{" "}
+              <strong style={{ color: ui.text }}>{points}</strong>
+            </div>
+          </div>
+
+          <Link
+            to={`${kidsBasePath}/${kidId}`}
+            style={{ marginLeft: "auto", color: ui.link, fontWeight: 700 }}
+          >
+            ← Back to Kids + Rewards
+          </Link>
+        </div>
+
+        {error && (
+          <div
+            style={{
+              border: `1px solid ${ui.dangerText}`,
+              background: ui.dangerBg,
+              padding: 12,
+              borderRadius: 12,
+              marginBottom: 16,
+            }}
+          >
+            <strong style={{ color: ui.dangerText }}>Error</strong>
+            <pre style={{ margin: "8px 0 0", whiteSpace: "pre-wrap", color: ui.dangerText }}>
+              {error}
+            </pre>
+          </div>
+        )}
+
+        {/* Filters */}
+        <div
+          style={{
+            display: "flex",
+            flexWrap: "wrap",
+            gap: 12,
+            alignItems: "center",
+            marginBottom: 18,
+            padding: 14,
+            borderRadius: 14,
+            border: `1px solid ${ui.border}`,
+            background: ui.card,
+          }}
+        >
+          <label style={{ display: "flex", gap: 6, alignItems: "center" }}>
+            Type
+            <select
+              value={typeFilter}
+              onChange={(e) => setTypeFilter(e.target.value as TypeFilter)}
+              style={inputStyle}
+            >
+              <option value="All">All</option>
+              <option value="Earn">Earn</option>
+              <option value="Spend">Spend</option>
+              <option value="Adjust">Adjust</option>
+            </select>
+          </label>
+
+          <label style={{ display: "flex", gap: 6, alignItems: "center" }}>
+            From
+            <input
+              type="date"
+              value={fromDate}
+              onChange={(e) => setFromDate(e.target.value)}
+              style={inputStyle}
+            />
+          </label>
+
+          <label style={{ display: "flex", gap: 6, alignItems: "center" }}>
+            To
+            <input
+              type="date"
+              value={toDate}
+              onChange={(e) => setToDate(e.target.value)}
+              style={inputStyle}
+            />
+          </label>
+
+          {(typeFilter !== "All" || fromDate || toDate) && (
+            <button
+              onClick={() => {
+                setTypeFilter("All");
+                setFromDate("");
+                setToDate("");
+              }}
+              style={{ ...inputStyle, cursor: "pointer", fontWeight: 700 }}
+            >
+              Clear filters
+            </button>
+          )}
+
+          {!isKid && (
+            <div style={{ marginLeft: "auto", display: "flex", gap: 6, alignItems: "center" }}>
+              <select
+                value={exportDataset}
+                onChange={(e) => setExportDataset(e.target.value as ExportDataset)}
+                style={inputStyle}
+                title="What to export (uses the From / To dates)"
+              >
+                <option value="points">Points ledger</option>
+                <option value="tasks">Completed tasks</option>
+                <option value="redemptions">Redemptions</option>
+              </select>
+              <select
+                value={exportFormat}
+                onChange={(e) => setExportFormat(e.target.value as ExportFormat)}
+                style={inputStyle}
+              >
+                <option value="csv">CSV</option>
+                <option value="json">JSON</option>
+              </select>
+              <button
+                onClick={() => void onExport()}
+                disabled={exporting}
+                style={{ ...inputStyle, cursor: "pointer", fontWeight: 700 }}
+              >
+                {exporting ? "Exporting…" : "⬇ Download"}
+              </button>
+            </div>
+          )}
+        </div>
+
+        {/* Ledger table */}
+        <div
+          style={{
+            border: `1px solid ${ui.border}`,
+            borderRadius: 14,
+            padding: 16,
+            background: ui.card,
+            overflowX: "auto",
+          }}
+        >
+          {loading ? (
+            <p style={{ color: ui.subtleText }}>Loading…</p>
+          ) : visibleRows.length === 0 ? (
+            <p style={{ color: ui.subtleText }}>
+              {history.length === 0 ? "No points activity yet." : "No entries match these filters."}
+            </p>
+          ) : (
+            <table style={{ width: "100%", borderCollapse: "collapse", fontSize: 14 }}>
+              <thead>
+                <tr style={{ textAlign: "left", color: ui.subtleText }}>
+                  <th style={{ padding: 8 }}>When</th>
+                  <th style={{ padding: 8 }}>Type</th>
+                  <th style={{ padding: 8 }}>Note</th>
+                  <th style={{ padding: 8 }}>Source</th>
+                  <th style={{ padding: 8, textAlign: "right" }}>Change</th>
+                  <th style={{ padding: 8, textAlign: "right" }}>Balance</th>
+                </tr>
+              </thead>
+              <tbody>
+                {visibleRows.map((r) => (
+                  <tr key={r.id} style={{ borderTop: `1px solid ${ui.border}` }}>
+                    <td style={{ padding: 8, whiteSpace: "nowrap" }}>
+                      {parseUtc(r.createdAtUtc).toLocaleString()}
+                    </td>
+                    <td style={{ padding: 8 }}>{r.type}</td>
+                    <td style={{ padding: 8 }}>
+                      {r.note}
+                      {r.category && (
+                        <span style={{ marginLeft: 6, fontSize: 12, color: ui.subtleText }}>• {r.category}</span>
+                      )}
+                      {r.actorName && (
+                        <span style={{ marginLeft: 6, fontSize: 12, color: ui.subtleText }}>• by {r.actorName}</span>
+                      )}
+                    </td>
+                    <td style={{ padding: 8 }}>{sourceLink(r)}</td>
+                    <td
+                      style={{
+                        padding: 8,
+                        textAlign: "right",
+                        fontWeight: 700,
+                        color: r.delta >= 0 ? ui.earn : ui.spend,
+                      }}
+                    >
+                      {r.delta >= 0 ? `+${r.delta}` : r.delta}
+                    </td>
+                    <td style={{ padding: 8, textAlign: "right" }}>{r.balanceAfter}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
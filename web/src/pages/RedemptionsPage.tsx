@@ -0,0 +1,246 @@
+import { useEffect, useState } from "react";
+import type React from "react";
+import { Link } from "react-router-dom";
+import type { KidProfile, RedemptionItem, RedemptionStatus } from "../types";
+import { cancelRedemption, fulfillRedemption, getKids, getRedemptions } from "../api";
+import { parseUtc } from "../utils/dates";
+
+// ============================================================
+// RedemptionsPage (Parent only)
+// - Inbox of rewards kids bought with points
+// - Pending: still owed -> "Mark fulfilled" or "Cancel + refund"
+// - Cancel writes a compensating ledger entry (points go back to the kid)
+// - Filter by kid and status
+// ============================================================
+
+type StatusFilter = "All" | RedemptionStatus;
+
+const STATUS_FILTERS: StatusFilter[] = ["Pending", "Fulfilled", "Cancelled", "All"];
+
+export default function RedemptionsPage() {
+  const [items, setItems] = useState<RedemptionItem[]>([]);
+  const [kids, setKids] = useState<KidProfile[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  // Filters
+  const [kidFilter, setKidFilter] = useState("");
+  const [statusFilter, setStatusFilter] = useState<StatusFilter>("Pending");
+
+  const isDark =
+    typeof window !== "undefined" &&
+    window.matchMedia &&
+    window.matchMedia("(prefers-color-scheme: dark)").matches;
+
+  const ui = {
+    bg: isDark ? "#0b0f19" : "#f8fafc",
+    text: isDark ? "#e5e7eb" : "#0f172a",
+    card: isDark ? "#0f172a" : "#ffffff",
+    border: isDark ? "#1e293b" : "#e2e8f0",
+    subtleText: isDark ? "#94a3b8" : "#64748b",
+    link: isDark ? "#93c5fd" : "#2563eb",
+    buttonBg: isDark ? "#020617" : "#ffffff",
+    buttonText: isDark ? "#e5e7eb" : "#0f172a",
+    activeBg: isDark ? "#1e293b" : "#e2e8f0",
+    dangerBg: isDark ? "#3a1212" : "#fee2e2",
+    dangerText: isDark ? "#fecaca" : "#991b1b",
+  };
+
+  const inputStyle: React.CSSProperties = {
+    padding: 10,
+    borderRadius: 10,
+    border: `1px solid ${ui.border}`,
+    background: ui.bg,
+    color: ui.text,
+  };
+
+  const buttonStyle: React.CSSProperties = {
+    padding: "8px 12px",
+    borderRadius: 10,
+    border: `1px solid ${ui.border}`,
+    background: ui.buttonBg,
+    color: ui.buttonText,
+    cursor: "pointer",
+    fontWeight: 700,
+  };
+
+  async function loadRedemptions() {
+    setItems(
+      await getRedemptions({
+        kidId: kidFilter || undefined,
+        status: statusFilter === "All" ? undefined : statusFilter,
+      })
+    );
+  }
+
+  // Kids for the filter dropdown (archived kids can still be owed rewards)
+  useEffect(() => {
+    getKids(true)
+      .then(setKids)
+      .catch((e) => console.error("Redemptions: getKids failed", e));
+  }, []);
+
+  useEffect(() => {
+    (async () => {
+      try {
+        setLoading(true);
+        setError(null);
+        await loadRedemptions();
+      } catch (e: any) {
+        console.error("Redemptions: getRedemptions failed", e);
+        setError(e?.message ?? String(e));
+      } finally {
+        setLoading(false);
+      }
+    })();
+  }, [kidFilter, statusFilter]);
+
+  async function onFulfill(r: RedemptionItem) {
+    try {
+      setError(null);
+      await fulfillRedemption(r.id);
+      await loadRedemptions();
+    } catch (e: any) {
+      console.error("fulfillRedemption failed:", e);
+      setError(e?.response?.data ?? e?.message ?? String(e));
+    }
+  }
+
+  async function onCancel(r: RedemptionItem) {
+    if (!confirm(`Cancel "${r.rewardName}" for ${r.kidName} and refund ${r.cost} points?`)) return;
+
+    try {
+      setError(null);
+      await cancelRedemption(r.id);
+      await loadRedemptions();
+    } catch (e: any) {
+      console.error("cancelRedemption failed:", e);
+      setError(e?.response?.data ?? e?.message ?? String(e));
+    }
+  }
+
+  function describeStatus(r: RedemptionItem) {
+    if (r.status === "Fulfilled" && r.fulfilledAtUtc)
+      return `Fulfilled ${parseUtc(r.fulfilledAtUtc).toLocaleDateString()}`;
+    if (r.status === "Cancelled" && r.cancelledAtUtc)
+      return `Cancelled + refunded ${parseUtc(r.cancelledAtUtc).toLocaleDateString()}`;
+    return r.status;
+  }
+
+  return (
+    <div
+      style={{
+        minHeight: "calc(100vh - 80px)",
+        background: ui.bg,
+        color: ui.text,
+        padding: "32px 16px",
+      }}
+    >
+      <div style={{ maxWidth: 860, margin: "0 auto", fontFamily: "system-ui" }}>
+        <div style={{ display: "flex", alignItems: "center", marginBottom: 18 }}>
+          <h1 style={{ margin: 0, fontSize: 24 }}>Reward Redemptions</h1>
+          <Link to="/parent/select-kid" style={{ marginLeft: "auto", color: ui.link, fontWeight: 700 }}>
+            ← Back to Select Kid
+          </Link>
+        </div>
+
+        {error && (
+          <div
+            style={{
+              border: `1px solid ${ui.dangerText}`,
+              background: ui.dangerBg,
+              padding: 12,
+              borderRadius: 12,
+              marginBottom: 16,
+            }}
+          >
+            <strong style={{ color: ui.dangerText }}>Error</strong>
+            <pre style={{ margin: "8px 0 0", whiteSpace: "pre-wrap", color: ui.dangerText }}>
+              {typeof error === "string" ? error : JSON.stringify(error)}
+            </pre>
+          </div>
+        )}
+
+        {/* Filters */}
+        <div style={{ display: "flex", gap: 10, flexWrap: "wrap", alignItems: "center", marginBottom: 16 }}>
+          <select value={kidFilter} onChange={(e) => setKidFilter(e.target.value)} style={inputStyle}>
+            <option value="">All kids</option>
+            {kids.map((k) => (
+              <option key={k.id} value={k.id}>
+                {k.displayName}
+                {k.isArchived ? " (archived)" : ""}
+              </option>
+            ))}
+          </select>
+
+          {STATUS_FILTERS.map((s) => (
+            <button
+              key={s}
+              onClick={() => setStatusFilter(s)}
+              style={{ ...buttonStyle, background: statusFilter === s ? ui.activeBg : ui.buttonBg }}
+            >
+              {s}
+            </button>
+          ))}
+        </div>
+
+        <div
+          style={{
+            border: `1px solid ${ui.border}`,
+            borderRadius: 14,
+            padding: 16,
+            background: ui.card,
+          }}
+        >
+          {loading ? (
+            <p style={{ color: ui.subtleText }}>Loading…</p>
+          ) : items.length === 0 ? (
+            <p style={{ color: ui.subtleText, margin: 0 }}>
+              {statusFilter === "Pending" ? "Nothing owed right now. 🎉" : "No redemptions match these filters."}
+            </p>
+          ) : (
+            <ul style={{ listStyle: "none", padding: 0, margin: 0 }}>
+              {items.map((r) => (
+                <li
+                  key={r.id}
+                  style={{
+                    display: "flex",
+                    alignItems: "center",
+                    gap: 10,
+                    padding: 12,
+                    borderBottom: `1px solid ${ui.border}`,
+                    opacity: r.status === "Cancelled" ? 0.6 : 1,
+                  }}
+                >
+                  <div style={{ flex: 1 }}>
+                    <div>
+                      <strong>{r.kidName}</strong>: {r.rewardName}{" "}
+                      <span style={{ color: ui.subtleText }}>({r.cost} pts)</span>
+                    </div>
+                    <div style={{ fontSize: 12, color: ui.subtleText }}>
+                      Redeemed {parseUtc(r.redeemedAt).toLocaleString()} • {describeStatus(r)}
+                    </div>
+                  </div>
+
+                  {r.status === "Pending" && (
+                    <div style={{ display: "flex", gap: 8 }}>
+                      <button onClick={() => onFulfill(r)} style={buttonStyle}>
+                        Mark fulfilled
+                      </button>
+                      <button
+                        onClick={() => onCancel(r)}
+                        style={{ ...buttonStyle, background: ui.dangerBg, color: ui.dangerText }}
+                      >
+                        Cancel + refund
+                      </button>
+                    </div>
+                  )}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
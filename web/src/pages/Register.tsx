@@ -0,0 +1,169 @@
+import { useState } from "react";
+import type React from "react";
+import { Link, useNavigate } from "react-router-dom";
+import { useAuth } from "../context/AuthContext";
+import { registerParent } from "../api";
+import { PASSWORD_RULES, getSignUpError } from "../utils/signUpRules";
+import { browserTimeZone } from "../utils/familyClock";
+
+// ============================================================
+// Register (public)
+// - Parent sign-up: username, password, family name
+// - Creates an empty family and signs in right away,
+//   then hands over to the onboarding wizard
+// ============================================================
+
+export default function Register(): JSX.Element {
+  const { setAuth } = useAuth();
+  const navigate = useNavigate();
+
+  const [username, setUsername] = useState("");
+  const [password, setPassword] = useState("");
+  const [confirmPassword, setConfirmPassword] = useState("");
+  const [familyName, setFamilyName] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  const inputStyle: React.CSSProperties = {
+    padding: 10,
+    borderRadius: 10,
+    border: "1px solid #cbd5e1",
+  };
+
+  async function onSubmit(e: React.FormEvent) {
+    e.preventDefault();
+    if (busy) return;
+
+    const problem = getSignUpError(username, password, familyName);
+    if (problem) {
+      setError(problem);
+      return;
+    }
+    if (password !== confirmPassword) {
+      setError("The two passwords don't match.");
+      return;
+    }
+
+    try {
+      setBusy(true);
+      setError(null);
+
+      const data = await registerParent({
+        username: username.trim(),
+        password,
+        familyName: familyName.trim(),
+        timeZone: browserTimeZone(),
+      });
+
+      // Brand-new family: nothing selected yet
+      setAuth((prev) => ({
+        ...prev,
+        parentToken: data.token,
+        refreshToken: data.refreshToken,
+        kidToken: null,
+        kidId: undefined,
+        kidName: undefined,
+        activeRole: "Parent",
+        uiMode: "Parent",
+        selectedKidId: undefined,
+        selectedKidName: undefined,
+      }));
+
+      navigate("/parent/onboarding", { replace: true });
+    } catch (e: any) {
+      console.error("registerParent failed:", e);
+      setError(e?.response?.data ?? e?.message ?? String(e));
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  return (
+    <div
+      style={{
+        fontFamily: "system-ui",
+        maxWidth: 420,
+        margin: "60px auto",
+        padding: 16,
+      }}
+    >
+      <h2 style={{ marginTop: 0 }}>Create a Family Account</h2>
+
+      <form onSubmit={onSubmit} style={{ display: "grid", gap: 10 }}>
+        <input
+          placeholder="Family name (e.g. The Parkers)"
+          value={familyName}
+          onChange={(e) => setFamilyName(e.target.value)}
+          maxLength={60}
+          style={inputStyle}
+        />
+
+        <input
+          placeholder="Username"
+          value={username}
+          onChange={(e) => setUsername(e.target.value)}
+          autoComplete="username"
+          autoCapitalize="none"
+          autoCorrect="off"
+          spellCheck={false}
+          maxLength={32}
+          style={inputStyle}
+        />
+
+        <input
+          type="password"
+          placeholder="Password"
+          value={password}
+          onChange={(e) => setPassword(e.target.value)}
+          autoComplete="new-password"
+          style={inputStyle}
+        />
+
+        <input
+          type="password"
+          placeholder="Repeat password"
+          value={confirmPassword}
+          onChange={(e) => setConfirmPassword(e.target.value)}
+          autoComplete="new-password"
+          style={inputStyle}
+        />
+
+        {/* Live password checklist (same rules as the API) */}
+        <ul style={{ margin: 0, paddingLeft: 0, listStyle: "none", fontSize: 13 }}>
+          {PASSWORD_RULES.map((rule) => {
+            const ok = password.length > 0 && rule.test(password, username);
+            return (
+              <li key={rule.label} style={{ color: ok ? "#15803d" : "#64748b" }}>
+                {ok ? "✓" : "•"} {rule.label}
+              </li>
+            );
+          })}
+        </ul>
+
+        {error && (
+          <div style={{ color: "#991b1b", fontSize: 14 }}>
+            {typeof error === "string" ? error : JSON.stringify(error)}
+          </div>
+        )}
+
+        <button
+          type="submit"
+          disabled={busy}
+          style={{
+            padding: 10,
+            borderRadius: 10,
+            border: "1px solid #cbd5e1",
+            cursor: "pointer",
+            fontWeight: 600,
+          }}
+        >
+          {busy ? "Creating…" : "Create account"}
+        </button>
+      </form>
+
+      <p style={{ fontSize: 14 }}>
+        Already have an account? <Link to="/login">Log in</Link>
+      </p>
+    </div>
+  );
+}
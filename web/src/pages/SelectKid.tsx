@@ -48,15 +48,21 @@ export default function SelectKid() {
       await enterKidMode(kidId); // calls /api/kid-session and stores kidToken
       // NOTE: If your kid route is NOT "/kid", change this to your actual route (often "/kid/:kidId")
       navigate(`/kid/${kidId}`, { replace: true });
-    } catch (e) {
+    } catch (e: any) {
       console.error("SelectKid: enterKidMode failed", e);
-      setError("Could not enter Kid Mode. Please try again.");
+      // e.g. no parent PIN yet (the API says where to set it)
+      setError(typeof e?.response?.data === "string" ? e.response.data : "Could not enter Kid Mode. Please try again.");
     }
   }
 
   return (
     <div style={{ maxWidth: 860, margin: "24px auto", padding: "0 16px" }}>
-      <h2>Select Kid</h2>
+      <div style={{ display: "flex", alignItems: "center", gap: 8 }}>
+        <h2 style={{ flex: 1 }}>Select Kid</h2>
+        <button type="button" onClick={() => navigate("/parent/manage-kids")}>
+          Manage Kids
+        </button>
+      </div>
 
       <p>
         Active role: <strong>{auth?.activeRole ?? "none"}</strong>
@@ -74,6 +80,13 @@ export default function SelectKid() {
 
       {loading ? (
         <p>Loading kids...</p>
+      ) : kids.length === 0 ? (
+        <p>
+          No kids yet.{" "}
+          <button type="button" onClick={() => navigate("/parent/onboarding")}>
+            Set up your family
+          </button>
+        </p>
       ) : (
         <div style={{ display: "grid", gap: 10 }}>
           {kids.map((k) => (
@@ -88,6 +101,20 @@ export default function SelectKid() {
                 padding: 10,
               }}
             >
+              <span
+                style={{
+                  width: 36,
+                  height: 36,
+                  borderRadius: 999,
+                  display: "grid",
+                  placeItems: "center",
+                  fontSize: 20,
+                  background: k.color || "#333",
+                }}
+              >
+                {k.avatar || k.displayName.slice(0, 1).toUpperCase()}
+              </span>
+
               <div style={{ flex: 1 }}>
                 <strong>{k.displayName}</strong>
                 <div style={{ fontSize: 12, opacity: 0.8 }}>{k.id}</div>
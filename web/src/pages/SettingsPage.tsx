@@ -0,0 +1,785 @@
+import { useEffect, useState } from "react";
+import type React from "react";
+import { useNavigate } from "react-router-dom";
+import {
+  clearAllowanceRate,
+  createHouseholdInvite,
+  downloadBackup,
+  getDevices,
+  getHousehold,
+  getParentSettings,
+  joinHousehold,
+  restoreBackup,
+  revokeDevice,
+  revokeHouseholdInvite,
+  setAllowanceRate,
+  setParentPin,
+  updateParentSettings,
+} from "../api";
+import type { Household, ParentSettings, SharedDevice } from "../types";
+import { useAuth } from "../context/AuthContext";
+import { formatRate, parseMoneyInput } from "../utils/money";
+import { browserTimeZone, setFamilyTimeZone, timeZoneOptions } from "../utils/familyClock";
+import { parseUtc } from "../utils/dates";
+
+// ============================================================
+// SettingsPage (Parent only)
+// - Parent PIN: set/change the PIN that guards leaving Kid Mode
+//   (stored hashed on the server; account password required to change it)
+// - Family name (chosen at sign-up) + time zone (when chores reset, due times)
+// - Parents: co-parents in the household, invite codes, join by code
+// - Shared devices: turn this browser into a kid tablet, revoke old ones
+// - Allowance: exchange rate for cashing points out as real money
+// - Family switches (e.g. require approval for every task)
+// - Backup & restore: download the whole family as JSON, re-import one
+// ============================================================
+
+export default function SettingsPage() {
+  const { setUpSharedDevice } = useAuth();
+  const navigate = useNavigate();
+
+  const [settings, setSettings] = useState<ParentSettings | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  // PIN form
+  const [newPin, setNewPin] = useState("");
+  const [confirmPin, setConfirmPin] = useState("");
+  const [password, setPassword] = useState("");
+
+  // Family name + time zone forms (filled once settings load)
+  const [familyName, setFamilyName] = useState("");
+  const [timeZone, setTimeZone] = useState("");
+
+  // Allowance rate form ("100 pts = 1.00 USD"; filled once settings load)
+  const [ratePoints, setRatePoints] = useState("100");
+  const [rateAmount, setRateAmount] = useState("1.00");
+  const [rateCurrency, setRateCurrency] = useState("USD");
+
+  // Household (co-parents)
+  const [household, setHousehold] = useState<Household | null>(null);
+  const [joinCode, setJoinCode] = useState("");
+
+  // Shared kid tablets
+  const [devices, setDevices] = useState<SharedDevice[]>([]);
+  const [deviceName, setDeviceName] = useState("");
+
+  // Backup & restore
+  const [backupBusy, setBackupBusy] = useState(false);
+  const [backupMessage, setBackupMessage] = useState<string | null>(null);
+
+  const isDark =
+    typeof window !== "undefined" &&
+    window.matchMedia &&
+    window.matchMedia("(prefers-color-scheme: dark)").matches;
+
+  const ui = {
+    bg: isDark ? "#0b0f19" : "#f8fafc",
+    text: isDark ? "#e5e7eb" : "#0f172a",
+    card: isDark ? "#0f172a" : "#ffffff",
+    border: isDark ? "#1e293b" : "#e2e8f0",
+    subtleText: isDark ? "#94a3b8" : "#64748b",
+    buttonBg: isDark ? "#020617" : "#ffffff",
+    buttonText: isDark ? "#e5e7eb" : "#0f172a",
+    successText: isDark ? "#86efac" : "#15803d",
+    dangerBg: isDark ? "#3a1212" : "#fee2e2",
+    dangerText: isDark ? "#fecaca" : "#991b1b",
+  };
+
+  const inputStyle: React.CSSProperties = {
+    padding: 10,
+    borderRadius: 10,
+    border: `1px solid ${ui.border}`,
+    background: ui.bg,
+    color: ui.text,
+  };
+
+  const cardStyle: React.CSSProperties = {
+    border: `1px solid ${ui.border}`,
+    borderRadius: 14,
+    padding: 16,
+    marginBottom: 18,
+    background: ui.card,
+  };
+
+  useEffect(() => {
+    getParentSettings()
+      .then((s) => {
+        setSettings(s);
+        fillFamilyForm(s);
+        fillAllowanceForm(s);
+      })
+      .catch((e) => {
+        console.error("Settings: getParentSettings failed", e);
+        setError(e?.message ?? String(e));
+      });
+
+    getHousehold()
+      .then(setHousehold)
+      .catch((e) => {
+        console.error("Settings: getHousehold failed", e);
+        setError(e?.message ?? String(e));
+      });
+
+    getDevices()
+      .then(setDevices)
+      .catch((e) => {
+        console.error("Settings: getDevices failed", e);
+        setError(e?.message ?? String(e));
+      });
+  }, []);
+
+  async function onSavePin(e: React.FormEvent) {
+    e.preventDefault();
+    setMessage(null);
+
+    if (!/^\d{4,8}$/.test(newPin)) {
+      setError("PIN must be 4 to 8 digits.");
+      return;
+    }
+    if (newPin !== confirmPin) {
+      setError("The two PINs don't match.");
+      return;
+    }
+
+    try {
+      setError(null);
+      setSettings(await setParentPin({ newPin, password }));
+      setNewPin("");
+      setConfirmPin("");
+      setPassword("");
+      setMessage("PIN saved. You'll need it to leave Kid Mode.");
+    } catch (e: any) {
+      console.error("setParentPin failed:", e);
+      setError(e?.response?.data ?? e?.message ?? String(e));
+    }
+  }
+
+  async function onSaveFamilyName(e: React.FormEvent) {
+    e.preventDefault();
+    setMessage(null);
+
+    try {
+      setError(null);
+      const saved = await updateParentSettings({ familyName: familyName.trim() });
+      setSettings(saved);
+      setFamilyName(saved.familyName);
+    } catch (e: any) {
+      console.error("updateParentSettings failed:", e);
+      setError(e?.response?.data ?? e?.message ?? String(e));
+    }
+  }
+
+  async function onSaveTimeZone(e: React.FormEvent) {
+    e.preventDefault();
+    setMessage(null);
+
+    try {
+      setError(null);
+      const saved = await updateParentSettings({ timeZone });
+      setSettings(saved);
+      fillFamilyForm(saved);
+      setMessage("Time zone saved.");
+    } catch (e: any) {
+      console.error("updateParentSettings failed:", e);
+      setError(e?.response?.data ?? e?.message ?? String(e));
+    }
+  }
+
+  async function onCreateInvite() {
+    try {
+      setError(null);
+      const invite = await createHouseholdInvite();
+      setHousehold((prev) => (prev ? { ...prev, invites: [...prev.invites, invite] } : prev));
+    } catch (e: any) {
+      console.error("createHouseholdInvite failed:", e);
+      setError(e?.response?.data ?? e?.message ?? String(e));
+    }
+  }
+
+  async function onRevokeInvite(code: string) {
+    try {
+      setError(null);
+      await revokeHouseholdInvite(code);
+      setHousehold((prev) => (prev ? { ...prev, invites: prev.invites.filter((i) => i.code !== code) } : prev));
+    } catch (e: any) {
+      console.error("revokeHouseholdInvite failed:", e);
+      setError(e?.response?.data ?? e?.message ?? String(e));
+    }
+  }
+
+  // Joining swaps every list in the app to the other family -> reload settings too
+  async function onJoin(e: React.FormEvent) {
+    e.preventDefault();
+    setMessage(null);
+    if (!joinCode.trim()) return;
+
+    try {
+      setError(null);
+      setHousehold(await joinHousehold(joinCode.trim()));
+      const s = await getParentSettings();
+      setSettings(s);
+      fillFamilyForm(s);
+      setJoinCode("");
+    } catch (e: any) {
+      console.error("joinHousehold failed:", e);
+      setError(e?.response?.data ?? e?.message ?? String(e));
+    }
+  }
+
+  // This browser becomes a kid tablet: the parent session ends right away
+  async function onSetUpDevice() {
+    const ok = confirm(
+      "Turn this device into a kid tablet? You'll be logged out here; kids sign in with their own PIN or pictures."
+    );
+    if (!ok) return;
+
+    try {
+      setError(null);
+      await setUpSharedDevice(deviceName.trim());
+      navigate("/kid-login", { replace: true });
+    } catch (e: any) {
+      console.error("setUpSharedDevice failed:", e);
+      setError(e?.response?.data ?? e?.message ?? String(e));
+    }
+  }
+
+  async function onRevokeDevice(id: number) {
+    try {
+      setError(null);
+      await revokeDevice(id);
+      setDevices((prev) => prev.filter((d) => d.id !== id));
+    } catch (e: any) {
+      console.error("revokeDevice failed:", e);
+      setError(e?.response?.data ?? e?.message ?? String(e));
+    }
+  }
+
+  // Also remembers the zone for this browser's dates (familyClock.ts)
+  function fillFamilyForm(s: ParentSettings) {
+    setFamilyName(s.familyName);
+    setTimeZone(s.timeZone ?? browserTimeZone());
+    setFamilyTimeZone(s.timeZone ?? "UTC"); // not picked yet: the API runs on UTC
+  }
+
+  function fillAllowanceForm(s: ParentSettings) {
+    if (!s.allowance) return;
+    setRatePoints(String(s.allowance.points));
+    setRateAmount((s.allowance.amountCents / 100).toFixed(2));
+    setRateCurrency(s.allowance.currency);
+  }
+
+  async function onSaveAllowance(e: React.FormEvent) {
+    e.preventDefault();
+    setMessage(null);
+
+    const points = Math.floor(Number(ratePoints));
+    const amountCents = parseMoneyInput(rateAmount);
+    if (!points || points < 1 || amountCents === null) {
+      setError("Enter how many points make up how much money, e.g. 100 pts = 1.00.");
+      return;
+    }
+
+    try {
+      setError(null);
+      const saved = await setAllowanceRate({ points, amountCents, currency: rateCurrency.trim().toUpperCase() });
+      setSettings(saved);
+      fillAllowanceForm(saved);
+    } catch (e: any) {
+      console.error("setAllowanceRate failed:", e);
+      setError(e?.response?.data ?? e?.message ?? String(e));
+    }
+  }
+
+  async function onTurnOffAllowance() {
+    try {
+      setError(null);
+      setSettings(await clearAllowanceRate());
+    } catch (e: any) {
+      console.error("clearAllowanceRate failed:", e);
+      setError(e?.response?.data ?? e?.message ?? String(e));
+    }
+  }
+
+  async function onDownloadBackup() {
+    setBackupMessage(null);
+    try {
+      setError(null);
+      setBackupBusy(true);
+      await downloadBackup();
+    } catch (e: any) {
+      console.error("downloadBackup failed:", e);
+      setError(e?.response?.data ?? e?.message ?? String(e));
+    } finally {
+      setBackupBusy(false);
+    }
+  }
+
+  async function onPickBackup(e: React.ChangeEvent<HTMLInputElement>) {
+    const file = e.target.files?.[0];
+    e.target.value = ""; // allow picking the same file again
+    if (!file) return;
+
+    setBackupMessage(null);
+    setError(null);
+
+    let archive: unknown;
+    try {
+      archive = JSON.parse(await file.text());
+    } catch {
+      setError(`${file.name} isn't a JSON file.`);
+      return;
+    }
+
+    const ok = confirm(
+      `Restore ${file.name}? Its kids, tasks, rewards and history are added to this family as new entries. Nothing already here is changed or removed.`
+    );
+    if (!ok) return;
+
+    try {
+      setBackupBusy(true);
+      const r = await restoreBackup(archive);
+      setBackupMessage(
+        `Restored ${r.kids} kid(s), ${r.tasks} task(s), ${r.rewards} reward(s), ${r.redemptions} redemption(s), ` +
+          `${r.ledgerEntries} ledger entries and ${r.todos} todo(s).` +
+          (r.settingsRestored ? " Family settings were restored too." : "")
+      );
+
+      // Family name / allowance may have come back with the archive
+      const s = await getParentSettings();
+      setSettings(s);
+      fillFamilyForm(s);
+      fillAllowanceForm(s);
+    } catch (e: any) {
+      console.error("restoreBackup failed:", e);
+      setError(e?.response?.data ?? e?.message ?? String(e));
+    } finally {
+      setBackupBusy(false);
+    }
+  }
+
+  async function onToggleApproval(next: boolean) {
+    try {
+      setError(null);
+      setSettings(await updateParentSettings({ requireTaskApproval: next }));
+    } catch (e: any) {
+      console.error("updateParentSettings failed:", e);
+      setError(e?.response?.data ?? e?.message ?? String(e));
+    }
+  }
+
+  return (
+    <div
+      style={{
+        minHeight: "calc(100vh - 80px)",
+        background: ui.bg,
+        color: ui.text,
+        padding: "32px 16px",
+      }}
+    >
+      <div style={{ maxWidth: 640, margin: "0 auto", fontFamily: "system-ui" }}>
+        <h1 style={{ margin: "0 0 18px", fontSize: 24 }}>Settings</h1>
+
+        {error && (
+          <div
+            style={{
+              border: `1px solid ${ui.dangerText}`,
+              background: ui.dangerBg,
+              padding: 12,
+              borderRadius: 12,
+              marginBottom: 16,
+              color: ui.dangerText,
+            }}
+          >
+            {typeof error === "string" ? error : JSON.stringify(error)}
+          </div>
+        )}
+
+        {/* Family name */}
+        <div style={cardStyle}>
+          <h3 style={{ marginTop: 0 }}>Family</h3>
+          <form onSubmit={onSaveFamilyName} style={{ display: "flex", gap: 10 }}>
+            <input
+              value={familyName}
+              onChange={(e) => setFamilyName(e.target.value)}
+              maxLength={60}
+              placeholder="Family name"
+              style={{ ...inputStyle, flex: 1 }}
+            />
+            <button
+              type="submit"
+              disabled={!settings || familyName.trim() === settings.familyName}
+              style={{
+                padding: "10px 12px",
+                borderRadius: 10,
+                border: `1px solid ${ui.border}`,
+                background: ui.buttonBg,
+                color: ui.buttonText,
+                cursor: "pointer",
+                fontWeight: 800,
+              }}
+            >
+              Save
+            </button>
+          </form>
+
+          <p style={{ color: ui.subtleText, fontSize: 14, marginBottom: 8 }}>
+            Time zone: repeating tasks reset at midnight there and due times use its clock.
+            {settings && !settings.timeZone && " Not set yet, so the app runs on UTC."}
+          </p>
+          <form onSubmit={onSaveTimeZone} style={{ display: "flex", gap: 10 }}>
+            <select value={timeZone} onChange={(e) => setTimeZone(e.target.value)} style={{ ...inputStyle, flex: 1 }}>
+              {(timeZoneOptions().includes(timeZone) ? timeZoneOptions() : [timeZone, ...timeZoneOptions()]).map((z) => (
+                <option key={z} value={z}>
+                  {z.replace(/_/g, " ")}
+                </option>
+              ))}
+            </select>
+            <button
+              type="submit"
+              disabled={!settings || !timeZone || timeZone === settings.timeZone}
+              style={{
+                padding: "10px 12px",
+                borderRadius: 10,
+                border: `1px solid ${ui.border}`,
+                background: ui.buttonBg,
+                color: ui.buttonText,
+                cursor: "pointer",
+                fontWeight: 800,
+              }}
+            >
+              Save
+            </button>
+          </form>
+        </div>
+
+        {/* Co-parents */}
+        <div style={cardStyle}>
+          <h3 style={{ marginTop: 0 }}>Parents</h3>
+          <ul style={{ marginTop: 0, paddingLeft: 18 }}>
+            {household?.members.map((m) => (
+              <li key={m.id}>
+                {m.username}
+                {m.isYou && <span style={{ color: ui.subtleText }}> (you)</span>}
+              </li>
+            ))}
+          </ul>
+
+          <p style={{ color: ui.subtleText, fontSize: 14 }}>
+            Invite a co-parent: they sign up, then enter the code here under "Join a family". Codes work once
+            and expire after 7 days.
+          </p>
+
+          {household?.invites.map((i) => (
+            <div key={i.code} style={{ display: "flex", gap: 10, alignItems: "center", marginBottom: 8 }}>
+              <code style={{ fontSize: 18, fontWeight: 800, letterSpacing: 2 }}>{i.code}</code>
+              <span style={{ color: ui.subtleText, fontSize: 13 }}>
+                expires {parseUtc(i.expiresAtUtc).toLocaleDateString()}
+              </span>
+              <button
+                onClick={() => void onRevokeInvite(i.code)}
+                style={{
+                  marginLeft: "auto",
+                  padding: "6px 10px",
+                  borderRadius: 10,
+                  border: `1px solid ${ui.border}`,
+                  background: ui.buttonBg,
+                  color: ui.buttonText,
+                  cursor: "pointer",
+                }}
+              >
+                Revoke
+              </button>
+            </div>
+          ))}
+
+          <button
+            onClick={() => void onCreateInvite()}
+            disabled={!household}
+            style={{
+              padding: "10px 12px",
+              borderRadius: 10,
+              border: `1px solid ${ui.border}`,
+              background: ui.buttonBg,
+              color: ui.buttonText,
+              cursor: "pointer",
+              fontWeight: 800,
+            }}
+          >
+            New invite code
+          </button>
+
+          <h4 style={{ marginBottom: 8 }}>Join a family</h4>
+          <form onSubmit={onJoin} style={{ display: "flex", gap: 10 }}>
+            <input
+              value={joinCode}
+              onChange={(e) => setJoinCode(e.target.value.toUpperCase())}
+              maxLength={8}
+              placeholder="Invite code"
+              autoCapitalize="characters"
+              style={{ ...inputStyle, flex: 1 }}
+            />
+            <button
+              type="submit"
+              disabled={!joinCode.trim()}
+              style={{
+                padding: "10px 12px",
+                borderRadius: 10,
+                border: `1px solid ${ui.border}`,
+                background: ui.buttonBg,
+                color: ui.buttonText,
+                cursor: "pointer",
+                fontWeight: 800,
+              }}
+            >
+              Join
+            </button>
+          </form>
+        </div>
+
+        {/* Parent PIN */}
+        <div style={cardStyle}>
+          <h3 style={{ marginTop: 0 }}>Parent PIN</h3>
+          <p style={{ marginTop: 0, color: ui.subtleText, fontSize: 14 }}>
+            {settings?.hasParentPin
+              ? "A PIN is set. Kids need it to switch back to Parent Mode."
+              : "No PIN yet — set one to use Kid Mode."}
+          </p>
+
+          <form onSubmit={onSavePin} style={{ display: "grid", gap: 10 }}>
+            <input
+              type="password"
+              inputMode="numeric"
+              autoComplete="new-password"
+              value={newPin}
+              onChange={(e) => setNewPin(e.target.value.replace(/\D/g, ""))}
+              maxLength={8}
+              placeholder={settings?.hasParentPin ? "New PIN (4–8 digits)" : "PIN (4–8 digits)"}
+              style={inputStyle}
+            />
+            <input
+              type="password"
+              inputMode="numeric"
+              autoComplete="new-password"
+              value={confirmPin}
+              onChange={(e) => setConfirmPin(e.target.value.replace(/\D/g, ""))}
+              maxLength={8}
+              placeholder="Repeat PIN"
+              style={inputStyle}
+            />
+            <input
+              type="password"
+              autoComplete="current-password"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              placeholder="Your account password"
+              style={inputStyle}
+            />
+            <button
+              type="submit"
+              style={{
+                padding: "10px 12px",
+                borderRadius: 10,
+                border: `1px solid ${ui.border}`,
+                background: ui.buttonBg,
+                color: ui.buttonText,
+                cursor: "pointer",
+                fontWeight: 800,
+              }}
+            >
+              {settings?.hasParentPin ? "Change PIN" : "Set PIN"}
+            </button>
+          </form>
+
+          {message && <div style={{ marginTop: 10, color: ui.successText }}>{message}</div>}
+        </div>
+
+        {/* Shared kid tablets */}
+        <div style={cardStyle}>
+          <h3 style={{ marginTop: 0 }}>Shared devices</h3>
+          <p style={{ marginTop: 0, color: ui.subtleText, fontSize: 14 }}>
+            Kids can sign in by themselves on a family tablet with a PIN or picture password (set them
+            in Manage Kids). The tablet never keeps your parent login.
+          </p>
+
+          {devices.map((d) => (
+            <div key={d.id} style={{ display: "flex", gap: 10, alignItems: "center", marginBottom: 8 }}>
+              <strong>{d.name}</strong>
+              <span style={{ color: ui.subtleText, fontSize: 13 }}>
+                {d.lastUsedAtUtc
+                  ? `last used ${parseUtc(d.lastUsedAtUtc).toLocaleDateString()}`
+                  : `added ${parseUtc(d.createdAtUtc).toLocaleDateString()}`}
+              </span>
+              <button
+                onClick={() => void onRevokeDevice(d.id)}
+                style={{
+                  marginLeft: "auto",
+                  padding: "6px 10px",
+                  borderRadius: 10,
+                  border: `1px solid ${ui.border}`,
+                  background: ui.buttonBg,
+                  color: ui.buttonText,
+                  cursor: "pointer",
+                }}
+              >
+                Revoke
+              </button>
+            </div>
+          ))}
+
+          <div style={{ display: "flex", gap: 10 }}>
+            <input
+              value={deviceName}
+              onChange={(e) => setDeviceName(e.target.value)}
+              maxLength={40}
+              placeholder="Device name (e.g. Kitchen tablet)"
+              style={{ ...inputStyle, flex: 1 }}
+            />
+            <button
+              onClick={() => void onSetUpDevice()}
+              style={{
+                padding: "10px 12px",
+                borderRadius: 10,
+                border: `1px solid ${ui.border}`,
+                background: ui.buttonBg,
+                color: ui.buttonText,
+                cursor: "pointer",
+                fontWeight: 800,
+              }}
+            >
+              Use this device for kids
+            </button>
+          </div>
+        </div>
+
+        {/* Allowance (points -> money) */}
+        <div style={cardStyle}>
+          <h3 style={{ marginTop: 0 }}>Allowance</h3>
+          <p style={{ marginTop: 0, color: ui.subtleText, fontSize: 14 }}>
+            {settings?.allowance
+              ? `Cash outs are paid at ${formatRate(settings.allowance)}. Changing the rate doesn't change past payouts.`
+              : "Pay real allowance for points: set how much money a number of points is worth, then cash out from a kid's Allowance page."}
+          </p>
+
+          <form onSubmit={onSaveAllowance} style={{ display: "flex", gap: 10, alignItems: "center", flexWrap: "wrap" }}>
+            <input
+              type="number"
+              min={1}
+              value={ratePoints}
+              onChange={(e) => setRatePoints(e.target.value)}
+              style={{ ...inputStyle, width: 90 }}
+            />
+            <span>pts =</span>
+            <input
+              inputMode="decimal"
+              value={rateAmount}
+              onChange={(e) => setRateAmount(e.target.value)}
+              style={{ ...inputStyle, width: 90 }}
+            />
+            <input
+              value={rateCurrency}
+              onChange={(e) => setRateCurrency(e.target.value.toUpperCase())}
+              maxLength={3}
+              placeholder="USD"
+              style={{ ...inputStyle, width: 64 }}
+            />
+            <button
+              type="submit"
+              disabled={!settings}
+              style={{
+                padding: "10px 12px",
+                borderRadius: 10,
+                border: `1px solid ${ui.border}`,
+                background: ui.buttonBg,
+                color: ui.buttonText,
+                cursor: "pointer",
+                fontWeight: 800,
+              }}
+            >
+              {settings?.allowance ? "Update rate" : "Turn on"}
+            </button>
+            {settings?.allowance && (
+              <button
+                type="button"
+                onClick={() => void onTurnOffAllowance()}
+                style={{
+                  padding: "10px 12px",
+                  borderRadius: 10,
+                  border: `1px solid ${ui.border}`,
+                  background: ui.buttonBg,
+                  color: ui.buttonText,
+                  cursor: "pointer",
+                }}
+              >
+                Turn off
+              </button>
+            )}
+          </form>
+        </div>
+
+        {/* Family switches */}
+        <div style={cardStyle}>
+          <h3 style={{ marginTop: 0 }}>Tasks</h3>
+          <label style={{ display: "flex", gap: 8, alignItems: "center" }}>
+            <input
+              type="checkbox"
+              checked={settings?.requireTaskApproval ?? false}
+              disabled={!settings}
+              onChange={(e) => void onToggleApproval(e.target.checked)}
+            />
+            Require parent approval for every task
+          </label>
+        </div>
+
+        {/* Backup & restore */}
+        <div style={cardStyle}>
+          <h3 style={{ marginTop: 0 }}>Backup &amp; restore</h3>
+          <p style={{ marginTop: 0, color: ui.subtleText, fontSize: 14 }}>
+            Download everything (kids, tasks, rewards, redemptions, points history, todos) as one file. Restoring
+            adds a backup's contents to this family; kids set their PIN or picture password again afterwards.
+          </p>
+
+          <div style={{ display: "flex", gap: 10, flexWrap: "wrap" }}>
+            <button
+              type="button"
+              onClick={() => void onDownloadBackup()}
+              disabled={backupBusy}
+              style={{
+                padding: "10px 12px",
+                borderRadius: 10,
+                border: `1px solid ${ui.border}`,
+                background: ui.buttonBg,
+                color: ui.buttonText,
+                cursor: "pointer",
+                fontWeight: 800,
+              }}
+            >
+              Download backup
+            </button>
+            <label
+              style={{
+                padding: "10px 12px",
+                borderRadius: 10,
+                border: `1px solid ${ui.border}`,
+                background: ui.buttonBg,
+                color: ui.buttonText,
+                cursor: backupBusy ? "default" : "pointer",
+              }}
+            >
+              {backupBusy ? "Working…" : "Restore from file…"}
+              <input
+                type="file"
+                accept=".json,application/json"
+                onChange={(e) => void onPickBackup(e)}
+                disabled={backupBusy}
+                style={{ display: "none" }}
+              />
+            </label>
+          </div>
+
+          {backupMessage && <div style={{ marginTop: 10, color: ui.successText }}>{backupMessage}</div>}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,13 +1,28 @@
 import { useEffect, useState } from "react";
-import { api } from "../api";
+import { api, getKids, setTodoDone } from "../api";
 import { useAuth } from "../context/AuthContext";
+import type { KidProfile } from "../types";
+import { loadSnapshot, saveSnapshot } from "../utils/offlineStore";
+import { isNetworkError, newIdempotencyKey, queueAction, subscribeOutbox } from "../utils/outbox";
+import { batchEvents, subscribeFamilyEvents } from "../utils/liveEvents";
 
+// Todos are scoped to one family:
+// - assignedKidId = null -> shared family todo
+// - Parent sees every family todo and can assign/filter by kid
+// - Kid sees their own + shared todos (the API filters by the kid token)
+// - Offline: the last loaded list is shown and check/uncheck is queued
+//   (outbox.ts); adding and deleting still need a connection
+// - Changes made on other devices show up live (todo.changed events)
 type TodoItem = {
   id: number;
   title: string;
   isDone: boolean;
+  assignedKidId: string | null;
 };
 
+// "" = everyone, "shared" = unassigned only, otherwise a kidId
+type AssigneeFilter = string;
+
 
 export default function TodosPage(): JSX.Element {
   const [todos, setTodos] = useState<TodoItem[]>([]);
@@ -15,15 +30,34 @@ export default function TodosPage(): JSX.Element {
   const [error, setError] = useState<string | null>(null);
   const { auth } = useAuth();
   const canManageTodos = auth?.activeRole === "Parent" || auth?.activeRole === "Kid";
+  const isParent = auth?.activeRole === "Parent";
+  const myKidId = auth?.kidId;
+
+  const [kids, setKids] = useState<KidProfile[]>([]);
+  const [assignee, setAssignee] = useState(""); // new todo: "" = shared
+  const [filter, setFilter] = useState<AssigneeFilter>("");
 
 
+  // Saved copy per session + filter (a kid's list differs from the parent's)
+  const snapshotKey = `todos:${auth?.activeRole}:${myKidId ?? ""}:${isParent ? filter : ""}`;
+
   const loadTodos = async () => {
     try {
       // ✅ baseURL is "/api", so this hits "/api/todos"
-      const res = await api.get<TodoItem[]>("/todos");
+      const res = await api.get<TodoItem[]>("/todos", {
+        params: isParent && filter ? { kidId: filter } : undefined,
+      });
       setTodos(res.data);
       setError(null);
+      void saveSnapshot(snapshotKey, res.data);
     } catch (err: any) {
+      const saved = isNetworkError(err) ? await loadSnapshot<TodoItem[]>(snapshotKey) : null;
+      if (saved) {
+        setTodos(saved.value);
+        setError(null);
+        return;
+      }
+
       const status = err?.response?.status;
       setError(`Failed to load todos.${status ? ` (HTTP ${status})` : ""}`);
     }
@@ -31,21 +65,86 @@ export default function TodosPage(): JSX.Element {
 
   useEffect(() => {
     void loadTodos();
-  }, []);
+  }, [filter]);
+
+  // Live updates: someone else added / checked / removed a todo
+  useEffect(() => {
+    const live = batchEvents((events) => {
+      if (events.some((e) => e.type === "todo.changed")) void loadTodos();
+    });
+
+    const unsubscribe = subscribeFamilyEvents(live.listener);
+    return () => {
+      unsubscribe();
+      live.cancel();
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [filter]);
+
+  // Reload once queued checks reached the server
+  useEffect(() => {
+    let lastSyncAt: number | null | undefined;
+    return subscribeOutbox((state) => {
+      if (lastSyncAt !== undefined && state.lastSyncAt !== lastSyncAt) void loadTodos();
+      lastSyncAt = state.lastSyncAt;
+    });
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [filter]);
+
+  // Parent: kid names for the assignee picker, chips and filter
+  useEffect(() => {
+    if (!isParent) return;
+    getKids()
+      .then(setKids)
+      .catch((e) => console.error("Todos: getKids failed", e));
+  }, [isParent]);
+
+  const assigneeLabel = (t: TodoItem) => {
+    if (!t.assignedKidId) return "Family";
+    if (t.assignedKidId === myKidId) return "Me";
+    return kids.find((k) => k.id === t.assignedKidId)?.displayName ?? "Kid";
+  };
+
+  // Kid: filter client-side (API already limits to own + shared)
+  const visibleTodos = isParent
+    ? todos
+    : todos.filter((t) =>
+        filter === "shared" ? !t.assignedKidId : filter ? t.assignedKidId === myKidId : true
+      );
 
 const addTodo = async () => {
   if (!canManageTodos) return;
   if (!title.trim()) return;
 
-  await api.post("/todos", { title, isDone: false });
+  await api.post("/todos", {
+    title,
+    isDone: false,
+    assignedKidId: isParent && assignee ? assignee : null,
+  });
   setTitle("");
   await loadTodos();
 };
 
 
   const toggleTodo = async (todo: TodoItem) => {
-    await api.put(`/todos/${todo.id}`, { isDone: !todo.isDone });
-    await loadTodos();
+    const isDone = !todo.isDone;
+    const key = newIdempotencyKey();
+
+    try {
+      await setTodoDone(todo.id, isDone, key);
+      await loadTodos();
+    } catch (err: any) {
+      if (!isNetworkError(err)) {
+        setError(`Failed to update todo.${err?.response?.status ? ` (HTTP ${err.response.status})` : ""}`);
+        return;
+      }
+
+      // Offline: show the check right away, send it later
+      await queueAction({ kind: "setTodoDone", todoId: todo.id, isDone }, todo.title, key);
+      const next = todos.map((t) => (t.id === todo.id ? { ...t, isDone } : t));
+      setTodos(next);
+      void saveSnapshot(snapshotKey, next);
+    }
   };
 
   const deleteTodo = async (id: number) => {
@@ -80,16 +179,44 @@ const addTodo = async () => {
       style={{ flex: 1, padding: 8 }}
     />
 
+    {isParent && (
+      <select value={assignee} onChange={(e) => setAssignee(e.target.value)} style={{ padding: 8 }}>
+        <option value="">Whole family</option>
+        {kids.map((k) => (
+          <option key={k.id} value={k.id}>
+            {k.displayName}
+          </option>
+        ))}
+      </select>
+    )}
+
     <button onClick={() => void addTodo()} style={{ padding: "8px 12px" }}>
       Add
     </button>
   </div>
 )}
 
+      <div style={{ display: "flex", gap: 8, alignItems: "center", marginBottom: 12 }}>
+        <span style={{ opacity: 0.8 }}>Show:</span>
+        <select value={filter} onChange={(e) => setFilter(e.target.value)} style={{ padding: 6 }}>
+          <option value="">All</option>
+          <option value="shared">Family (shared)</option>
+          {isParent ? (
+            kids.map((k) => (
+              <option key={k.id} value={k.id}>
+                {k.displayName}
+              </option>
+            ))
+          ) : (
+            <option value="mine">Mine</option>
+          )}
+        </select>
+      </div>
+
 
 
       <ul style={{ listStyle: "none", padding: 0 }}>
-        {todos.map((t) => (
+        {visibleTodos.map((t) => (
           <li
             key={t.id}
             style={{
@@ -106,7 +233,18 @@ const addTodo = async () => {
             <span style={{ flex: 1, textDecoration: t.isDone ? "line-through" : "none" }}>
               {t.title}
             </span>
-{canManageTodos && (
+            <span
+              style={{
+                fontSize: 12,
+                padding: "2px 8px",
+                borderRadius: 999,
+                border: "1px solid rgba(148,163,184,0.4)",
+                opacity: 0.85,
+              }}
+            >
+              {assigneeLabel(t)}
+            </span>
+{canManageTodos && (isParent || t.assignedKidId === myKidId) && (
   <button onClick={() => void deleteTodo(t.id)} style={{ padding: "6px 10px" }}>
     ✕
   </button>
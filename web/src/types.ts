@@ -1,4 +1,51 @@
-export type KidProfile = { id: string; displayName: string };
+export type KidProfile = {
+  id: string;
+  displayName: string;
+  avatar?: string;
+  color?: string;
+  isArchived?: boolean;
+  loginMethod?: KidLoginMethod;
+};
+
+// How a kid signs in on a shared device (None = only via a parent)
+export type KidLoginMethod = "None" | "Pin" | "Picture";
+
+export type SharedDevice = {
+  id: number;
+  name: string;
+  createdAtUtc: string;
+  lastUsedAtUtc: string | null;
+};
+
+// Kid picker entry on a shared device
+export type DeviceKid = {
+  id: string;
+  displayName: string;
+  avatar: string;
+  color: string;
+  loginMethod: KidLoginMethod;
+};
+
+export type DeviceProfiles = {
+  deviceName: string;
+  familyName: string;
+  kids: DeviceKid[];
+};
+
+export type CreateKidRequest = {
+  displayName: string;
+  avatar?: string;
+  color?: string;
+};
+
+export type UpdateKidRequest = {
+  displayName?: string;
+  avatar?: string;
+  color?: string;
+  isArchived?: boolean;
+};
+
+export type TaskRecurrence = "None" | "Daily" | "Weekdays" | "Weekly" | "Monthly";
 
 export type KidTask = {
   id: number;
@@ -7,19 +54,296 @@ export type KidTask = {
   assignedKidId: string;
   isComplete: boolean;
   completedAt: string | null;
+
+  // Recurrence (recurring tasks never become isComplete; occurrenceDate moves forward)
+  recurrence: TaskRecurrence;
+  recurrenceDays: number;
+  startDate: string | null;
+  occurrenceDate: string | null;
+
+  // Approval (kid completions wait in the parent review queue)
+  requiresApproval: boolean;
+  isPendingApproval: boolean;
+  rejectionReason: string | null;
+
+  // One-shot task expired uncompleted (end of its due day)
+  expiredAtUtc: string | null;
+} & TaskDeadline;
+
+// Optional deadline + late rules. One-shot tasks use dueAtUtc; recurring tasks
+// are due dueMinutes into each occurrence day (UTC), e.g. 480 = 08:00 UTC
+export type TaskDeadline = {
+  dueAtUtc: string | null;
+  dueMinutes: number | null;
+  latePointsPercent: number | null; // share of the points earned when late
+  missedPenalty: number | null; // points deducted when an occurrence expires undone
+};
+
+export type PendingApproval = {
+  completionId: number;
+  taskId: number;
+  taskTitle: string;
+  points: number;
+  kidId: string;
+  kidName: string;
+  occurrenceDate: string;
+  completedAtUtc: string;
 };
 
-export type Reward = { id: number; name: string; cost: number };
+export type ParentSettings = {
+  requireTaskApproval: boolean;
+  hasParentPin: boolean;
+  familyName: string;
+  allowance: AllowanceRate | null; // null = allowance mode off
+  timeZone: string | null; // IANA id; null = not picked yet (the API runs on UTC)
+};
+
+// The family's calendar (GET /household/clock): tasks roll over at its midnight
+export type FamilyClock = {
+  timeZone: string;
+  today: string; // "YYYY-MM-DDT00:00:00"
+};
+
+// Allowance mode: `points` pts = `amountCents` in `currency` (e.g. 100 pts = 100 cents USD)
+export type AllowanceRate = { points: number; amountCents: number; currency: string };
+
+// One cash out (rate snapshot at the time it was paid)
+export type Payout = {
+  id: number;
+  points: number;
+  amountCents: number;
+  currency: string;
+  note: string | null;
+  paidAtUtc: string;
+};
+
+export type PayoutMonth = {
+  year: number;
+  month: number; // 1-12
+  currency: string;
+  count: number;
+  points: number;
+  amountCents: number;
+};
+
+export type Payouts = {
+  rate: AllowanceRate | null;
+  balance: number;
+  balanceValueCents: number | null; // what the current balance would cash out for
+  payouts: Payout[];
+  months: PayoutMonth[];
+};
+
+// Co-parents sharing kids, tasks and rewards
+export type HouseholdMember = { id: string; username: string; isYou: boolean };
+export type HouseholdInvite = { code: string; expiresAtUtc: string };
+
+export type Household = {
+  id: string;
+  name: string;
+  members: HouseholdMember[];
+  invites: HouseholdInvite[];
+};
+
+// Badge a kid earned (title includes the task for streak badges)
+export type Achievement = {
+  id: number;
+  key: string;
+  title: string;
+  icon: string;
+  bonusPoints: number;
+  taskId: number | null;
+  earnedAtUtc: string;
+};
+
+export type AchievementCatalogItem = {
+  key: string;
+  name: string;
+  description: string;
+  icon: string;
+  bonusPoints: number;
+  perTask: boolean; // streak badges: earned separately for every task
+};
+
+export type Achievements = { earned: Achievement[]; catalog: AchievementCatalogItem[] };
+
+// Optional reward limits (null = unlimited); per-kid except stock
+export type RewardLimits = {
+  stock: number | null;
+  maxPerDay: number | null;
+  maxPerWeek: number | null;
+  cooldownHours: number | null;
+};
+
+export type Reward = { id: number; name: string; cost: number } & RewardLimits;
+
+// Why a kid can't redeem a reward right now (limits only; points are checked client-side)
+export type RewardBlockCode = "OutOfStock" | "DailyLimit" | "WeeklyLimit" | "Cooldown";
+
+export type RewardAvailability = {
+  rewardId: number;
+  stockLeft: number | null;
+  blockedCode: RewardBlockCode | null;
+  blockedMessage: string | null;
+  availableAgainUtc: string | null;
+};
+
+// Error body with a stable code (e.g. redeem refusals)
+export type ApiError = { code: string; message: string };
+
+export type RedemptionStatus = "Pending" | "Fulfilled" | "Cancelled";
+
+export type RedemptionItem = {
+  id: number;
+  kidId: string;
+  kidName: string;
+  rewardId: number;
+  rewardName: string;
+  cost: number;
+  status: RedemptionStatus;
+  redeemedAt: string;
+  fulfilledAtUtc: string | null;
+  cancelledAtUtc: string | null;
+};
 
 export type PointsResponse = { kidId: string; points: number };
 
+// Reward a kid is saving up for (ETA from average daily earnings)
+export type SavingsGoal = {
+  rewardId: number;
+  rewardName: string;
+  cost: number;
+  balance: number;
+  remaining: number;
+  progressPercent: number;
+  locksPoints: boolean;
+  averagePerDay: number;
+  estimatedDate: string | null; // null = no recent earnings to estimate from
+};
+
 export type CreateTaskRequest = {
   title: string;
   points: number;
   assignedKidId: string;
+  recurrence?: TaskRecurrence;
+  recurrenceDays?: number;
+  startDate?: string;
+  requiresApproval?: boolean;
+  deadline?: TaskDeadline;
 };
 
 export type CreateRewardRequest = {
   name: string;
   cost: number;
+  limits?: RewardLimits;
+};
+
+export type PointTransactionType = "Earn" | "Spend" | "Adjust";
+
+export type PointHistoryEntry = {
+  id: number;
+  type: PointTransactionType;
+  delta: number;
+  note: string;
+  taskId: number | null;
+  taskTitle: string | null;
+  occurrenceDate: string | null;
+  redemptionId: number | null;
+  rewardId: number | null;
+  rewardName: string | null;
+  payoutId: number | null;
+  category: string | null;
+  actorName: string | null; // parent who made the change; null = the kid
+  createdAtUtc: string;
+};
+
+// ------------------------------------------------------------
+// Family analytics (parent dashboard; aggregated by the API)
+// ------------------------------------------------------------
+
+// earned[i] / spent[i] belong to weekStarts[i] (Mondays, UTC)
+export type KidWeeklyPoints = {
+  kidId: string;
+  kidName: string;
+  color: string;
+  earned: number[];
+  spent: number[];
+};
+
+export type PointsByWeek = { weekStarts: string[]; kids: KidWeeklyPoints[] };
+
+export type TaskCompletionRate = {
+  taskId: number;
+  taskTitle: string;
+  kidId: string;
+  kidName: string;
+  expected: number;
+  completed: number;
+  ratePercent: number;
+};
+
+export type TopReward = { rewardId: number; rewardName: string; count: number; points: number };
+
+export type Weekday = "Monday" | "Tuesday" | "Wednesday" | "Thursday" | "Friday" | "Saturday" | "Sunday";
+
+export type BusiestDay = { day: Weekday; completions: number; pointsEarned: number };
+
+// ------------------------------------------------------------
+// Bulk import (tasks + rewards from a CSV/JSON file)
+// ------------------------------------------------------------
+
+// Raw text from the file; the API validates and converts
+export type ImportTaskRow = { title: string; points: string; kid: string; schedule: string; start: string };
+export type ImportRewardRow = { name: string; cost: string };
+export type ImportRequest = { tasks: ImportTaskRow[]; rewards: ImportRewardRow[] };
+
+// row = 1-based position within its list (tasks / rewards)
+export type ImportRowResult = { row: number; summary: string; errors: string[] };
+
+export type ImportResult = {
+  committed: boolean;
+  tasksCreated: number;
+  rewardsCreated: number;
+  tasks: ImportRowResult[];
+  rewards: ImportRowResult[];
+};
+
+// ------------------------------------------------------------
+// Live updates (GET /events, server-sent events)
+// ------------------------------------------------------------
+
+export type FamilyEventType =
+  | "task.created"
+  | "task.updated"
+  | "task.deleted"
+  | "task.completed"
+  | "task.rejected"
+  | "points.changed"
+  | "reward.redeemed"
+  | "redemption.updated"
+  | "todo.changed";
+
+// Hints only: re-read what's on screen (pointsBalance is the new balance for points.changed)
+export type FamilyEvent = {
+  type: FamilyEventType;
+  kidId: string | null; // null = whole family (shared todos)
+  taskId: number | null;
+  todoId: number | null;
+  redemptionId: number | null;
+  pointsBalance: number | null;
+};
+
+// ------------------------------------------------------------
+// Backup + restore (whole family, versioned JSON archive)
+// ------------------------------------------------------------
+
+// What POST /restore added (settingsRestored: only when the family was empty)
+export type RestoreResult = {
+  kids: number;
+  tasks: number;
+  rewards: number;
+  redemptions: number;
+  ledgerEntries: number;
+  todos: number;
+  settingsRestored: boolean;
 };
@@ -0,0 +1,13 @@
+// ============================================================
+// dates.ts
+// - API timestamps (createdAtUtc, redeemedAt, ...) are UTC, but SQLite
+//   hands them back without a zone marker ("2026-10-18T20:15:00"), which
+//   `new Date(...)` would read as local time -> parse them with parseUtc
+// - Date-only values (occurrence days, "YYYY-MM-DD") aren't instants:
+//   see schedule.ts / familyClock.ts
+// ============================================================
+
+/** API timestamp -> Date, treating a value without a zone marker as UTC. */
+export function parseUtc(value: string): Date {
+  return new Date(/[zZ]|[+-]\d\d:\d\d$/.test(value) ? value : `${value}Z`);
+}
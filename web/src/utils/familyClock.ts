@@ -0,0 +1,97 @@
+import { getFamilyClock } from "../api";
+
+// ============================================================
+// familyClock.ts
+// - Client side of api/FamilyClock.cs: "today" and recurring due times
+//   follow the family's time zone (Settings), not UTC and not necessarily
+//   this device's zone
+// - The zone is kept in localStorage so dates are right offline and before
+//   the first load; refreshFamilyClock() updates it from the API
+// - Until then: this browser's zone (what sign-up sends as the family's)
+// ============================================================
+
+const STORAGE_KEY = "kidsrewards.timeZone.v1";
+
+/** This browser's IANA zone (e.g. "America/Chicago"). */
+export function browserTimeZone(): string {
+  try {
+    return Intl.DateTimeFormat().resolvedOptions().timeZone || "UTC";
+  } catch {
+    return "UTC";
+  }
+}
+
+// Unknown ids would make Intl throw; the API treats them as UTC as well
+function validZone(zone: string): string {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone: zone });
+    return zone;
+  } catch {
+    return "UTC";
+  }
+}
+
+export function familyTimeZone(): string {
+  return validZone(localStorage.getItem(STORAGE_KEY) ?? browserTimeZone());
+}
+
+export function setFamilyTimeZone(zone: string) {
+  localStorage.setItem(STORAGE_KEY, zone);
+}
+
+/** Re-reads the family's zone (GET /household/clock) and remembers it. */
+export async function refreshFamilyClock(): Promise<string> {
+  const clock = await getFamilyClock();
+  setFamilyTimeZone(clock.timeZone);
+  return clock.timeZone;
+}
+
+// Wall-clock fields of an instant in the zone
+function wallClock(at: Date, zone: string) {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone: zone,
+    hourCycle: "h23",
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+  }).formatToParts(at);
+
+  const get = (type: Intl.DateTimeFormatPartTypes) => Number(parts.find((p) => p.type === type)?.value ?? 0);
+  return { year: get("year"), month: get("month"), day: get("day"), hour: get("hour"), minute: get("minute") };
+}
+
+/** The family's calendar date ("YYYY-MM-DD") of an instant, now by default. */
+export function familyDate(at = new Date(), zone = familyTimeZone()): string {
+  const { year, month, day } = wallClock(at, zone);
+  return `${year}-${String(month).padStart(2, "0")}-${String(day).padStart(2, "0")}`;
+}
+
+/** Today's date in the family's zone, matching FamilyClock.Today on the server. */
+export function familyToday(): string {
+  return familyDate();
+}
+
+// Minutes the zone is ahead of UTC at that instant
+function offsetMinutes(at: Date, zone: string): number {
+  const w = wallClock(at, zone);
+  const asUtc = Date.UTC(w.year, w.month - 1, w.day, w.hour, w.minute);
+  return Math.round((asUtc - Math.floor(at.getTime() / 60_000) * 60_000) / 60_000);
+}
+
+/** `minutes` into `day` ("YYYY-MM-DD") on the family's clock, as an instant. */
+export function familyTimeToDate(day: string, minutes: number, zone = familyTimeZone()): Date {
+  const wall = Date.parse(`${day}T00:00:00Z`) + minutes * 60_000;
+
+  // Second pass: the offset can differ on the far side of a DST change
+  const guess = wall - offsetMinutes(new Date(wall), zone) * 60_000;
+  return new Date(wall - offsetMinutes(new Date(guess), zone) * 60_000);
+}
+
+/** Zones to pick from in Settings (every IANA zone where the browser can list them). */
+export function timeZoneOptions(): string[] {
+  const supportedValuesOf = (Intl as { supportedValuesOf?: (key: string) => string[] }).supportedValuesOf;
+  const zones = supportedValuesOf ? supportedValuesOf("timeZone") : [];
+  return zones.length > 0 ? zones : Array.from(new Set([browserTimeZone(), "UTC"]));
+}
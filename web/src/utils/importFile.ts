@@ -0,0 +1,136 @@
+import type { ImportRequest, ImportRewardRow, ImportTaskRow } from "../types";
+
+// ============================================================
+// importFile.ts
+// - Reads a bulk import file (CSV or JSON) into rows for POST /import
+// - Only the file format is checked here; the API validates every value
+//   (kid names, points, schedules) and reports errors per row
+//
+// CSV: one header row, columns in any order:
+//   type,name,points,kid,schedule,start
+//   type = task | reward; for rewards "points" is the cost
+// JSON:
+//   { "tasks": [{ "title", "points", "kid", "schedule", "start" }],
+//     "rewards": [{ "name", "cost" }] }
+// ============================================================
+
+export const IMPORT_TEMPLATE_CSV = [
+  "type,name,points,kid,schedule,start",
+  "task,Brush teeth,5,Emma,daily,",
+  "task,Take out trash,10,Liam,mon wed fri,",
+  "task,Clean room,20,Emma,weekly,2026-01-03",
+  "task,Science project,50,Liam,once,",
+  "reward,Ice cream,30,,,",
+  "reward,Movie night,100,,,",
+].join("\n");
+
+/** RFC 4180-style CSV: quoted fields, "" escapes, CRLF or LF line ends. */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+
+    if (quoted) {
+      if (ch === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (ch === '"') {
+        quoted = false;
+      } else {
+        field += ch;
+      }
+      continue;
+    }
+
+    if (ch === '"') quoted = true;
+    else if (ch === ",") {
+      row.push(field);
+      field = "";
+    } else if (ch === "\n" || ch === "\r") {
+      if (ch === "\r" && text[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else field += ch;
+  }
+
+  if (field !== "" || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  // Blank lines don't count as rows
+  return rows.filter((r) => r.some((cell) => cell.trim() !== ""));
+}
+
+const text = (value: unknown) => (value === null || value === undefined ? "" : String(value).trim());
+
+function fromCsv(content: string): ImportRequest {
+  const [header, ...rows] = parseCsv(content);
+  if (!header) throw new Error("The file is empty.");
+
+  const columns = header.map((h) => h.trim().toLowerCase());
+  const col = (name: string) => columns.indexOf(name);
+  for (const required of ["type", "name", "points"]) {
+    if (col(required) < 0) throw new Error(`Missing column "${required}". Download the template to see the layout.`);
+  }
+
+  const cell = (row: string[], name: string) => (col(name) >= 0 ? text(row[col(name)]) : "");
+  const tasks: ImportTaskRow[] = [];
+  const rewards: ImportRewardRow[] = [];
+
+  rows.forEach((row, i) => {
+    const type = cell(row, "type").toLowerCase();
+    if (type === "task") {
+      tasks.push({
+        title: cell(row, "name"),
+        points: cell(row, "points"),
+        kid: cell(row, "kid"),
+        schedule: cell(row, "schedule"),
+        start: cell(row, "start"),
+      });
+    } else if (type === "reward") {
+      rewards.push({ name: cell(row, "name"), cost: cell(row, "points") });
+    } else {
+      throw new Error(`Line ${i + 2}: type must be "task" or "reward".`);
+    }
+  });
+
+  return { tasks, rewards };
+}
+
+function fromJson(content: string): ImportRequest {
+  let data: any;
+  try {
+    data = JSON.parse(content);
+  } catch {
+    throw new Error("The file isn't valid JSON.");
+  }
+
+  if (!data || typeof data !== "object" || (!Array.isArray(data.tasks) && !Array.isArray(data.rewards))) {
+    throw new Error('JSON must look like { "tasks": [...], "rewards": [...] }.');
+  }
+
+  return {
+    tasks: (data.tasks ?? []).map((t: any) => ({
+      title: text(t?.title),
+      points: text(t?.points),
+      kid: text(t?.kid),
+      schedule: text(t?.schedule),
+      start: text(t?.start),
+    })),
+    rewards: (data.rewards ?? []).map((r: any) => ({ name: text(r?.name), cost: text(r?.cost) })),
+  };
+}
+
+/** Picks the parser from the file name (.json), otherwise CSV. Throws with a readable message. */
+export function parseImportFile(fileName: string, content: string): ImportRequest {
+  // Excel likes to save CSV with a BOM
+  const body = content.replace(/^\uFEFF/, "");
+  return fileName.toLowerCase().endsWith(".json") ? fromJson(body) : fromCsv(body);
+}
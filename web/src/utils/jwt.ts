@@ -0,0 +1,41 @@
+// ============================================================
+// jwt.ts
+// - Reads the payload of our API tokens on the client (no signature check;
+//   the server still validates every request)
+// - Used to drop expired tokens on startup and to warn before expiry
+// ============================================================
+
+type JwtPayload = {
+  exp?: number; // seconds since epoch
+  [claim: string]: unknown;
+};
+
+/** Decoded payload, or null if the token isn't a readable JWT. */
+export function decodeJwtPayload(token: string): JwtPayload | null {
+  const part = token.split(".")[1];
+  if (!part) return null;
+
+  try {
+    // base64url -> base64 (+ padding) before atob
+    const base64 = part.replace(/-/g, "+").replace(/_/g, "/");
+    const padded = base64 + "=".repeat((4 - (base64.length % 4)) % 4);
+    return JSON.parse(atob(padded)) as JwtPayload;
+  } catch {
+    return null;
+  }
+}
+
+/** Expiry time in ms since epoch, or null when the token has no exp claim. */
+export function getTokenExpiry(token: string): number | null {
+  const exp = decodeJwtPayload(token)?.exp;
+  return typeof exp === "number" ? exp * 1000 : null;
+}
+
+/** True when the token is expired (or will be within skewMs). Unreadable tokens count as expired. */
+export function isTokenExpired(token: string | null | undefined, skewMs = 0): boolean {
+  if (!token) return true;
+  if (!decodeJwtPayload(token)) return true;
+
+  const expiry = getTokenExpiry(token);
+  return expiry !== null && expiry - skewMs <= Date.now();
+}
@@ -0,0 +1,34 @@
+// ============================================================
+// kidLoginPictures.ts
+// - Pictures for the kid "picture password" (client-side mirror of
+//   kidLoginPictures in api/Program.cs; the API only sees the keys)
+// - A password is PICTURE_PASSWORD_LENGTH keys joined with "-",
+//   e.g. "cat-sun-sun-car"
+// ============================================================
+
+export type LoginPicture = { key: string; emoji: string; label: string };
+
+export const LOGIN_PICTURES: LoginPicture[] = [
+  { key: "cat", emoji: "🐱", label: "Cat" },
+  { key: "dog", emoji: "🐶", label: "Dog" },
+  { key: "fish", emoji: "🐟", label: "Fish" },
+  { key: "bird", emoji: "🐦", label: "Bird" },
+  { key: "sun", emoji: "☀️", label: "Sun" },
+  { key: "moon", emoji: "🌙", label: "Moon" },
+  { key: "star", emoji: "⭐", label: "Star" },
+  { key: "tree", emoji: "🌳", label: "Tree" },
+  { key: "car", emoji: "🚗", label: "Car" },
+];
+
+export const PICTURE_PASSWORD_LENGTH = 4;
+
+export const KID_PIN_LENGTH = 4;
+
+/** Picture keys -> the secret string the API expects. */
+export function toPictureSecret(keys: string[]): string {
+  return keys.join("-");
+}
+
+export function pictureEmoji(key: string): string {
+  return LOGIN_PICTURES.find((p) => p.key === key)?.emoji ?? "?";
+}
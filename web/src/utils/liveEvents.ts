@@ -0,0 +1,193 @@
+import { API_URL, renewToken, storedToken } from "../api";
+import type { FamilyEvent } from "../types";
+
+// ============================================================
+// liveEvents.ts
+// - One shared GET /events stream for the whole app, open while at least
+//   one screen listens (subscribeFamilyEvents)
+// - fetch + a stream reader instead of EventSource: EventSource can't send
+//   the Authorization header, and tokens don't belong in URLs
+// - Reconnects with exponential backoff (1s -> 30s, with jitter); right
+//   away when the browser comes back online or the server ends the stream
+//   (it does at token expiry). A 401 goes through the normal token refresh
+// - Switching Kid Mode / Parent Mode changes the stored token: the stream
+//   notices on the next message or heartbeat and reconnects with it
+// ============================================================
+
+type Listener = (event: FamilyEvent) => void;
+
+const BACKOFF_START_MS = 1_000;
+const BACKOFF_MAX_MS = 30_000;
+
+const listeners = new Set<Listener>();
+let controller: AbortController | null = null;
+let retryTimer: number | null = null;
+let attempt = 0;
+
+/** Calls listener for every event of the caller's family; returns the unsubscribe function. */
+export function subscribeFamilyEvents(listener: Listener): () => void {
+  listeners.add(listener);
+  if (listeners.size === 1) start();
+
+  return () => {
+    listeners.delete(listener);
+    if (listeners.size === 0) stop();
+  };
+}
+
+/**
+ * Bursts (one approval = task + points events) -> one call with all of them.
+ * Returns the listener to subscribe plus cancel() for the effect cleanup.
+ */
+export function batchEvents(handler: (events: FamilyEvent[]) => void, waitMs = 300) {
+  let queued: FamilyEvent[] = [];
+  let timer: number | null = null;
+
+  return {
+    listener: (event: FamilyEvent) => {
+      queued.push(event);
+      if (timer !== null) return;
+
+      timer = window.setTimeout(() => {
+        const events = queued;
+        queued = [];
+        timer = null;
+        handler(events);
+      }, waitMs);
+    },
+    cancel: () => {
+      if (timer !== null) window.clearTimeout(timer);
+      timer = null;
+      queued = [];
+    },
+  };
+}
+
+function start() {
+  window.addEventListener("online", reconnectNow);
+  void connect();
+}
+
+function stop() {
+  window.removeEventListener("online", reconnectNow);
+  clearRetry();
+  controller?.abort();
+  controller = null;
+  attempt = 0;
+}
+
+function reconnectNow() {
+  if (listeners.size === 0) return;
+  clearRetry();
+  controller?.abort();
+  attempt = 0;
+  void connect();
+}
+
+function clearRetry() {
+  if (retryTimer !== null) window.clearTimeout(retryTimer);
+  retryTimer = null;
+}
+
+function scheduleRetry() {
+  if (listeners.size === 0 || retryTimer !== null) return;
+
+  const delay = Math.min(BACKOFF_MAX_MS, BACKOFF_START_MS * 2 ** attempt) * (0.5 + Math.random() / 2);
+  attempt++;
+
+  retryTimer = window.setTimeout(() => {
+    retryTimer = null;
+    void connect();
+  }, delay);
+}
+
+function open(token: string, signal: AbortSignal) {
+  return fetch(`${API_URL}/events`, {
+    headers: { Authorization: `Bearer ${token}`, Accept: "text/event-stream" },
+    cache: "no-store",
+    signal,
+  });
+}
+
+async function connect() {
+  const own = new AbortController();
+  controller = own;
+
+  try {
+    let token = storedToken();
+    if (!token) return scheduleRetry(); // signed out for now
+
+    let res = await open(token, own.signal);
+    if (res.status === 401) {
+      token = await renewToken(token);
+      if (!token) return scheduleRetry();
+      res = await open(token, own.signal);
+    }
+
+    if (!res.ok || !res.body) throw new Error(`Live updates: HTTP ${res.status}`);
+
+    attempt = 0;
+    await read(res.body, token, own);
+  } catch (e) {
+    if (own.signal.aborted) return; // stopped or replaced on purpose
+    console.warn("Live updates disconnected", e);
+  }
+
+  if (controller !== own) return;
+
+  // Server ended the stream (token expiry) or the network dropped
+  scheduleRetry();
+}
+
+// "event: x\ndata: {...}\n\n" blocks -> listeners (comment lines are heartbeats)
+async function read(body: ReadableStream<Uint8Array>, token: string, own: AbortController) {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  for (;;) {
+    const { value, done } = await reader.read();
+    if (done) return;
+
+    buffer += decoder.decode(value, { stream: true }).replace(/\r\n/g, "\n");
+
+    let end: number;
+    while ((end = buffer.indexOf("\n\n")) >= 0) {
+      const block = buffer.slice(0, end);
+      buffer = buffer.slice(end + 2);
+
+      const data = block
+        .split("\n")
+        .filter((line) => line.startsWith("data:"))
+        .map((line) => line.slice(5).trim())
+        .join("\n");
+      if (data) dispatch(data);
+    }
+
+    // Other role / new session: reconnect with the token now in use
+    if (storedToken() !== token) {
+      own.abort();
+      attempt = 0;
+      void connect();
+      return;
+    }
+  }
+}
+
+function dispatch(data: string) {
+  let event: FamilyEvent;
+  try {
+    event = JSON.parse(data);
+  } catch {
+    console.warn("Live updates: bad event", data);
+    return;
+  }
+
+  listeners.forEach((listener) => {
+    try {
+      listener(event);
+    } catch (e) {
+      console.error("Live updates: listener failed", e);
+    }
+  });
+}
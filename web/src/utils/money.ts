@@ -0,0 +1,35 @@
+import type { AllowanceRate } from "../types";
+
+// ============================================================
+// money.ts
+// - Allowance mode helpers: formatting cents, the exchange rate, and the
+//   points -> money preview shown before a cash out
+// - Mirrors ToAmountCents in the API (round down to the cent); the API's
+//   number is the one that gets paid
+// ============================================================
+
+/** 150, "USD" -> "$1.50" (browser locale). */
+export function formatMoney(amountCents: number, currency: string): string {
+  try {
+    return new Intl.NumberFormat(undefined, { style: "currency", currency }).format(amountCents / 100);
+  } catch {
+    // Unknown currency code: plain number + code
+    return `${(amountCents / 100).toFixed(2)} ${currency}`;
+  }
+}
+
+/** "100 pts = $1.00" */
+export function formatRate(rate: AllowanceRate): string {
+  return `${rate.points} pts = ${formatMoney(rate.amountCents, rate.currency)}`;
+}
+
+export function pointsToCents(rate: AllowanceRate, points: number): number {
+  return Math.floor((points * rate.amountCents) / rate.points);
+}
+
+/** "1.5" / "1,50" -> 150; null when it isn't a positive amount. */
+export function parseMoneyInput(value: string): number | null {
+  const amount = Number(value.trim().replace(",", "."));
+  if (!Number.isFinite(amount) || amount <= 0) return null;
+  return Math.round(amount * 100);
+}
@@ -0,0 +1,100 @@
+// ============================================================
+// offlineStore.ts
+// - Tiny IndexedDB wrapper for offline Kid Mode (no library needed)
+// - "snapshots": the last data a screen loaded (tasks, rewards, points,
+//   todos), keyed by screen + kid, shown while the network is down
+// - "outbox": actions taken while offline, replayed in order (outbox.ts)
+// - Every call fails soft: private browsing / no IndexedDB just means
+//   nothing is cached (reads return null / [])
+// ============================================================
+
+const DB_NAME = "kidsrewards.offline";
+const DB_VERSION = 1;
+const SNAPSHOTS = "snapshots";
+const OUTBOX = "outbox";
+
+export type Snapshot<T> = { value: T; savedAt: number };
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDb(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      if (typeof indexedDB === "undefined") {
+        reject(new Error("IndexedDB is not available."));
+        return;
+      }
+
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(SNAPSHOTS)) db.createObjectStore(SNAPSHOTS);
+        if (!db.objectStoreNames.contains(OUTBOX)) db.createObjectStore(OUTBOX, { keyPath: "id", autoIncrement: true });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+
+    // Let a later call try again (e.g. storage was blocked for a moment)
+    dbPromise.catch(() => (dbPromise = null));
+  }
+  return dbPromise;
+}
+
+// One request in its own transaction -> promise of the result
+async function run<T>(store: string, mode: IDBTransactionMode, op: (s: IDBObjectStore) => IDBRequest): Promise<T> {
+  const db = await openDb();
+  return new Promise<T>((resolve, reject) => {
+    const request = op(db.transaction(store, mode).objectStore(store));
+    request.onsuccess = () => resolve(request.result as T);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/* ---------- snapshots ---------- */
+
+export async function saveSnapshot<T>(key: string, value: T) {
+  try {
+    await run(SNAPSHOTS, "readwrite", (s) => s.put({ value, savedAt: Date.now() } satisfies Snapshot<T>, key));
+  } catch (e) {
+    console.warn("offlineStore: saveSnapshot failed", e);
+  }
+}
+
+export async function loadSnapshot<T>(key: string): Promise<Snapshot<T> | null> {
+  try {
+    return (await run<Snapshot<T> | undefined>(SNAPSHOTS, "readonly", (s) => s.get(key))) ?? null;
+  } catch (e) {
+    console.warn("offlineStore: loadSnapshot failed", e);
+    return null;
+  }
+}
+
+/* ---------- outbox ---------- */
+
+// id is assigned by IndexedDB (increasing -> replay order)
+export async function addToOutbox<T extends object>(item: T): Promise<number | null> {
+  try {
+    return await run<number>(OUTBOX, "readwrite", (s) => s.add(item));
+  } catch (e) {
+    console.warn("offlineStore: addToOutbox failed", e);
+    return null;
+  }
+}
+
+export async function listOutbox<T>(): Promise<T[]> {
+  try {
+    return await run<T[]>(OUTBOX, "readonly", (s) => s.getAll());
+  } catch (e) {
+    console.warn("offlineStore: listOutbox failed", e);
+    return [];
+  }
+}
+
+export async function removeFromOutbox(id: number) {
+  try {
+    await run(OUTBOX, "readwrite", (s) => s.delete(id));
+  } catch (e) {
+    console.warn("offlineStore: removeFromOutbox failed", e);
+  }
+}
@@ -0,0 +1,133 @@
+import { completeTask, setTodoDone } from "../api";
+import { addToOutbox, listOutbox, removeFromOutbox } from "./offlineStore";
+
+// ============================================================
+// outbox.ts
+// - Offline Kid Mode: task completions and todo checks made without a
+//   connection are queued (IndexedDB) and replayed, oldest first, once the
+//   network is back (OfflineIndicator drives the replays)
+// - Every action gets its Idempotency-Key BEFORE the first attempt and
+//   keeps it in the queue: if the first try reached the server but the
+//   answer got lost, the replay gets the stored answer instead of
+//   completing the task again -> points are never credited twice
+// - Task replays also send queuedAt (Queued-At header) so the server
+//   credits the day the kid tapped "done"; deadlines and late points are
+//   still judged when the replay arrives
+// - Replay stops at the first network error (still offline) or 401
+//   (signed out; kept for the next session); any other refusal (task
+//   deleted, expired, ...) drops the item and lists it in `refused`
+// - Points are not added locally: approval and late rules are the
+//   server's call, screens reload after a replay (lastSyncAt)
+// ============================================================
+
+export type OutboxAction =
+  | { kind: "completeTask"; taskId: number; kidId: string }
+  | { kind: "setTodoDone"; todoId: number; isDone: boolean };
+
+export type OutboxItem = OutboxAction & {
+  id?: number; // IndexedDB key (queue order)
+  key: string; // Idempotency-Key
+  label: string; // task / todo title, for messages
+  queuedAt: number;
+};
+
+export type OutboxState = {
+  pending: OutboxItem[];
+  syncing: boolean;
+  lastSyncAt: number | null; // set after a replay sent something
+  refused: string[]; // labels the server turned down on replay
+};
+
+type Listener = (state: OutboxState) => void;
+
+let state: OutboxState = { pending: [], syncing: false, lastSyncAt: null, refused: [] };
+const listeners = new Set<Listener>();
+
+function setState(next: Partial<OutboxState>) {
+  state = { ...state, ...next };
+  listeners.forEach((l) => l(state));
+}
+
+/** Calls listener now and on every change; returns the unsubscribe function. */
+export function subscribeOutbox(listener: Listener): () => void {
+  listeners.add(listener);
+  listener(state);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+/** Re-reads the queue from IndexedDB (e.g. after a reload). */
+export async function refreshOutbox() {
+  setState({ pending: await listOutbox<OutboxItem>() });
+}
+
+/** No response at all (offline, DNS, dropped Wi-Fi): worth queuing. */
+export function isNetworkError(e: any): boolean {
+  return !!e?.isAxiosError && !e.response && e.code !== "ERR_CANCELED";
+}
+
+/** Fresh Idempotency-Key (randomUUID needs https; LAN tablets may be on http). */
+export function newIdempotencyKey(): string {
+  if (typeof crypto !== "undefined" && typeof crypto.randomUUID === "function") return crypto.randomUUID();
+
+  const bytes = new Uint8Array(16);
+  crypto.getRandomValues(bytes);
+  return Array.from(bytes, (b) => b.toString(16).padStart(2, "0")).join("");
+}
+
+/** Queues an action that failed with a network error (same key as the failed try). */
+export async function queueAction(action: OutboxAction, label: string, key: string) {
+  await addToOutbox<OutboxItem>({ ...action, key, label, queuedAt: Date.now() });
+  await refreshOutbox();
+}
+
+export function dismissRefused() {
+  setState({ refused: [] });
+}
+
+function send(item: OutboxItem) {
+  switch (item.kind) {
+    case "completeTask":
+      return completeTask(item.taskId, item.kidId, item.key, item.queuedAt);
+    case "setTodoDone":
+      return setTodoDone(item.todoId, item.isDone, item.key);
+  }
+}
+
+/** Sends queued actions in order; safe to call any time (one run at a time). */
+export async function replayOutbox() {
+  if (state.syncing) return;
+
+  const items = await listOutbox<OutboxItem>();
+  if (items.length === 0) {
+    setState({ pending: [] });
+    return;
+  }
+
+  setState({ syncing: true, pending: items });
+
+  let sent = 0;
+  const refused: string[] = [];
+
+  for (const item of items) {
+    try {
+      await send(item);
+      sent++;
+    } catch (e: any) {
+      if (isNetworkError(e) || e?.response?.status === 401) break;
+
+      console.warn("outbox: server refused queued action", item, e?.response?.data);
+      refused.push(item.label);
+    }
+
+    await removeFromOutbox(item.id!);
+  }
+
+  setState({
+    syncing: false,
+    pending: await listOutbox<OutboxItem>(),
+    lastSyncAt: sent + refused.length > 0 ? Date.now() : state.lastSyncAt,
+    refused: [...state.refused, ...refused],
+  });
+}
@@ -0,0 +1,51 @@
+import type { Reward, RewardAvailability, RewardLimits } from "../types";
+import { parseUtc } from "./dates";
+
+// ============================================================
+// rewardLimits.ts
+// - Labels for reward limits (stock, per-kid caps, cooldown)
+// - The API enforces the limits on redeem and reports blocks through
+//   GET /kids/{kidId}/reward-availability; this only formats them
+// ============================================================
+
+export const NO_LIMITS: RewardLimits = { stock: null, maxPerDay: null, maxPerWeek: null, cooldownHours: null };
+
+export function limitsOf(reward: Reward): RewardLimits {
+  return {
+    stock: reward.stock ?? null,
+    maxPerDay: reward.maxPerDay ?? null,
+    maxPerWeek: reward.maxPerWeek ?? null,
+    cooldownHours: reward.cooldownHours ?? null,
+  };
+}
+
+/** Parent view: "3 left • 2/day • 12h cooldown" (empty when unlimited). */
+export function describeLimits(limits: RewardLimits): string {
+  const parts: string[] = [];
+  if (limits.stock !== null) parts.push(limits.stock === 0 ? "sold out" : `${limits.stock} left`);
+  if (limits.maxPerDay !== null) parts.push(`${limits.maxPerDay}/day`);
+  if (limits.maxPerWeek !== null) parts.push(`${limits.maxPerWeek}/week`);
+  if (limits.cooldownHours !== null) parts.push(`${limits.cooldownHours}h cooldown`);
+  return parts.join(" • ");
+}
+
+/** "today at 4:30 PM", "tomorrow", "Friday", or a date for anything further out. */
+export function formatAvailableAgain(value: string, now = new Date()): string {
+  const at = parseUtc(value);
+  const startOfDay = (d: Date) => new Date(d.getFullYear(), d.getMonth(), d.getDate()).getTime();
+  const days = Math.round((startOfDay(at) - startOfDay(now)) / (24 * 60 * 60 * 1000));
+
+  if (days <= 0) return `today at ${at.toLocaleTimeString(undefined, { hour: "numeric", minute: "2-digit" })}`;
+  if (days === 1) return "tomorrow";
+  if (days < 7) return at.toLocaleDateString(undefined, { weekday: "long" });
+  return at.toLocaleDateString();
+}
+
+/** Kid view: "Sold out", "Available again Friday", "3 left" or null when nothing to say. */
+export function describeAvailability(item: RewardAvailability | undefined): string | null {
+  if (!item) return null;
+  if (item.blockedCode === "OutOfStock") return "Sold out";
+  if (item.blockedCode && item.availableAgainUtc) return `Available again ${formatAvailableAgain(item.availableAgainUtc)}`;
+  if (item.blockedCode) return item.blockedMessage;
+  return item.stockLeft !== null ? `${item.stockLeft} left` : null;
+}
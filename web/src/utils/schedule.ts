@@ -0,0 +1,102 @@
+import type { TaskRecurrence } from "../types";
+
+// ============================================================
+// schedule.ts
+// - Client-side mirror of api/TaskSchedule.cs
+// - Used to preview upcoming occurrences in the task forms
+//   before the task is saved
+// - Dates are calendar days as "YYYY-MM-DD" strings (same as the API);
+//   "today" is the family's (familyClock.ts)
+// ============================================================
+
+export type Schedule = {
+  recurrence: TaskRecurrence;
+  recurrenceDays: number; // Weekdays only: Sunday = 1, Monday = 2, ... Saturday = 64
+  startDate: string; // "YYYY-MM-DD"
+};
+
+export const WEEKDAY_LABELS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+export const RECURRENCE_LABELS: Record<TaskRecurrence, string> = {
+  None: "One-time",
+  Daily: "Daily",
+  Weekdays: "Specific weekdays",
+  Weekly: "Weekly",
+  Monthly: "Monthly",
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Normalizes an API date ("2026-10-18T00:00:00") to "YYYY-MM-DD". */
+export function toDateOnly(value: string | null | undefined): string | null {
+  return value ? value.slice(0, 10) : null;
+}
+
+function parseDay(day: string): Date {
+  return new Date(`${day}T00:00:00Z`);
+}
+
+function formatDay(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+function daysInMonth(year: number, monthIndex: number): number {
+  return new Date(Date.UTC(year, monthIndex + 1, 0)).getUTCDate();
+}
+
+export function occursOn(schedule: Schedule, day: string): boolean {
+  if (schedule.recurrence === "None") return false;
+  if (day < schedule.startDate) return false;
+
+  const date = parseDay(day);
+  const start = parseDay(schedule.startDate);
+
+  switch (schedule.recurrence) {
+    case "Daily":
+      return true;
+    case "Weekdays":
+      return (schedule.recurrenceDays & (1 << date.getUTCDay())) !== 0;
+    case "Weekly":
+      return Math.round((date.getTime() - start.getTime()) / DAY_MS) % 7 === 0;
+    case "Monthly":
+      return (
+        date.getUTCDate() ===
+        Math.min(start.getUTCDate(), daysInMonth(date.getUTCFullYear(), date.getUTCMonth()))
+      );
+    default:
+      return false;
+  }
+}
+
+/** Next N scheduled days starting at (and including) `from`. */
+export function upcomingOccurrences(schedule: Schedule, from: string, count: number): string[] {
+  const result: string[] = [];
+  if (schedule.recurrence === "None") return result;
+
+  let date = parseDay(from < schedule.startDate ? schedule.startDate : from);
+
+  for (let i = 0; i < 400 && result.length < count; i++) {
+    const day = formatDay(date);
+    if (occursOn(schedule, day)) result.push(day);
+    date = new Date(date.getTime() + DAY_MS);
+  }
+
+  return result;
+}
+
+/** Short label like "Mon, Oct 19" for a "YYYY-MM-DD" day. */
+export function formatOccurrence(day: string): string {
+  return parseDay(day).toLocaleDateString(undefined, {
+    weekday: "short",
+    month: "short",
+    day: "numeric",
+    timeZone: "UTC",
+  });
+}
+
+/** Human summary of a schedule, e.g. "Mon, Wed, Fri" or "Monthly". */
+export function describeSchedule(schedule: Pick<Schedule, "recurrence" | "recurrenceDays">): string {
+  if (schedule.recurrence !== "Weekdays") return RECURRENCE_LABELS[schedule.recurrence];
+
+  return WEEKDAY_LABELS.filter((_, i) => (schedule.recurrenceDays & (1 << i)) !== 0).join(", ");
+}
@@ -0,0 +1,39 @@
+// ============================================================
+// signUpRules.ts
+// - Client-side mirror of ValidateNewParentAccount in api/Program.cs
+// - Lets the sign-up form show which rules pass while typing;
+//   the API still enforces them
+// ============================================================
+
+export type PasswordRule = {
+  label: string;
+  test: (password: string, username: string) => boolean;
+};
+
+export const USERNAME_PATTERN = /^[A-Za-z0-9._-]{3,32}$/;
+
+export const PASSWORD_RULES: PasswordRule[] = [
+  { label: "At least 8 characters", test: (p) => p.length >= 8 },
+  { label: "Contains a letter and a number", test: (p) => /[A-Za-z]/.test(p) && /\d/.test(p) },
+  {
+    label: "Doesn't contain your username",
+    test: (p, u) => !u.trim() || !p.toLowerCase().includes(u.trim().toLowerCase()),
+  },
+];
+
+export const FAMILY_NAME_MAX = 60;
+
+/** First problem with the sign-up form, or null when it can be submitted. */
+export function getSignUpError(username: string, password: string, familyName: string): string | null {
+  if (!USERNAME_PATTERN.test(username.trim()))
+    return "Username must be 3 to 32 characters: letters, numbers, '.', '_' or '-'.";
+
+  const failed = PASSWORD_RULES.find((rule) => !rule.test(password, username));
+  if (failed) return `Password: ${failed.label.toLowerCase()}.`;
+
+  if (!familyName.trim()) return "Family name is required.";
+  if (familyName.trim().length > FAMILY_NAME_MAX)
+    return `Family name must be ${FAMILY_NAME_MAX} characters or less.`;
+
+  return null;
+}
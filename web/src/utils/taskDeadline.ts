@@ -0,0 +1,116 @@
+import type { KidTask, TaskDeadline } from "../types";
+import { toDateOnly } from "./schedule";
+import { familyTimeToDate, familyToday } from "./familyClock";
+import { parseUtc } from "./dates";
+
+// ============================================================
+// taskDeadline.ts
+// - Due dates, Overdue / Due Today badges and urgency sorting for tasks
+// - Mirrors TaskSchedule.DueAt in the API: one-shot tasks use dueAtUtc,
+//   recurring ones are due dueMinutes into their current occurrence day on
+//   the family's clock (familyClock.ts)
+// - Late points and missed-task penalties are applied by the API only
+// ============================================================
+
+export type DueState = "Expired" | "Overdue" | "DueToday" | "Upcoming";
+
+export const NO_DEADLINE: TaskDeadline = {
+  dueAtUtc: null,
+  dueMinutes: null,
+  latePointsPercent: null,
+  missedPenalty: null,
+};
+
+const MINUTES_PER_DAY = 24 * 60;
+
+export function deadlineOf(task: KidTask): TaskDeadline {
+  return {
+    dueAtUtc: task.dueAtUtc ?? null,
+    dueMinutes: task.dueMinutes ?? null,
+    latePointsPercent: task.latePointsPercent ?? null,
+    missedPenalty: task.missedPenalty ?? null,
+  };
+}
+
+/** Deadline of the task's current occurrence, or null when it has none. */
+export function dueAtOf(task: KidTask): Date | null {
+  if (task.recurrence === "None") return task.dueAtUtc ? parseUtc(task.dueAtUtc) : null;
+
+  const day = toDateOnly(task.occurrenceDate);
+  if (!day || task.dueMinutes === null || task.dueMinutes === undefined) return null;
+  return familyTimeToDate(day, task.dueMinutes);
+}
+
+// Still something the kid can do (not done, not waiting for review / the next occurrence)
+function isOpen(task: KidTask): boolean {
+  if (task.isComplete || task.isPendingApproval) return false;
+  if (task.recurrence === "None") return true;
+
+  const next = toDateOnly(task.occurrenceDate);
+  return next !== null && next <= familyToday();
+}
+
+export function dueState(task: KidTask, now = new Date()): DueState | null {
+  if (task.expiredAtUtc) return "Expired";
+  if (!isOpen(task)) return null;
+
+  const due = dueAtOf(task);
+  if (!due) return null;
+  if (due < now) return "Overdue";
+  return due.toDateString() === now.toDateString() ? "DueToday" : "Upcoming";
+}
+
+const URGENCY: Record<DueState | "None", number> = {
+  Overdue: 0,
+  DueToday: 1,
+  Upcoming: 2,
+  None: 3,
+  Expired: 4,
+};
+
+/** Overdue first, then due today, upcoming (soonest first), no deadline; done/expired last. */
+export function sortByUrgency(tasks: KidTask[], now = new Date()): KidTask[] {
+  const rank = (t: KidTask) => (isOpen(t) || t.expiredAtUtc ? URGENCY[dueState(t, now) ?? "None"] : 5);
+  const dueTime = (t: KidTask) => dueAtOf(t)?.getTime() ?? Number.MAX_SAFE_INTEGER;
+
+  return [...tasks].sort((a, b) => rank(a) - rank(b) || dueTime(a) - dueTime(b));
+}
+
+/** "8:00 AM" today, otherwise "Tue, Oct 20, 8:00 AM" (local time). */
+export function formatDue(due: Date, now = new Date()): string {
+  const time = due.toLocaleTimeString(undefined, { hour: "numeric", minute: "2-digit" });
+  if (due.toDateString() === now.toDateString()) return time;
+
+  const day = due.toLocaleDateString(undefined, { weekday: "short", month: "short", day: "numeric" });
+  return `${day}, ${time}`;
+}
+
+// ------------------------------------------------------------
+// Form helpers: the due date + time of one-time tasks is entered in this
+// browser's time and stored as UTC; the due time of recurring tasks is
+// the family's wall-clock time and stored as is
+// ------------------------------------------------------------
+
+/** ISO UTC -> "YYYY-MM-DDTHH:MM" for <input type="datetime-local">. */
+export function toLocalDateTimeInput(value: string | null): string {
+  if (!value) return "";
+  const d = parseUtc(value);
+  const pad = (n: number) => String(n).padStart(2, "0");
+  return `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}T${pad(d.getHours())}:${pad(d.getMinutes())}`;
+}
+
+export function fromLocalDateTimeInput(value: string): string | null {
+  return value ? new Date(value).toISOString() : null;
+}
+
+/** Minutes into the family's day -> "HH:MM" for <input type="time">. */
+export function toTimeInput(minutes: number | null): string {
+  if (minutes === null) return "";
+  return `${String(Math.floor(minutes / 60)).padStart(2, "0")}:${String(minutes % 60).padStart(2, "0")}`;
+}
+
+export function fromTimeInput(value: string): number | null {
+  if (!value) return null;
+  const [h, m] = value.split(":").map(Number);
+  return Math.min(h * 60 + m, MINUTES_PER_DAY - 1);
+}